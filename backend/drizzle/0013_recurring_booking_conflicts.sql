@@ -0,0 +1,40 @@
+-- Permanent slot occurrences the recurring booking generator could not materialise.
+CREATE TABLE IF NOT EXISTS "recurring_booking_conflicts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"membership_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"room_id" uuid NOT NULL,
+	"booking_date" date NOT NULL,
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	"reason" text NOT NULL,
+	"conflicting_booking_id" uuid,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "recurring_booking_conflicts_occurrence_idx" ON "recurring_booking_conflicts" ("membership_id","room_id","booking_date","start_time");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "recurring_booking_conflicts" ADD CONSTRAINT "recurring_booking_conflicts_membership_id_memberships_id_fk" FOREIGN KEY ("membership_id") REFERENCES "memberships"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "recurring_booking_conflicts" ADD CONSTRAINT "recurring_booking_conflicts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "recurring_booking_conflicts" ADD CONSTRAINT "recurring_booking_conflicts_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "recurring_booking_conflicts" ADD CONSTRAINT "recurring_booking_conflicts_conflicting_booking_id_bookings_id_fk" FOREIGN KEY ("conflicting_booking_id") REFERENCES "bookings"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,43 @@
+-- Waitlist for taken room/date/time ranges; freed slots are offered to the first matching entry.
+DO $$ BEGIN
+ CREATE TYPE "waitlist_status" AS ENUM('waiting', 'offered', 'claimed', 'expired', 'cancelled');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "booking_waitlist" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"room_id" uuid NOT NULL,
+	"booking_date" date NOT NULL,
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	"status" "waitlist_status" DEFAULT 'waiting' NOT NULL,
+	"offer_token" varchar(255),
+	"offered_at" timestamp,
+	"offer_expires_at" timestamp,
+	"booking_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "booking_waitlist_offer_token_unique" UNIQUE("offer_token")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_waitlist_room_date_idx" ON "booking_waitlist" ("room_id","booking_date");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_waitlist" ADD CONSTRAINT "booking_waitlist_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_waitlist" ADD CONSTRAINT "booking_waitlist_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_waitlist" ADD CONSTRAINT "booking_waitlist_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
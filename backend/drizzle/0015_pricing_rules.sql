@@ -0,0 +1,56 @@
+-- Admin-editable rate cards replacing the hard-coded RATES in pricing.service.
+CREATE TABLE IF NOT EXISTS "pricing_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"location_id" uuid NOT NULL,
+	"room_id" uuid,
+	"effective_from" date NOT NULL,
+	"weekday_bands" jsonb NOT NULL,
+	"weekend_rate" numeric(10, 2) NOT NULL,
+	"bank_holiday_rate" numeric(10, 2),
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "bank_holidays" (
+	"date" date PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pricing_rules_lookup_idx" ON "pricing_rules" ("location_id","room_id","effective_from");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Seed the previous hard-coded rates so existing behaviour is unchanged.
+INSERT INTO "pricing_rules" ("location_id", "effective_from", "weekday_bands", "weekend_rate")
+SELECT l."id", DATE '2000-01-01',
+	'[{"startTime":"08:00","endTime":"15:00","rate":19,"label":"off_peak"},{"startTime":"15:00","endTime":"22:00","rate":23,"label":"peak"}]'::jsonb,
+	14
+FROM "locations" l
+WHERE l."name" = 'Kensington'
+	AND NOT EXISTS (SELECT 1 FROM "pricing_rules" pr WHERE pr."location_id" = l."id");
+--> statement-breakpoint
+INSERT INTO "pricing_rules" ("location_id", "effective_from", "weekday_bands", "weekend_rate")
+SELECT l."id", DATE '2000-01-01',
+	'[{"startTime":"08:00","endTime":"15:00","rate":15,"label":"off_peak"},{"startTime":"15:00","endTime":"22:00","rate":20,"label":"peak"}]'::jsonb,
+	13
+FROM "locations" l
+WHERE l."name" = 'Pimlico'
+	AND NOT EXISTS (SELECT 1 FROM "pricing_rules" pr WHERE pr."location_id" = l."id");
@@ -0,0 +1,18 @@
+-- Locations and rooms become admin-managed rows instead of a fixed enum.
+ALTER TABLE "locations" ALTER COLUMN "name" SET DATA TYPE varchar(100) USING "name"::text;
+--> statement-breakpoint
+DROP TYPE IF EXISTS "location_name";
+--> statement-breakpoint
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "address" text;
+--> statement-breakpoint
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "opening_hours" jsonb;
+--> statement-breakpoint
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "active" boolean DEFAULT true NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN IF NOT EXISTS "capacity" integer;
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN IF NOT EXISTS "amenities" jsonb DEFAULT '[]'::jsonb NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
@@ -0,0 +1,32 @@
+-- Closure calendar: whole-location closures and rooms out of service for a date range.
+CREATE TABLE IF NOT EXISTS "location_closures" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"location_id" uuid NOT NULL,
+	"room_id" uuid,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL,
+	"reason" varchar(255) NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "location_closures_date_range_check" CHECK ("end_date" >= "start_date")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "location_closures_location_dates_idx" ON "location_closures" ("location_id","start_date","end_date");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "location_closures" ADD CONSTRAINT "location_closures_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "location_closures" ADD CONSTRAINT "location_closures_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "location_closures" ADD CONSTRAINT "location_closures_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
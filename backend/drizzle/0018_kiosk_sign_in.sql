@@ -0,0 +1,53 @@
+-- Kiosk sign-in/out: registered front-desk devices, practitioner PIN/QR credentials, richer kiosk logs.
+CREATE TABLE IF NOT EXISTS "kiosk_devices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"location_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"last_seen_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "kiosk_devices_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "kiosk_credentials" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"pin_hash" varchar(64),
+	"qr_token_hash" varchar(64),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "kiosk_credentials_pin_hash_unique" UNIQUE("pin_hash"),
+	CONSTRAINT "kiosk_credentials_qr_token_hash_unique" UNIQUE("qr_token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "kiosk_logs" ADD COLUMN IF NOT EXISTS "device_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "kiosk_logs" ADD COLUMN IF NOT EXISTS "booking_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "kiosk_logs" ADD COLUMN IF NOT EXISTS "method" varchar(10);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "kiosk_logs_location_time_idx" ON "kiosk_logs" ("location_id","action_time");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "kiosk_devices" ADD CONSTRAINT "kiosk_devices_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "kiosk_credentials" ADD CONSTRAINT "kiosk_credentials_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "kiosk_logs" ADD CONSTRAINT "kiosk_logs_device_id_kiosk_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "kiosk_devices"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "kiosk_logs" ADD CONSTRAINT "kiosk_logs_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
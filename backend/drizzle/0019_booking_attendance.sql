@@ -0,0 +1,6 @@
+-- Booking completion and no-show tracking (set by the scheduled completion job).
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "completed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "no_show" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bookings_status_date_idx" ON "bookings" ("status","booking_date");
@@ -0,0 +1,43 @@
+-- Tiered cancellation policy, refund outcome on cancelled bookings, and the ledger of credit
+-- transactions each booking drew from (so refunds go back onto the original credits).
+CREATE TABLE IF NOT EXISTS "cancellation_policy_tiers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"min_notice_hours" integer NOT NULL,
+	"refund_percent" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "cancellation_policy_tiers_min_notice_hours_unique" UNIQUE("min_notice_hours"),
+	CONSTRAINT "cancellation_policy_tiers_notice_check" CHECK ("min_notice_hours" >= 0),
+	CONSTRAINT "cancellation_policy_tiers_percent_check" CHECK ("refund_percent" BETWEEN 0 AND 100)
+);
+--> statement-breakpoint
+INSERT INTO "cancellation_policy_tiers" ("min_notice_hours", "refund_percent")
+VALUES (168, 100), (24, 50), (0, 0)
+ON CONFLICT ("min_notice_hours") DO NOTHING;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "booking_credit_allocations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"credit_transaction_id" uuid NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"refunded_amount" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_credit_allocations_booking_id_idx" ON "booking_credit_allocations" ("booking_id");
+--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "refund_amount" numeric(10, 2);
+--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "cancellation_fee_waived" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_credit_allocations" ADD CONSTRAINT "booking_credit_allocations_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_credit_allocations" ADD CONSTRAINT "booking_credit_allocations_credit_transaction_id_credit_transactions_id_fk" FOREIGN KEY ("credit_transaction_id") REFERENCES "credit_transactions"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
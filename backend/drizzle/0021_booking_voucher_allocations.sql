@@ -0,0 +1,24 @@
+-- Ledger of free booking voucher hours each booking drew from, so cancellations and shorter
+-- bookings give the hours back to the same vouchers (with their original expiry).
+CREATE TABLE IF NOT EXISTS "booking_voucher_allocations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"voucher_id" uuid NOT NULL,
+	"hours" numeric(10, 2) NOT NULL,
+	"refunded_hours" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_voucher_allocations_booking_id_idx" ON "booking_voucher_allocations" ("booking_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_voucher_allocations" ADD CONSTRAINT "booking_voucher_allocations_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_voucher_allocations" ADD CONSTRAINT "booking_voucher_allocations_voucher_id_free_booking_vouchers_id_fk" FOREIGN KEY ("voucher_id") REFERENCES "free_booking_vouchers"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,35 @@
+-- Stripe payments made for a booking (pay the difference) and any card refund issued for them.
+DO $$ BEGIN
+ CREATE TYPE "payment_refund_status" AS ENUM('pending', 'succeeded', 'failed');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "booking_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"stripe_payment_intent_id" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"credit_transaction_id" uuid,
+	"refund_amount" numeric(10, 2),
+	"refund_status" "payment_refund_status",
+	"stripe_refund_id" text,
+	"refunded_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "booking_payments_stripe_payment_intent_id_unique" UNIQUE("stripe_payment_intent_id")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_payments_booking_id_idx" ON "booking_payments" ("booking_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_credit_transaction_id_credit_transactions_id_fk" FOREIGN KEY ("credit_transaction_id") REFERENCES "credit_transactions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
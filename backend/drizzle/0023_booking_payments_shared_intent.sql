@@ -0,0 +1,4 @@
+-- One PaymentIntent can now pay for several bookings (batch booking); unique per booking instead.
+ALTER TABLE "booking_payments" DROP CONSTRAINT IF EXISTS "booking_payments_stripe_payment_intent_id_unique";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "booking_payments_intent_booking_idx" ON "booking_payments" ("stripe_payment_intent_id","booking_id");
@@ -0,0 +1,28 @@
+-- Temporary reservation of a room slot while a pay-the-difference checkout is in progress.
+CREATE TABLE IF NOT EXISTS "slot_holds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"room_id" uuid NOT NULL,
+	"booking_date" date NOT NULL,
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	"stripe_payment_intent_id" text,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "slot_holds_room_date_idx" ON "slot_holds" ("room_id","booking_date");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "slot_holds_payment_intent_idx" ON "slot_holds" ("stripe_payment_intent_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
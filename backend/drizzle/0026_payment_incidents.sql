@@ -0,0 +1,45 @@
+-- Pay-the-difference payments whose booking could not be made, and how the money was returned.
+DO $$ BEGIN
+ CREATE TYPE "refund_method" AS ENUM('card', 'credit');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "payment_incident_resolution" AS ENUM('pending', 'refunded', 'credited', 'refund_failed');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "refund_preference" "refund_method" DEFAULT 'card' NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "payment_incidents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"stripe_payment_intent_id" text NOT NULL,
+	"payment_type" varchar(50) NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"reason" text NOT NULL,
+	"slots" jsonb NOT NULL,
+	"resolution" "payment_incident_resolution" DEFAULT 'pending' NOT NULL,
+	"stripe_refund_id" text,
+	"credit_transaction_id" uuid,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_incidents_stripe_payment_intent_id_unique" UNIQUE("stripe_payment_intent_id")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payment_incidents_created_at_idx" ON "payment_incidents" ("created_at");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payment_incidents" ADD CONSTRAINT "payment_incidents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payment_incidents" ADD CONSTRAINT "payment_incidents_credit_transaction_id_credit_transactions_id_fk" FOREIGN KEY ("credit_transaction_id") REFERENCES "credit_transactions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,40 @@
+-- Confirmed bookings for the same room cannot overlap, even when two requests pass the
+-- availability check at the same time. Existing overlaps must be resolved before this runs: the
+-- pre-check below stops the migration and names the overlapping pairs. To list them yourself:
+--
+--   SELECT a.id AS booking_id, b.id AS overlapping_booking_id, a.room_id, a.booking_date,
+--          a.start_time, a.end_time, b.start_time AS other_start_time, b.end_time AS other_end_time
+--   FROM bookings a
+--   JOIN bookings b ON b.room_id = a.room_id AND b.booking_date = a.booking_date AND a.id < b.id
+--    AND b.start_time < a.end_time AND a.start_time < b.end_time
+--   WHERE a.status = 'confirmed' AND b.status = 'confirmed'
+--   ORDER BY a.booking_date, a.room_id, a.start_time;
+--
+-- Cancel one booking of each pair (refunding its credits as for any cancellation), then re-run.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+--> statement-breakpoint
+DO $$
+DECLARE
+ overlap_count integer;
+ overlap_list text;
+BEGIN
+ IF EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bookings_no_overlapping_confirmed') THEN
+  RETURN;
+ END IF;
+ SELECT count(*), string_agg(format('%s / %s (room %s, %s)', a.id, b.id, a.room_id, a.booking_date), E'\n')
+ INTO overlap_count, overlap_list
+ FROM bookings a
+ JOIN bookings b ON b.room_id = a.room_id AND b.booking_date = a.booking_date AND a.id < b.id
+  AND b.start_time < a.end_time AND a.start_time < b.end_time
+ WHERE a.status = 'confirmed' AND b.status = 'confirmed';
+ IF overlap_count > 0 THEN
+  RAISE EXCEPTION '% pair(s) of confirmed bookings overlap; cancel one booking of each pair before adding bookings_no_overlapping_confirmed', overlap_count
+   USING DETAIL = overlap_list;
+ END IF;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bookings" ADD CONSTRAINT "bookings_no_overlapping_confirmed" EXCLUDE USING gist ("room_id" WITH =, tsrange("booking_date" + "start_time", "booking_date" + "end_time", '[)') WITH &&) WHERE ("status" = 'confirmed');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,32 @@
+-- Audit trail of booking changes: who created, moved or cancelled a booking, and what changed.
+DO $$ BEGIN
+ CREATE TYPE "booking_event_type" AS ENUM('created', 'updated', 'cancelled');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "booking_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"actor_user_id" uuid,
+	"event_type" "booking_event_type" NOT NULL,
+	"before" jsonb,
+	"after" jsonb,
+	"price_delta" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"credit_delta" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_events_booking_created_idx" ON "booking_events" ("booking_id","created_at");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_actor_user_id_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
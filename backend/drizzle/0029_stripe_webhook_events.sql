@@ -0,0 +1,21 @@
+-- Stripe webhook events, stored on receipt so redeliveries are deduplicated across restarts and
+-- instances, and failed or unhandled events can be inspected and replayed.
+DO $$ BEGIN
+ CREATE TYPE "stripe_webhook_event_status" AS ENUM('processing', 'processed', 'failed', 'unhandled');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stripe_webhook_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "stripe_webhook_event_status" DEFAULT 'processing' NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"last_error" text,
+	"processed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stripe_webhook_events_status_created_idx" ON "stripe_webhook_events" ("status","created_at");
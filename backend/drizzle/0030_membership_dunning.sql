@@ -0,0 +1,9 @@
+-- Dunning for failed monthly subscription payments: when the current run of failures started,
+-- how many reminders have gone out, where to update the card, and whether it led to suspension.
+ALTER TABLE "memberships" ADD COLUMN IF NOT EXISTS "payment_failed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "memberships" ADD COLUMN IF NOT EXISTS "payment_reminders_sent" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "memberships" ADD COLUMN IF NOT EXISTS "payment_update_url" text;
+--> statement-breakpoint
+ALTER TABLE "memberships" ADD COLUMN IF NOT EXISTS "dunning_suspended_at" timestamp;
@@ -0,0 +1,2 @@
+-- Last known Stripe status of the monthly subscription (active, past_due, unpaid, paused, canceled).
+ALTER TABLE "memberships" ADD COLUMN IF NOT EXISTS "stripe_subscription_status" varchar(50);
@@ -0,0 +1,46 @@
+-- Self-service cancellation (at period end) and pause of monthly subscriptions, with the bookings
+-- each request affects flagged for admins, who can approve or override it.
+DO $$ BEGIN
+ CREATE TYPE "subscription_change_kind" AS ENUM('cancel', 'pause');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "subscription_change_status" AS ENUM('pending', 'applied', 'rejected', 'reverted');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "subscription_change_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"kind" "subscription_change_kind" NOT NULL,
+	"status" "subscription_change_status" DEFAULT 'pending' NOT NULL,
+	"effective_date" date NOT NULL,
+	"resume_date" date,
+	"flagged_booking_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp,
+	"admin_note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "subscription_change_requests_user_status_idx" ON "subscription_change_requests" ("user_id","status");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "subscription_change_requests" ADD CONSTRAINT "subscription_change_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "subscription_change_requests" ADD CONSTRAINT "subscription_change_requests_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "memberships" ADD COLUMN IF NOT EXISTS "paused_from" date;
+--> statement-breakpoint
+ALTER TABLE "memberships" ADD COLUMN IF NOT EXISTS "paused_until" date;
@@ -0,0 +1,36 @@
+-- One row per membership type or plan change: plan switches between ad-hoc and monthly (with what
+-- was charged and the unused credit carried over) and admin edits.
+DO $$ BEGIN
+ CREATE TYPE "membership_change_source" AS ENUM('plan_switch', 'admin_edit');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "membership_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"source" "membership_change_source" NOT NULL,
+	"from_type" "membership_type",
+	"to_type" "membership_type",
+	"from_subscription_type" "subscription_type",
+	"to_subscription_type" "subscription_type",
+	"amount_charged" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"credit_carried" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"changed_by" uuid,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "membership_history_user_created_idx" ON "membership_history" ("user_id","created_at");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "membership_history" ADD CONSTRAINT "membership_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "membership_history" ADD CONSTRAINT "membership_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,11 @@
+-- An open waitlist offer holds its slot like a checkout does; the hold is tied to the waitlist
+-- entry so it can be released when the offer is claimed or given up.
+ALTER TABLE "slot_holds" ADD COLUMN IF NOT EXISTS "waitlist_entry_id" uuid;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "slot_holds_waitlist_entry_idx" ON "slot_holds" ("waitlist_entry_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_waitlist_entry_id_booking_waitlist_id_fk" FOREIGN KEY ("waitlist_entry_id") REFERENCES "booking_waitlist"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,5 @@
+-- Failed PIN/QR attempts per kiosk device, kept in the database so the throttle holds across
+-- server instances and restarts: the count within the current window and when the window began.
+ALTER TABLE "kiosk_devices" ADD COLUMN IF NOT EXISTS "failed_attempts" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "kiosk_devices" ADD COLUMN IF NOT EXISTS "failed_attempts_since" timestamp;
@@ -0,0 +1,58 @@
+-- Plan switches awaiting payment. The old plan's credit carried towards the new plan's first
+-- payment is taken when the switch starts (plan_switch_credit_allocations records where from), so
+-- it cannot be spent twice; it is given back if the switch is released unpaid. A practitioner
+-- has at most one pending switch.
+DO $$ BEGIN
+ CREATE TYPE "plan_switch_status" AS ENUM('pending', 'completed', 'released');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "plan_switches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"from_plan" "subscription_type" NOT NULL,
+	"to_plan" "subscription_type" NOT NULL,
+	"status" "plan_switch_status" DEFAULT 'pending' NOT NULL,
+	"carried_credit" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"amount_due" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"stripe_checkout_session_id" text,
+	"stripe_payment_intent_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "plan_switches_user_pending_idx" ON "plan_switches" ("user_id") WHERE "status" = 'pending';
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "plan_switches_checkout_session_idx" ON "plan_switches" ("stripe_checkout_session_id");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "plan_switches_payment_intent_idx" ON "plan_switches" ("stripe_payment_intent_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "plan_switches" ADD CONSTRAINT "plan_switches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "plan_switch_credit_allocations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"plan_switch_id" uuid NOT NULL,
+	"credit_transaction_id" uuid NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "plan_switch_credit_allocations_switch_id_idx" ON "plan_switch_credit_allocations" ("plan_switch_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "plan_switch_credit_allocations" ADD CONSTRAINT "plan_switch_credit_allocations_plan_switch_id_plan_switches_id_fk" FOREIGN KEY ("plan_switch_id") REFERENCES "plan_switches"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "plan_switch_credit_allocations" ADD CONSTRAINT "plan_switch_credit_allocations_credit_transaction_id_credit_transactions_id_fk" FOREIGN KEY ("credit_transaction_id") REFERENCES "credit_transactions"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -10,6 +10,7 @@ import practitionerRoutes from './routes/practitioner.routes';
 import adminRoutes from './routes/admin.routes';
 import cronRoutes from './routes/cron.routes';
 import stripeWebhookRoutes from './routes/stripe-webhook.routes';
+import kioskRoutes from './routes/kiosk.routes';
 import { errorHandler } from './middleware/error.middleware';
 import cron from 'node-cron';
 import { cronController } from './controllers/cron.controller';
@@ -91,6 +92,7 @@ app.use('/api/auth', authRoutes);
 app.use('/api/practitioner', practitionerRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/admin/cron', cronRoutes);
+app.use('/api/kiosk', kioskRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -117,20 +119,46 @@ if (process.env.NODE_ENV === 'production' && !process.env.VERCEL) {
         try {
           const docResult = await cronController.processRemindersInternal();
           const bookingResult = await cronController.processBookingRemindersInternal();
+          const dunningResult = await cronController.processDunningInternal();
           const suspensionResult = await cronController.processSuspensionInternal();
+          const permanentResult = await cronController.processPermanentBookingsInternal();
+          const planSwitchResult = await cronController.processPlanSwitchesInternal();
           console.log('✅ Cron job executed successfully:', {
             documentReminders: docResult,
             bookingReminders: bookingResult,
+            dunning: dunningResult,
             suspension: suspensionResult,
+            permanentBookings: permanentResult,
+            planSwitches: planSwitchResult,
           });
         } catch (error) {
           console.error('❌ Cron job error:', error);
         }
       });
 
+      // Waitlist offers are time-limited (hours), so expire and re-offer them frequently
+      cron.schedule('*/15 * * * *', async () => {
+        try {
+          await cronController.processWaitlistOffersInternal();
+        } catch (error) {
+          console.error('❌ Waitlist cron job error:', error);
+        }
+      });
+
+      // Bookings end throughout the day, so complete them (and flag no-shows) hourly
+      cron.schedule('5 * * * *', async () => {
+        try {
+          await cronController.processBookingCompletionInternal();
+        } catch (error) {
+          console.error('❌ Booking completion cron job error:', error);
+        }
+      });
+
       console.log(
-        '✅ node-cron scheduled for reminder + suspension (document + 48h booking + suspension, daily at midnight)'
+        '✅ node-cron scheduled for reminder + suspension (document + 48h booking + suspension + permanent bookings, daily at midnight)'
       );
+      console.log('✅ node-cron scheduled for waitlist offer expiry (every 15 minutes)');
+      console.log('✅ node-cron scheduled for booking completion / no-shows (hourly)');
     } catch (error) {
       console.error('❌ Failed to setup node-cron:', error);
     }
@@ -15,6 +15,7 @@ import {
   passwordResets,
   emailChangeRequests,
   rooms,
+  locations,
 } from '../db/schema';
 import { eq, and, or, not, ilike, aliasedTable, isNull, sql, SQL, count, gte, lte, lt, desc } from 'drizzle-orm';
 import { logger } from '../utils/logger.util';
@@ -27,12 +28,25 @@ import { calculateExpiryStatus } from '../utils/date.util';
 import { CreditService } from '../services/credit.service';
 import { VoucherService } from '../services/voucher.service';
 import { getRevenueForMonthGbp } from '../services/stripe-payment.service';
+import * as PermanentScheduleService from '../services/permanent-schedule.service';
+import * as OpeningHoursService from '../services/opening-hours.service';
+import * as BookingCompletionService from '../services/booking-completion.service';
+import * as BookingService from '../services/booking.service';
+import * as MembershipHistoryService from '../services/membership-history.service';
+import { BookingServiceError } from '../errors/booking.errors';
+import { SubscriptionServiceError } from '../errors/subscription.errors';
 
 const updateMembershipSchema = z.object({
   type: z.enum(['permanent', 'ad_hoc']).nullable().optional(),
   marketingAddon: z.boolean().optional(),
 });
 
+const updatePermanentScheduleSchema = z.object({
+  schedule: PermanentScheduleService.permanentScheduleSchema,
+});
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 const updatePractitionerSchema = z.object({
   firstName: z.string().min(1, 'First name is required').trim().optional(),
   lastName: z.string().min(1, 'Last name is required').trim().optional(),
@@ -69,9 +83,6 @@ const referenceConfirmSchema = z.object({
   oldDocumentId: z.string().uuid().optional(),
 });
 
-/** Operating hours 08:00–22:00 = 14h per room per day for occupancy capacity. */
-const DAILY_OPERATING_HOURS = 14;
-
 export class AdminController {
   async getPractitioners(req: AuthRequest, res: Response) {
     try {
@@ -216,25 +227,22 @@ export class AdminController {
         })
         .from(memberships);
 
-      // Occupancy: booked slot-hours vs total slot capacity in date range (08:00–22:00 = 14h per room per day)
-      const [roomCountRow] = await db
-        .select({ count: count() })
-        .from(rooms)
-        .where(eq(rooms.active, true));
-      const roomCount = roomCountRow?.count || 0;
-
-      const fromDateObj = new Date(fromDate + 'T12:00:00Z');
-      const toDateObj = new Date(toDate + 'T12:00:00Z');
-      const daysInRange =
-        Math.max(0, Math.ceil((toDateObj.getTime() - fromDateObj.getTime()) / (24 * 60 * 60 * 1000)) + 1);
-      const totalSlotHours = daysInRange * roomCount * DAILY_OPERATING_HOURS;
+      // Occupancy: booked hours vs bookable room-hours in the date range (each location's opening
+      // hours, less closures), per active location and overall
+      const locationRows = await db
+        .select({ id: locations.id, name: locations.name })
+        .from(locations)
+        .where(eq(locations.active, true))
+        .orderBy(locations.name);
 
       const confirmedBookingsInRange = await db
         .select({
           startTime: bookings.startTime,
           endTime: bookings.endTime,
+          locationId: rooms.locationId,
         })
         .from(bookings)
+        .innerJoin(rooms, eq(bookings.roomId, rooms.id))
         .where(
           and(
             or(eq(bookings.status, 'confirmed'), eq(bookings.status, 'completed')),
@@ -243,7 +251,7 @@ export class AdminController {
           )
         );
 
-      let bookedHours = 0;
+      const bookedHoursByLocation = new Map<string, number>();
       for (const b of confirmedBookingsInRange) {
         const startTime = String(b.startTime);
         const endTime = String(b.endTime);
@@ -252,10 +260,42 @@ export class AdminController {
         const startMins = sh * 60 + (sm || 0);
         const endMins = eh * 60 + (em || 0);
         const durationMins = (endMins - startMins + 24 * 60) % (24 * 60);
-        bookedHours += durationMins / 60;
+        bookedHoursByLocation.set(
+          b.locationId,
+          (bookedHoursByLocation.get(b.locationId) ?? 0) + durationMins / 60
+        );
+      }
+
+      const toPercent = (booked: number, capacity: number) =>
+        capacity > 0 ? Math.min(100, Math.round((booked / capacity) * 100 * 100) / 100) : 0;
+
+      let totalSlotHours = 0;
+      let bookedHours = 0;
+      const occupancyByLocation: Array<{
+        locationId: string;
+        locationName: string;
+        totalSlotHours: number;
+        bookedHours: number;
+        occupancyPercent: number;
+      }> = [];
+      for (const loc of locationRows) {
+        const locationSlotHours = await OpeningHoursService.getCapacityHours(
+          loc.id,
+          fromDate,
+          toDate
+        );
+        const locationBookedHours = bookedHoursByLocation.get(loc.id) ?? 0;
+        totalSlotHours += locationSlotHours;
+        bookedHours += locationBookedHours;
+        occupancyByLocation.push({
+          locationId: loc.id,
+          locationName: loc.name,
+          totalSlotHours: locationSlotHours,
+          bookedHours: Math.round(locationBookedHours * 100) / 100,
+          occupancyPercent: toPercent(locationBookedHours, locationSlotHours),
+        });
       }
-      const occupancyPercent =
-        totalSlotHours > 0 ? Math.min(100, Math.round((bookedHours / totalSlotHours) * 100 * 100) / 100) : 0;
+      const occupancyPercent = toPercent(bookedHours, totalSlotHours);
 
       // Revenue: current month only — Stripe (from API) + booking total_price (confirmed/completed)
       const stripeRevenue = await getRevenueForMonthGbp({
@@ -290,6 +330,7 @@ export class AdminController {
             totalSlotHours,
             bookedHours: Math.round(bookedHours * 100) / 100,
             occupancyPercent,
+            byLocation: occupancyByLocation,
           },
           revenueCurrentMonthGbp: Math.round(revenueCurrentMonthGbp * 100) / 100,
         },
@@ -400,6 +441,7 @@ export class AdminController {
           membershipId: memberships.id,
           membershipType: memberships.type,
           marketingAddon: memberships.marketingAddon,
+          permanentSchedule: memberships.permanentSchedule,
         })
         .from(users)
         .leftJoin(memberships, eq(users.id, memberships.userId))
@@ -425,6 +467,8 @@ export class AdminController {
         .where(eq(clinicalExecutors.userId, userId))
         .limit(1);
 
+      const noShowCount = await BookingCompletionService.getNoShowCount(userId);
+
       res.status(200).json({
         success: true,
         data: {
@@ -443,6 +487,10 @@ export class AdminController {
               id: practitioner.membershipId,
               type: practitioner.membershipType,
               marketingAddon: practitioner.marketingAddon,
+              permanentSchedule: PermanentScheduleService.parsePermanentSchedule(
+                practitioner.permanentSchedule,
+                practitioner.membershipId ?? undefined
+              ),
             }
             : null,
           documents: await Promise.all(userDocuments.map(async (doc) => ({
@@ -461,6 +509,7 @@ export class AdminController {
               phone: executorResult[0].phone,
             }
             : null,
+          noShowCount,
         },
       });
     } catch (error: unknown) {
@@ -867,6 +916,14 @@ export class AdminController {
       // Handle membership deletion (type: null)
       if (data.type === null && currentMembership) {
         await db.delete(memberships).where(eq(memberships.id, currentMembership.id));
+        await MembershipHistoryService.recordMembershipChange({
+          userId,
+          source: 'admin_edit',
+          fromType: currentMembership.type,
+          toType: null,
+          fromSubscriptionType: currentMembership.subscriptionType,
+          changedBy: req.user.id,
+        });
         return res.status(200).json({
           success: true,
           data: null,
@@ -920,6 +977,17 @@ export class AdminController {
 
         // Use the returned row from the update
         const updatedMembership = updatedRows[0];
+        if (updatedMembership.type !== currentMembership.type) {
+          await MembershipHistoryService.recordMembershipChange({
+            userId,
+            source: 'admin_edit',
+            fromType: currentMembership.type,
+            toType: updatedMembership.type,
+            fromSubscriptionType: currentMembership.subscriptionType,
+            toSubscriptionType: updatedMembership.subscriptionType,
+            changedBy: req.user.id,
+          });
+        }
 
         res.status(200).json({
           success: true,
@@ -946,6 +1014,13 @@ export class AdminController {
             marketingAddon: data.marketingAddon ?? false,
           })
           .returning();
+        await MembershipHistoryService.recordMembershipChange({
+          userId,
+          source: 'admin_edit',
+          fromType: null,
+          toType: newMembership.type,
+          changedBy: req.user.id,
+        });
 
         res.status(200).json({
           success: true,
@@ -977,6 +1052,28 @@ export class AdminController {
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
+
+  /** GET /admin/practitioners/:userId/membership-history – plan switches and admin edits */
+  async getMembershipHistory(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { userId } = req.params;
+      if (!UUID_REGEX.test(userId)) {
+        return res.status(400).json({ success: false, error: 'Invalid practitioner id' });
+      }
+      const history = await MembershipHistoryService.listMembershipHistory(userId);
+      res.status(200).json({ success: true, data: history });
+    } catch (error: unknown) {
+      logger.error('Failed to get membership history', error, {
+        userId: req.user?.id,
+        targetUserId: req.params.userId,
+      });
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
   async getPractitionersWithMissingInfo(req: AuthRequest, res: Response) {
     try {
       if (!req.user) {
@@ -1364,6 +1461,94 @@ export class AdminController {
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
+
+  /** PUT /admin/practitioners/:userId/permanent-schedule – replace a permanent member's weekly slots */
+  async updatePermanentSchedule(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { userId } = req.params;
+      const practitioner = await db.query.users.findFirst({
+        where: and(eq(users.id, userId), eq(users.role, 'practitioner'), isNull(users.deletedAt)),
+      });
+      if (!practitioner) {
+        return res.status(404).json({ success: false, error: 'Practitioner not found' });
+      }
+      const { schedule } = await updatePermanentScheduleSchema.parseAsync(req.body);
+      const saved = await PermanentScheduleService.setPermanentSchedule(userId, schedule);
+      res.status(200).json({ success: true, data: { permanentSchedule: saved } });
+    } catch (error: unknown) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.flatten(),
+        });
+      }
+      if (error instanceof BookingServiceError || error instanceof SubscriptionServiceError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      logger.error('Failed to update permanent schedule', error, {
+        userId: req.user?.id,
+        targetUserId: req.params.userId,
+      });
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /** GET /admin/permanent-schedules/conflicts – occurrences the generator could not book */
+  async getRecurringBookingConflicts(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const includeResolved = req.query.includeResolved === 'true';
+      const conflicts = await PermanentScheduleService.getRecurringBookingConflicts(includeResolved);
+      res.status(200).json({ success: true, data: conflicts });
+    } catch (error: unknown) {
+      logger.error('Failed to get recurring booking conflicts', error, { userId: req.user?.id });
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /** PUT /admin/permanent-schedules/conflicts/:conflictId/resolve – mark a conflict as handled */
+  async resolveRecurringBookingConflict(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { conflictId } = req.params;
+      if (!UUID_REGEX.test(conflictId)) {
+        return res.status(400).json({ success: false, error: 'Invalid conflict ID' });
+      }
+      const resolved = await PermanentScheduleService.resolveRecurringBookingConflict(conflictId);
+      if (!resolved) {
+        return res.status(404).json({ success: false, error: 'Conflict not found' });
+      }
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      logger.error('Failed to resolve recurring booking conflict', error, {
+        userId: req.user?.id,
+        conflictId: req.params.conflictId,
+      });
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /** GET /admin/bookings/self-overlaps – practitioners booked into two rooms at the same time */
+  async getSelfOverlaps(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const overlaps = await BookingService.getSelfOverlapReport();
+      res.status(200).json({ success: true, data: overlaps });
+    } catch (error: unknown) {
+      logger.error('Failed to get self-overlapping bookings', error, { userId: req.user?.id });
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
 }
 
 export const adminController = new AdminController();
@@ -54,6 +54,7 @@ const updateProfileSchema = z.object({
       phone: z.string().optional(),
     })
     .optional(),
+  refundPreference: z.enum(['card', 'credit']).optional(),
 });
 
 const photoUploadUrlSchema = z.object({
@@ -95,6 +96,7 @@ function buildUserResponse(
     ...(photoUrlError && { photoUrlError: true }),
     role: updatedUser.role,
     nextOfKin: updatedUser.nextOfKin,
+    refundPreference: updatedUser.refundPreference,
     emailVerifiedAt: updatedUser.emailVerifiedAt || undefined,
     createdAt: updatedUser.createdAt,
     updatedAt: updatedUser.updatedAt,
@@ -1,15 +1,21 @@
 import { Response } from 'express';
 import type { AuthRequest } from '../middleware/auth.middleware';
 import * as BookingService from '../services/booking.service';
+import * as LocationService from '../services/location.service';
+import * as SlotSearchService from '../services/slot-search.service';
+import * as BookingEventService from '../services/booking-event.service';
+import * as CalendarEventsService from '../services/calendar-events.service';
 import { CreditService } from '../services/credit.service';
 import { logger } from '../utils/logger.util';
 import { BookingServiceError } from '../errors/booking.errors';
+import { ZodError } from 'zod';
 
 const DEFAULT_STATUS = 500;
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 /** Strict HH:MM (00:00–23:59). */
 const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CALENDAR_STREAM_HEARTBEAT_MS = 25_000;
 
 export class BookingController {
   async getBookings(req: AuthRequest, res: Response): Promise<void> {
@@ -33,15 +39,21 @@ export class BookingController {
     }
   }
 
+  /** GET /bookings/:id – the booking with its change history (admins may view any booking) */
   async getBookingById(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const booking = await BookingService.getBookingById(id, req.user!.id);
+      const effectiveUserId =
+        req.user!.role === 'admin' ? await BookingService.getBookingOwnerId(id) : req.user!.id;
+      const booking = effectiveUserId
+        ? await BookingService.getBookingById(id, effectiveUserId)
+        : null;
       if (!booking) {
         res.status(404).json({ success: false, error: 'Booking not found' });
         return;
       }
-      res.status(200).json({ success: true, booking });
+      const history = await BookingEventService.getBookingHistory(id);
+      res.status(200).json({ success: true, booking, history });
     } catch (error) {
       const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
       logger.error(
@@ -61,7 +73,7 @@ export class BookingController {
         res.status(400).json({ success: false, error: 'roomId and date are required' });
         return;
       }
-      const slots = await BookingService.getAvailableSlots(roomId, date);
+      const slots = await BookingService.getAvailableSlots(roomId, date, req.user?.id);
       res.status(200).json({ success: true, slots });
     } catch (error) {
       const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
@@ -77,6 +89,32 @@ export class BookingController {
     }
   }
 
+  async searchSlots(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const slots = await SlotSearchService.searchSlots(req.body ?? {});
+      res.status(200).json({ success: true, slots });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.flatten(),
+        });
+        return;
+      }
+      const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
+      logger.error(
+        'Failed to search slots',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId: req.user?.id }
+      );
+      res.status(status).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to search slots',
+      });
+    }
+  }
+
   async getQuote(req: AuthRequest, res: Response): Promise<void> {
     try {
       const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : undefined;
@@ -130,10 +168,8 @@ export class BookingController {
         res.status(400).json({ success: false, error: 'location and date are required' });
         return;
       }
-      if (location !== 'Pimlico' && location !== 'Kensington') {
-        res
-          .status(400)
-          .json({ success: false, error: 'Invalid location. Allowed: Pimlico, Kensington' });
+      if (!(await LocationService.getActiveLocationByName(location))) {
+        res.status(400).json({ success: false, error: `Invalid location: ${location}` });
         return;
       }
       if (!DATE_REGEX.test(date)) {
@@ -145,7 +181,12 @@ export class BookingController {
       }
       // Always include booker names so all users can see who has which booking
       const result = await BookingService.getDayCalendar(location, date);
-      res.status(200).json({ success: true, rooms: result.rooms, bookings: result.bookings });
+      res.status(200).json({
+        success: true,
+        rooms: result.rooms,
+        bookings: result.bookings,
+        holds: result.holds,
+      });
     } catch (error) {
       const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
       logger.error(
@@ -160,13 +201,81 @@ export class BookingController {
     }
   }
 
+  /** GET /bookings/calendar/range – week or month calendar for one location or all */
+  async getRangeCalendar(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const view = req.query.view;
+      const date = typeof req.query.date === 'string' ? req.query.date : undefined;
+      const location = typeof req.query.location === 'string' ? req.query.location : undefined;
+      if (view !== 'week' && view !== 'month') {
+        res.status(400).json({ success: false, error: "view must be 'week' or 'month'" });
+        return;
+      }
+      if (!date || !DATE_REGEX.test(date)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid date format. Use YYYY-MM-DD',
+        });
+        return;
+      }
+      if (location !== undefined && !(await LocationService.getActiveLocationByName(location))) {
+        res.status(400).json({ success: false, error: `Invalid location: ${location}` });
+        return;
+      }
+      const result = await BookingService.getRangeCalendar(view, date, location);
+      res.status(200).json({ success: true, ...result });
+    } catch (error) {
+      const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
+      logger.error(
+        'Failed to get range calendar',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId: req.user?.id }
+      );
+      res.status(status).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get calendar',
+      });
+    }
+  }
+
+  /**
+   * GET /bookings/calendar/stream – server-sent events for booking changes in a location (all
+   * locations when omitted) between from and to (inclusive, optional), so open calendars refetch
+   */
+  async streamCalendar(req: AuthRequest, res: Response): Promise<void> {
+    const location = typeof req.query.location === 'string' ? req.query.location : undefined;
+    const fromDate = typeof req.query.from === 'string' ? req.query.from : undefined;
+    const toDate = typeof req.query.to === 'string' ? req.query.to : undefined;
+    if ((fromDate && !DATE_REGEX.test(fromDate)) || (toDate && !DATE_REGEX.test(toDate))) {
+      res.status(400).json({ success: false, error: 'Invalid date format. Use YYYY-MM-DD' });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop reverse proxies buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(': connected\n\n');
+
+    const unsubscribe = CalendarEventsService.subscribe({ location, fromDate, toDate }, (event) =>
+      res.write(`event: booking\ndata: ${JSON.stringify(event)}\n\n`)
+    );
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), CALENDAR_STREAM_HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+
   async getRooms(req: AuthRequest, res: Response): Promise<void> {
     try {
       const location = typeof req.query.location === 'string' ? req.query.location : undefined;
-      if (location !== undefined && location !== 'Pimlico' && location !== 'Kensington') {
-        res
-          .status(400)
-          .json({ success: false, error: 'Invalid location. Allowed: Pimlico, Kensington' });
+      if (location !== undefined && !(await LocationService.getActiveLocationByName(location))) {
+        res.status(400).json({ success: false, error: `Invalid location: ${location}` });
         return;
       }
       const rooms = await BookingService.getRooms(location);
@@ -255,7 +364,7 @@ export class BookingController {
         date,
         startTime,
         endTime,
-        type
+        { bookingType: type, actorUserId: req.user!.id }
       );
       if ('paymentRequired' in result && result.paymentRequired) {
         res.status(402).json({
@@ -284,6 +393,77 @@ export class BookingController {
     }
   }
 
+  async createBookingBatch(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { items } = req.body ?? {};
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ success: false, error: 'items must be a non-empty array' });
+        return;
+      }
+      if (items.length > BookingService.MAX_BATCH_BOOKINGS) {
+        res.status(400).json({
+          success: false,
+          error: `At most ${BookingService.MAX_BATCH_BOOKINGS} bookings can be made at once`,
+        });
+        return;
+      }
+      for (const [index, item] of items.entries()) {
+        const { roomId, date, startTime, endTime } = item ?? {};
+        if (
+          !UUID_REGEX.test(String(roomId)) ||
+          !DATE_REGEX.test(String(date)) ||
+          !TIME_REGEX.test(String(startTime).trim()) ||
+          !TIME_REGEX.test(String(endTime).trim())
+        ) {
+          res.status(400).json({
+            success: false,
+            error: `Booking ${index + 1}: roomId (uuid), date (YYYY-MM-DD), startTime and endTime (HH:MM) are required`,
+          });
+          return;
+        }
+      }
+      const type = req.body.bookingType ?? 'ad_hoc';
+      if (type !== 'permanent_recurring' && type !== 'ad_hoc') {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid bookingType',
+          allowed: ['permanent_recurring', 'ad_hoc'],
+        });
+        return;
+      }
+      const result = await BookingService.createBookingBatch(
+        req.user!.id,
+        items.map((item: BookingService.BatchBookingItem) => ({
+          roomId: String(item.roomId),
+          date: String(item.date),
+          startTime: String(item.startTime).trim(),
+          endTime: String(item.endTime).trim(),
+        })),
+        type
+      );
+      if ('paymentRequired' in result) {
+        res.status(402).json({
+          success: false,
+          paymentRequired: true,
+          clientSecret: result.clientSecret,
+          paymentIntentId: result.paymentIntentId,
+          amountPence: result.amountPence,
+        });
+        return;
+      }
+      res.status(201).json({ success: true, bookings: result.ids.map((id) => ({ id })) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create bookings';
+      const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
+      logger.error(
+        'Failed to create batch bookings',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId: req.user?.id }
+      );
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
   async updateBooking(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -358,7 +538,18 @@ export class BookingController {
         res.status(404).json({ success: false, error: 'Booking not found' });
         return;
       }
-      await BookingService.cancelBooking(id, effectiveUserId);
+      // Only admins may waive the cancellation fee (full refund regardless of notice)
+      const waiveFee = req.user!.role === 'admin' && req.body?.waiveFee === true;
+      const refundMethod = req.body?.refundMethod ?? 'credit';
+      if (refundMethod !== 'credit' && refundMethod !== 'card') {
+        res.status(400).json({ success: false, error: "refundMethod must be 'credit' or 'card'" });
+        return;
+      }
+      await BookingService.cancelBooking(id, effectiveUserId, {
+        waiveFee,
+        refundMethod,
+        actorUserId: req.user!.id,
+      });
       res.status(200).json({ success: true, message: 'Booking cancelled' });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to cancel booking';
@@ -372,6 +563,30 @@ export class BookingController {
     }
   }
 
+  /** GET /bookings/:id/cancellation-quote – refund the cancellation policy gives if cancelled now */
+  async getCancellationQuote(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const effectiveUserId =
+        req.user!.role === 'admin' ? await BookingService.getBookingOwnerId(id) : req.user!.id;
+      if (!effectiveUserId) {
+        res.status(404).json({ success: false, error: 'Booking not found' });
+        return;
+      }
+      const quote = await BookingService.getCancellationQuote(id, effectiveUserId);
+      res.status(200).json({ success: true, quote });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get cancellation quote';
+      const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
+      logger.error(
+        'Failed to get cancellation quote',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId: req.user?.id, bookingId: req.params.id }
+      );
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
   async getCredits(req: AuthRequest, res: Response): Promise<void> {
     try {
       const balance = await CreditService.getCreditBalance(req.user!.id);
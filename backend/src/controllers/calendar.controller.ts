@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
+import * as CalendarService from '../services/calendar.service';
+import { logger } from '../utils/logger.util';
+
+const FEED_TOKEN_REGEX = /^[0-9a-f]{48}$/i;
+
+export class CalendarController {
+  private handleError(
+    res: Response,
+    error: unknown,
+    message: string,
+    context: Record<string, unknown>
+  ) {
+    logger.error(message, error instanceof Error ? error : new Error(String(error)), context);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+
+  /** GET /practitioner/calendar-feed – whether the personal feed URL is enabled */
+  async getFeedStatus(req: AuthRequest, res: Response) {
+    try {
+      const status = await CalendarService.getFeedStatus(req.user!.id);
+      res.status(200).json({ success: true, data: status });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to get calendar feed status', {
+        userId: req.user?.id,
+      });
+    }
+  }
+
+  /** POST /practitioner/calendar-feed – issue a new feed token (shown once; old URL stops working) */
+  async regenerateFeed(req: AuthRequest, res: Response) {
+    try {
+      const token = await CalendarService.regenerateFeedToken(req.user!.id);
+      res.status(200).json({ success: true, data: { token } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to issue calendar feed', { userId: req.user?.id });
+    }
+  }
+
+  /** DELETE /practitioner/calendar-feed – turn the feed off */
+  async revokeFeed(req: AuthRequest, res: Response) {
+    try {
+      await CalendarService.revokeFeed(req.user!.id);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to revoke calendar feed', { userId: req.user?.id });
+    }
+  }
+
+  /** GET /practitioner/calendar-feed/:token.ics – the feed itself (the token is the credential) */
+  async getFeed(req: Request, res: Response) {
+    try {
+      const { token } = req.params;
+      const ics = FEED_TOKEN_REGEX.test(token)
+        ? await CalendarService.getFeedForToken(token)
+        : null;
+      if (!ics) {
+        res.status(404).json({ success: false, error: 'Calendar feed not found' });
+        return;
+      }
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="therapport-bookings.ics"');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.status(200).send(ics);
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to build calendar feed', {});
+    }
+  }
+}
+
+export const calendarController = new CalendarController();
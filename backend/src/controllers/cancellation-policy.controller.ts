@@ -0,0 +1,64 @@
+import { Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
+import { z, ZodError } from 'zod';
+import * as CancellationPolicyService from '../services/cancellation-policy.service';
+import { BookingServiceError } from '../errors/booking.errors';
+import { logger } from '../utils/logger.util';
+
+const cancellationPolicySchema = z.object({
+  tiers: z.array(CancellationPolicyService.cancellationPolicyTierSchema),
+});
+
+export class CancellationPolicyController {
+  private handleError(
+    res: Response,
+    error: unknown,
+    message: string,
+    context: Record<string, unknown>
+  ) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.flatten(),
+      });
+    }
+    if (error instanceof BookingServiceError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    logger.error(message, error, context);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+
+  /** GET /admin/cancellation-policy – refund tiers, longest notice first */
+  async getPolicy(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const tiers = await CancellationPolicyService.listTiers();
+      res.status(200).json({ success: true, data: { tiers } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to get cancellation policy', { userId: req.user?.id });
+    }
+  }
+
+  /** PUT /admin/cancellation-policy – replace all refund tiers */
+  async updatePolicy(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { tiers } = await cancellationPolicySchema.parseAsync(req.body);
+      const saved = await CancellationPolicyService.replaceTiers(tiers);
+      logger.info('Cancellation policy updated', { userId: req.user.id, tiers: saved });
+      res.status(200).json({ success: true, data: { tiers: saved } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to update cancellation policy', {
+        userId: req.user?.id,
+      });
+    }
+  }
+}
+
+export const cancellationPolicyController = new CancellationPolicyController();
@@ -7,8 +7,42 @@ import { eq, inArray, and } from 'drizzle-orm';
 import { logger } from '../utils/logger.util';
 import { addDaysUtcString, formatTimeForEmail, todayUtcString } from '../utils/date.util';
 import type { DocumentReminderMetadata } from '../services/reminder.service';
+import * as PermanentScheduleService from '../services/permanent-schedule.service';
+import type { GeneratePermanentBookingsResult } from '../services/permanent-schedule.service';
+import * as WaitlistService from '../services/waitlist.service';
+import * as BookingCompletionService from '../services/booking-completion.service';
+import type { CompletePastBookingsResult } from '../services/booking-completion.service';
+import * as DunningService from '../services/dunning.service';
+import * as PlanSwitchService from '../services/plan-switch.service';
+import type { ProcessDunningResult } from '../services/dunning.service';
 
 export class CronController {
+  /**
+   * Check the cron secret (Authorization: Bearer ${CRON_SECRET}); responds 401 and returns false
+   * when it does not match.
+   */
+  private isAuthorized(req: Request, res: Response): boolean {
+    const authorizationHeaderRaw = req.headers['authorization'];
+    const expectedSecret = process.env.CRON_SECRET;
+
+    // Normalize authorization header (can be string | string[] | undefined)
+    const authorizationHeader = Array.isArray(authorizationHeaderRaw)
+      ? authorizationHeaderRaw[0]
+      : authorizationHeaderRaw;
+
+    if (!expectedSecret || authorizationHeader !== `Bearer ${expectedSecret}`) {
+      logger.warn('Unauthorized cron request attempt', {
+        method: req.method,
+        url: req.originalUrl,
+        ip: req.ip,
+      });
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return false;
+    }
+    logger.info('Cron request authenticated successfully');
+    return true;
+  }
+
   /**
    * Safely mark a reminder as failed, catching and logging any errors without rethrowing
    */
@@ -274,6 +308,20 @@ export class CronController {
     return { processed, failed, total: rows.length };
   }
 
+  /**
+   * Chase failed monthly payments: escalating reminders, and scheduling suspension for today once
+   * the dunning period runs out (so run before processSuspensionInternal). Part of the daily run
+   * only: every dunning step is a whole number of days after the failure, so running it more
+   * often would not bring any step forward.
+   */
+  async processDunningInternal(): Promise<ProcessDunningResult> {
+    const result = await DunningService.processDunning();
+    if (result.total > 0) {
+      logger.info('Dunning processed', { ...result });
+    }
+    return result;
+  }
+
   /**
    * Process suspension: find memberships where suspensionDate = today, set user status to suspended, send suspension email.
    * DB update determines suspension success (suspended count); email failures are tracked separately (failedEmail).
@@ -289,6 +337,7 @@ export class CronController {
       .select({
         userId: memberships.userId,
         suspensionDate: memberships.suspensionDate,
+        dunningSuspendedAt: memberships.dunningSuspendedAt,
         userEmail: users.email,
         userFirstName: users.firstName,
       })
@@ -320,6 +369,7 @@ export class CronController {
           firstName: row.userFirstName,
           email: row.userEmail,
           suspensionDate: suspensionDateStr,
+          reason: row.dunningSuspendedAt != null ? 'unpaid' : 'termination',
         });
       } catch (error) {
         logger.error('Failed to send suspension notice email', error, { userId: row.userId });
@@ -329,6 +379,84 @@ export class CronController {
     return { suspended, failedEmail, total: rows.length };
   }
 
+  /**
+   * Materialise permanent_recurring bookings for the rolling window (PERMANENT_BOOKING_WEEKS_AHEAD).
+   * Conflicts are recorded and emailed to the admin by the service.
+   */
+  async processPermanentBookingsInternal(): Promise<GeneratePermanentBookingsResult> {
+    logger.info('Starting permanent booking generation');
+    const result = await PermanentScheduleService.generatePermanentBookings();
+    logger.info('Permanent booking generation finished', { ...result });
+    return result;
+  }
+
+  /**
+   * Release plan switches left unpaid for a day, giving their carried credit back.
+   */
+  async processPlanSwitchesInternal(): Promise<{ released: number }> {
+    const result = await PlanSwitchService.releaseStalePlanSwitches();
+    if (result.released > 0) {
+      logger.info('Stale plan switches released', { ...result });
+    }
+    return result;
+  }
+
+  /**
+   * Expire lapsed waitlist offers and pass the freed slots to the next person in the queue.
+   */
+  async processWaitlistOffersInternal(): Promise<{
+    expired: number;
+    claimed: number;
+    offered: number;
+  }> {
+    const result = await WaitlistService.processExpiredWaitlistOffers();
+    if (result.expired + result.claimed + result.offered > 0) {
+      logger.info('Waitlist offers processed', { ...result });
+    }
+    return result;
+  }
+
+  /**
+   * Mark ended bookings as completed and flag no-shows from kiosk sign-ins.
+   */
+  async processBookingCompletionInternal(): Promise<CompletePastBookingsResult> {
+    const result = await BookingCompletionService.completePastBookings();
+    if (result.completed > 0) {
+      logger.info('Past bookings completed', { ...result });
+    }
+    return result;
+  }
+
+  /**
+   * Expire lapsed waitlist offers every 15 minutes (Vercel Cron or an external scheduler), so a
+   * freed slot moves to the next person soon after an offer lapses.
+   */
+  async processWaitlistOffers(req: Request, res: Response) {
+    if (!this.isAuthorized(req, res)) return;
+    try {
+      const result = await this.processWaitlistOffersInternal();
+      res.status(200).json({ success: true, waitlist: result });
+    } catch (error) {
+      logger.error('Failed to process waitlist offers', error, { url: req.originalUrl });
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Complete ended bookings and flag no-shows hourly (Vercel Cron or an external scheduler), as
+   * bookings end throughout the day.
+   */
+  async processBookingCompletion(req: Request, res: Response) {
+    if (!this.isAuthorized(req, res)) return;
+    try {
+      const result = await this.processBookingCompletionInternal();
+      res.status(200).json({ success: true, bookingCompletion: result });
+    } catch (error) {
+      logger.error('Failed to process booking completion', error, { url: req.originalUrl });
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+
   /**
    * Process pending reminders
    * This endpoint is called by:
@@ -348,37 +476,40 @@ export class CronController {
     });
 
     try {
-      // Extract and normalize Authorization header
-      const authorizationHeaderRaw = req.headers['authorization'];
-      const expectedSecret = process.env.CRON_SECRET;
-
-      // Normalize authorization header (can be string | string[] | undefined)
-      const authorizationHeader = Array.isArray(authorizationHeaderRaw)
-        ? authorizationHeaderRaw[0]
-        : authorizationHeaderRaw;
-
-      // Check if authorization header matches Bearer ${CRON_SECRET}
-      if (!expectedSecret || authorizationHeader !== `Bearer ${expectedSecret}`) {
-        logger.warn('Unauthorized cron request attempt', {
-          method: req.method,
-          url: req.originalUrl,
-          ip: req.ip,
-        });
-        return res.status(401).json({ success: false, error: 'Unauthorized' });
-      }
-
-      logger.info('Cron request authenticated successfully');
+      if (!this.isAuthorized(req, res)) return;
 
-      // Process document reminders, 48h booking reminders, and suspension
+      // Document and 48h booking reminders, dunning, suspension and stale plan switches
       const documentResult = await this.processRemindersInternal();
       const bookingResult = await this.processBookingRemindersInternal();
+      const dunningResult = await this.processDunningInternal();
       const suspensionResult = await this.processSuspensionInternal();
+      const permanentResult = await this.processPermanentBookingsInternal();
+      const planSwitchResult = await this.processPlanSwitchesInternal();
 
       const totalProcessed =
-        documentResult.processed + bookingResult.processed + suspensionResult.suspended;
+        documentResult.processed +
+        bookingResult.processed +
+        dunningResult.reminded +
+        dunningResult.suspended +
+        suspensionResult.suspended +
+        permanentResult.created +
+        planSwitchResult.released;
       const totalFailed =
-        documentResult.failed + bookingResult.failed + suspensionResult.failedEmail;
-      const totalItems = documentResult.total + bookingResult.total + suspensionResult.total;
+        documentResult.failed +
+        bookingResult.failed +
+        dunningResult.failedEmail +
+        suspensionResult.failedEmail +
+        permanentResult.failed;
+      // Already-materialised occurrences are not counted as work items
+      const totalItems =
+        documentResult.total +
+        bookingResult.total +
+        dunningResult.total +
+        suspensionResult.total +
+        permanentResult.created +
+        permanentResult.conflicts +
+        permanentResult.failed +
+        planSwitchResult.released;
 
       if (totalItems === 0) {
         logger.info('Cron job completed: No pending reminders or suspensions to process', {
@@ -392,7 +523,10 @@ export class CronController {
           processed: 0,
           documentReminders: documentResult,
           bookingReminders: bookingResult,
+          dunning: dunningResult,
           suspension: suspensionResult,
+          permanentBookings: permanentResult,
+          planSwitches: planSwitchResult,
         });
       }
 
@@ -402,7 +536,10 @@ export class CronController {
         total: totalItems,
         documentReminders: documentResult,
         bookingReminders: bookingResult,
+        dunning: dunningResult,
         suspension: suspensionResult,
+        permanentBookings: permanentResult,
+        planSwitches: planSwitchResult,
       });
 
       res.status(200).json({
@@ -413,7 +550,10 @@ export class CronController {
         total: totalItems,
         documentReminders: documentResult,
         bookingReminders: bookingResult,
+        dunning: dunningResult,
         suspension: suspensionResult,
+        permanentBookings: permanentResult,
+        planSwitches: planSwitchResult,
       });
     } catch (error) {
       logger.error('Failed to process reminders', error, {
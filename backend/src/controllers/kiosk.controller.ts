@@ -0,0 +1,202 @@
+import { Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
+import type { KioskRequest } from '../middleware/kiosk.middleware';
+import { z, ZodError } from 'zod';
+import * as KioskService from '../services/kiosk.service';
+import { KioskServiceError } from '../errors/kiosk.errors';
+import { LocationServiceError } from '../errors/location.errors';
+import { logger } from '../utils/logger.util';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const credentialSchema = z
+  .object({
+    pin: z
+      .string()
+      .regex(/^\d{6}$/, 'PIN must be 6 digits')
+      .optional(),
+    qrCode: z
+      .string()
+      .trim()
+      .regex(/^[0-9a-f]{48}$/i, 'Invalid QR code')
+      .optional(),
+  })
+  .refine((v) => Boolean(v.pin) !== Boolean(v.qrCode), {
+    message: 'Provide either a PIN or a QR code',
+  });
+
+const deviceSchema = z.object({
+  locationId: z.string().uuid('locationId must be a UUID'),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+});
+
+export class KioskController {
+  private handleError(
+    res: Response,
+    error: unknown,
+    message: string,
+    context: Record<string, unknown>
+  ) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.flatten(),
+      });
+    }
+    if (error instanceof KioskServiceError || error instanceof LocationServiceError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    logger.error(message, error, context);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+
+  /** GET /kiosk/device – the authenticated device and its location (kiosk screen header) */
+  async getDevice(req: KioskRequest, res: Response) {
+    res.status(200).json({ success: true, data: req.kioskDevice });
+  }
+
+  /** POST /kiosk/sign-in – { pin } or { qrCode } */
+  async signIn(req: KioskRequest, res: Response) {
+    try {
+      const credential = await credentialSchema.parseAsync(req.body);
+      const result = await KioskService.signIn(req.kioskDevice!, credential, req.ip);
+      res.status(200).json({ success: true, data: result });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Kiosk sign-in failed', { deviceId: req.kioskDevice?.id });
+    }
+  }
+
+  /** POST /kiosk/sign-out – { pin } or { qrCode } */
+  async signOut(req: KioskRequest, res: Response) {
+    try {
+      const credential = await credentialSchema.parseAsync(req.body);
+      const result = await KioskService.signOut(req.kioskDevice!, credential, req.ip);
+      res.status(200).json({ success: true, data: result });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Kiosk sign-out failed', { deviceId: req.kioskDevice?.id });
+    }
+  }
+
+  /** GET /practitioner/kiosk – issued PIN / QR code and today's sign-in status */
+  async getStatus(req: AuthRequest, res: Response) {
+    try {
+      const status = await KioskService.getKioskStatus(req.user!.id);
+      res.status(200).json({ success: true, data: status });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to get kiosk status', { userId: req.user?.id });
+    }
+  }
+
+  /** POST /practitioner/kiosk/pin – issue a new PIN (shown once) */
+  async regeneratePin(req: AuthRequest, res: Response) {
+    try {
+      const pin = await KioskService.regeneratePin(req.user!.id);
+      res.status(200).json({ success: true, data: { pin } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to issue kiosk PIN', { userId: req.user?.id });
+    }
+  }
+
+  /** POST /practitioner/kiosk/qr-code – issue a new QR code value (shown once) */
+  async regenerateQrCode(req: AuthRequest, res: Response) {
+    try {
+      const qrCode = await KioskService.regenerateQrCode(req.user!.id);
+      res.status(200).json({ success: true, data: { qrCode } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to issue kiosk QR code', { userId: req.user?.id });
+    }
+  }
+
+  /** GET /admin/kiosk/devices */
+  async listDevices(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const devices = await KioskService.listDevices();
+      res.status(200).json({ success: true, data: devices });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list kiosk devices', { userId: req.user?.id });
+    }
+  }
+
+  /** POST /admin/kiosk/devices – register a device; the token is only returned here */
+  async registerDevice(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { locationId, name } = await deviceSchema.parseAsync(req.body);
+      const device = await KioskService.registerDevice(locationId, name);
+      res.status(201).json({ success: true, data: device });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to register kiosk device', { userId: req.user?.id });
+    }
+  }
+
+  /** DELETE /admin/kiosk/devices/:deviceId – revoke a device */
+  async revokeDevice(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { deviceId } = req.params;
+      if (!UUID_REGEX.test(deviceId)) {
+        return res.status(400).json({ success: false, error: 'Invalid device ID' });
+      }
+      await KioskService.revokeDevice(deviceId);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to revoke kiosk device', {
+        userId: req.user?.id,
+        deviceId: req.params.deviceId,
+      });
+    }
+  }
+
+  /** GET /admin/kiosk/present?locationId= – who is in the building right now */
+  async getPresent(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const locationId =
+        typeof req.query.locationId === 'string' ? req.query.locationId : undefined;
+      if (locationId && !UUID_REGEX.test(locationId)) {
+        return res.status(400).json({ success: false, error: 'Invalid locationId' });
+      }
+      const present = await KioskService.getPresent(locationId);
+      res.status(200).json({ success: true, data: present });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to get people in building', { userId: req.user?.id });
+    }
+  }
+
+  /** GET /admin/kiosk/attendance?locationId=&date= – daily fire-safety attendance report */
+  async getAttendance(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const locationId = typeof req.query.locationId === 'string' ? req.query.locationId : '';
+      const date = typeof req.query.date === 'string' ? req.query.date : '';
+      if (!UUID_REGEX.test(locationId)) {
+        return res.status(400).json({ success: false, error: 'locationId is required' });
+      }
+      if (!DATE_REGEX.test(date)) {
+        return res.status(400).json({ success: false, error: 'date must be YYYY-MM-DD' });
+      }
+      const report = await KioskService.getAttendanceReport(locationId, date);
+      res.status(200).json({ success: true, data: report });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to get attendance report', {
+        userId: req.user?.id,
+        locationId: req.query.locationId,
+      });
+    }
+  }
+}
+
+export const kioskController = new KioskController();
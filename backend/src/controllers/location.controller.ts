@@ -0,0 +1,266 @@
+import { Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
+import { z, ZodError } from 'zod';
+import * as LocationService from '../services/location.service';
+import * as OpeningHoursService from '../services/opening-hours.service';
+import { LocationServiceError } from '../errors/location.errors';
+import { logger } from '../utils/logger.util';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const locationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  address: z.string().trim().nullable().optional(),
+  openingHours: LocationService.openingHoursSchema.nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+const roomSchema = z.object({
+  locationId: z.string().uuid('locationId must be a UUID'),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  roomNumber: z.number().int().min(1).max(999, 'roomNumber must be 1–999'),
+  capacity: z.number().int().positive('capacity must be positive').nullable().optional(),
+  amenities: z.array(z.string().trim().min(1)).optional(),
+  active: z.boolean().optional(),
+});
+
+const closureSchema = z.object({
+  locationId: z.string().uuid('locationId must be a UUID'),
+  roomId: z.string().uuid('roomId must be a UUID').nullable().optional(),
+  startDate: z.string().regex(DATE_REGEX, 'startDate must be YYYY-MM-DD'),
+  endDate: z.string().regex(DATE_REGEX, 'endDate must be YYYY-MM-DD'),
+  reason: z.string().trim().min(1, 'Reason is required').max(255, 'Reason is too long'),
+});
+
+export class LocationController {
+  private handleError(
+    res: Response,
+    error: unknown,
+    message: string,
+    context: Record<string, unknown>
+  ) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.flatten(),
+      });
+    }
+    if (error instanceof LocationServiceError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    logger.error(message, error, context);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+
+  /** GET /practitioner/locations – active locations for booking pickers */
+  async listActiveLocations(req: AuthRequest, res: Response) {
+    try {
+      const list = await LocationService.listLocations({ activeOnly: true });
+      res.status(200).json({ success: true, locations: list });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list locations', { userId: req.user?.id });
+    }
+  }
+
+  /** GET /admin/locations – all locations, including inactive ones */
+  async listLocations(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const list = await LocationService.listLocations();
+      res.status(200).json({ success: true, data: list });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list locations', { userId: req.user?.id });
+    }
+  }
+
+  /** POST /admin/locations */
+  async createLocation(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const input = await locationSchema.parseAsync(req.body);
+      const id = await LocationService.createLocation(input);
+      res.status(201).json({ success: true, data: { id } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to create location', { userId: req.user?.id });
+    }
+  }
+
+  /** PUT /admin/locations/:locationId */
+  async updateLocation(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { locationId } = req.params;
+      if (!UUID_REGEX.test(locationId)) {
+        return res.status(400).json({ success: false, error: 'Invalid location ID' });
+      }
+      const input = await locationSchema.parseAsync(req.body);
+      await LocationService.updateLocation(locationId, input);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to update location', {
+        userId: req.user?.id,
+        locationId: req.params.locationId,
+      });
+    }
+  }
+
+  /** DELETE /admin/locations/:locationId – only for locations without booking history */
+  async deleteLocation(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { locationId } = req.params;
+      if (!UUID_REGEX.test(locationId)) {
+        return res.status(400).json({ success: false, error: 'Invalid location ID' });
+      }
+      await LocationService.deleteLocation(locationId);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to delete location', {
+        userId: req.user?.id,
+        locationId: req.params.locationId,
+      });
+    }
+  }
+
+  /** GET /admin/rooms?locationId= – all rooms, including inactive ones */
+  async listRooms(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const locationId =
+        typeof req.query.locationId === 'string' ? req.query.locationId : undefined;
+      if (locationId && !UUID_REGEX.test(locationId)) {
+        return res.status(400).json({ success: false, error: 'Invalid locationId' });
+      }
+      const list = await LocationService.listRooms({ locationId });
+      res.status(200).json({ success: true, data: list });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list rooms', { userId: req.user?.id });
+    }
+  }
+
+  /** POST /admin/rooms */
+  async createRoom(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const input = await roomSchema.parseAsync(req.body);
+      const id = await LocationService.createRoom(input);
+      res.status(201).json({ success: true, data: { id } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to create room', { userId: req.user?.id });
+    }
+  }
+
+  /** PUT /admin/rooms/:roomId */
+  async updateRoom(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { roomId } = req.params;
+      if (!UUID_REGEX.test(roomId)) {
+        return res.status(400).json({ success: false, error: 'Invalid room ID' });
+      }
+      const input = await roomSchema.parseAsync(req.body);
+      await LocationService.updateRoom(roomId, input);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to update room', {
+        userId: req.user?.id,
+        roomId: req.params.roomId,
+      });
+    }
+  }
+
+  /** DELETE /admin/rooms/:roomId – only for rooms that have never been booked */
+  async deleteRoom(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { roomId } = req.params;
+      if (!UUID_REGEX.test(roomId)) {
+        return res.status(400).json({ success: false, error: 'Invalid room ID' });
+      }
+      await LocationService.deleteRoom(roomId);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to delete room', {
+        userId: req.user?.id,
+        roomId: req.params.roomId,
+      });
+    }
+  }
+
+  /** GET /admin/closures?locationId=&fromDate=&toDate= – closures overlapping the range */
+  async listClosures(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const locationId =
+        typeof req.query.locationId === 'string' ? req.query.locationId : undefined;
+      const fromDate = typeof req.query.fromDate === 'string' ? req.query.fromDate : undefined;
+      const toDate = typeof req.query.toDate === 'string' ? req.query.toDate : undefined;
+      if (locationId && !UUID_REGEX.test(locationId)) {
+        return res.status(400).json({ success: false, error: 'Invalid locationId' });
+      }
+      if ((fromDate && !DATE_REGEX.test(fromDate)) || (toDate && !DATE_REGEX.test(toDate))) {
+        return res.status(400).json({ success: false, error: 'Dates must be YYYY-MM-DD' });
+      }
+      const list = await OpeningHoursService.listClosures({ locationId, fromDate, toDate });
+      res.status(200).json({ success: true, data: list });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list closures', { userId: req.user?.id });
+    }
+  }
+
+  /** POST /admin/closures – close a location, or take a room out of service, for a date range */
+  async createClosure(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const input = await closureSchema.parseAsync(req.body);
+      const id = await OpeningHoursService.createClosure(input, req.user.id);
+      res.status(201).json({ success: true, data: { id } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to create closure', { userId: req.user?.id });
+    }
+  }
+
+  /** DELETE /admin/closures/:closureId */
+  async deleteClosure(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { closureId } = req.params;
+      if (!UUID_REGEX.test(closureId)) {
+        return res.status(400).json({ success: false, error: 'Invalid closure ID' });
+      }
+      await OpeningHoursService.deleteClosure(closureId);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to delete closure', {
+        userId: req.user?.id,
+        closureId: req.params.closureId,
+      });
+    }
+  }
+}
+
+export const locationController = new LocationController();
@@ -0,0 +1,52 @@
+import { Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
+import * as PaymentIncidentService from '../services/payment-incident.service';
+import { PaymentIncidentServiceError } from '../errors/payment-incident.errors';
+import { logger } from '../utils/logger.util';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class PaymentIncidentController {
+  private handleError(
+    res: Response,
+    error: unknown,
+    message: string,
+    context: Record<string, unknown>
+  ) {
+    if (error instanceof PaymentIncidentServiceError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    logger.error(message, error instanceof Error ? error : new Error(String(error)), context);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+
+  /** GET /admin/payment-incidents – payments returned because their booking could not be made */
+  async listIncidents(req: AuthRequest, res: Response) {
+    try {
+      const incidents = await PaymentIncidentService.listIncidents();
+      res.status(200).json({ success: true, data: incidents });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list payment incidents', { userId: req.user?.id });
+    }
+  }
+
+  /** POST /admin/payment-incidents/:incidentId/retry-refund – ask Stripe again for a failed refund */
+  async retryRefund(req: AuthRequest, res: Response) {
+    const { incidentId } = req.params;
+    if (!UUID_REGEX.test(incidentId)) {
+      res.status(400).json({ success: false, error: 'Invalid incident id' });
+      return;
+    }
+    try {
+      const incident = await PaymentIncidentService.retryRefund(incidentId);
+      res.status(200).json({ success: true, data: incident });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to retry payment incident refund', {
+        userId: req.user?.id,
+        incidentId,
+      });
+    }
+  }
+}
+
+export const paymentIncidentController = new PaymentIncidentController();
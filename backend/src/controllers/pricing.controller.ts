@@ -0,0 +1,181 @@
+import { Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
+import { z, ZodError } from 'zod';
+import * as PricingRuleService from '../services/pricing-rule.service';
+import { pricingBandSchema } from '../services/pricing.service';
+import { PricingServiceError } from '../errors/pricing.errors';
+import { logger } from '../utils/logger.util';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const pricingRuleSchema = z.object({
+  locationId: z.string().uuid('locationId must be a UUID'),
+  roomId: z.string().uuid('roomId must be a UUID').nullable().optional(),
+  effectiveFrom: z.string().regex(DATE_REGEX, 'effectiveFrom must be YYYY-MM-DD'),
+  weekdayBands: z.array(pricingBandSchema).min(1, 'At least one weekday band is required'),
+  weekendRate: z.number().nonnegative('weekendRate must not be negative'),
+  bankHolidayRate: z
+    .number()
+    .nonnegative('bankHolidayRate must not be negative')
+    .nullable()
+    .optional(),
+});
+
+const bankHolidaySchema = z.object({
+  date: z.string().regex(DATE_REGEX, 'date must be YYYY-MM-DD'),
+  name: z.string().min(1, 'Name is required').trim(),
+});
+
+export class PricingController {
+  private handleError(
+    res: Response,
+    error: unknown,
+    message: string,
+    context: Record<string, unknown>
+  ) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.flatten(),
+      });
+    }
+    if (error instanceof PricingServiceError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    logger.error(message, error, context);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+
+  /** GET /admin/pricing-rules – all rate cards, optionally filtered by locationId/roomId */
+  async listRules(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const locationId =
+        typeof req.query.locationId === 'string' ? req.query.locationId : undefined;
+      const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : undefined;
+      if ((locationId && !UUID_REGEX.test(locationId)) || (roomId && !UUID_REGEX.test(roomId))) {
+        return res.status(400).json({ success: false, error: 'Invalid locationId or roomId' });
+      }
+      const rules = await PricingRuleService.listPricingRules({ locationId, roomId });
+      res.status(200).json({ success: true, data: rules });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list pricing rules', { userId: req.user?.id });
+    }
+  }
+
+  /** POST /admin/pricing-rules – add a rate card effective from today or a future date */
+  async createRule(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const input = await pricingRuleSchema.parseAsync(req.body);
+      const id = await PricingRuleService.createPricingRule(input, req.user.id);
+      res.status(201).json({ success: true, data: { id } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to create pricing rule', { userId: req.user?.id });
+    }
+  }
+
+  /** PUT /admin/pricing-rules/:ruleId – edit a rule that is not yet in force */
+  async updateRule(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { ruleId } = req.params;
+      if (!UUID_REGEX.test(ruleId)) {
+        return res.status(400).json({ success: false, error: 'Invalid rule ID' });
+      }
+      const input = await pricingRuleSchema.parseAsync(req.body);
+      await PricingRuleService.updatePricingRule(ruleId, input);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to update pricing rule', {
+        userId: req.user?.id,
+        ruleId: req.params.ruleId,
+      });
+    }
+  }
+
+  /** DELETE /admin/pricing-rules/:ruleId – remove a rule that is not yet in force */
+  async deleteRule(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { ruleId } = req.params;
+      if (!UUID_REGEX.test(ruleId)) {
+        return res.status(400).json({ success: false, error: 'Invalid rule ID' });
+      }
+      await PricingRuleService.deletePricingRule(ruleId);
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to delete pricing rule', {
+        userId: req.user?.id,
+        ruleId: req.params.ruleId,
+      });
+    }
+  }
+
+  /** GET /admin/bank-holidays?fromDate=&toDate= */
+  async listBankHolidays(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const fromDate = typeof req.query.fromDate === 'string' ? req.query.fromDate : undefined;
+      const toDate = typeof req.query.toDate === 'string' ? req.query.toDate : undefined;
+      if ((fromDate && !DATE_REGEX.test(fromDate)) || (toDate && !DATE_REGEX.test(toDate))) {
+        return res.status(400).json({ success: false, error: 'Dates must be YYYY-MM-DD' });
+      }
+      const holidays = await PricingRuleService.listBankHolidays(fromDate, toDate);
+      res.status(200).json({ success: true, data: holidays });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list bank holidays', { userId: req.user?.id });
+    }
+  }
+
+  /** PUT /admin/bank-holidays – add or rename a bank holiday */
+  async upsertBankHoliday(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { date, name } = await bankHolidaySchema.parseAsync(req.body);
+      await PricingRuleService.upsertBankHoliday(date, name);
+      res.status(200).json({ success: true, data: { date, name } });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to save bank holiday', { userId: req.user?.id });
+    }
+  }
+
+  /** DELETE /admin/bank-holidays/:date */
+  async deleteBankHoliday(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+      const { date } = req.params;
+      if (!DATE_REGEX.test(date)) {
+        return res.status(400).json({ success: false, error: 'Date must be YYYY-MM-DD' });
+      }
+      const deleted = await PricingRuleService.deleteBankHoliday(date);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Bank holiday not found' });
+      }
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to delete bank holiday', {
+        userId: req.user?.id,
+        date: req.params.date,
+      });
+    }
+  }
+}
+
+export const pricingController = new PricingController();
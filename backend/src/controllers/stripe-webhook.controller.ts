@@ -1,11 +1,24 @@
 import { createHash } from 'crypto';
 import { Request, Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
 import Stripe from 'stripe';
 import { getStripe, STRIPE_WEBHOOK_SECRET } from '../config/stripe';
 import { logger } from '../utils/logger.util';
 import * as SubscriptionService from '../services/subscription.service';
 import * as BookingService from '../services/booking.service';
 import * as CreditTransactionService from '../services/credit-transaction.service';
+import * as BookingPaymentService from '../services/booking-payment.service';
+import * as SlotHoldService from '../services/slot-hold.service';
+import * as PaymentIncidentService from '../services/payment-incident.service';
+import * as StripeWebhookEventService from '../services/stripe-webhook-event.service';
+import * as DunningService from '../services/dunning.service';
+import * as PlanSwitchService from '../services/plan-switch.service';
+import {
+  BookingNotFoundError,
+  BookingValidationError,
+  PaymentRequiredError,
+} from '../errors/booking.errors';
+import { WebhookEventServiceError } from '../errors/stripe-webhook-event.errors';
 
 /** Deterministic UUID from Stripe payment intent id for use as credit sourceId (DB source_id is uuid). */
 function paymentIntentIdToSourceId(paymentIntentId: string): string {
@@ -25,6 +38,22 @@ function extractSubscriptionId(invoice: Stripe.Invoice): string | undefined {
   return (subscriptionField as Stripe.Subscription | null | undefined)?.id;
 }
 
+/**
+ * User a subscription invoice is for: from the subscription metadata Stripe snapshots onto the
+ * invoice at finalization, falling back to retrieving the subscription.
+ */
+async function getInvoiceUserId(
+  stripe: Stripe,
+  invoice: Stripe.Invoice
+): Promise<string | undefined> {
+  const userId = invoice.parent?.subscription_details?.metadata?.userId;
+  if (userId != null) return userId;
+  const subId = extractSubscriptionId(invoice);
+  if (!subId) return undefined;
+  const subscription = await stripe.subscriptions.retrieve(subId);
+  return subscription.metadata?.userId ?? undefined;
+}
+
 /** Grant pay-the-difference credits: amountReceived (pence) to GBP, expiry = last day of current UTC month. */
 async function grantPayDifferenceCredits(
   userId: string,
@@ -52,25 +81,56 @@ async function grantPayDifferenceCredits(
   );
 }
 
-/** In-memory map of processed event IDs with timestamps for TTL cleanup (PR 6 minimal). Replace with DB in production. */
-const processedEventIds = new Map<string, number>();
-const EVENT_ID_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // Every hour
-
-function cleanupOldEventIds(): void {
-  const now = Date.now();
-  for (const [id, timestamp] of processedEventIds.entries()) {
-    if (now - timestamp > EVENT_ID_TTL_MS) {
-      processedEventIds.delete(id);
-    }
+/**
+ * A pay-the-difference payment succeeded but its booking (or booking change) could not be made:
+ * release the slot holds and give the money back (refund or credit, recorded as a payment
+ * incident). Skipped when the payment is already recorded against a booking, i.e. a redelivered
+ * event for a booking that was made.
+ */
+async function returnUnbookedPayment(
+  eventId: string,
+  paymentIntent: Stripe.PaymentIntent,
+  userId: string,
+  reason: string,
+  slots: PaymentIncidentService.UnbookedSlot[]
+): Promise<void> {
+  await SlotHoldService.releaseHoldsForPaymentIntent(paymentIntent.id);
+  if (await BookingPaymentService.isPaymentIntentRecorded(paymentIntent.id)) {
+    logger.info('Pay-the-difference payment already booked (redelivered event)', {
+      eventId,
+      userId,
+      paymentIntentId: paymentIntent.id,
+    });
+    return;
   }
+  logger.warn('Pay-the-difference booking could not be made', {
+    eventId,
+    userId,
+    paymentIntentId: paymentIntent.id,
+    reason,
+  });
+  await PaymentIncidentService.resolveUnbookedPayment({
+    userId,
+    paymentIntentId: paymentIntent.id,
+    paymentType: paymentIntent.metadata?.type ?? 'unknown',
+    amountPence: paymentIntent.amount_received,
+    reason,
+    slots,
+  });
 }
 
-const cleanupIntervalId = setInterval(cleanupOldEventIds, CLEANUP_INTERVAL_MS);
-
-/** For testing or graceful shutdown: clears the idempotency cleanup interval. */
-export function stopIdempotencyCleanup(): void {
-  clearInterval(cleanupIntervalId);
+/** A monthly subscription ended (deleted, or updated to a final status): end the membership's. */
+async function endMonthlySubscription(
+  event: Stripe.Event,
+  subscription: Stripe.Subscription
+): Promise<void> {
+  const endedAtSeconds = subscription.ended_at ?? subscription.canceled_at;
+  const endedAt = endedAtSeconds != null ? new Date(endedAtSeconds * 1000) : new Date();
+  const suspensionDate = await SubscriptionService.endMonthlySubscription(subscription.id, endedAt);
+  logger.info(
+    suspensionDate ? 'Monthly subscription ended' : 'Stripe webhook event received',
+    { eventId: event.id, type: event.type, subscriptionId: subscription.id, suspensionDate }
+  );
 }
 
 /** Prorated line identifier (case-insensitive match so Stripe variations still match). */
@@ -129,221 +189,270 @@ function parseSubscriptionInvoiceLines(invoice: Stripe.Invoice): {
 }
 
 /**
- * Stripe webhook handler: verify signature, enforce idempotency, dispatch by event type.
- * Credit granting and subscription updates are implemented in PR 8+; here we only verify and acknowledge.
+ * Dispatch a verified event to its handler. Throws when handling failed and should be retried.
+ * @returns 'unhandled' when there is no handler for the event type.
  */
-export async function handleStripeWebhook(req: Request, res: Response): Promise<void> {
-  const signature = req.headers['stripe-signature'];
-  if (!signature || typeof signature !== 'string') {
-    logger.warn('Stripe webhook received without stripe-signature header');
-    res.status(400).json({ error: 'Missing stripe-signature header' });
-    return;
-  }
-
-  if (!STRIPE_WEBHOOK_SECRET) {
-    logger.error('Stripe webhook received but STRIPE_WEBHOOK_SECRET is not set');
-    res.status(500).json({ error: 'Webhook secret not configured' });
-    return;
-  }
-
-  const rawBody = req.body;
-  if (!rawBody || !(rawBody instanceof Buffer)) {
-    logger.warn(
-      'Stripe webhook body is not raw Buffer (ensure express.raw() is used for this route)'
-    );
-    res.status(400).json({ error: 'Invalid webhook body' });
-    return;
-  }
-
+async function processStripeEvent(
+  event: Stripe.Event
+): Promise<StripeWebhookEventService.WebhookEventOutcome> {
   const stripe = getStripe();
-  let event: Stripe.Event;
-  try {
-    event = stripe.webhooks.constructEvent(rawBody, signature, STRIPE_WEBHOOK_SECRET);
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'Unknown error';
-    logger.warn('Stripe webhook signature verification failed', { error: message });
-    res.status(400).json({ error: 'Webhook signature verification failed' });
-    return;
-  }
-
-  if (processedEventIds.has(event.id)) {
-    logger.info('Stripe webhook event already processed (idempotent)', { eventId: event.id });
-    res.status(200).json({ received: true });
-    return;
-  }
-
-  try {
-    switch (event.type) {
-      case 'payment_intent.succeeded': {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        const type = paymentIntent.metadata?.type;
-        const userId = paymentIntent.metadata?.userId;
-        const purchaseDate = paymentIntent.metadata?.purchaseDate;
-        if (type === 'ad_hoc_subscription' && userId && purchaseDate) {
-          await SubscriptionService.processAdHocPaymentSuccess(userId, purchaseDate);
-          logger.info('Ad-hoc subscription payment processed', { eventId: event.id, userId });
-        } else if (type === 'pay_the_difference' && userId && paymentIntent.metadata?.roomId) {
-          const roomId = paymentIntent.metadata.roomId;
-          const date = paymentIntent.metadata.date;
-          const startTime = paymentIntent.metadata.startTime;
-          const endTime = paymentIntent.metadata.endTime;
-          const bookingType =
-            (paymentIntent.metadata.bookingType as
-              | 'permanent_recurring'
-              | 'ad_hoc'
-              | 'free'
-              | 'internal') ?? 'ad_hoc';
-          const amountReceived = paymentIntent.amount_received;
-          if (!date || !startTime || !endTime || amountReceived == null) {
-            logger.warn('Pay-the-difference metadata incomplete', {
-              eventId: event.id,
-              userId,
-              missing: {
-                date: !date,
-                startTime: !startTime,
-                endTime: !endTime,
-                amount_received: amountReceived == null,
-              },
-            });
-          } else {
-            const expectedPence = paymentIntent.metadata.expectedAmountPence;
-            if (expectedPence != null) {
-              const expected = parseInt(String(expectedPence), 10);
-              if (!Number.isNaN(expected) && expected !== amountReceived) {
-                logger.warn('Pay-the-difference amount mismatch', {
-                  eventId: event.id,
-                  userId,
-                  expectedAmountPence: expected,
-                  amountReceived,
-                });
-              }
-            }
-            const available = await BookingService.checkAvailability(
-              roomId,
-              date,
-              startTime,
-              endTime
-            );
-            if (!available) {
-              logger.warn('Pay-the-difference slot no longer available', {
+  switch (event.type) {
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      const type = paymentIntent.metadata?.type;
+      const userId = paymentIntent.metadata?.userId;
+      const purchaseDate = paymentIntent.metadata?.purchaseDate;
+      if (type === 'ad_hoc_subscription' && userId && purchaseDate) {
+        await SubscriptionService.processAdHocPaymentSuccess(userId, purchaseDate);
+        // A switch from monthly, if this payment is for one
+        await PlanSwitchService.completePlanSwitch({ paymentIntentId: paymentIntent.id });
+        logger.info('Ad-hoc subscription payment processed', { eventId: event.id, userId });
+      } else if (type === 'pay_the_difference' && userId && paymentIntent.metadata?.roomId) {
+        const roomId = paymentIntent.metadata.roomId;
+        const date = paymentIntent.metadata.date;
+        const startTime = paymentIntent.metadata.startTime;
+        const endTime = paymentIntent.metadata.endTime;
+        const bookingType =
+          (paymentIntent.metadata.bookingType as
+            | 'permanent_recurring'
+            | 'ad_hoc'
+            | 'free'
+            | 'internal') ?? 'ad_hoc';
+        const amountReceived = paymentIntent.amount_received;
+        if (!date || !startTime || !endTime || amountReceived == null) {
+          logger.warn('Pay-the-difference metadata incomplete', {
+            eventId: event.id,
+            userId,
+            missing: {
+              date: !date,
+              startTime: !startTime,
+              endTime: !endTime,
+              amount_received: amountReceived == null,
+            },
+          });
+        } else {
+          const expectedPence = paymentIntent.metadata.expectedAmountPence;
+          if (expectedPence != null) {
+            const expected = parseInt(String(expectedPence), 10);
+            if (!Number.isNaN(expected) && expected !== amountReceived) {
+              logger.warn('Pay-the-difference amount mismatch', {
                 eventId: event.id,
                 userId,
-                roomId,
-                date,
+                expectedAmountPence: expected,
+                amountReceived,
               });
-              break;
             }
-            // For pay-the-difference, payment directly covers the shortfall
-            // Convert amountReceived (pence) to GBP for passing to createBooking
-            // Note: Credits are NOT granted for new bookings - payment appears in transaction history via booking record
-            const paymentAmountGBP = amountReceived / 100;
-            const result = await BookingService.createBooking(
+          }
+          const slot = { roomId, date, startTime, endTime };
+          const available = await BookingService.checkAvailability(
+            roomId,
+            date,
+            startTime,
+            endTime,
+            userId
+          );
+          if (!available) {
+            await returnUnbookedPayment(
+              event.id,
+              paymentIntent,
+              userId,
+              BookingService.SLOT_UNAVAILABLE_ERROR,
+              [slot]
+            );
+            break;
+          }
+          // For pay-the-difference, payment directly covers the shortfall
+          // Convert amountReceived (pence) to GBP for passing to createBooking
+          // Note: Credits are NOT granted for new bookings - payment appears in transaction history via booking record
+          const paymentAmountGBP = amountReceived / 100;
+          let result: BookingService.CreateBookingResult;
+          try {
+            result = await BookingService.createBooking(
               userId,
               roomId,
               date,
               startTime,
               endTime,
-              bookingType,
-              paymentAmountGBP
-            );
-            if ('paymentRequired' in result && result.paymentRequired) {
-              logger.error('Pay-the-difference createBooking returned paymentRequired', {
-                eventId: event.id,
-                userId,
-                roomId,
-                date,
-              });
-            } else if ('id' in result) {
-              // For new bookings with pay-the-difference, the payment directly covers the shortfall
-              // We do NOT grant credits because the payment is not a credit grant - it's a direct payment
-              // The payment will still appear in transaction history via the booking record
-              // (Note: For booking updates, we DO grant credits because the booking already exists)
-              logger.info('Pay-the-difference booking created', {
-                eventId: event.id,
-                userId,
-                bookingId: result.id,
-                paymentAmountGBP: paymentAmountGBP,
+              {
+                bookingType,
+                paymentAmountMade: paymentAmountGBP,
                 paymentIntentId: paymentIntent.id,
-              });
-            }
+              }
+            );
+          } catch (err) {
+            // Booking rules no longer met (e.g. membership suspended); other errors are retried
+            if (!(err instanceof BookingValidationError)) throw err;
+            await returnUnbookedPayment(event.id, paymentIntent, userId, err.message, [slot]);
+            break;
+          }
+          if ('paymentRequired' in result && result.paymentRequired) {
+            logger.error('Pay-the-difference createBooking returned paymentRequired', {
+              eventId: event.id,
+              userId,
+              roomId,
+              date,
+            });
+            await returnUnbookedPayment(
+              event.id,
+              paymentIntent,
+              userId,
+              'Payment did not cover the booking',
+              [slot]
+            );
+          } else if ('id' in result) {
+            // For new bookings with pay-the-difference, the payment directly covers the shortfall
+            // We do NOT grant credits because the payment is not a credit grant - it's a direct payment
+            // The payment will still appear in transaction history via the booking record
+            // (Note: For booking updates, we DO grant credits because the booking already exists)
+            logger.info('Pay-the-difference booking created', {
+              eventId: event.id,
+              userId,
+              bookingId: result.id,
+              paymentAmountGBP: paymentAmountGBP,
+              paymentIntentId: paymentIntent.id,
+            });
           }
-        } else if (type === 'pay_the_difference_update' && userId && paymentIntent.metadata?.bookingId) {
-          const bookingId = paymentIntent.metadata.bookingId;
-          const roomId = paymentIntent.metadata.roomId;
-          const bookingDate = paymentIntent.metadata.bookingDate;
-          const startTime = paymentIntent.metadata.startTime;
-          const endTime = paymentIntent.metadata.endTime;
-          const amountReceived = paymentIntent.amount_received;
-          if (amountReceived == null) {
-            logger.warn('Pay-the-difference-update metadata incomplete', {
+        }
+      } else if (type === 'pay_the_difference_batch' && userId) {
+        const items = BookingService.decodeBatchItemsMetadata(paymentIntent.metadata);
+        const amountReceived = paymentIntent.amount_received;
+        const bookingType =
+          paymentIntent.metadata.bookingType === 'permanent_recurring'
+            ? 'permanent_recurring'
+            : 'ad_hoc';
+        if (items.length === 0 || amountReceived == null) {
+          logger.warn('Pay-the-difference-batch metadata incomplete', {
+            eventId: event.id,
+            userId,
+            missing: { items: items.length === 0, amount_received: amountReceived == null },
+          });
+          break;
+        }
+        const expected = parseInt(String(paymentIntent.metadata.expectedAmountPence), 10);
+        if (!Number.isNaN(expected) && expected !== amountReceived) {
+          logger.warn('Pay-the-difference-batch amount mismatch', {
+            eventId: event.id,
+            userId,
+            expectedAmountPence: expected,
+            amountReceived,
+          });
+        }
+        try {
+          const result = await BookingService.createBookingBatch(userId, items, bookingType, {
+            amount: amountReceived / 100,
+            paymentIntentId: paymentIntent.id,
+          });
+          if ('ids' in result) {
+            logger.info('Pay-the-difference batch bookings created', {
+              eventId: event.id,
+              userId,
+              bookingIds: result.ids,
+              paymentIntentId: paymentIntent.id,
+            });
+          } else {
+            logger.error('Pay-the-difference createBookingBatch returned paymentRequired', {
+              eventId: event.id,
+              userId,
+            });
+            await returnUnbookedPayment(
+              event.id,
+              paymentIntent,
+              userId,
+              'Payment did not cover the bookings',
+              items
+            );
+          }
+        } catch (err) {
+          // All or none: a slot taken since payment leaves the whole batch unbooked
+          if (!(err instanceof BookingValidationError)) throw err;
+          await returnUnbookedPayment(event.id, paymentIntent, userId, err.message, items);
+        }
+      } else if (type === 'pay_the_difference_update' && userId && paymentIntent.metadata?.bookingId) {
+        const bookingId = paymentIntent.metadata.bookingId;
+        const roomId = paymentIntent.metadata.roomId;
+        const bookingDate = paymentIntent.metadata.bookingDate;
+        const startTime = paymentIntent.metadata.startTime;
+        const endTime = paymentIntent.metadata.endTime;
+        const amountReceived = paymentIntent.amount_received;
+        if (amountReceived == null) {
+          logger.warn('Pay-the-difference-update metadata incomplete', {
+            eventId: event.id,
+            userId,
+            bookingId,
+          });
+        } else {
+          const sourceId = paymentIntentIdToSourceId(paymentIntent.id);
+          let creditTransactionId = await CreditTransactionService.getCreditIdForSourceId(
+            userId,
+            'pay_difference',
+            sourceId
+          );
+          let creditsGrantedThisCall = false;
+          if (creditTransactionId) {
+            logger.info('Pay-the-difference-update credits already granted (idempotent)', {
               eventId: event.id,
               userId,
               bookingId,
+              paymentIntentId: paymentIntent.id,
             });
           } else {
-            const sourceId = paymentIntentIdToSourceId(paymentIntent.id);
-            const alreadyGranted = await CreditTransactionService.hasCreditForSourceId(
+            creditTransactionId = await grantPayDifferenceCredits(
               userId,
-              'pay_difference',
+              amountReceived,
+              'Pay the difference for booking update',
               sourceId
             );
-            let creditsGrantedThisCall = false;
-            if (alreadyGranted) {
-              logger.info('Pay-the-difference-update credits already granted (idempotent)', {
-                eventId: event.id,
-                userId,
-                bookingId,
-                paymentIntentId: paymentIntent.id,
-              });
-            } else {
-              await grantPayDifferenceCredits(
-                userId,
-                amountReceived,
-                'Pay the difference for booking update',
-                sourceId
-              );
-              creditsGrantedThisCall = true;
-              logger.info('Pay-the-difference-update credits granted', {
+            creditsGrantedThisCall = true;
+            logger.info('Pay-the-difference-update credits granted', {
+              eventId: event.id,
+              userId,
+              bookingId,
+              paymentIntentId: paymentIntent.id,
+            });
+          }
+          const updates: Parameters<typeof BookingService.updateBooking>[3] = {};
+          if (typeof roomId === 'string') updates.roomId = roomId;
+          if (typeof bookingDate === 'string') updates.bookingDate = bookingDate;
+          if (typeof startTime === 'string') updates.startTime = startTime;
+          if (typeof endTime === 'string') updates.endTime = endTime;
+          const hasUpdates =
+            updates.roomId != null ||
+            updates.bookingDate != null ||
+            updates.startTime != null ||
+            updates.endTime != null;
+          if (hasUpdates) {
+            try {
+              await BookingService.updateBooking(bookingId, userId, false, updates);
+              logger.info('Pay-the-difference-update booking update completed', {
                 eventId: event.id,
                 userId,
                 bookingId,
-                paymentIntentId: paymentIntent.id,
               });
-            }
-            const updates: Parameters<typeof BookingService.updateBooking>[3] = {};
-            if (typeof roomId === 'string') updates.roomId = roomId;
-            if (typeof bookingDate === 'string') updates.bookingDate = bookingDate;
-            if (typeof startTime === 'string') updates.startTime = startTime;
-            if (typeof endTime === 'string') updates.endTime = endTime;
-            const hasUpdates =
-              updates.roomId != null ||
-              updates.bookingDate != null ||
-              updates.startTime != null ||
-              updates.endTime != null;
-            if (hasUpdates) {
-              try {
-                await BookingService.updateBooking(bookingId, userId, false, updates);
-                logger.info('Pay-the-difference-update booking update completed', {
-                  eventId: event.id,
-                  userId,
-                  bookingId,
-                });
-              } catch (updateErr) {
-                if (creditsGrantedThisCall) {
-                  try {
-                    await CreditTransactionService.revokePayDifferenceCredits(userId, sourceId);
-                    logger.warn(
-                      'Pay-the-difference-update credits revoked due to booking update failure',
-                      { eventId: event.id, userId, bookingId, paymentIntentId: paymentIntent.id }
-                    );
-                  } catch (revokeErr) {
-                    logger.error(
-                      'Failed to revoke pay-the-difference-update credits after booking update failure',
-                      revokeErr instanceof Error ? revokeErr : new Error(String(revokeErr)),
-                      { eventId: event.id, userId, bookingId, paymentIntentId: paymentIntent.id }
-                    );
-                  }
+            } catch (updateErr) {
+              // Booking gone, rules no longer met (e.g. slot taken since payment) or price risen:
+              // the payment goes back below, so its credits must go first; others are retried
+              const unbookable =
+                updateErr instanceof BookingValidationError ||
+                updateErr instanceof BookingNotFoundError ||
+                updateErr instanceof PaymentRequiredError;
+              if (unbookable) {
+                await CreditTransactionService.revokePayDifferenceCredits(userId, sourceId);
+              } else if (creditsGrantedThisCall) {
+                try {
+                  await CreditTransactionService.revokePayDifferenceCredits(userId, sourceId);
+                  logger.warn(
+                    'Pay-the-difference-update credits revoked due to booking update failure',
+                    { eventId: event.id, userId, bookingId, paymentIntentId: paymentIntent.id }
+                  );
+                } catch (revokeErr) {
+                  logger.error(
+                    'Failed to revoke pay-the-difference-update credits after booking update failure',
+                    revokeErr instanceof Error ? revokeErr : new Error(String(revokeErr)),
+                    { eventId: event.id, userId, bookingId, paymentIntentId: paymentIntent.id }
+                  );
                 }
+              }
+              if (!unbookable) {
                 logger.error(
                   'Pay-the-difference-update booking update failed',
                   updateErr instanceof Error ? updateErr : new Error(String(updateErr)),
@@ -351,191 +460,374 @@ export async function handleStripeWebhook(req: Request, res: Response): Promise<
                 );
                 throw updateErr;
               }
+              const slots =
+                roomId && bookingDate && startTime && endTime
+                  ? [{ roomId, date: bookingDate, startTime, endTime }]
+                  : [];
+              await returnUnbookedPayment(event.id, paymentIntent, userId, updateErr.message, slots);
+              break;
             }
           }
-        } else {
-          logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
+          // Record the payment against the booking so it can be refunded to the card later
+          await BookingPaymentService.recordPayment(
+            bookingId,
+            paymentIntent.id,
+            amountReceived / 100,
+            { creditTransactionId }
+          );
+          await SlotHoldService.releaseHoldsForPaymentIntent(paymentIntent.id);
         }
-        break;
+      } else {
+        logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
       }
-      case 'payment_intent.payment_failed':
+      break;
+    }
+    case 'payment_intent.payment_failed':
+    case 'payment_intent.canceled': {
+      // A failed or abandoned checkout gives its held slots back
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      const released = await SlotHoldService.releaseHoldsForPaymentIntent(paymentIntent.id);
+      // A failed attempt can be retried, so a plan switch keeps its credit until cancelled
+      const releasedPlanSwitch =
+        event.type === 'payment_intent.canceled' &&
+        (await PlanSwitchService.releasePlanSwitch({ paymentIntentId: paymentIntent.id }));
+      logger.info('Stripe webhook event received', {
+        eventId: event.id,
+        type: event.type,
+        releasedSlotHolds: released,
+        releasedPlanSwitch,
+      });
+      break;
+    }
+    case 'customer.subscription.created': {
+      const subscription = event.data.object as Stripe.Subscription;
+      const userId = subscription.metadata?.userId;
+      if (userId && subscription.id && subscription.status === 'active') {
+        await SubscriptionService.linkMonthlySubscriptionToMembership(userId, subscription.id);
+        logger.info('Monthly subscription linked to membership', { eventId: event.id, userId });
+      } else {
         logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
+      }
+      break;
+    }
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      const userId = subscription.metadata?.userId;
+      if (subscription.status === 'canceled' || subscription.status === 'incomplete_expired') {
+        await endMonthlySubscription(event, subscription);
         break;
-      case 'customer.subscription.created': {
-        const subscription = event.data.object as Stripe.Subscription;
-        const userId = subscription.metadata?.userId;
-        if (userId && subscription.id && subscription.status === 'active') {
-          await SubscriptionService.linkMonthlySubscriptionToMembership(userId, subscription.id);
-          logger.info('Monthly subscription linked to membership', { eventId: event.id, userId });
+      }
+      // Before linking, so a return to active from unpaid is seen as a change
+      const statusRecorded = await SubscriptionService.updateMonthlySubscriptionStatus(
+        subscription.id,
+        subscription.status
+      );
+      if (userId && subscription.id && subscription.status === 'active') {
+        await SubscriptionService.linkMonthlySubscriptionToMembership(userId, subscription.id);
+        logger.info('Monthly subscription linked to membership', { eventId: event.id, userId });
+      } else {
+        logger.info(
+          statusRecorded ? 'Monthly subscription status recorded' : 'Stripe webhook event received',
+          { eventId: event.id, type: event.type, status: subscription.status }
+        );
+      }
+      break;
+    }
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      if (
+        session.mode === 'subscription' &&
+        session.payment_status === 'paid' &&
+        session.subscription
+      ) {
+        // A switch from ad-hoc, if this checkout is for one
+        await PlanSwitchService.completePlanSwitch({ checkoutSessionId: session.id });
+        const userId = session.metadata?.userId;
+        const subscriptionId =
+          typeof session.subscription === 'string'
+            ? session.subscription
+            : (session.subscription as { id?: string })?.id;
+        if (userId && subscriptionId) {
+          await SubscriptionService.linkMonthlySubscriptionToMembership(userId, subscriptionId);
+          logger.info('Monthly subscription linked from Checkout', {
+            eventId: event.id,
+            userId,
+            subscriptionId,
+          });
         } else {
           logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
         }
+      } else {
+        logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
+      }
+      break;
+    }
+    case 'checkout.session.expired':
+    case 'checkout.session.async_payment_failed': {
+      // An unpaid checkout gives a plan switch's carried credit back
+      const session = event.data.object as Stripe.Checkout.Session;
+      const releasedPlanSwitch = await PlanSwitchService.releasePlanSwitch({
+        checkoutSessionId: session.id,
+      });
+      logger.info('Stripe webhook event received', {
+        eventId: event.id,
+        type: event.type,
+        releasedPlanSwitch,
+      });
+      break;
+    }
+    case 'customer.subscription.deleted':
+      await endMonthlySubscription(event, event.data.object as Stripe.Subscription);
+      break;
+    case 'invoice.payment_succeeded': {
+      let invoice = event.data.object as Stripe.Invoice & {
+        subscription?: string | { id?: string };
+        parent?: { subscription_details?: { metadata?: { userId?: string } } };
+      };
+      const periodEnd = invoice.period_end;
+      if (periodEnd == null) {
+        logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
         break;
       }
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as Stripe.Subscription;
-        const userId = subscription.metadata?.userId;
-        if (userId && subscription.id && subscription.status === 'active') {
-          await SubscriptionService.linkMonthlySubscriptionToMembership(userId, subscription.id);
-          logger.info('Monthly subscription linked to membership', { eventId: event.id, userId });
-        } else {
-          logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
-        }
+      // Fetch full invoice with lines and price.product so we can detect prorated line by product name.
+      const fullInvoice = (await stripe.invoices.retrieve(invoice.id, {
+        expand: ['lines.data.price.product'],
+      })) as Stripe.Invoice;
+      let amountPaidPence = fullInvoice.amount_paid ?? 0;
+      if (amountPaidPence <= 0) {
+        logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
+        break;
+      }
+      const userId = await getInvoiceUserId(stripe, fullInvoice);
+      if (userId == null) {
+        logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
         break;
       }
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session;
-        if (
-          session.mode === 'subscription' &&
-          session.payment_status === 'paid' &&
-          session.subscription
-        ) {
-          const userId = session.metadata?.userId;
-          const subscriptionId =
-            typeof session.subscription === 'string'
-              ? session.subscription
-              : (session.subscription as { id?: string })?.id;
-          if (userId && subscriptionId) {
-            await SubscriptionService.linkMonthlySubscriptionToMembership(userId, subscriptionId);
-            logger.info('Monthly subscription linked from Checkout', {
+      // A paid invoice ends dunning for an earlier failed one
+      if (await DunningService.resolvePaymentFailure(userId)) {
+        logger.info('Subscription payment failure resolved', { eventId: event.id, userId });
+      }
+      // First invoice: grant from subscription metadata if present (no line parsing).
+      const billingReason = fullInvoice.billing_reason ?? '';
+      if (billingReason === 'subscription_create') {
+        const subId = extractSubscriptionId(fullInvoice);
+        if (subId) {
+          const subscription = await stripe.subscriptions.retrieve(subId);
+          const meta = subscription.metadata ?? {};
+          // A switch from ad-hoc, if this subscription is for one (also completed by checkout)
+          if (meta.planSwitchId) {
+            await PlanSwitchService.completePlanSwitch({ id: meta.planSwitchId });
+          }
+          const curPence = meta.currentMonthAmountPence != null ? parseInt(meta.currentMonthAmountPence, 10) : NaN;
+          const nextPence = meta.nextMonthAmountPence != null ? parseInt(meta.nextMonthAmountPence, 10) : NaN;
+          const curExpiry = (meta.currentMonthExpiry ?? '').trim();
+          const nextExpiry = (meta.nextMonthExpiry ?? '').trim();
+          const expiryRegex = /^\d{4}-\d{2}-\d{2}$/;
+          if (
+            Number.isFinite(curPence) &&
+            curPence > 0 &&
+            Number.isFinite(nextPence) &&
+            nextPence > 0 &&
+            expiryRegex.test(curExpiry) &&
+            expiryRegex.test(nextExpiry)
+          ) {
+            const currentMonthPeriodEnd = new Date(curExpiry + 'T12:00:00Z');
+            const nextMonthPeriodEnd = new Date(nextExpiry + 'T12:00:00Z');
+            await SubscriptionService.processInitialMonthlyInvoice(
+              userId,
+              curPence,
+              nextPence,
+              currentMonthPeriodEnd,
+              nextMonthPeriodEnd
+            );
+            logger.info('Monthly subscription payment processed (from metadata)', {
               eventId: event.id,
               userId,
-              subscriptionId,
+              currentMonthAmountPence: curPence,
+              nextMonthAmountPence: nextPence,
             });
-          } else {
-            logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
+            break;
           }
-        } else {
-          logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
         }
-        break;
       }
-      case 'customer.subscription.deleted':
+      // Recurring invoice or metadata missing: use line parsing or single credit.
+      const split = parseSubscriptionInvoiceLines(fullInvoice as Stripe.Invoice);
+      const lineCount = fullInvoice.lines?.data?.length ?? 0;
+      if (split == null && lineCount >= 2) {
+        const lineSummaries = (fullInvoice.lines?.data ?? []).map((l: Stripe.InvoiceLineItem) => ({
+          amount: l.amount,
+          description: l.description ?? null,
+          subscription: l.subscription != null,
+        }));
+        logger.info('Invoice has multiple lines but no prorated split detected', {
+          eventId: event.id,
+          invoiceId: fullInvoice.id,
+          lineCount,
+          lineSummaries,
+        });
+      }
+      if (split != null) {
+        const effectivePeriodEnd = split.subscriptionPeriodEnd ?? periodEnd;
+        const periodEndDate = new Date(effectivePeriodEnd * 1000);
+        const periodEndYear = periodEndDate.getUTCFullYear();
+        const periodEndMonth = periodEndDate.getUTCMonth();
+        const currentMonthPeriodEnd = new Date(Date.UTC(periodEndYear, periodEndMonth, 0));
+        const nextMonthPeriodEnd = new Date(Date.UTC(periodEndYear, periodEndMonth + 1, 0));
+        await SubscriptionService.processInitialMonthlyInvoice(
+          userId,
+          split.currentMonthAmountPence,
+          split.nextMonthAmountPence,
+          currentMonthPeriodEnd,
+          nextMonthPeriodEnd
+        );
+        logger.info('Monthly subscription payment processed (split from lines)', {
+          eventId: event.id,
+          userId,
+          currentMonthAmountPence: split.currentMonthAmountPence,
+          nextMonthAmountPence: split.nextMonthAmountPence,
+        });
+      } else {
+        const paymentDate = new Date(periodEnd * 1000);
+        await SubscriptionService.processMonthlyPayment(userId, paymentDate, amountPaidPence);
+        logger.info('Monthly subscription payment processed', { eventId: event.id, userId });
+      }
+      break;
+    }
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      const paymentIntentId =
+        typeof charge.payment_intent === 'string'
+          ? charge.payment_intent
+          : charge.payment_intent?.id;
+      const refundId = charge.refunds?.data?.[0]?.id;
+      if (paymentIntentId) {
+        const reconciled = await BookingPaymentService.reconcileChargeRefunded(
+          paymentIntentId,
+          charge.amount_refunded,
+          refundId
+        );
+        logger.info(
+          reconciled ? 'Booking card refund reconciled' : 'Stripe webhook event received',
+          { eventId: event.id, type: event.type, paymentIntentId }
+        );
+      } else {
         logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
-        break;
-      case 'invoice.payment_succeeded': {
-        let invoice = event.data.object as Stripe.Invoice & {
-          subscription?: string | { id?: string };
-          parent?: { subscription_details?: { metadata?: { userId?: string } } };
-        };
-        const periodEnd = invoice.period_end;
-        if (periodEnd == null) {
-          logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
-          break;
-        }
-        // Fetch full invoice with lines and price.product so we can detect prorated line by product name.
-        const fullInvoice = (await stripe.invoices.retrieve(invoice.id, {
-          expand: ['lines.data.price.product'],
-        })) as Stripe.Invoice;
-        let amountPaidPence = fullInvoice.amount_paid ?? 0;
-        if (amountPaidPence <= 0) {
-          logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
-          break;
-        }
-        // Prefer userId from invoice parent metadata (Stripe snapshots subscription metadata at finalization) to avoid synchronous stripe.subscriptions.retrieve.
-        let userId: string | undefined = fullInvoice.parent?.subscription_details?.metadata?.userId;
-        if (userId == null) {
-          const subId = extractSubscriptionId(fullInvoice);
-          if (subId) {
-            const subscription = await stripe.subscriptions.retrieve(subId);
-            userId = subscription.metadata?.userId ?? undefined;
-          }
-        }
-        if (userId == null) {
-          logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
-          break;
-        }
-        // First invoice: grant from subscription metadata if present (no line parsing).
-        const billingReason = fullInvoice.billing_reason ?? '';
-        if (billingReason === 'subscription_create') {
-          const subId = extractSubscriptionId(fullInvoice);
-          if (subId) {
-            const subscription = await stripe.subscriptions.retrieve(subId);
-            const meta = subscription.metadata ?? {};
-            const curPence = meta.currentMonthAmountPence != null ? parseInt(meta.currentMonthAmountPence, 10) : NaN;
-            const nextPence = meta.nextMonthAmountPence != null ? parseInt(meta.nextMonthAmountPence, 10) : NaN;
-            const curExpiry = (meta.currentMonthExpiry ?? '').trim();
-            const nextExpiry = (meta.nextMonthExpiry ?? '').trim();
-            const expiryRegex = /^\d{4}-\d{2}-\d{2}$/;
-            if (
-              Number.isFinite(curPence) &&
-              curPence > 0 &&
-              Number.isFinite(nextPence) &&
-              nextPence > 0 &&
-              expiryRegex.test(curExpiry) &&
-              expiryRegex.test(nextExpiry)
-            ) {
-              const currentMonthPeriodEnd = new Date(curExpiry + 'T12:00:00Z');
-              const nextMonthPeriodEnd = new Date(nextExpiry + 'T12:00:00Z');
-              await SubscriptionService.processInitialMonthlyInvoice(
-                userId,
-                curPence,
-                nextPence,
-                currentMonthPeriodEnd,
-                nextMonthPeriodEnd
-              );
-              logger.info('Monthly subscription payment processed (from metadata)', {
-                eventId: event.id,
-                userId,
-                currentMonthAmountPence: curPence,
-                nextMonthAmountPence: nextPence,
-              });
-              break;
-            }
-          }
-        }
-        // Recurring invoice or metadata missing: use line parsing or single credit.
-        const split = parseSubscriptionInvoiceLines(fullInvoice as Stripe.Invoice);
-        const lineCount = fullInvoice.lines?.data?.length ?? 0;
-        if (split == null && lineCount >= 2) {
-          const lineSummaries = (fullInvoice.lines?.data ?? []).map((l: Stripe.InvoiceLineItem) => ({
-            amount: l.amount,
-            description: l.description ?? null,
-            subscription: l.subscription != null,
-          }));
-          logger.info('Invoice has multiple lines but no prorated split detected', {
-            eventId: event.id,
-            invoiceId: fullInvoice.id,
-            lineCount,
-            lineSummaries,
-          });
-        }
-        if (split != null) {
-          const effectivePeriodEnd = split.subscriptionPeriodEnd ?? periodEnd;
-          const periodEndDate = new Date(effectivePeriodEnd * 1000);
-          const periodEndYear = periodEndDate.getUTCFullYear();
-          const periodEndMonth = periodEndDate.getUTCMonth();
-          const currentMonthPeriodEnd = new Date(Date.UTC(periodEndYear, periodEndMonth, 0));
-          const nextMonthPeriodEnd = new Date(Date.UTC(periodEndYear, periodEndMonth + 1, 0));
-          await SubscriptionService.processInitialMonthlyInvoice(
-            userId,
-            split.currentMonthAmountPence,
-            split.nextMonthAmountPence,
-            currentMonthPeriodEnd,
-            nextMonthPeriodEnd
-          );
-          logger.info('Monthly subscription payment processed (split from lines)', {
-            eventId: event.id,
-            userId,
-            currentMonthAmountPence: split.currentMonthAmountPence,
-            nextMonthAmountPence: split.nextMonthAmountPence,
-          });
-        } else {
-          const paymentDate = new Date(periodEnd * 1000);
-          await SubscriptionService.processMonthlyPayment(userId, paymentDate, amountPaidPence);
-          logger.info('Monthly subscription payment processed', { eventId: event.id, userId });
-        }
-        break;
       }
-      case 'invoice.payment_failed':
+      break;
+    }
+    case 'invoice.payment_failed': {
+      // The invoice's payment_intent.payment_failed is covered here, so it is not handled twice
+      const invoice = event.data.object as Stripe.Invoice;
+      const userId = await getInvoiceUserId(stripe, invoice);
+      if (userId == null) {
         logger.info('Stripe webhook event received', { eventId: event.id, type: event.type });
         break;
-      default:
-        logger.info('Stripe webhook event (unhandled type)', {
-          eventId: event.id,
-          type: event.type,
-        });
+      }
+      await DunningService.recordPaymentFailure(userId, invoice.hosted_invoice_url ?? null);
+      logger.info('Subscription payment failure recorded', {
+        eventId: event.id,
+        userId,
+        invoiceId: invoice.id,
+        attemptCount: invoice.attempt_count,
+      });
+      break;
     }
+    default:
+      logger.info('Stripe webhook event (unhandled type)', {
+        eventId: event.id,
+        type: event.type,
+      });
+      return 'unhandled';
+  }
+  return 'processed';
+}
+
+/** Handle a claimed event and record the outcome on the stored event; errors are rethrown. */
+async function runClaimedEvent(
+  event: Stripe.Event
+): Promise<StripeWebhookEventService.WebhookEventOutcome> {
+  try {
+    const outcome = await processStripeEvent(event);
+    await StripeWebhookEventService.markHandled(event.id, outcome);
+    return outcome;
+  } catch (err) {
+    // If this fails too, the event stays 'processing' and is retried once stale
+    await StripeWebhookEventService.markFailed(event.id, err).catch((markErr) =>
+      logger.error(
+        'Failed to record Stripe webhook event failure',
+        markErr instanceof Error ? markErr : new Error(String(markErr)),
+        { eventId: event.id }
+      )
+    );
+    throw err;
+  }
+}
+
+/**
+ * Stripe webhook handler: verify signature, store the event (idempotency across restarts and
+ * instances), dispatch by event type. Failures return 500 so Stripe redelivers.
+ */
+export async function handleStripeWebhook(req: Request, res: Response): Promise<void> {
+  const signature = req.headers['stripe-signature'];
+  if (!signature || typeof signature !== 'string') {
+    logger.warn('Stripe webhook received without stripe-signature header');
+    res.status(400).json({ error: 'Missing stripe-signature header' });
+    return;
+  }
+
+  if (!STRIPE_WEBHOOK_SECRET) {
+    logger.error('Stripe webhook received but STRIPE_WEBHOOK_SECRET is not set');
+    res.status(500).json({ error: 'Webhook secret not configured' });
+    return;
+  }
+
+  const rawBody = req.body;
+  if (!rawBody || !(rawBody instanceof Buffer)) {
+    logger.warn(
+      'Stripe webhook body is not raw Buffer (ensure express.raw() is used for this route)'
+    );
+    res.status(400).json({ error: 'Invalid webhook body' });
+    return;
+  }
+
+  const stripe = getStripe();
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(rawBody, signature, STRIPE_WEBHOOK_SECRET);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    logger.warn('Stripe webhook signature verification failed', { error: message });
+    res.status(400).json({ error: 'Webhook signature verification failed' });
+    return;
+  }
+
+  let claim: StripeWebhookEventService.ClaimResult;
+  try {
+    claim = await StripeWebhookEventService.claimEvent(event);
+  } catch (err) {
+    logger.error(
+      'Failed to store Stripe webhook event',
+      err instanceof Error ? err : new Error(String(err)),
+      { eventId: event.id, type: event.type }
+    );
+    res.status(500).json({ error: 'Webhook handler failed' });
+    return;
+  }
+  if (claim === 'duplicate') {
+    logger.info('Stripe webhook event already processed (idempotent)', { eventId: event.id });
+    res.status(200).json({ received: true });
+    return;
+  }
+  if (claim === 'in_progress') {
+    // Not acknowledged: Stripe redelivers later, by when the other delivery has finished or failed
+    logger.info('Stripe webhook event already being processed', { eventId: event.id });
+    res.status(409).json({ error: 'Event is being processed' });
+    return;
+  }
+
+  try {
+    await runClaimedEvent(event);
   } catch (err) {
     logger.error(
       'Stripe webhook handler error',
@@ -546,6 +838,76 @@ export async function handleStripeWebhook(req: Request, res: Response): Promise<
     return;
   }
 
-  processedEventIds.set(event.id, Date.now());
   res.status(200).json({ received: true });
 }
+
+const WEBHOOK_EVENT_STATUSES: StripeWebhookEventService.WebhookEventStatus[] = [
+  'processing',
+  'processed',
+  'failed',
+  'unhandled',
+];
+
+/** GET /admin/webhook-events?status= – stored events; by default those needing attention */
+export async function listWebhookEvents(req: AuthRequest, res: Response): Promise<void> {
+  const { status } = req.query;
+  if (
+    status !== undefined &&
+    !WEBHOOK_EVENT_STATUSES.includes(status as StripeWebhookEventService.WebhookEventStatus)
+  ) {
+    res.status(400).json({ success: false, error: 'Invalid status' });
+    return;
+  }
+  try {
+    const events = await StripeWebhookEventService.listEvents(
+      status ? [status as StripeWebhookEventService.WebhookEventStatus] : undefined
+    );
+    res.status(200).json({ success: true, data: events });
+  } catch (error: unknown) {
+    logger.error(
+      'Failed to list Stripe webhook events',
+      error instanceof Error ? error : new Error(String(error)),
+      { userId: req.user?.id }
+    );
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/** POST /admin/webhook-events/:eventId/replay – re-run the handler for a failed/unhandled event */
+export async function replayWebhookEvent(req: AuthRequest, res: Response): Promise<void> {
+  const { eventId } = req.params;
+  let event: Stripe.Event;
+  try {
+    event = await StripeWebhookEventService.claimForReplay(eventId);
+  } catch (error: unknown) {
+    if (error instanceof WebhookEventServiceError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    logger.error(
+      'Failed to load Stripe webhook event for replay',
+      error instanceof Error ? error : new Error(String(error)),
+      { userId: req.user?.id, eventId }
+    );
+    res.status(500).json({ success: false, error: 'Internal server error' });
+    return;
+  }
+
+  logger.info('Replaying Stripe webhook event', {
+    userId: req.user?.id,
+    eventId,
+    type: event.type,
+  });
+  try {
+    const outcome = await runClaimedEvent(event);
+    res.status(200).json({ success: true, data: { id: eventId, status: outcome } });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(
+      'Stripe webhook event replay failed',
+      error instanceof Error ? error : new Error(message),
+      { userId: req.user?.id, eventId, type: event.type }
+    );
+    res.status(500).json({ success: false, error: `Replay failed: ${message}` });
+  }
+}
@@ -0,0 +1,87 @@
+import { Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
+import * as SubscriptionChangeService from '../services/subscription-change.service';
+import { SubscriptionServiceError } from '../errors/subscription.errors';
+import { logger } from '../utils/logger.util';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseNote(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, 1000) : undefined;
+}
+
+export class SubscriptionChangeController {
+  private handleError(
+    res: Response,
+    error: unknown,
+    message: string,
+    context: Record<string, unknown>
+  ) {
+    if (error instanceof SubscriptionServiceError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    logger.error(message, error instanceof Error ? error : new Error(String(error)), context);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+
+  /** GET /admin/subscription-requests – monthly cancellations and pauses, pending first */
+  async listRequests(req: AuthRequest, res: Response) {
+    try {
+      const requests = await SubscriptionChangeService.listRequests();
+      res.status(200).json({ success: true, data: requests });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to list subscription requests', {
+        userId: req.user?.id,
+      });
+    }
+  }
+
+  /** POST /admin/subscription-requests/:requestId/approve – apply a pending request */
+  async approveRequest(req: AuthRequest, res: Response) {
+    const { requestId } = req.params;
+    if (!UUID_REGEX.test(requestId)) {
+      res.status(400).json({ success: false, error: 'Invalid request id' });
+      return;
+    }
+    try {
+      await SubscriptionChangeService.approveRequest(
+        requestId,
+        req.user!.id,
+        parseNote(req.body?.note)
+      );
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to approve subscription request', {
+        userId: req.user?.id,
+        requestId,
+      });
+    }
+  }
+
+  /**
+   * POST /admin/subscription-requests/:requestId/reject – reject a pending request, or revert an
+   * applied one
+   */
+  async rejectRequest(req: AuthRequest, res: Response) {
+    const { requestId } = req.params;
+    if (!UUID_REGEX.test(requestId)) {
+      res.status(400).json({ success: false, error: 'Invalid request id' });
+      return;
+    }
+    try {
+      await SubscriptionChangeService.rejectRequest(
+        requestId,
+        req.user!.id,
+        parseNote(req.body?.note)
+      );
+      res.status(200).json({ success: true });
+    } catch (error: unknown) {
+      this.handleError(res, error, 'Failed to reject subscription request', {
+        userId: req.user?.id,
+        requestId,
+      });
+    }
+  }
+}
+
+export const subscriptionChangeController = new SubscriptionChangeController();
@@ -5,6 +5,8 @@ import { users, memberships } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import * as SubscriptionService from '../services/subscription.service';
 import * as StripePaymentService from '../services/stripe-payment.service';
+import * as SubscriptionChangeService from '../services/subscription-change.service';
+import * as PlanSwitchService from '../services/plan-switch.service';
 import { LIST_INVOICES_MISSING_CUSTOMER_ID } from '../services/stripe-payment.service';
 import { isStripeConfigured } from '../config/stripe';
 import {
@@ -16,6 +18,10 @@ import { logger } from '../utils/logger.util';
 
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 
+function parsePlan(value: unknown): PlanSwitchService.Plan | null {
+  return value === 'monthly' || value === 'ad_hoc' ? value : null;
+}
+
 function parseOptionalDate(value: unknown): string | undefined {
   if (typeof value !== 'string' || !value.trim()) return undefined;
   if (!DATE_REGEX.test(value.trim())) return undefined;
@@ -27,13 +33,20 @@ function parseOptionalDate(value: unknown): string | undefined {
 export class SubscriptionController {
   /**
    * GET /api/practitioner/subscriptions/status
-   * Returns subscription status and membership details for the practitioner UI.
+   * Returns subscription status and membership details for the practitioner UI, with any
+   * cancellation or pause of a monthly subscription that is pending or in effect.
    */
   async getStatus(req: AuthRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
       const details = await SubscriptionService.getSubscriptionStatusDetails(userId);
-      res.status(200).json({ success: true, ...details });
+      const changeRequest = await SubscriptionChangeService.getOpenRequest(userId);
+      res.status(200).json({
+        success: true,
+        ...details,
+        changeRequest,
+        maxPauseMonths: SubscriptionChangeService.SUBSCRIPTION_MAX_PAUSE_MONTHS,
+      });
     } catch (error) {
       logger.error(
         'Failed to get subscription status',
@@ -178,6 +191,106 @@ export class SubscriptionController {
     }
   }
 
+  /**
+   * POST /api/practitioner/subscriptions/monthly/cancel
+   * Cancel the monthly subscription at the end of the current billing period. Applied at once
+   * unless bookings fall after the last day, in which case it waits for an admin.
+   */
+  async cancelMonthly(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const changeRequest = await SubscriptionChangeService.requestCancellation(req.user!.id);
+      res.status(200).json({ success: true, changeRequest });
+    } catch (error) {
+      this.handleChangeError(res, error, 'Failed to cancel monthly subscription', req.user?.id);
+    }
+  }
+
+  /**
+   * POST /api/practitioner/subscriptions/monthly/pause
+   * Body: { months: number } (1 to SUBSCRIPTION_MAX_PAUSE_MONTHS). Pause billing from the end of
+   * the current billing period. Applied at once unless bookings fall in the pause.
+   */
+  async pauseMonthly(req: AuthRequest, res: Response): Promise<void> {
+    const months = Number(req.body?.months);
+    const max = SubscriptionChangeService.SUBSCRIPTION_MAX_PAUSE_MONTHS;
+    if (!Number.isInteger(months) || months < 1 || months > max) {
+      res.status(400).json({
+        success: false,
+        error: `months must be a whole number from 1 to ${max}`,
+      });
+      return;
+    }
+    try {
+      const changeRequest = await SubscriptionChangeService.requestPause(req.user!.id, months);
+      res.status(200).json({ success: true, changeRequest });
+    } catch (error) {
+      this.handleChangeError(res, error, 'Failed to pause monthly subscription', req.user?.id);
+    }
+  }
+
+  /**
+   * GET /api/practitioner/subscriptions/switch-quote?plan=monthly|ad_hoc
+   * What switching to the other plan costs today, after the unused credit carried over.
+   */
+  async getSwitchQuote(req: AuthRequest, res: Response): Promise<void> {
+    const plan = parsePlan(req.query.plan);
+    if (!plan) {
+      res.status(400).json({ success: false, error: 'plan must be monthly or ad_hoc' });
+      return;
+    }
+    try {
+      const quote = await PlanSwitchService.quotePlanSwitch(req.user!.id, plan);
+      res.status(200).json({ success: true, quote });
+    } catch (error) {
+      this.handleChangeError(res, error, 'Failed to price plan switch', req.user?.id);
+    }
+  }
+
+  /**
+   * POST /api/practitioner/subscriptions/switch
+   * Body: { plan: 'monthly' | 'ad_hoc' }. Returns a Checkout URL (monthly), a payment intent
+   * client secret (ad-hoc), or status 'completed' when carried credit covers the ad-hoc price.
+   */
+  async switchPlan(req: AuthRequest, res: Response): Promise<void> {
+    const plan = parsePlan(req.body?.plan);
+    if (!plan) {
+      res.status(400).json({ success: false, error: 'plan must be monthly or ad_hoc' });
+      return;
+    }
+    try {
+      const userId = req.user!.id;
+      const [user] = await db
+        .select({ email: users.email, firstName: users.firstName, lastName: users.lastName })
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+      if (!user) {
+        res.status(404).json({ success: false, error: 'User not found' });
+        return;
+      }
+      const name = [user.firstName, user.lastName].filter(Boolean).join(' ').trim() || user.email;
+      const result = await PlanSwitchService.switchPlan(userId, plan, user.email, name);
+      res.status(200).json({ success: true, ...result });
+    } catch (error) {
+      this.handleChangeError(res, error, 'Failed to switch plan', req.user?.id);
+    }
+  }
+
+  private handleChangeError(
+    res: Response,
+    error: unknown,
+    fallback: string,
+    userId: string | undefined
+  ): void {
+    const message = error instanceof Error ? error.message : fallback;
+    if (error instanceof SubscriptionServiceError) {
+      res.status(error.statusCode).json({ success: false, error: message });
+      return;
+    }
+    logger.error(fallback, error instanceof Error ? error : new Error(String(error)), { userId });
+    res.status(500).json({ success: false, error: message });
+  }
+
   /**
    * GET /api/practitioner/invoices
    * List Stripe invoices for the current user (by stripeCustomerId). Download via invoice_pdf URL from Stripe only; no DB.
@@ -0,0 +1,129 @@
+import { Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware';
+import * as WaitlistService from '../services/waitlist.service';
+import { logger } from '../utils/logger.util';
+import { BookingServiceError } from '../errors/booking.errors';
+
+const DEFAULT_STATUS = 500;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+/** Strict HH:MM (00:00–23:59). */
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const TOKEN_REGEX = /^[0-9a-f]{64}$/i;
+
+export class WaitlistController {
+  async getWaitlist(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const entries = await WaitlistService.getUserWaitlist(req.user!.id);
+      res.status(200).json({ success: true, waitlist: entries });
+    } catch (error) {
+      const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
+      logger.error(
+        'Failed to get waitlist',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId: req.user?.id }
+      );
+      res.status(status).json({ success: false, error: 'Failed to get waitlist' });
+    }
+  }
+
+  async joinWaitlist(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { roomId, date, startTime, endTime } = req.body;
+      if (!roomId || !date || !startTime || !endTime) {
+        res.status(400).json({
+          success: false,
+          error: 'roomId, date, startTime and endTime are required',
+        });
+        return;
+      }
+      if (!UUID_REGEX.test(String(roomId))) {
+        res.status(400).json({ success: false, error: 'Invalid roomId format' });
+        return;
+      }
+      if (!DATE_REGEX.test(String(date))) {
+        res.status(400).json({ success: false, error: 'Invalid date format. Use YYYY-MM-DD' });
+        return;
+      }
+      if (!TIME_REGEX.test(String(startTime).trim()) || !TIME_REGEX.test(String(endTime).trim())) {
+        res.status(400).json({ success: false, error: 'Invalid time format. Use HH:MM' });
+        return;
+      }
+      const entry = await WaitlistService.joinWaitlist(
+        req.user!.id,
+        String(roomId),
+        String(date),
+        String(startTime).trim(),
+        String(endTime).trim()
+      );
+      res.status(201).json({ success: true, entry });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to join waitlist';
+      const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
+      logger.error(
+        'Failed to join waitlist',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId: req.user?.id }
+      );
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
+  async leaveWaitlist(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!UUID_REGEX.test(id)) {
+        res.status(400).json({ success: false, error: 'Invalid waitlist entry id' });
+        return;
+      }
+      await WaitlistService.leaveWaitlist(id, req.user!.id);
+      res.status(200).json({ success: true, message: 'Removed from waitlist' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to leave waitlist';
+      const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
+      logger.error(
+        'Failed to leave waitlist',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId: req.user?.id, waitlistEntryId: req.params.id }
+      );
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+
+  async claimOffer(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const token = typeof req.body.token === 'string' ? req.body.token.trim() : '';
+      if (!TOKEN_REGEX.test(token)) {
+        res.status(400).json({ success: false, error: 'Invalid offer token' });
+        return;
+      }
+      const result = await WaitlistService.claimWaitlistOffer(token, req.user!.id);
+      if ('paymentRequired' in result && result.paymentRequired) {
+        res.status(402).json({
+          success: false,
+          paymentRequired: true,
+          clientSecret: result.clientSecret,
+          paymentIntentId: result.paymentIntentId,
+          amountPence: result.amountPence,
+        });
+        return;
+      }
+      if ('id' in result) {
+        res.status(201).json({ success: true, booking: { id: result.id } });
+        return;
+      }
+      res.status(500).json({ success: false, error: 'Unexpected booking result' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to claim offer';
+      const status = error instanceof BookingServiceError ? error.statusCode : DEFAULT_STATUS;
+      logger.error(
+        'Failed to claim waitlist offer',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId: req.user?.id }
+      );
+      res.status(status).json({ success: false, error: message });
+    }
+  }
+}
+
+export const waitlistController = new WaitlistController();
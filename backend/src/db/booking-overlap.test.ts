@@ -0,0 +1,125 @@
+/**
+ * Database-level check of the booking overlap guard (migration 0027): confirmed bookings for the
+ * same room cannot overlap, even when two transactions write them at the same time.
+ * Needs a migrated Postgres database in TEST_DATABASE_URL (rows are created and removed again);
+ * skipped without one.
+ */
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { and, eq } from 'drizzle-orm';
+import * as schema from './schema';
+import { BOOKING_OVERLAP_CONSTRAINT, isExclusionViolation } from '../utils/db-error.util';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+const BOOKING_DATE = '2099-01-05';
+
+describe(
+  'bookings_no_overlapping_confirmed',
+  { skip: !TEST_DATABASE_URL && 'TEST_DATABASE_URL is not set' },
+  () => {
+    let pool: Pool;
+    let db: ReturnType<typeof drizzle<typeof schema>>;
+    let userId: string;
+    let locationId: string;
+    let roomId: string;
+    let membershipId: string;
+
+    const booking = (
+      startTime: string,
+      endTime: string,
+      status: 'confirmed' | 'cancelled' = 'confirmed'
+    ) => ({
+      userId,
+      roomId,
+      membershipId,
+      bookingDate: BOOKING_DATE,
+      startTime,
+      endTime,
+      pricePerHour: '0.00',
+      totalPrice: '0.00',
+      bookingType: 'ad_hoc' as const,
+      status,
+    });
+
+    const confirmedCount = async () =>
+      (
+        await db
+          .select({ id: schema.bookings.id })
+          .from(schema.bookings)
+          .where(and(eq(schema.bookings.roomId, roomId), eq(schema.bookings.status, 'confirmed')))
+      ).length;
+
+    before(async () => {
+      pool = new Pool({ connectionString: TEST_DATABASE_URL });
+      db = drizzle(pool, { schema });
+      const suffix = randomUUID();
+      [{ id: userId }] = await db
+        .insert(schema.users)
+        .values({
+          email: `overlap-test-${suffix}@example.com`,
+          passwordHash: 'x',
+          firstName: 'Overlap',
+          lastName: 'Test',
+        })
+        .returning({ id: schema.users.id });
+      [{ id: membershipId }] = await db
+        .insert(schema.memberships)
+        .values({ userId, type: 'ad_hoc' })
+        .returning({ id: schema.memberships.id });
+      [{ id: locationId }] = await db
+        .insert(schema.locations)
+        .values({ name: `Overlap test ${suffix}`, roomCount: '1' })
+        .returning({ id: schema.locations.id });
+      [{ id: roomId }] = await db
+        .insert(schema.rooms)
+        .values({ locationId, name: 'Overlap test room', roomNumber: '1' })
+        .returning({ id: schema.rooms.id });
+    });
+
+    after(async () => {
+      // Bookings and the membership go with the user, the room with the location
+      if (userId) await db.delete(schema.users).where(eq(schema.users.id, userId));
+      if (locationId) await db.delete(schema.locations).where(eq(schema.locations.id, locationId));
+      await pool.end();
+    });
+
+    it('lets only one of two concurrent transactions book overlapping times', async () => {
+      const first = await pool.connect();
+      const second = await pool.connect();
+      try {
+        await first.query('BEGIN');
+        await second.query('BEGIN');
+        await drizzle(first, { schema })
+          .insert(schema.bookings)
+          .values(booking('10:00:00', '11:00:00'));
+        // Waits on the first transaction's uncommitted row, then fails once it commits
+        const secondInsert = drizzle(second, { schema })
+          .insert(schema.bookings)
+          .values(booking('10:30:00', '11:30:00'))
+          .then(
+            () => null,
+            (err: unknown) => err
+          );
+        await first.query('COMMIT');
+        const err = await secondInsert;
+        await second.query('ROLLBACK');
+
+        assert.ok(isExclusionViolation(err, BOOKING_OVERLAP_CONSTRAINT), String(err));
+        assert.equal(await confirmedCount(), 1);
+      } finally {
+        first.release();
+        second.release();
+      }
+    });
+
+    it('allows back-to-back bookings and ignores cancelled ones', async () => {
+      await db.insert(schema.bookings).values(booking('11:00:00', '12:00:00'));
+      await db.insert(schema.bookings).values(booking('12:00:00', '13:00:00', 'cancelled'));
+      await db.insert(schema.bookings).values(booking('12:00:00', '13:00:00'));
+      assert.equal(await confirmedCount(), 3);
+    });
+  }
+);
@@ -1,7 +1,7 @@
 import { Pool } from 'pg';
 import * as dotenv from 'dotenv';
 import { hashPassword } from '../utils/password.util';
-import { locations, rooms, users } from './schema';
+import { locations, rooms, users, pricingRules } from './schema';
 import { eq } from 'drizzle-orm';
 import { db } from '../config/database';
 
@@ -77,6 +77,31 @@ async function runInitialDataMigration() {
 
     console.log('✅ Rooms created');
 
+    // Default rate cards (weekday off-peak 08:00–15:00, peak 15:00–22:00, flat weekend rate)
+    console.log('💷 Creating default pricing rules...');
+    await db.insert(pricingRules).values([
+      {
+        locationId: pimlico.id,
+        effectiveFrom: '2000-01-01',
+        weekdayBands: [
+          { startTime: '08:00', endTime: '15:00', rate: 15, label: 'off_peak' },
+          { startTime: '15:00', endTime: '22:00', rate: 20, label: 'peak' },
+        ],
+        weekendRate: '13.00',
+      },
+      {
+        locationId: kensington.id,
+        effectiveFrom: '2000-01-01',
+        weekdayBands: [
+          { startTime: '08:00', endTime: '15:00', rate: 19, label: 'off_peak' },
+          { startTime: '15:00', endTime: '22:00', rate: 23, label: 'peak' },
+        ],
+        weekendRate: '14.00',
+      },
+    ]);
+
+    console.log('✅ Pricing rules created');
+
     // Create dummy user "Rober Assogioli"
     console.log('👤 Creating dummy user...');
     const dummyPasswordHash = await hashPassword('dummy-password-change-me');
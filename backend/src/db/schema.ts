@@ -8,16 +8,17 @@ import {
   date,
   time,
   decimal,
+  integer,
   pgEnum,
   jsonb,
   index,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['practitioner', 'admin']);
 export const membershipTypeEnum = pgEnum('membership_type', ['permanent', 'ad_hoc']);
-export const locationNameEnum = pgEnum('location_name', ['Pimlico', 'Kensington']);
 export const bookingStatusEnum = pgEnum('booking_status', ['confirmed', 'cancelled', 'completed']);
 export const bookingTypeEnum = pgEnum('booking_type', [
   'permanent_recurring',
@@ -40,6 +41,52 @@ export const creditSourceEnum = pgEnum('credit_source', [
   'pay_difference',
   'manual',
 ]);
+export const paymentRefundStatusEnum = pgEnum('payment_refund_status', [
+  'pending',
+  'succeeded',
+  'failed',
+]);
+export const waitlistStatusEnum = pgEnum('waitlist_status', [
+  'waiting',
+  'offered',
+  'claimed',
+  'expired',
+  'cancelled',
+]);
+export const refundMethodEnum = pgEnum('refund_method', ['card', 'credit']);
+export const bookingEventTypeEnum = pgEnum('booking_event_type', [
+  'created',
+  'updated',
+  'cancelled',
+]);
+export const paymentIncidentResolutionEnum = pgEnum('payment_incident_resolution', [
+  'pending',
+  'refunded',
+  'credited',
+  'refund_failed',
+]);
+export const stripeWebhookEventStatusEnum = pgEnum('stripe_webhook_event_status', [
+  'processing',
+  'processed',
+  'failed',
+  'unhandled',
+]);
+export const subscriptionChangeKindEnum = pgEnum('subscription_change_kind', ['cancel', 'pause']);
+export const subscriptionChangeStatusEnum = pgEnum('subscription_change_status', [
+  'pending',
+  'applied',
+  'rejected',
+  'reverted',
+]);
+export const membershipChangeSourceEnum = pgEnum('membership_change_source', [
+  'plan_switch',
+  'admin_edit',
+]);
+export const planSwitchStatusEnum = pgEnum('plan_switch_status', [
+  'pending',
+  'completed',
+  'released',
+]);
 // Users table
 export const users = pgTable(
   'users',
@@ -54,6 +101,8 @@ export const users = pgTable(
     role: userRoleEnum('role').notNull().default('practitioner'),
     status: userStatusEnum('status').notNull().default('active'),
     nextOfKin: jsonb('next_of_kin'),
+    // How a payment is returned when the booking it paid for cannot be made
+    refundPreference: refundMethodEnum('refund_preference').notNull().default('card'),
     emailVerifiedAt: timestamp('email_verified_at'),
     deletedAt: timestamp('deleted_at'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -78,11 +127,22 @@ export const memberships = pgTable('memberships', {
   permanentSchedule: jsonb('permanent_schedule'),
   subscriptionType: subscriptionTypeEnum('subscription_type'),
   stripeSubscriptionId: varchar('stripe_subscription_id', { length: 255 }),
+  // Last Stripe status of the monthly subscription (active, past_due, unpaid, paused, canceled)
+  stripeSubscriptionStatus: varchar('stripe_subscription_status', { length: 50 }),
   stripeCustomerId: varchar('stripe_customer_id', { length: 255 }),
   subscriptionStartDate: date('subscription_start_date'),
   subscriptionEndDate: date('subscription_end_date'),
   terminationRequestedAt: timestamp('termination_requested_at'),
   suspensionDate: date('suspension_date'),
+  // Dunning: set while a monthly payment is failing, cleared when an invoice is paid
+  paymentFailedAt: timestamp('payment_failed_at'),
+  paymentRemindersSent: integer('payment_reminders_sent').notNull().default(0),
+  paymentUpdateUrl: text('payment_update_url'),
+  dunningSuspendedAt: timestamp('dunning_suspended_at'),
+  // Monthly subscription paused: no billing, credits or new bookings from pausedFrom until
+  // pausedUntil (exclusive)
+  pausedFrom: date('paused_from'),
+  pausedUntil: date('paused_until'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -90,9 +150,14 @@ export const memberships = pgTable('memberships', {
 // Locations table
 export const locations = pgTable('locations', {
   id: uuid('id').defaultRandom().primaryKey(),
-  name: locationNameEnum('name').notNull().unique(),
+  name: varchar('name', { length: 100 }).notNull().unique(),
+  address: text('address'),
+  // Weekly opening hours [{ weekday: 0-6 (Sunday = 0), openTime: 'HH:MM', closeTime: 'HH:MM' }]
+  openingHours: jsonb('opening_hours'),
   roomCount: decimal('room_count', { precision: 2, scale: 0 }).notNull(),
+  active: boolean('active').notNull().default(true),
   createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
 // Rooms table
@@ -103,39 +168,214 @@ export const rooms = pgTable('rooms', {
     .references(() => locations.id, { onDelete: 'cascade' }),
   name: varchar('name', { length: 100 }).notNull(),
   roomNumber: decimal('room_number', { precision: 3, scale: 0 }).notNull(),
+  capacity: integer('capacity'),
+  amenities: jsonb('amenities').notNull().default([]),
   active: boolean('active').notNull().default(true),
   createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
-// Bookings table
-export const bookings = pgTable('bookings', {
+// Pricing rules table (rate cards per location, optionally per room, effective from a date)
+export const pricingRules = pgTable(
+  'pricing_rules',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    locationId: uuid('location_id')
+      .notNull()
+      .references(() => locations.id, { onDelete: 'cascade' }),
+    roomId: uuid('room_id').references(() => rooms.id, { onDelete: 'cascade' }),
+    effectiveFrom: date('effective_from').notNull(),
+    // Weekday bands [{ startTime: 'HH:MM', endTime: 'HH:MM', rate, label }] covering the booking window
+    weekdayBands: jsonb('weekday_bands').notNull(),
+    weekendRate: decimal('weekend_rate', { precision: 10, scale: 2 }).notNull(),
+    // Null = bank holidays are priced as a normal day
+    bankHolidayRate: decimal('bank_holiday_rate', { precision: 10, scale: 2 }),
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    lookupIdx: index('pricing_rules_lookup_idx').on(
+      table.locationId,
+      table.roomId,
+      table.effectiveFrom
+    ),
+  })
+);
+
+// Bank holidays table (dates priced with pricing_rules.bank_holiday_rate)
+export const bankHolidays = pgTable('bank_holidays', {
+  date: date('date').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Location closures (whole location, or a single room out of service) for an inclusive date range
+export const locationClosures = pgTable(
+  'location_closures',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    locationId: uuid('location_id')
+      .notNull()
+      .references(() => locations.id, { onDelete: 'cascade' }),
+    // Null = the whole location is closed
+    roomId: uuid('room_id').references(() => rooms.id, { onDelete: 'cascade' }),
+    startDate: date('start_date').notNull(),
+    endDate: date('end_date').notNull(),
+    reason: varchar('reason', { length: 255 }).notNull(),
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    locationDatesIdx: index('location_closures_location_dates_idx').on(
+      table.locationId,
+      table.startDate,
+      table.endDate
+    ),
+  })
+);
+
+// Cancellation policy: refund percentage by minimum hours of notice (highest matching tier applies)
+export const cancellationPolicyTiers = pgTable('cancellation_policy_tiers', {
   id: uuid('id').defaultRandom().primaryKey(),
-  userId: uuid('user_id')
-    .notNull()
-    .references(() => users.id, { onDelete: 'cascade' }),
-  roomId: uuid('room_id')
-    .notNull()
-    .references(() => rooms.id, { onDelete: 'cascade' }),
-  membershipId: uuid('membership_id')
-    .notNull()
-    .references(() => memberships.id, { onDelete: 'cascade' }),
-  bookingDate: date('booking_date').notNull(),
-  startTime: time('start_time').notNull(),
-  endTime: time('end_time').notNull(),
-  pricePerHour: decimal('price_per_hour', { precision: 10, scale: 2 }).notNull(),
-  totalPrice: decimal('total_price', { precision: 10, scale: 2 }).notNull(),
-  creditUsed: decimal('credit_used', { precision: 10, scale: 2 }).notNull().default('0.00'),
-  voucherHoursUsed: decimal('voucher_hours_used', { precision: 10, scale: 2 })
-    .notNull()
-    .default('0.00'),
-  status: bookingStatusEnum('status').notNull().default('confirmed'),
-  bookingType: bookingTypeEnum('booking_type').notNull(),
-  cancelledAt: timestamp('cancelled_at'),
-  cancellationReason: text('cancellation_reason'),
+  minNoticeHours: integer('min_notice_hours').notNull().unique(),
+  refundPercent: integer('refund_percent').notNull(),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+// Bookings table
+// Confirmed bookings for a room cannot overlap: exclusion constraint
+// bookings_no_overlapping_confirmed (migration 0027), which drizzle cannot declare here
+export const bookings = pgTable(
+  'bookings',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    roomId: uuid('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    membershipId: uuid('membership_id')
+      .notNull()
+      .references(() => memberships.id, { onDelete: 'cascade' }),
+    bookingDate: date('booking_date').notNull(),
+    startTime: time('start_time').notNull(),
+    endTime: time('end_time').notNull(),
+    pricePerHour: decimal('price_per_hour', { precision: 10, scale: 2 }).notNull(),
+    totalPrice: decimal('total_price', { precision: 10, scale: 2 }).notNull(),
+    creditUsed: decimal('credit_used', { precision: 10, scale: 2 }).notNull().default('0.00'),
+    voucherHoursUsed: decimal('voucher_hours_used', { precision: 10, scale: 2 })
+      .notNull()
+      .default('0.00'),
+    status: bookingStatusEnum('status').notNull().default('confirmed'),
+    bookingType: bookingTypeEnum('booking_type').notNull(),
+    cancelledAt: timestamp('cancelled_at'),
+    cancellationReason: text('cancellation_reason'),
+    // Credit given back on cancellation under the cancellation policy
+    refundAmount: decimal('refund_amount', { precision: 10, scale: 2 }),
+    cancellationFeeWaived: boolean('cancellation_fee_waived').notNull().default(false),
+    // Set by the completion job once the booking has ended
+    completedAt: timestamp('completed_at'),
+    // Completed without a kiosk sign-in at a location that was using the kiosk that day
+    noShow: boolean('no_show').notNull().default(false),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    statusDateIdx: index('bookings_status_date_idx').on(table.status, table.bookingDate),
+  })
+);
+
+// Booking events table (audit trail of booking creation, changes and cancellation)
+export const bookingEvents = pgTable(
+  'booking_events',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    bookingId: uuid('booking_id')
+      .notNull()
+      .references(() => bookings.id, { onDelete: 'cascade' }),
+    // Who made the change; null for system jobs (permanent slot generator)
+    actorUserId: uuid('actor_user_id').references(() => users.id, { onDelete: 'set null' }),
+    eventType: bookingEventTypeEnum('event_type').notNull(),
+    // Booking snapshot before and after: { roomId, bookingDate, startTime, endTime, status, ... }
+    before: jsonb('before'),
+    after: jsonb('after'),
+    priceDelta: decimal('price_delta', { precision: 10, scale: 2 }).notNull().default('0.00'),
+    // Change in credit drawn for the booking (negative when credit was given back)
+    creditDelta: decimal('credit_delta', { precision: 10, scale: 2 }).notNull().default('0.00'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    bookingCreatedIdx: index('booking_events_booking_created_idx').on(
+      table.bookingId,
+      table.createdAt
+    ),
+  })
+);
+
+// Recurring booking conflicts table (permanent slot occurrences the generator could not book)
+export const recurringBookingConflicts = pgTable(
+  'recurring_booking_conflicts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    membershipId: uuid('membership_id')
+      .notNull()
+      .references(() => memberships.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    roomId: uuid('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    bookingDate: date('booking_date').notNull(),
+    startTime: time('start_time').notNull(),
+    endTime: time('end_time').notNull(),
+    reason: text('reason').notNull(),
+    conflictingBookingId: uuid('conflicting_booking_id').references(() => bookings.id, {
+      onDelete: 'set null',
+    }),
+    resolvedAt: timestamp('resolved_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    occurrenceIdx: uniqueIndex('recurring_booking_conflicts_occurrence_idx').on(
+      table.membershipId,
+      table.roomId,
+      table.bookingDate,
+      table.startTime
+    ),
+  })
+);
+
+// Booking waitlist table (practitioners queued for a taken room/date/time range)
+export const bookingWaitlist = pgTable(
+  'booking_waitlist',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    roomId: uuid('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    bookingDate: date('booking_date').notNull(),
+    startTime: time('start_time').notNull(),
+    endTime: time('end_time').notNull(),
+    status: waitlistStatusEnum('status').notNull().default('waiting'),
+    offerToken: varchar('offer_token', { length: 255 }).unique(),
+    offeredAt: timestamp('offered_at'),
+    offerExpiresAt: timestamp('offer_expires_at'),
+    bookingId: uuid('booking_id').references(() => bookings.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomDateIdx: index('booking_waitlist_room_date_idx').on(table.roomId, table.bookingDate),
+  })
+);
+
 // Credit ledgers table
 export const creditLedgers = pgTable('credit_ledgers', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -167,6 +407,59 @@ export const freeBookingVouchers = pgTable('free_booking_vouchers', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+// Stripe payments made for a booking (pay the difference) and the card refund issued for each
+export const bookingPayments = pgTable(
+  'booking_payments',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    bookingId: uuid('booking_id')
+      .notNull()
+      .references(() => bookings.id, { onDelete: 'cascade' }),
+    // One PaymentIntent can pay for several bookings (batch booking)
+    stripePaymentIntentId: text('stripe_payment_intent_id').notNull(),
+    amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+    // Set when the payment was granted as credit and spent on the booking (booking updates)
+    creditTransactionId: uuid('credit_transaction_id').references(() => creditTransactions.id, {
+      onDelete: 'set null',
+    }),
+    refundAmount: decimal('refund_amount', { precision: 10, scale: 2 }),
+    refundStatus: paymentRefundStatusEnum('refund_status'),
+    stripeRefundId: text('stripe_refund_id'),
+    refundedAt: timestamp('refunded_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    bookingIdIdx: index('booking_payments_booking_id_idx').on(table.bookingId),
+    intentBookingIdx: uniqueIndex('booking_payments_intent_booking_idx').on(
+      table.stripePaymentIntentId,
+      table.bookingId
+    ),
+  })
+);
+
+// Voucher hours each booking drew from, so refunds give the hours back to the same vouchers
+export const bookingVoucherAllocations = pgTable(
+  'booking_voucher_allocations',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    bookingId: uuid('booking_id')
+      .notNull()
+      .references(() => bookings.id, { onDelete: 'cascade' }),
+    voucherId: uuid('voucher_id')
+      .notNull()
+      .references(() => freeBookingVouchers.id, { onDelete: 'cascade' }),
+    hours: decimal('hours', { precision: 10, scale: 2 }).notNull(),
+    refundedHours: decimal('refunded_hours', { precision: 10, scale: 2 })
+      .notNull()
+      .default('0.00'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    bookingIdIdx: index('booking_voucher_allocations_booking_id_idx').on(table.bookingId),
+  })
+);
+
 // Credit transactions table (transaction-based credits with expiry)
 export const creditTransactions = pgTable(
   'credit_transactions',
@@ -198,6 +491,28 @@ export const creditTransactions = pgTable(
   })
 );
 
+// Credit transactions each booking drew from, so refunds restore the original credits
+export const bookingCreditAllocations = pgTable(
+  'booking_credit_allocations',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    bookingId: uuid('booking_id')
+      .notNull()
+      .references(() => bookings.id, { onDelete: 'cascade' }),
+    creditTransactionId: uuid('credit_transaction_id')
+      .notNull()
+      .references(() => creditTransactions.id, { onDelete: 'cascade' }),
+    amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+    refundedAmount: decimal('refunded_amount', { precision: 10, scale: 2 })
+      .notNull()
+      .default('0.00'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    bookingIdIdx: index('booking_credit_allocations_booking_id_idx').on(table.bookingId),
+  })
+);
+
 // Documents table
 export const documents = pgTable('documents', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -227,20 +542,257 @@ export const clinicalExecutors = pgTable('clinical_executors', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
-// Kiosk logs table
-export const kioskLogs = pgTable('kiosk_logs', {
+// Kiosk devices (front-desk tablets), one location each; authenticated by a device token (SHA-256)
+export const kioskDevices = pgTable('kiosk_devices', {
   id: uuid('id').defaultRandom().primaryKey(),
-  userId: uuid('user_id')
-    .notNull()
-    .references(() => users.id, { onDelete: 'cascade' }),
   locationId: uuid('location_id')
     .notNull()
     .references(() => locations.id, { onDelete: 'cascade' }),
-  action: kioskActionEnum('action').notNull(),
-  actionTime: timestamp('action_time').notNull().defaultNow(),
-  ipAddress: varchar('ip_address', { length: 45 }),
+  name: varchar('name', { length: 100 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  active: boolean('active').notNull().default(true),
+  lastSeenAt: timestamp('last_seen_at'),
+  // Failed PIN/QR attempts since failedAttemptsSince, for throttling
+  failedAttempts: integer('failed_attempts').notNull().default(0),
+  failedAttemptsSince: timestamp('failed_attempts_since'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+// Practitioner kiosk credentials: PIN (HMAC-SHA256) and QR code token (SHA-256)
+export const kioskCredentials = pgTable('kiosk_credentials', {
+  userId: uuid('user_id')
+    .primaryKey()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  pinHash: varchar('pin_hash', { length: 64 }).unique(),
+  qrTokenHash: varchar('qr_token_hash', { length: 64 }).unique(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Personal iCalendar feed: secret URL token per user (SHA-256)
+export const calendarFeeds = pgTable('calendar_feeds', {
+  userId: uuid('user_id')
+    .primaryKey()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  lastAccessedAt: timestamp('last_accessed_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Slot holds table (room slot reserved during a pay-the-difference checkout)
+export const slotHolds = pgTable(
+  'slot_holds',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    roomId: uuid('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    bookingDate: date('booking_date').notNull(),
+    startTime: time('start_time').notNull(),
+    endTime: time('end_time').notNull(),
+    // Set once the PaymentIntent for the checkout has been created
+    stripePaymentIntentId: text('stripe_payment_intent_id'),
+    // Set when the hold keeps the slot for an open waitlist offer instead of a checkout
+    waitlistEntryId: uuid('waitlist_entry_id').references(() => bookingWaitlist.id, {
+      onDelete: 'cascade',
+    }),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomDateIdx: index('slot_holds_room_date_idx').on(table.roomId, table.bookingDate),
+    paymentIntentIdx: index('slot_holds_payment_intent_idx').on(table.stripePaymentIntentId),
+    waitlistEntryIdx: index('slot_holds_waitlist_entry_idx').on(table.waitlistEntryId),
+  })
+);
+
+// Payment incidents table (pay-the-difference payments whose booking could not be made)
+export const paymentIncidents = pgTable(
+  'payment_incidents',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    stripePaymentIntentId: text('stripe_payment_intent_id').notNull().unique(),
+    paymentType: varchar('payment_type', { length: 50 }).notNull(),
+    amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+    reason: text('reason').notNull(),
+    // Slots the payment was for: [{ roomId, date, startTime, endTime }]
+    slots: jsonb('slots').notNull(),
+    resolution: paymentIncidentResolutionEnum('resolution').notNull().default('pending'),
+    stripeRefundId: text('stripe_refund_id'),
+    creditTransactionId: uuid('credit_transaction_id').references(() => creditTransactions.id, {
+      onDelete: 'set null',
+    }),
+    resolvedAt: timestamp('resolved_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    createdAtIdx: index('payment_incidents_created_at_idx').on(table.createdAt),
+  })
+);
+
+// Stripe webhook events (id is the Stripe event id; one row per event, however often delivered)
+export const stripeWebhookEvents = pgTable(
+  'stripe_webhook_events',
+  {
+    id: text('id').primaryKey(),
+    type: varchar('type', { length: 100 }).notNull(),
+    payload: jsonb('payload').notNull(),
+    status: stripeWebhookEventStatusEnum('status').notNull().default('processing'),
+    attempts: integer('attempts').notNull().default(1),
+    lastError: text('last_error'),
+    processedAt: timestamp('processed_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    statusCreatedIdx: index('stripe_webhook_events_status_created_idx').on(
+      table.status,
+      table.createdAt
+    ),
+  })
+);
+
+// Subscription change requests (monthly subscribers cancelling at period end or pausing)
+export const subscriptionChangeRequests = pgTable(
+  'subscription_change_requests',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    kind: subscriptionChangeKindEnum('kind').notNull(),
+    status: subscriptionChangeStatusEnum('status').notNull().default('pending'),
+    // cancel: day the account is suspended; pause: first paused day
+    effectiveDate: date('effective_date').notNull(),
+    // pause: first day after the pause
+    resumeDate: date('resume_date'),
+    // Confirmed bookings after the last day (cancel) or within the pause, when requested
+    flaggedBookingIds: jsonb('flagged_booking_ids').notNull().default([]),
+    reviewedBy: uuid('reviewed_by').references(() => users.id, { onDelete: 'set null' }),
+    reviewedAt: timestamp('reviewed_at'),
+    adminNote: text('admin_note'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userStatusIdx: index('subscription_change_requests_user_status_idx').on(
+      table.userId,
+      table.status
+    ),
+  })
+);
+
+// Membership history: one row per membership type or plan change
+export const membershipHistory = pgTable(
+  'membership_history',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    source: membershipChangeSourceEnum('source').notNull(),
+    fromType: membershipTypeEnum('from_type'),
+    toType: membershipTypeEnum('to_type'),
+    fromSubscriptionType: subscriptionTypeEnum('from_subscription_type'),
+    toSubscriptionType: subscriptionTypeEnum('to_subscription_type'),
+    // Plan switches: what the new plan's first payment cost, and the unused credit of the old
+    // plan put towards it
+    amountCharged: decimal('amount_charged', { precision: 10, scale: 2 }).notNull().default('0.00'),
+    creditCarried: decimal('credit_carried', { precision: 10, scale: 2 }).notNull().default('0.00'),
+    changedBy: uuid('changed_by').references(() => users.id, { onDelete: 'set null' }),
+    note: text('note'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userCreatedIdx: index('membership_history_user_created_idx').on(table.userId, table.createdAt),
+  })
+);
+
+// Plan switches awaiting payment; the carried credit is taken when the switch starts
+export const planSwitches = pgTable(
+  'plan_switches',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    fromPlan: subscriptionTypeEnum('from_plan').notNull(),
+    toPlan: subscriptionTypeEnum('to_plan').notNull(),
+    status: planSwitchStatusEnum('status').notNull().default('pending'),
+    carriedCredit: decimal('carried_credit', { precision: 10, scale: 2 }).notNull().default('0.00'),
+    amountDue: decimal('amount_due', { precision: 10, scale: 2 }).notNull().default('0.00'),
+    // The checkout (to monthly) or payment intent (to ad-hoc) paying for the new plan
+    stripeCheckoutSessionId: text('stripe_checkout_session_id'),
+    stripePaymentIntentId: text('stripe_payment_intent_id'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => ({
+    // At most one switch awaiting payment per practitioner
+    userPendingIdx: uniqueIndex('plan_switches_user_pending_idx')
+      .on(table.userId)
+      .where(sql`${table.status} = 'pending'`),
+    checkoutSessionIdx: uniqueIndex('plan_switches_checkout_session_idx').on(
+      table.stripeCheckoutSessionId
+    ),
+    paymentIntentIdx: uniqueIndex('plan_switches_payment_intent_idx').on(
+      table.stripePaymentIntentId
+    ),
+  })
+);
+
+// Credit transactions a plan switch took its carried credit from, so a release restores them
+export const planSwitchCreditAllocations = pgTable(
+  'plan_switch_credit_allocations',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    planSwitchId: uuid('plan_switch_id')
+      .notNull()
+      .references(() => planSwitches.id, { onDelete: 'cascade' }),
+    creditTransactionId: uuid('credit_transaction_id')
+      .notNull()
+      .references(() => creditTransactions.id, { onDelete: 'cascade' }),
+    amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    planSwitchIdIdx: index('plan_switch_credit_allocations_switch_id_idx').on(table.planSwitchId),
+  })
+);
+
+// Kiosk logs table
+export const kioskLogs = pgTable(
+  'kiosk_logs',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    locationId: uuid('location_id')
+      .notNull()
+      .references(() => locations.id, { onDelete: 'cascade' }),
+    action: kioskActionEnum('action').notNull(),
+    actionTime: timestamp('action_time').notNull().defaultNow(),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    deviceId: uuid('device_id').references(() => kioskDevices.id, { onDelete: 'set null' }),
+    // Booking the sign-in was matched to (the practitioner's booking at this location that day)
+    bookingId: uuid('booking_id').references(() => bookings.id, { onDelete: 'set null' }),
+    // 'pin' | 'qr'
+    method: varchar('method', { length: 10 }),
+  },
+  (table) => ({
+    locationTimeIdx: index('kiosk_logs_location_time_idx').on(table.locationId, table.actionTime),
+  })
+);
+
 // Invoices table
 export const invoices = pgTable('invoices', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -0,0 +1,47 @@
+/**
+ * Structured errors for kiosk sign-in/out so controllers can set HTTP status from statusCode.
+ */
+export class KioskServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'KioskServiceError';
+    Object.setPrototypeOf(this, KioskServiceError.prototype);
+  }
+}
+
+/** PIN or QR code did not match an active practitioner. */
+export class InvalidKioskCredentialError extends KioskServiceError {
+  constructor(message: string = 'PIN or QR code not recognised') {
+    super(message, 401);
+    this.name = 'InvalidKioskCredentialError';
+    Object.setPrototypeOf(this, InvalidKioskCredentialError.prototype);
+  }
+}
+
+/** Signing in when already in the building, or out when not. */
+export class KioskStateError extends KioskServiceError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'KioskStateError';
+    Object.setPrototypeOf(this, KioskStateError.prototype);
+  }
+}
+
+export class KioskTooManyAttemptsError extends KioskServiceError {
+  constructor(message: string = 'Too many failed attempts. Please ask reception for help.') {
+    super(message, 429);
+    this.name = 'KioskTooManyAttemptsError';
+    Object.setPrototypeOf(this, KioskTooManyAttemptsError.prototype);
+  }
+}
+
+export class KioskDeviceNotFoundError extends KioskServiceError {
+  constructor(message: string = 'Kiosk device not found') {
+    super(message, 404);
+    this.name = 'KioskDeviceNotFoundError';
+    Object.setPrototypeOf(this, KioskDeviceNotFoundError.prototype);
+  }
+}
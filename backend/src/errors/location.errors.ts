@@ -0,0 +1,64 @@
+/**
+ * Structured errors for location and room management so controllers can set HTTP status
+ * from statusCode.
+ */
+export class LocationServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'LocationServiceError';
+    Object.setPrototypeOf(this, LocationServiceError.prototype);
+  }
+}
+
+export class InvalidLocationError extends LocationServiceError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = 'InvalidLocationError';
+    Object.setPrototypeOf(this, InvalidLocationError.prototype);
+  }
+}
+
+export class LocationNotFoundError extends LocationServiceError {
+  constructor(message: string = 'Location not found') {
+    super(message, 404);
+    this.name = 'LocationNotFoundError';
+    Object.setPrototypeOf(this, LocationNotFoundError.prototype);
+  }
+}
+
+export class RoomNotFoundError extends LocationServiceError {
+  constructor(message: string = 'Room not found') {
+    super(message, 404);
+    this.name = 'RoomNotFoundError';
+    Object.setPrototypeOf(this, RoomNotFoundError.prototype);
+  }
+}
+
+/** Names (and room numbers within a location) must be unique. */
+export class DuplicateLocationError extends LocationServiceError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'DuplicateLocationError';
+    Object.setPrototypeOf(this, DuplicateLocationError.prototype);
+  }
+}
+
+/** Locations and rooms with booking history are deactivated rather than deleted. */
+export class LocationInUseError extends LocationServiceError {
+  constructor(message: string = 'Cannot delete: bookings exist. Deactivate it instead.') {
+    super(message, 409);
+    this.name = 'LocationInUseError';
+    Object.setPrototypeOf(this, LocationInUseError.prototype);
+  }
+}
+
+export class ClosureNotFoundError extends LocationServiceError {
+  constructor(message: string = 'Closure not found') {
+    super(message, 404);
+    this.name = 'ClosureNotFoundError';
+    Object.setPrototypeOf(this, ClosureNotFoundError.prototype);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Structured errors for payment incidents so controllers can set HTTP status from statusCode.
+ */
+export class PaymentIncidentServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'PaymentIncidentServiceError';
+    Object.setPrototypeOf(this, PaymentIncidentServiceError.prototype);
+  }
+}
+
+export class PaymentIncidentNotFoundError extends PaymentIncidentServiceError {
+  constructor(message: string = 'Payment incident not found') {
+    super(message, 404);
+    this.name = 'PaymentIncidentNotFoundError';
+    Object.setPrototypeOf(this, PaymentIncidentNotFoundError.prototype);
+  }
+}
+
+/** The incident is not in a state that allows the action (e.g. retrying a refund that succeeded). */
+export class PaymentIncidentStateError extends PaymentIncidentServiceError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'PaymentIncidentStateError';
+    Object.setPrototypeOf(this, PaymentIncidentStateError.prototype);
+  }
+}
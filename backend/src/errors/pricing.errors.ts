@@ -0,0 +1,40 @@
+/**
+ * Structured errors for pricing rule management so controllers can set HTTP status from statusCode.
+ */
+export class PricingServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'PricingServiceError';
+    Object.setPrototypeOf(this, PricingServiceError.prototype);
+  }
+}
+
+export class InvalidPricingRuleError extends PricingServiceError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = 'InvalidPricingRuleError';
+    Object.setPrototypeOf(this, InvalidPricingRuleError.prototype);
+  }
+}
+
+export class PricingRuleNotFoundError extends PricingServiceError {
+  constructor(message: string = 'Pricing rule not found') {
+    super(message, 404);
+    this.name = 'PricingRuleNotFoundError';
+    Object.setPrototypeOf(this, PricingRuleNotFoundError.prototype);
+  }
+}
+
+/** Rules that are (or have been) in force priced real bookings, so they cannot be changed. */
+export class PricingRuleLockedError extends PricingServiceError {
+  constructor(
+    message: string = 'Pricing rule is already in force; create a new rule with a later effective date instead'
+  ) {
+    super(message, 409);
+    this.name = 'PricingRuleLockedError';
+    Object.setPrototypeOf(this, PricingRuleLockedError.prototype);
+  }
+}
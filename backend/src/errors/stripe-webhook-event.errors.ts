@@ -0,0 +1,31 @@
+/**
+ * Structured errors for stored Stripe webhook events so controllers can set HTTP status from
+ * statusCode.
+ */
+export class WebhookEventServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'WebhookEventServiceError';
+    Object.setPrototypeOf(this, WebhookEventServiceError.prototype);
+  }
+}
+
+export class WebhookEventNotFoundError extends WebhookEventServiceError {
+  constructor(message: string = 'Webhook event not found') {
+    super(message, 404);
+    this.name = 'WebhookEventNotFoundError';
+    Object.setPrototypeOf(this, WebhookEventNotFoundError.prototype);
+  }
+}
+
+/** The event is being processed, or its status does not allow a replay. */
+export class WebhookEventStateError extends WebhookEventServiceError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'WebhookEventStateError';
+    Object.setPrototypeOf(this, WebhookEventStateError.prototype);
+  }
+}
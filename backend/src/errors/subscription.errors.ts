@@ -27,3 +27,51 @@ export class OnlyAdHocTerminableError extends SubscriptionServiceError {
     Object.setPrototypeOf(this, OnlyAdHocTerminableError.prototype);
   }
 }
+
+export class OnlyMonthlyChangeableError extends SubscriptionServiceError {
+  constructor(message: string = 'Only monthly subscriptions can be cancelled or paused') {
+    super(message, 400);
+    this.name = 'OnlyMonthlyChangeableError';
+    Object.setPrototypeOf(this, OnlyMonthlyChangeableError.prototype);
+  }
+}
+
+export class SubscriptionChangeNotFoundError extends SubscriptionServiceError {
+  constructor(message: string = 'Subscription change request not found') {
+    super(message, 404);
+    this.name = 'SubscriptionChangeNotFoundError';
+    Object.setPrototypeOf(this, SubscriptionChangeNotFoundError.prototype);
+  }
+}
+
+export class SubscriptionChangeConflictError extends SubscriptionServiceError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'SubscriptionChangeConflictError';
+    Object.setPrototypeOf(this, SubscriptionChangeConflictError.prototype);
+  }
+}
+
+export class PlanSwitchNotAllowedError extends SubscriptionServiceError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = 'PlanSwitchNotAllowedError';
+    Object.setPrototypeOf(this, PlanSwitchNotAllowedError.prototype);
+  }
+}
+
+export class InvalidPauseLengthError extends SubscriptionServiceError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = 'InvalidPauseLengthError';
+    Object.setPrototypeOf(this, InvalidPauseLengthError.prototype);
+  }
+}
+
+export class PaymentsNotConfiguredError extends SubscriptionServiceError {
+  constructor(message: string = 'Stripe is not configured') {
+    super(message, 503);
+    this.name = 'PaymentsNotConfiguredError';
+    Object.setPrototypeOf(this, PaymentsNotConfiguredError.prototype);
+  }
+}
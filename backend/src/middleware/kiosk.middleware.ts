@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import * as KioskService from '../services/kiosk.service';
+import { logger } from '../utils/logger.util';
+
+export interface KioskRequest extends Request {
+  kioskDevice?: KioskService.KioskDevice;
+}
+
+/**
+ * Authenticate a front-desk kiosk device by its X-Kiosk-Token header.
+ */
+export async function authenticateKioskDevice(
+  req: KioskRequest,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const token = req.headers['x-kiosk-token'];
+    if (typeof token !== 'string' || !token) {
+      return res.status(401).json({ success: false, error: 'No kiosk token provided' });
+    }
+    const device = await KioskService.authenticateDevice(token);
+    if (!device) {
+      return res.status(401).json({ success: false, error: 'Kiosk device not recognised' });
+    }
+    req.kioskDevice = device;
+    next();
+  } catch (error) {
+    logger.error('Failed to authenticate kiosk device', error, { url: req.originalUrl });
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
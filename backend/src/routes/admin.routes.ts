@@ -1,5 +1,12 @@
 import { Router } from 'express';
 import { adminController } from '../controllers/admin.controller';
+import { pricingController } from '../controllers/pricing.controller';
+import { cancellationPolicyController } from '../controllers/cancellation-policy.controller';
+import { locationController } from '../controllers/location.controller';
+import { kioskController } from '../controllers/kiosk.controller';
+import { paymentIncidentController } from '../controllers/payment-incident.controller';
+import { subscriptionChangeController } from '../controllers/subscription-change.controller';
+import { listWebhookEvents, replayWebhookEvent } from '../controllers/stripe-webhook.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { requireRole } from '../middleware/rbac.middleware';
 
@@ -74,6 +81,22 @@ router.put(
   adminController.updateMembership.bind(adminController)
 );
 
+// Membership history: plan switches and admin edits
+router.get(
+  '/practitioners/:userId/membership-history',
+  authenticate,
+  requireRole('admin'),
+  adminController.getMembershipHistory.bind(adminController)
+);
+
+// Replace permanent member's weekly schedule (drives the recurring booking generator)
+router.put(
+  '/practitioners/:userId/permanent-schedule',
+  authenticate,
+  requireRole('admin'),
+  adminController.updatePermanentSchedule.bind(adminController)
+);
+
 // Update practitioner next of kin
 router.put(
   '/practitioners/:userId/next-of-kin',
@@ -120,4 +143,230 @@ router.put(
   adminController.updateDocumentExpiry.bind(adminController)
 );
 
+// Permanent slots the recurring generator could not book
+router.get(
+  '/permanent-schedules/conflicts',
+  authenticate,
+  requireRole('admin'),
+  adminController.getRecurringBookingConflicts.bind(adminController)
+);
+router.put(
+  '/permanent-schedules/conflicts/:conflictId/resolve',
+  authenticate,
+  requireRole('admin'),
+  adminController.resolveRecurringBookingConflict.bind(adminController)
+);
+
+// Pricing rules (rate cards) and bank holidays
+router.get(
+  '/pricing-rules',
+  authenticate,
+  requireRole('admin'),
+  pricingController.listRules.bind(pricingController)
+);
+router.post(
+  '/pricing-rules',
+  authenticate,
+  requireRole('admin'),
+  pricingController.createRule.bind(pricingController)
+);
+router.put(
+  '/pricing-rules/:ruleId',
+  authenticate,
+  requireRole('admin'),
+  pricingController.updateRule.bind(pricingController)
+);
+router.delete(
+  '/pricing-rules/:ruleId',
+  authenticate,
+  requireRole('admin'),
+  pricingController.deleteRule.bind(pricingController)
+);
+router.get(
+  '/bank-holidays',
+  authenticate,
+  requireRole('admin'),
+  pricingController.listBankHolidays.bind(pricingController)
+);
+router.put(
+  '/bank-holidays',
+  authenticate,
+  requireRole('admin'),
+  pricingController.upsertBankHoliday.bind(pricingController)
+);
+router.delete(
+  '/bank-holidays/:date',
+  authenticate,
+  requireRole('admin'),
+  pricingController.deleteBankHoliday.bind(pricingController)
+);
+
+// Cancellation policy (refund tiers by notice)
+router.get(
+  '/cancellation-policy',
+  authenticate,
+  requireRole('admin'),
+  cancellationPolicyController.getPolicy.bind(cancellationPolicyController)
+);
+router.put(
+  '/cancellation-policy',
+  authenticate,
+  requireRole('admin'),
+  cancellationPolicyController.updatePolicy.bind(cancellationPolicyController)
+);
+
+// Locations and rooms
+router.get(
+  '/locations',
+  authenticate,
+  requireRole('admin'),
+  locationController.listLocations.bind(locationController)
+);
+router.post(
+  '/locations',
+  authenticate,
+  requireRole('admin'),
+  locationController.createLocation.bind(locationController)
+);
+router.put(
+  '/locations/:locationId',
+  authenticate,
+  requireRole('admin'),
+  locationController.updateLocation.bind(locationController)
+);
+router.delete(
+  '/locations/:locationId',
+  authenticate,
+  requireRole('admin'),
+  locationController.deleteLocation.bind(locationController)
+);
+router.get(
+  '/rooms',
+  authenticate,
+  requireRole('admin'),
+  locationController.listRooms.bind(locationController)
+);
+router.post(
+  '/rooms',
+  authenticate,
+  requireRole('admin'),
+  locationController.createRoom.bind(locationController)
+);
+router.put(
+  '/rooms/:roomId',
+  authenticate,
+  requireRole('admin'),
+  locationController.updateRoom.bind(locationController)
+);
+router.delete(
+  '/rooms/:roomId',
+  authenticate,
+  requireRole('admin'),
+  locationController.deleteRoom.bind(locationController)
+);
+
+// Practitioners holding overlapping bookings in different rooms
+router.get(
+  '/bookings/self-overlaps',
+  authenticate,
+  requireRole('admin'),
+  adminController.getSelfOverlaps.bind(adminController)
+);
+
+// Closure calendar (location closures and rooms out of service)
+router.get(
+  '/closures',
+  authenticate,
+  requireRole('admin'),
+  locationController.listClosures.bind(locationController)
+);
+router.post(
+  '/closures',
+  authenticate,
+  requireRole('admin'),
+  locationController.createClosure.bind(locationController)
+);
+router.delete(
+  '/closures/:closureId',
+  authenticate,
+  requireRole('admin'),
+  locationController.deleteClosure.bind(locationController)
+);
+
+// Kiosk devices, who is in the building, and the daily attendance (fire-safety) report
+router.get(
+  '/kiosk/devices',
+  authenticate,
+  requireRole('admin'),
+  kioskController.listDevices.bind(kioskController)
+);
+router.post(
+  '/kiosk/devices',
+  authenticate,
+  requireRole('admin'),
+  kioskController.registerDevice.bind(kioskController)
+);
+router.delete(
+  '/kiosk/devices/:deviceId',
+  authenticate,
+  requireRole('admin'),
+  kioskController.revokeDevice.bind(kioskController)
+);
+router.get(
+  '/kiosk/present',
+  authenticate,
+  requireRole('admin'),
+  kioskController.getPresent.bind(kioskController)
+);
+router.get(
+  '/kiosk/attendance',
+  authenticate,
+  requireRole('admin'),
+  kioskController.getAttendance.bind(kioskController)
+);
+
+// Pay-the-difference payments returned because their booking could not be made
+router.get(
+  '/payment-incidents',
+  authenticate,
+  requireRole('admin'),
+  paymentIncidentController.listIncidents.bind(paymentIncidentController)
+);
+router.post(
+  '/payment-incidents/:incidentId/retry-refund',
+  authenticate,
+  requireRole('admin'),
+  paymentIncidentController.retryRefund.bind(paymentIncidentController)
+);
+
+// Stored Stripe webhook events (failed or unhandled ones can be replayed)
+router.get('/webhook-events', authenticate, requireRole('admin'), listWebhookEvents);
+router.post(
+  '/webhook-events/:eventId/replay',
+  authenticate,
+  requireRole('admin'),
+  replayWebhookEvent
+);
+
+// Monthly subscription cancellations and pauses (pending ones need approval; applied ones can be
+// reverted)
+router.get(
+  '/subscription-requests',
+  authenticate,
+  requireRole('admin'),
+  subscriptionChangeController.listRequests.bind(subscriptionChangeController)
+);
+router.post(
+  '/subscription-requests/:requestId/approve',
+  authenticate,
+  requireRole('admin'),
+  subscriptionChangeController.approveRequest.bind(subscriptionChangeController)
+);
+router.post(
+  '/subscription-requests/:requestId/reject',
+  authenticate,
+  requireRole('admin'),
+  subscriptionChangeController.rejectRequest.bind(subscriptionChangeController)
+);
+
 export default router;
@@ -46,6 +46,7 @@ const updateProfileSchema = z.object({
       phone: z.string().optional(),
     })
     .optional(),
+  refundPreference: z.enum(['card', 'credit']).optional(),
 });
 
 const photoUploadUrlSchema = z.object({
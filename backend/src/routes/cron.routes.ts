@@ -6,6 +6,19 @@ const router = Router();
 // Cron endpoint - no authentication middleware, uses header-based security
 router.post('/process-reminders', cronController.processReminders.bind(cronController));
 router.get('/process-reminders', cronController.processReminders.bind(cronController));
+router.post(
+  '/process-waitlist-offers',
+  cronController.processWaitlistOffers.bind(cronController)
+);
+router.get('/process-waitlist-offers', cronController.processWaitlistOffers.bind(cronController));
+router.post(
+  '/process-booking-completion',
+  cronController.processBookingCompletion.bind(cronController)
+);
+router.get(
+  '/process-booking-completion',
+  cronController.processBookingCompletion.bind(cronController)
+);
 
 export default router;
 
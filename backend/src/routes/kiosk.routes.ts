@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { kioskController } from '../controllers/kiosk.controller';
+import { authenticateKioskDevice } from '../middleware/kiosk.middleware';
+
+const router = Router();
+
+// Front-desk kiosk endpoints - authenticated by device token (X-Kiosk-Token), not a user session
+router.get('/device', authenticateKioskDevice, kioskController.getDevice.bind(kioskController));
+router.post('/sign-in', authenticateKioskDevice, kioskController.signIn.bind(kioskController));
+router.post('/sign-out', authenticateKioskDevice, kioskController.signOut.bind(kioskController));
+
+export default router;
@@ -2,6 +2,10 @@ import { Router } from 'express';
 import { practitionerController } from '../controllers/practitioner.controller';
 import { bookingController } from '../controllers/booking.controller';
 import { subscriptionController } from '../controllers/subscription.controller';
+import { waitlistController } from '../controllers/waitlist.controller';
+import { locationController } from '../controllers/location.controller';
+import { kioskController } from '../controllers/kiosk.controller';
+import { calendarController } from '../controllers/calendar.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { checkMarketingAddon } from '../middleware/rbac.middleware';
 
@@ -25,9 +29,55 @@ router.get(
   authenticate,
   bookingController.getCalendar.bind(bookingController)
 );
+router.get(
+  '/bookings/calendar/range',
+  authenticate,
+  bookingController.getRangeCalendar.bind(bookingController)
+);
+router.get(
+  '/bookings/calendar/stream',
+  authenticate,
+  bookingController.streamCalendar.bind(bookingController)
+);
 router.get('/bookings/quote', authenticate, bookingController.getQuote.bind(bookingController));
+router.post(
+  '/bookings/search',
+  authenticate,
+  bookingController.searchSlots.bind(bookingController)
+);
+// Waitlist routes (registered before /bookings/:id)
+router.get(
+  '/bookings/waitlist',
+  authenticate,
+  waitlistController.getWaitlist.bind(waitlistController)
+);
+router.post(
+  '/bookings/waitlist',
+  authenticate,
+  waitlistController.joinWaitlist.bind(waitlistController)
+);
+router.post(
+  '/bookings/waitlist/claim',
+  authenticate,
+  waitlistController.claimOffer.bind(waitlistController)
+);
+router.delete(
+  '/bookings/waitlist/:id',
+  authenticate,
+  waitlistController.leaveWaitlist.bind(waitlistController)
+);
+router.get(
+  '/bookings/:id/cancellation-quote',
+  authenticate,
+  bookingController.getCancellationQuote.bind(bookingController)
+);
 router.get('/bookings/:id', authenticate, bookingController.getBookingById.bind(bookingController));
 router.post('/bookings', authenticate, bookingController.createBooking.bind(bookingController));
+router.post(
+  '/bookings/batch',
+  authenticate,
+  bookingController.createBookingBatch.bind(bookingController)
+);
 router.patch(
   '/bookings/:id',
   authenticate,
@@ -38,7 +88,37 @@ router.delete(
   authenticate,
   bookingController.cancelBooking.bind(bookingController)
 );
+router.get(
+  '/locations',
+  authenticate,
+  locationController.listActiveLocations.bind(locationController)
+);
 router.get('/rooms', authenticate, bookingController.getRooms.bind(bookingController));
+// Kiosk sign-in status and credentials (PIN / QR code)
+router.get('/kiosk', authenticate, kioskController.getStatus.bind(kioskController));
+router.post('/kiosk/pin', authenticate, kioskController.regeneratePin.bind(kioskController));
+router.post(
+  '/kiosk/qr-code',
+  authenticate,
+  kioskController.regenerateQrCode.bind(kioskController)
+);
+// Personal iCalendar feed; the feed URL itself is authenticated by its secret token
+router.get(
+  '/calendar-feed',
+  authenticate,
+  calendarController.getFeedStatus.bind(calendarController)
+);
+router.post(
+  '/calendar-feed',
+  authenticate,
+  calendarController.regenerateFeed.bind(calendarController)
+);
+router.delete(
+  '/calendar-feed',
+  authenticate,
+  calendarController.revokeFeed.bind(calendarController)
+);
+router.get('/calendar-feed/:token.ics', calendarController.getFeed.bind(calendarController));
 router.get('/credits', authenticate, bookingController.getCredits.bind(bookingController));
 router.get('/invoices', authenticate, subscriptionController.getInvoices.bind(subscriptionController));
 
@@ -53,6 +133,16 @@ router.post(
   authenticate,
   subscriptionController.createMonthly.bind(subscriptionController)
 );
+router.post(
+  '/subscriptions/monthly/cancel',
+  authenticate,
+  subscriptionController.cancelMonthly.bind(subscriptionController)
+);
+router.post(
+  '/subscriptions/monthly/pause',
+  authenticate,
+  subscriptionController.pauseMonthly.bind(subscriptionController)
+);
 router.post(
   '/subscriptions/ad-hoc',
   authenticate,
@@ -63,6 +153,16 @@ router.post(
   authenticate,
   subscriptionController.terminate.bind(subscriptionController)
 );
+router.get(
+  '/subscriptions/switch-quote',
+  authenticate,
+  subscriptionController.getSwitchQuote.bind(subscriptionController)
+);
+router.post(
+  '/subscriptions/switch',
+  authenticate,
+  subscriptionController.switchPlan.bind(subscriptionController)
+);
 
 router.post(
   '/documents/insurance/upload-url',
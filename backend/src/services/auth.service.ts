@@ -86,6 +86,7 @@ export class AuthService {
         photoUrl: newUser.photoUrl || undefined,
         role: newUser.role,
         nextOfKin: newUser.nextOfKin as any,
+        refundPreference: newUser.refundPreference,
         emailVerifiedAt: newUser.emailVerifiedAt || undefined,
         createdAt: newUser.createdAt,
         updatedAt: newUser.updatedAt,
@@ -131,6 +132,7 @@ export class AuthService {
         photoUrl: user.photoUrl || undefined,
         role: user.role,
         nextOfKin: user.nextOfKin as any,
+        refundPreference: user.refundPreference,
         emailVerifiedAt: user.emailVerifiedAt || undefined,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -322,6 +324,7 @@ export class AuthService {
         lastName: data.lastName,
         phone: data.phone || null,
         nextOfKin: data.nextOfKin as any,
+        ...(data.refundPreference && { refundPreference: data.refundPreference }),
         updatedAt: new Date(),
       })
       .where(eq(users.id, userId))
@@ -336,6 +339,7 @@ export class AuthService {
       photoUrl: updatedUser.photoUrl || undefined,
       role: updatedUser.role,
       nextOfKin: updatedUser.nextOfKin as any,
+      refundPreference: updatedUser.refundPreference,
       emailVerifiedAt: updatedUser.emailVerifiedAt || undefined,
       createdAt: updatedUser.createdAt,
       updatedAt: updatedUser.updatedAt,
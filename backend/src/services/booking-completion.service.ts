@@ -0,0 +1,145 @@
+/**
+ * Booking completion and no-show detection.
+ * Confirmed bookings are marked completed once they have ended (Europe/London). When the booking's
+ * location was using the front-desk kiosk that day (anyone signed in there), a booking whose
+ * practitioner did not sign in there before it ended is flagged as a no-show. Locations without
+ * kiosk activity that day are completed without a no-show decision, as are internal bookings.
+ */
+
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { db } from '../config/database';
+import { bookings, rooms, kioskLogs } from '../db/schema';
+import { eq, and, asc, gte, lt, lte, inArray, count } from 'drizzle-orm';
+import { addDaysToDateString, formatTimeForEmail } from '../utils/date.util';
+
+const TIMEZONE = 'Europe/London';
+
+export interface CompletePastBookingsResult {
+  completed: number;
+  noShows: number;
+}
+
+interface EndedBooking {
+  id: string;
+  userId: string;
+  locationId: string;
+  bookingType: string;
+  end: Date;
+}
+
+function londonInstant(date: string, time: string): Date {
+  return fromZonedTime(`${date}T${formatTimeForEmail(time)}:00`, TIMEZONE);
+}
+
+async function markCompleted(ids: string[], noShow: boolean, now: Date): Promise<number> {
+  if (ids.length === 0) return 0;
+  // Status guard: a booking cancelled since it was read is left alone
+  const updated = await db
+    .update(bookings)
+    .set({ status: 'completed', completedAt: now, noShow, updatedAt: now })
+    .where(and(inArray(bookings.id, ids), eq(bookings.status, 'confirmed')))
+    .returning({ id: bookings.id });
+  return updated.length;
+}
+
+/**
+ * Complete one day's ended bookings, deciding no-shows from that day's kiosk sign-ins.
+ */
+async function completeDay(
+  date: string,
+  ended: EndedBooking[],
+  now: Date
+): Promise<CompletePastBookingsResult> {
+  const signIns = await db
+    .select({
+      userId: kioskLogs.userId,
+      locationId: kioskLogs.locationId,
+      actionTime: kioskLogs.actionTime,
+    })
+    .from(kioskLogs)
+    .where(
+      and(
+        eq(kioskLogs.action, 'sign_in'),
+        gte(kioskLogs.actionTime, fromZonedTime(`${date}T00:00:00`, TIMEZONE)),
+        lt(
+          kioskLogs.actionTime,
+          fromZonedTime(`${addDaysToDateString(date, 1)}T00:00:00`, TIMEZONE)
+        )
+      )
+    );
+  const kioskLocations = new Set(signIns.map((s) => s.locationId));
+
+  const attended: string[] = [];
+  const noShows: string[] = [];
+  for (const booking of ended) {
+    const tracked = booking.bookingType !== 'internal' && kioskLocations.has(booking.locationId);
+    const signedIn = signIns.some(
+      (s) =>
+        s.userId === booking.userId &&
+        s.locationId === booking.locationId &&
+        s.actionTime < booking.end
+    );
+    (tracked && !signedIn ? noShows : attended).push(booking.id);
+  }
+
+  const completedAttended = await markCompleted(attended, false, now);
+  const completedNoShows = await markCompleted(noShows, true, now);
+  return { completed: completedAttended + completedNoShows, noShows: completedNoShows };
+}
+
+/**
+ * Mark confirmed bookings that have ended as completed, flagging no-shows.
+ */
+export async function completePastBookings(
+  now: Date = new Date()
+): Promise<CompletePastBookingsResult> {
+  const today = formatInTimeZone(now, TIMEZONE, 'yyyy-MM-dd');
+  const rows = await db
+    .select({
+      id: bookings.id,
+      userId: bookings.userId,
+      locationId: rooms.locationId,
+      bookingType: bookings.bookingType,
+      bookingDate: bookings.bookingDate,
+      endTime: bookings.endTime,
+    })
+    .from(bookings)
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .where(and(eq(bookings.status, 'confirmed'), lte(bookings.bookingDate, today)))
+    .orderBy(asc(bookings.bookingDate));
+
+  const byDate = new Map<string, EndedBooking[]>();
+  for (const row of rows) {
+    const date = String(row.bookingDate);
+    const end = londonInstant(date, row.endTime);
+    if (end > now) continue;
+    const list = byDate.get(date) ?? [];
+    list.push({
+      id: row.id,
+      userId: row.userId,
+      locationId: row.locationId,
+      bookingType: row.bookingType,
+      end,
+    });
+    byDate.set(date, list);
+  }
+
+  const result: CompletePastBookingsResult = { completed: 0, noShows: 0 };
+  for (const [date, ended] of byDate) {
+    const dayResult = await completeDay(date, ended, now);
+    result.completed += dayResult.completed;
+    result.noShows += dayResult.noShows;
+  }
+  return result;
+}
+
+/**
+ * Number of bookings flagged as no-shows for a practitioner.
+ */
+export async function getNoShowCount(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(bookings)
+    .where(and(eq(bookings.userId, userId), eq(bookings.noShow, true)));
+  return Number(row?.count ?? 0);
+}
@@ -0,0 +1,149 @@
+/**
+ * Audit trail of booking changes. Each creation, change (room, date, times) and cancellation is
+ * recorded with who made it, the booking before and after, and the price and credit deltas, so
+ * disputes over who moved or cancelled a booking can be resolved.
+ */
+
+import { db } from '../config/database';
+import { bookingEvents, bookings, rooms, users } from '../db/schema';
+import { eq, asc, inArray } from 'drizzle-orm';
+import { formatTimeForEmail } from '../utils/date.util';
+import type { CreditTransactionClient } from './credit-transaction.service';
+
+type DbClient = typeof db | CreditTransactionClient;
+
+export type BookingEventType = (typeof bookingEvents.$inferSelect)['eventType'];
+
+/** The parts of a booking an event records. */
+export interface BookingSnapshot {
+  roomId: string;
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string;
+  status: string;
+  totalPrice: string;
+  creditUsed: string;
+  voucherHoursUsed: string;
+}
+
+export interface BookingEventInput {
+  bookingId: string;
+  /** User who made the change; null for system jobs. */
+  actorUserId: string | null;
+  eventType: BookingEventType;
+  before: BookingSnapshot | null;
+  after: BookingSnapshot | null;
+  /** Change in credit drawn for the booking; negative when credit was given back. */
+  creditDelta: number;
+}
+
+export interface BookingHistoryEvent {
+  id: string;
+  eventType: BookingEventType;
+  actorUserId: string | null;
+  /** Actor's name, or null for system changes. */
+  actorName: string | null;
+  actorRole: string | null;
+  before: (BookingSnapshot & { roomName: string }) | null;
+  after: (BookingSnapshot & { roomName: string }) | null;
+  priceDelta: number;
+  creditDelta: number;
+  createdAt: Date;
+}
+
+type BookingRow = Pick<
+  typeof bookings.$inferSelect,
+  | 'roomId'
+  | 'bookingDate'
+  | 'startTime'
+  | 'endTime'
+  | 'status'
+  | 'totalPrice'
+  | 'creditUsed'
+  | 'voucherHoursUsed'
+>;
+
+export function snapshotBooking(booking: BookingRow): BookingSnapshot {
+  return {
+    roomId: booking.roomId,
+    bookingDate: String(booking.bookingDate),
+    startTime: formatTimeForEmail(booking.startTime),
+    endTime: formatTimeForEmail(booking.endTime),
+    status: booking.status,
+    totalPrice: String(booking.totalPrice),
+    creditUsed: String(booking.creditUsed),
+    voucherHoursUsed: String(booking.voucherHoursUsed),
+  };
+}
+
+/** Price the booking is worth in a snapshot; a cancelled (or missing) booking is worth nothing. */
+function bookedPrice(snapshot: BookingSnapshot | null): number {
+  if (!snapshot || snapshot.status === 'cancelled') return 0;
+  return parseFloat(snapshot.totalPrice);
+}
+
+/**
+ * Record a booking event. Pass the caller's transaction so the event is written (or rolled back)
+ * with the change itself.
+ */
+export async function recordBookingEvent(
+  client: DbClient,
+  input: BookingEventInput
+): Promise<void> {
+  const priceDelta = bookedPrice(input.after) - bookedPrice(input.before);
+  await client.insert(bookingEvents).values({
+    bookingId: input.bookingId,
+    actorUserId: input.actorUserId,
+    eventType: input.eventType,
+    before: input.before,
+    after: input.after,
+    priceDelta: priceDelta.toFixed(2),
+    creditDelta: input.creditDelta.toFixed(2),
+  });
+}
+
+/**
+ * Events for a booking, oldest first, with actor and room names.
+ */
+export async function getBookingHistory(bookingId: string): Promise<BookingHistoryEvent[]> {
+  const rows = await db
+    .select({
+      event: bookingEvents,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      role: users.role,
+    })
+    .from(bookingEvents)
+    .leftJoin(users, eq(bookingEvents.actorUserId, users.id))
+    .where(eq(bookingEvents.bookingId, bookingId))
+    .orderBy(asc(bookingEvents.createdAt));
+
+  const snapshots = rows.flatMap((r) =>
+    [r.event.before, r.event.after].filter((s): s is BookingSnapshot => s != null)
+  );
+  const roomIds = [...new Set(snapshots.map((s) => s.roomId))];
+  const roomRows = roomIds.length
+    ? await db
+        .select({ id: rooms.id, name: rooms.name })
+        .from(rooms)
+        .where(inArray(rooms.id, roomIds))
+    : [];
+  const withRoomName = (snapshot: unknown) => {
+    if (snapshot == null) return null;
+    const s = snapshot as BookingSnapshot;
+    return { ...s, roomName: roomRows.find((r) => r.id === s.roomId)?.name ?? 'Unknown room' };
+  };
+
+  return rows.map(({ event, firstName, lastName, role }) => ({
+    id: event.id,
+    eventType: event.eventType,
+    actorUserId: event.actorUserId,
+    actorName: firstName != null ? `${firstName} ${lastName ?? ''}`.trim() : null,
+    actorRole: role,
+    before: withRoomName(event.before),
+    after: withRoomName(event.after),
+    priceDelta: parseFloat(String(event.priceDelta)),
+    creditDelta: parseFloat(String(event.creditDelta)),
+    createdAt: event.createdAt,
+  }));
+}
@@ -0,0 +1,246 @@
+/**
+ * Stripe payments recorded against bookings (pay the difference) and card refunds for them.
+ * A booking paid partly by card can be refunded to that card on cancellation instead of as credit.
+ * The refund is reserved inside the cancellation transaction, requested from Stripe once it has
+ * committed, and confirmed (or picked up, for refunds made in the Stripe dashboard) by the
+ * charge.refunded webhook.
+ */
+
+import { db } from '../config/database';
+import { bookingPayments } from '../db/schema';
+import { eq, and, asc, desc, isNull, sql } from 'drizzle-orm';
+import * as StripePaymentService from './stripe-payment.service';
+import { logger } from '../utils/logger.util';
+import type { CreditTransactionClient } from './credit-transaction.service';
+
+type DbClient = typeof db | CreditTransactionClient;
+
+export interface IssueRefundsResult {
+  /** Refunds accepted by Stripe (succeeded or still processing), in GBP. */
+  issued: number;
+  /** Refunds Stripe rejected or that could not be requested, in GBP. */
+  failed: number;
+}
+
+/**
+ * Record a Stripe payment made for a booking. Idempotent per PaymentIntent and booking (webhook
+ * retries); a batch booking records its share of one PaymentIntent against each booking.
+ * creditTransactionId is set when the payment was granted as credit and spent on the booking
+ * (booking updates), so it is already part of the booking's creditUsed.
+ */
+export async function recordPayment(
+  bookingId: string,
+  paymentIntentId: string,
+  amount: number,
+  options: { creditTransactionId?: string | null; client?: DbClient } = {}
+): Promise<void> {
+  const client = options.client ?? db;
+  await client
+    .insert(bookingPayments)
+    .values({
+      bookingId,
+      stripePaymentIntentId: paymentIntentId,
+      amount: amount.toFixed(2),
+      creditTransactionId: options.creditTransactionId ?? null,
+    })
+    .onConflictDoNothing({
+      target: [bookingPayments.stripePaymentIntentId, bookingPayments.bookingId],
+    });
+}
+
+/** Whether the PaymentIntent has been recorded against any booking. */
+export async function isPaymentIntentRecorded(
+  paymentIntentId: string,
+  client: DbClient = db
+): Promise<boolean> {
+  const rows = await client
+    .select({ id: bookingPayments.id })
+    .from(bookingPayments)
+    .where(eq(bookingPayments.stripePaymentIntentId, paymentIntentId))
+    .limit(1);
+  return rows.length > 0;
+}
+
+/**
+ * Card payments for a booking that were not turned into credit, i.e. not included in creditUsed.
+ * Together with creditUsed this is what the booking cost the practitioner beyond vouchers.
+ */
+export async function getDirectPaymentTotal(
+  bookingId: string,
+  client: DbClient = db
+): Promise<number> {
+  const [row] = await client
+    .select({
+      total: sql<string | number>`COALESCE(SUM(${bookingPayments.amount}), 0)`,
+    })
+    .from(bookingPayments)
+    .where(
+      and(eq(bookingPayments.bookingId, bookingId), isNull(bookingPayments.creditTransactionId))
+    );
+  return parseFloat(String(row?.total ?? 0));
+}
+
+/**
+ * Amount of a booking's card payments that has not been refunded (or reserved for refund) yet.
+ */
+export async function getCardRefundableAmount(
+  bookingId: string,
+  client: DbClient = db
+): Promise<number> {
+  const [row] = await client
+    .select({
+      total: sql<string | number>`COALESCE(SUM(${bookingPayments.amount}), 0)`,
+    })
+    .from(bookingPayments)
+    .where(and(eq(bookingPayments.bookingId, bookingId), isNull(bookingPayments.refundStatus)));
+  return parseFloat(String(row?.total ?? 0));
+}
+
+/**
+ * Reserve up to `amount` of the booking's card payments for refund, newest payment first, marking
+ * them pending. Caller must run inside db.transaction and call issuePendingRefunds after commit.
+ * Returns the amount reserved (capped at what was paid by card).
+ */
+export async function reserveCardRefundWithinTransaction(
+  tx: CreditTransactionClient,
+  bookingId: string,
+  amount: number
+): Promise<number> {
+  if (amount <= 0) return 0;
+  const rows = await tx
+    .select()
+    .from(bookingPayments)
+    .where(and(eq(bookingPayments.bookingId, bookingId), isNull(bookingPayments.refundStatus)))
+    .orderBy(desc(bookingPayments.createdAt))
+    .for('update');
+
+  let remainingCents = Math.round(amount * 100);
+  for (const row of rows) {
+    if (remainingCents <= 0) break;
+    const refundCents = Math.min(Math.round(parseFloat(String(row.amount)) * 100), remainingCents);
+    if (refundCents <= 0) continue;
+    await tx
+      .update(bookingPayments)
+      .set({
+        refundAmount: (refundCents / 100).toFixed(2),
+        refundStatus: 'pending',
+        updatedAt: new Date(),
+      })
+      .where(eq(bookingPayments.id, row.id));
+    remainingCents -= refundCents;
+  }
+  return (Math.round(amount * 100) - remainingCents) / 100;
+}
+
+/**
+ * Request the booking's pending card refunds from Stripe. Each payment uses an idempotency key so
+ * a retry cannot refund twice. Refunds Stripe rejects are marked failed; the caller decides how
+ * to make good the failed amount.
+ */
+export async function issuePendingRefunds(bookingId: string): Promise<IssueRefundsResult> {
+  const rows = await db
+    .select()
+    .from(bookingPayments)
+    .where(
+      and(
+        eq(bookingPayments.bookingId, bookingId),
+        eq(bookingPayments.refundStatus, 'pending'),
+        isNull(bookingPayments.stripeRefundId)
+      )
+    );
+
+  const result: IssueRefundsResult = { issued: 0, failed: 0 };
+  for (const row of rows) {
+    const refundAmount = parseFloat(String(row.refundAmount ?? 0));
+    try {
+      const refund = await StripePaymentService.refundPayment({
+        paymentIntentId: row.stripePaymentIntentId,
+        amount: Math.round(refundAmount * 100),
+        metadata: { bookingId, bookingPaymentId: row.id },
+        idempotencyKey: `booking-payment-refund-${row.id}`,
+      });
+      const failed = refund.status === 'failed' || refund.status === 'canceled';
+      const now = new Date();
+      await db
+        .update(bookingPayments)
+        .set({
+          stripeRefundId: refund.id,
+          refundStatus: failed ? 'failed' : refund.status === 'succeeded' ? 'succeeded' : 'pending',
+          refundedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(bookingPayments.id, row.id));
+      if (failed) result.failed += refundAmount;
+      else result.issued += refundAmount;
+    } catch (err) {
+      logger.error(
+        'Stripe card refund failed',
+        err instanceof Error ? err : new Error(String(err)),
+        { bookingId, bookingPaymentId: row.id, paymentIntentId: row.stripePaymentIntentId }
+      );
+      await db
+        .update(bookingPayments)
+        .set({ refundStatus: 'failed', updatedAt: new Date() })
+        .where(eq(bookingPayments.id, row.id));
+      result.failed += refundAmount;
+    }
+  }
+  return result;
+}
+
+/**
+ * Reconcile a charge.refunded webhook: mark the booking payments refunded with the amount Stripe
+ * reports. Refunds issued from the Stripe dashboard are recorded the same way. A PaymentIntent
+ * shared by a batch of bookings has one row per booking; the refunded total is matched against
+ * the refunds we requested first, and anything beyond that is attributed to the other bookings.
+ * Returns false when the PaymentIntent is not a booking payment.
+ */
+export async function reconcileChargeRefunded(
+  paymentIntentId: string,
+  amountRefundedPence: number,
+  stripeRefundId?: string
+): Promise<boolean> {
+  const rows = await db
+    .select()
+    .from(bookingPayments)
+    .where(eq(bookingPayments.stripePaymentIntentId, paymentIntentId))
+    .orderBy(asc(bookingPayments.createdAt));
+  if (rows.length === 0) return false;
+
+  const requested = rows.filter(
+    (r) => r.refundStatus === 'pending' || r.refundStatus === 'succeeded'
+  );
+  const others = rows.filter((r) => !requested.includes(r));
+  let remainingCents = amountRefundedPence;
+  const now = new Date();
+  for (const row of [...requested, ...others]) {
+    const amountCents = Math.round(parseFloat(String(row.amount)) * 100);
+    const requestedCents =
+      row.refundAmount != null ? Math.round(parseFloat(String(row.refundAmount)) * 100) : null;
+    const refundedCents = Math.min(remainingCents, amountCents);
+    if (refundedCents <= 0) continue;
+    remainingCents -= refundedCents;
+    // With several bookings on the intent, a shortfall means another refund is still in flight
+    if (rows.length > 1 && requestedCents != null && refundedCents < requestedCents) continue;
+
+    await db
+      .update(bookingPayments)
+      .set({
+        refundAmount: (refundedCents / 100).toFixed(2),
+        refundStatus: 'succeeded',
+        stripeRefundId: row.stripeRefundId ?? stripeRefundId ?? null,
+        refundedAt: row.refundedAt ?? now,
+        updatedAt: now,
+      })
+      .where(eq(bookingPayments.id, row.id));
+    if (requestedCents != null && requestedCents !== refundedCents) {
+      logger.warn('Card refund amount differs from the amount requested', {
+        bookingId: row.bookingId,
+        paymentIntentId,
+        requested: row.refundAmount,
+        refundedPence: refundedCents,
+      });
+    }
+  }
+  return true;
+}
@@ -0,0 +1,113 @@
+/**
+ * createBooking under concurrency: two practitioners booking the same room and time at once get
+ * one booking between them, and the other a BookingValidationError (from validation, or from the
+ * overlap constraint when both passed it).
+ * Needs a migrated Postgres database in TEST_DATABASE_URL (rows are created and removed again);
+ * skipped without one.
+ */
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import * as schema from '../db/schema';
+import { BookingValidationError } from '../errors/booking.errors';
+import { addDaysToDateString, addDaysUtcString, todayUtcString } from '../utils/date.util';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+/** First weekday at least two days ahead, so 10:00 London is in the future and within a month. */
+function nextWeekday(): string {
+  let date = addDaysUtcString(2);
+  while ([0, 6].includes(new Date(date + 'T12:00:00Z').getUTCDay())) {
+    date = addDaysToDateString(date, 1);
+  }
+  return date;
+}
+
+describe('createBooking', { skip: !TEST_DATABASE_URL && 'TEST_DATABASE_URL is not set' }, () => {
+  // The service's database client reads DATABASE_URL when first imported
+  let database: typeof import('../config/database');
+  let BookingService: typeof import('./booking.service');
+  const userIds: string[] = [];
+  let locationId: string;
+  let roomId: string;
+
+  const addPractitioner = async (suffix: string) => {
+    const { db } = database;
+    const [{ id: userId }] = await db
+      .insert(schema.users)
+      .values({
+        email: `booking-race-${suffix}-${randomUUID()}@example.com`,
+        passwordHash: 'x',
+        firstName: 'Booking',
+        lastName: 'Race',
+        status: 'active',
+      })
+      .returning({ id: schema.users.id });
+    userIds.push(userId);
+    await db.insert(schema.memberships).values({ userId, type: 'permanent' });
+    await db.insert(schema.creditTransactions).values({
+      userId,
+      amount: '100.00',
+      remainingAmount: '100.00',
+      grantDate: todayUtcString(),
+      expiryDate: '2099-12-31',
+      sourceType: 'manual',
+    });
+    return userId;
+  };
+
+  before(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    database = await import('../config/database');
+    BookingService = await import('./booking.service');
+    const { db } = database;
+    const suffix = randomUUID();
+    [{ id: locationId }] = await db
+      .insert(schema.locations)
+      .values({ name: `Booking race ${suffix}`, roomCount: '1' })
+      .returning({ id: schema.locations.id });
+    [{ id: roomId }] = await db
+      .insert(schema.rooms)
+      .values({ locationId, name: 'Booking race room', roomNumber: '1' })
+      .returning({ id: schema.rooms.id });
+    await db.insert(schema.pricingRules).values({
+      locationId,
+      effectiveFrom: '2000-01-01',
+      weekdayBands: [{ startTime: '08:00', endTime: '22:00', rate: 20 }],
+      weekendRate: '20.00',
+    });
+  });
+
+  after(async () => {
+    if (!database) return;
+    const { db, pool } = database;
+    // Bookings, memberships and credits go with the users; the room and rates with the location
+    for (const userId of userIds) await db.delete(schema.users).where(eq(schema.users.id, userId));
+    if (locationId) await db.delete(schema.locations).where(eq(schema.locations.id, locationId));
+    await pool.end();
+  });
+
+  it('books the slot for only one of two practitioners booking it at once', async () => {
+    const date = nextWeekday();
+    const [first, second] = [await addPractitioner('a'), await addPractitioner('b')];
+
+    const results = await Promise.allSettled([
+      BookingService.createBooking(first, roomId, date, '10:00', '11:00'),
+      BookingService.createBooking(second, roomId, date, '10:30', '11:30'),
+    ]);
+
+    const fulfilled = results.filter((r) => r.status === 'fulfilled');
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    assert.equal(fulfilled.length, 1);
+    assert.equal(rejected.length, 1);
+    assert.ok(rejected[0].reason instanceof BookingValidationError, String(rejected[0].reason));
+    assert.equal(rejected[0].reason.message, BookingService.SLOT_UNAVAILABLE_ERROR);
+
+    const confirmed = await database.db
+      .select({ id: schema.bookings.id })
+      .from(schema.bookings)
+      .where(and(eq(schema.bookings.roomId, roomId), eq(schema.bookings.status, 'confirmed')));
+    assert.equal(confirmed.length, 1);
+  });
+});
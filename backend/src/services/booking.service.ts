@@ -1,8 +1,8 @@
 import { db } from '../config/database';
 import { bookings, rooms, locations, memberships, users, freeBookingVouchers } from '../db/schema';
-import { eq, and, gte, gt, lte, asc, inArray, not } from 'drizzle-orm';
+import { eq, and, gte, asc, inArray, not, aliasedTable } from 'drizzle-orm';
 import { sql } from 'drizzle-orm';
-import { todayUtcString, formatTimeForEmail } from '../utils/date.util';
+import { todayUtcString, formatTimeForEmail, addDaysToDateString } from '../utils/date.util';
 import { fromZonedTime } from 'date-fns-tz';
 import * as PricingService from './pricing.service';
 import * as CreditTransactionService from './credit-transaction.service';
@@ -13,17 +13,40 @@ import {
   BookingNotFoundError,
   PaymentRequiredError,
 } from '../errors/booking.errors';
+import { RoomNotFoundError } from '../errors/location.errors';
 import { logger } from '../utils/logger.util';
-import { emailService } from './email.service';
+import { isExclusionViolation, BOOKING_OVERLAP_CONSTRAINT } from '../utils/db-error.util';
+import { emailService, type BookingCancellationEmailData } from './email.service';
 import { isStripeConfigured } from '../config/stripe';
 import type { CreditTransactionClient } from './credit-transaction.service';
+import * as WaitlistService from './waitlist.service';
+import * as OpeningHoursService from './opening-hours.service';
+import * as CancellationPolicyService from './cancellation-policy.service';
+import * as BookingPaymentService from './booking-payment.service';
+import * as SlotHoldService from './slot-hold.service';
+import * as BookingEventService from './booking-event.service';
+import * as CalendarEventsService from './calendar-events.service';
+import * as DunningService from './dunning.service';
+import * as SubscriptionService from './subscription.service';
 
 type LocationName = PricingService.LocationName;
 
-const ALLOWED_LOCATIONS: LocationName[] = ['Pimlico', 'Kensington'];
-
 const ALLOWED_BOOKING_STATUSES = ['confirmed', 'cancelled', 'completed'] as const;
 
+/** Validation error returned when the requested range overlaps a confirmed booking. */
+export const SLOT_UNAVAILABLE_ERROR = 'Time slot is not available';
+
+/**
+ * Turn the database's overlap guard into the usual validation error. The availability checks run
+ * first; the constraint catches a booking made by a concurrent request in between.
+ */
+function rethrowBookingOverlap(err: unknown): never {
+  if (isExclusionViolation(err, BOOKING_OVERLAP_CONSTRAINT)) {
+    throw new BookingValidationError(SLOT_UNAVAILABLE_ERROR);
+  }
+  throw err;
+}
+
 const TIME_PATTERN = /^\d{1,2}(:\d{1,2})?(:\d{1,2})?$/;
 
 /**
@@ -55,8 +78,13 @@ function timeToHours(t: string): number {
 
 /**
  * Check if user can make bookings: active membership, not suspended, ad_hoc within period.
+ * @param bookingDate - Date being booked (YYYY-MM-DD); a subscription pause only blocks dates
+ * inside it. Defaults to today.
  */
-export async function canUserBook(userId: string): Promise<{ ok: boolean; reason?: string }> {
+export async function canUserBook(
+  userId: string,
+  bookingDate: string = todayUtcString()
+): Promise<{ ok: boolean; reason?: string }> {
   const [userRow] = await db
     .select({ status: users.status })
     .from(users)
@@ -73,6 +101,14 @@ export async function canUserBook(userId: string): Promise<{ ok: boolean; reason
   if (!membership) return { ok: false, reason: 'No membership' };
 
   const today = todayUtcString();
+  const blockReason =
+    DunningService.getBookingBlockReason(membership.paymentFailedAt) ??
+    SubscriptionService.getSubscriptionStatusBlockReason(membership.stripeSubscriptionStatus) ??
+    (SubscriptionService.isPausedOn(membership, bookingDate)
+      ? SubscriptionService.PAUSED_REASON
+      : null);
+  if (blockReason) return { ok: false, reason: blockReason };
+
   if (membership.type === 'ad_hoc') {
     if (membership.subscriptionType === 'monthly' && membership.stripeSubscriptionId) {
       return { ok: true };
@@ -119,25 +155,29 @@ function hasActiveSubscription(membership: {
 }
 
 /**
- * Get room with location name (for pricing). Throws if room not found.
+ * Rooms that are deactivated, or whose location is deactivated, cannot take new bookings.
+ */
+function assertRoomBookable(room: typeof rooms.$inferSelect, locationActive: boolean): void {
+  if (!room.active || !locationActive) {
+    throw new BookingValidationError('Room is not available for booking');
+  }
+}
+
+/**
+ * Get room with location name (for pricing). Throws if room not found or not bookable.
  */
 async function getRoomWithLocation(
   roomId: string
 ): Promise<{ room: typeof rooms.$inferSelect; locationName: LocationName }> {
   const rows = await db
-    .select({ room: rooms, locationName: locations.name })
+    .select({ room: rooms, locationName: locations.name, locationActive: locations.active })
     .from(rooms)
     .innerJoin(locations, eq(rooms.locationId, locations.id))
     .where(eq(rooms.id, roomId))
     .limit(1);
   if (!rows.length) throw new BookingNotFoundError('Room not found');
-  const loc = rows[0].locationName as string;
-  if (!ALLOWED_LOCATIONS.includes(loc as LocationName)) {
-    throw new BookingValidationError(
-      `Invalid location: ${loc}. Allowed: ${ALLOWED_LOCATIONS.join(', ')}`
-    );
-  }
-  return { room: rows[0].room, locationName: loc as LocationName };
+  assertRoomBookable(rows[0].room, rows[0].locationActive);
+  return { room: rows[0].room, locationName: rows[0].locationName };
 }
 
 /**
@@ -148,29 +188,26 @@ async function getRoomWithLocationTx(
   roomId: string
 ): Promise<{ room: typeof rooms.$inferSelect; locationName: LocationName }> {
   const rows = await tx
-    .select({ room: rooms, locationName: locations.name })
+    .select({ room: rooms, locationName: locations.name, locationActive: locations.active })
     .from(rooms)
     .innerJoin(locations, eq(rooms.locationId, locations.id))
     .where(eq(rooms.id, roomId))
     .limit(1);
   if (!rows.length) throw new BookingNotFoundError('Room not found');
-  const loc = rows[0].locationName as string;
-  if (!ALLOWED_LOCATIONS.includes(loc as LocationName)) {
-    throw new BookingValidationError(
-      `Invalid location: ${loc}. Allowed: ${ALLOWED_LOCATIONS.join(', ')}`
-    );
-  }
-  return { room: rows[0].room, locationName: loc as LocationName };
+  assertRoomBookable(rows[0].room, rows[0].locationActive);
+  return { room: rows[0].room, locationName: rows[0].locationName };
 }
 
 /**
- * Check availability: no overlapping confirmed booking for same room on same date.
+ * Check availability: no overlapping confirmed booking for same room on same date, and no active
+ * checkout hold on it other than holderUserId's.
  */
 export async function checkAvailability(
   roomId: string,
   date: string,
   startTime: string,
-  endTime: string
+  endTime: string,
+  holderUserId?: string
 ): Promise<boolean> {
   const start = toTimeString(startTime);
   const end = toTimeString(endTime);
@@ -186,7 +223,8 @@ export async function checkAvailability(
       )
     )
     .limit(1);
-  return overlapping.length === 0;
+  if (overlapping.length > 0) return false;
+  return !(await SlotHoldService.hasConflictingHold(roomId, date, start, end, holderUserId));
 }
 
 /**
@@ -218,7 +256,8 @@ export async function checkAvailabilityExcluding(
 }
 
 /**
- * Check availability excluding a booking id, using transaction client (for use inside db.transaction).
+ * Check availability excluding a booking id (if any), using transaction client (for use inside
+ * db.transaction). Checkout holds other than holderUserId's also make the slot unavailable.
  */
 async function checkAvailabilityExcludingTx(
   tx: CreditTransactionClient,
@@ -226,7 +265,8 @@ async function checkAvailabilityExcludingTx(
   date: string,
   startTime: string,
   endTime: string,
-  excludeBookingId: string
+  excludeBookingId: string | undefined,
+  holderUserId: string
 ): Promise<boolean> {
   const start = toTimeString(startTime);
   const end = toTimeString(endTime);
@@ -238,12 +278,66 @@ async function checkAvailabilityExcludingTx(
         eq(bookings.roomId, roomId),
         eq(bookings.bookingDate, date),
         eq(bookings.status, 'confirmed'),
-        not(eq(bookings.id, excludeBookingId)),
+        excludeBookingId ? not(eq(bookings.id, excludeBookingId)) : undefined,
         sql`${bookings.startTime} < ${end}::time AND ${bookings.endTime} > ${start}::time`
       )
     )
     .limit(1);
-  return overlapping.length === 0;
+  if (overlapping.length > 0) return false;
+  return !(await SlotHoldService.hasConflictingHold(roomId, date, start, end, holderUserId, tx));
+}
+
+/** Confirmed booking of the same practitioner that overlaps a requested time, in any room. */
+interface SelfOverlap {
+  startTime: string;
+  endTime: string;
+  roomName: string;
+  locationName: string;
+}
+
+/**
+ * Find the practitioner's own confirmed booking (any room, either location) overlapping the
+ * requested time, so they cannot hold two rooms at once.
+ */
+async function findSelfOverlap(
+  userId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  excludeBookingId?: string,
+  client: typeof db | CreditTransactionClient = db
+): Promise<SelfOverlap | null> {
+  const start = toTimeString(startTime);
+  const end = toTimeString(endTime);
+  const [row] = await client
+    .select({
+      startTime: bookings.startTime,
+      endTime: bookings.endTime,
+      roomName: rooms.name,
+      locationName: locations.name,
+    })
+    .from(bookings)
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(
+      and(
+        eq(bookings.userId, userId),
+        eq(bookings.bookingDate, date),
+        eq(bookings.status, 'confirmed'),
+        excludeBookingId ? not(eq(bookings.id, excludeBookingId)) : undefined,
+        sql`${bookings.startTime} < ${end}::time AND ${bookings.endTime} > ${start}::time`
+      )
+    )
+    .orderBy(asc(bookings.startTime))
+    .limit(1);
+  return row ?? null;
+}
+
+function selfOverlapError(overlap: SelfOverlap): string {
+  return (
+    `You already have a booking from ${formatTimeForEmail(overlap.startTime)} to ` +
+    `${formatTimeForEmail(overlap.endTime)} in ${overlap.roomName}, ${overlap.locationName}`
+  );
 }
 
 /**
@@ -301,10 +395,10 @@ function timeRangesOverlap(
 }
 
 /**
- * Get rooms, optionally filtered by location name.
+ * Get bookable rooms (active rooms at active locations), optionally filtered by location name.
  */
 export async function getRooms(locationName?: LocationName) {
-  const conditions = [eq(rooms.active, true)];
+  const conditions = [eq(rooms.active, true), eq(locations.active, true)];
   if (locationName) conditions.push(eq(locations.name, locationName));
   const rows = await db
     .select({
@@ -312,6 +406,8 @@ export async function getRooms(locationName?: LocationName) {
       locationId: rooms.locationId,
       name: rooms.name,
       roomNumber: rooms.roomNumber,
+      capacity: rooms.capacity,
+      amenities: rooms.amenities,
       active: rooms.active,
       locationName: locations.name,
     })
@@ -324,6 +420,8 @@ export async function getRooms(locationName?: LocationName) {
     locationId: r.locationId,
     name: r.name,
     roomNumber: parseFloat(r.roomNumber.toString()),
+    capacity: r.capacity,
+    amenities: Array.isArray(r.amenities) ? (r.amenities as string[]) : [],
     active: r.active,
     locationName: r.locationName,
   }));
@@ -357,6 +455,15 @@ export interface DayCalendarBooking {
   userId?: string;
 }
 
+/** A slot held while a practitioner pays the difference; shown as held, not booked. */
+export interface DayCalendarHold {
+  roomId: string;
+  startTime: string;
+  endTime: string;
+  userId: string;
+  expiresAt: Date;
+}
+
 function mapRowToDayCalendarBooking(
   row: {
     id?: string;
@@ -383,23 +490,28 @@ function mapRowToDayCalendarBooking(
 }
 
 /**
- * Get day calendar: rooms for location and all confirmed bookings for that date.
+ * Get day calendar: rooms for location, all confirmed bookings for that date and the slots held
+ * by checkouts in progress.
  * Each booking includes bookerName and userId so all users can see who has which booking.
  */
 export async function getDayCalendar(
   location: LocationName,
   date: string
-): Promise<{ rooms: DayCalendarRoom[]; bookings: DayCalendarBooking[] }> {
+): Promise<{
+  rooms: DayCalendarRoom[];
+  bookings: DayCalendarBooking[];
+  holds: DayCalendarHold[];
+}> {
   const roomList = await getRooms(location);
   const rooms = roomList.map((r) => ({ id: r.id, name: r.name }));
   if (rooms.length === 0) {
-    return { rooms: [], bookings: [] };
+    return { rooms: [], bookings: [], holds: [] };
   }
   const roomIds = rooms.map((r) => r.id);
   const whereClause = and(
     inArray(bookings.roomId, roomIds),
     eq(bookings.bookingDate, date),
-    eq(bookings.status, 'confirmed')
+    inArray(bookings.status, ['confirmed', 'completed'])
   );
 
   // Always include userId and booker names so all users can see who has which booking
@@ -417,28 +529,160 @@ export async function getDayCalendar(
     .innerJoin(users, eq(bookings.userId, users.id))
     .where(whereClause)
     .orderBy(asc(bookings.startTime));
-  return { rooms, bookings: rows.map((r) => mapRowToDayCalendarBooking(r)) };
+  const holds = await SlotHoldService.getActiveHolds(roomIds, date);
+  return {
+    rooms,
+    bookings: rows.map((r) => mapRowToDayCalendarBooking(r)),
+    holds: holds.map((h) => ({
+      roomId: h.roomId,
+      startTime: formatTimeHHMM(h.startTime),
+      endTime: formatTimeHHMM(h.endTime),
+      userId: h.userId,
+      expiresAt: h.expiresAt,
+    })),
+  };
+}
+
+export type CalendarView = 'week' | 'month';
+
+export interface RangeCalendarRoom extends DayCalendarRoom {
+  locationName: string;
+}
+
+export interface RangeCalendarBooking extends DayCalendarBooking {
+  bookingDate: string;
+}
+
+/** Booked room-hours against bookable room-hours (opening hours × open rooms) for one day. */
+export interface CalendarDayOccupancy {
+  date: string;
+  bookedHours: number;
+  capacityHours: number;
+  occupancyPercent: number;
 }
 
 /**
- * Get available time slots for a room on a date (30-minute increments 08:00-22:00).
- * Uses a single query for confirmed bookings, then computes availability in memory.
+ * Inclusive date range shown by a week (Monday to Sunday) or month view containing date.
+ */
+export function getCalendarRange(
+  view: CalendarView,
+  date: string
+): { fromDate: string; toDate: string } {
+  if (view === 'week') {
+    const weekday = new Date(date + 'T12:00:00Z').getUTCDay();
+    const fromDate = addDaysToDateString(date, -((weekday + 6) % 7));
+    return { fromDate, toDate: addDaysToDateString(fromDate, 6) };
+  }
+  const [y, m] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(y, m, 0)).toISOString().split('T')[0];
+  return { fromDate: `${date.slice(0, 7)}-01`, toDate: lastDay };
+}
+
+/**
+ * Get a week or month calendar for one location, or all locations when location is omitted:
+ * rooms, confirmed and completed bookings (with booker names, fetched in a single query) and each
+ * day's occupancy.
+ */
+export async function getRangeCalendar(
+  view: CalendarView,
+  date: string,
+  location?: LocationName
+): Promise<{
+  fromDate: string;
+  toDate: string;
+  rooms: RangeCalendarRoom[];
+  bookings: RangeCalendarBooking[];
+  occupancy: CalendarDayOccupancy[];
+}> {
+  const { fromDate, toDate } = getCalendarRange(view, date);
+  const roomList = await getRooms(location);
+  const rooms = roomList.map((r) => ({ id: r.id, name: r.name, locationName: r.locationName }));
+  const roomIds = rooms.map((r) => r.id);
+
+  const rows = roomIds.length
+    ? await db
+        .select({
+          id: bookings.id,
+          roomId: bookings.roomId,
+          bookingDate: bookings.bookingDate,
+          startTime: bookings.startTime,
+          endTime: bookings.endTime,
+          userId: bookings.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        })
+        .from(bookings)
+        .innerJoin(users, eq(bookings.userId, users.id))
+        .where(
+          and(
+            inArray(bookings.roomId, roomIds),
+            gte(bookings.bookingDate, fromDate),
+            sql`${bookings.bookingDate} <= ${toDate}`,
+            inArray(bookings.status, ['confirmed', 'completed'])
+          )
+        )
+        .orderBy(asc(bookings.bookingDate), asc(bookings.startTime))
+    : [];
+  const calendarBookings = rows.map((r) => ({
+    ...mapRowToDayCalendarBooking(r),
+    bookingDate: String(r.bookingDate),
+  }));
+
+  const capacity: Record<string, number> = {};
+  for (const locationId of new Set(roomList.map((r) => r.locationId))) {
+    const daily = await OpeningHoursService.getDailyCapacityHours(locationId, fromDate, toDate);
+    for (const [day, hours] of Object.entries(daily)) capacity[day] = (capacity[day] ?? 0) + hours;
+  }
+  const occupancy: CalendarDayOccupancy[] = [];
+  for (let day = fromDate; day <= toDate; day = addDaysToDateString(day, 1)) {
+    const bookedHours = calendarBookings
+      .filter((b) => b.bookingDate === day)
+      .reduce((sum, b) => sum + timeToHours(b.endTime) - timeToHours(b.startTime), 0);
+    const capacityHours = capacity[day] ?? 0;
+    occupancy.push({
+      date: day,
+      bookedHours,
+      capacityHours,
+      occupancyPercent:
+        capacityHours > 0 ? Math.min(100, Math.round((bookedHours / capacityHours) * 100)) : 0,
+    });
+  }
+
+  return { fromDate, toDate, rooms, bookings: calendarBookings, occupancy };
+}
+
+/**
+ * Get available time slots for a room on a date (30-minute increments within the location's
+ * opening hours). Closed days (weekly hours or closures) have no slots.
+ * Uses a single query for confirmed bookings, then computes availability in memory. Slots held by
+ * another practitioner's checkout are unavailable; the viewer's own holds are not.
  */
 export async function getAvailableSlots(
   roomId: string,
-  date: string
+  date: string,
+  viewerUserId?: string
 ): Promise<Array<{ startTime: string; endTime: string; available: boolean }>> {
+  const status = await OpeningHoursService.getRoomDayStatus(roomId, date).catch((e) => {
+    throw e instanceof RoomNotFoundError ? new BookingNotFoundError('Room not found') : e;
+  });
+  if (!status.open) return [];
+  const openMins = Math.round(timeToHours(status.openTime) * 60);
+  const closeMins = Math.round(timeToHours(status.closeTime) * 60);
   const existingBookings = await getConfirmedBookingsForRoomDate(roomId, date);
+  const holds = await SlotHoldService.getActiveHolds([roomId], date);
+  for (const hold of holds) {
+    if (hold.userId === viewerUserId) continue;
+    existingBookings.push({
+      startTime: toTimeString(formatTimeHHMM(hold.startTime)),
+      endTime: toTimeString(formatTimeHHMM(hold.endTime)),
+    });
+  }
   const slots: Array<{ startTime: string; endTime: string; available: boolean }> = [];
-  for (let halfHour = 0; halfHour < 29; halfHour++) {
-    const startHours = 8 + halfHour * 0.5;
-    const endHours = startHours + 0.5;
-    const hStart = Math.floor(startHours);
-    const mStart = (startHours % 1) * 60;
-    const hEnd = Math.floor(endHours);
-    const mEnd = (endHours % 1) * 60;
-    const start = `${hStart.toString().padStart(2, '0')}:${mStart.toString().padStart(2, '0')}`;
-    const end = `${hEnd.toString().padStart(2, '0')}:${mEnd.toString().padStart(2, '0')}`;
+  const toHHMM = (mins: number) =>
+    `${String(Math.floor(mins / 60)).padStart(2, '0')}:${String(mins % 60).padStart(2, '0')}`;
+  for (let startMins = openMins; startMins + 30 <= closeMins; startMins += 30) {
+    const start = toHHMM(startMins);
+    const end = toHHMM(startMins + 30);
     const available = !timeRangesOverlap(start, end, existingBookings);
     slots.push({ startTime: start, endTime: end, available });
   }
@@ -446,16 +690,19 @@ export async function getAvailableSlots(
 }
 
 /**
- * Validate booking request: 1-month advance, within window, room exists, availability.
+ * Validate booking request: 1-month advance, within opening hours, room exists, availability,
+ * and no overlap with the practitioner's own bookings in other rooms.
+ * @param options.allowSelfOverlap - Skip the own-bookings check (admin-made internal bookings).
  */
 export async function validateBookingRequest(
   userId: string,
   roomId: string,
   date: string,
   startTime: string,
-  endTime: string
+  endTime: string,
+  options: { allowSelfOverlap?: boolean } = {}
 ): Promise<{ valid: boolean; error?: string }> {
-  const can = await canUserBook(userId);
+  const can = await canUserBook(userId, date);
   if (!can.ok) return { valid: false, error: can.reason };
 
   const today = todayUtcString();
@@ -480,15 +727,26 @@ export async function validateBookingRequest(
 
   try {
     const { locationName } = await getRoomWithLocation(roomId);
+    const hoursError = await OpeningHoursService.checkOpeningHours(
+      roomId,
+      date,
+      startTime,
+      endTime
+    );
+    if (hoursError) return { valid: false, error: hoursError };
     const dateObj = new Date(date + 'T12:00:00Z');
-    PricingService.calculateTotalPrice(locationName, dateObj, startTime, endTime);
+    await PricingService.calculateTotalPrice(locationName, dateObj, startTime, endTime, { roomId });
   } catch (e) {
     return { valid: false, error: e instanceof Error ? e.message : 'Invalid room or time' };
   }
 
   try {
-    const available = await checkAvailability(roomId, date, startTime, endTime);
-    if (!available) return { valid: false, error: 'Time slot is not available' };
+    const available = await checkAvailability(roomId, date, startTime, endTime, userId);
+    if (!available) return { valid: false, error: SLOT_UNAVAILABLE_ERROR };
+    if (!options.allowSelfOverlap) {
+      const overlap = await findSelfOverlap(userId, date, startTime, endTime);
+      if (overlap) return { valid: false, error: selfOverlapError(overlap) };
+    }
   } catch (e) {
     return { valid: false, error: e instanceof Error ? e.message : 'Invalid time string' };
   }
@@ -498,7 +756,7 @@ export async function validateBookingRequest(
 
 /**
  * Get a price quote for a booking (no side effects).
- * Validates room and time window (08:00–22:00, end > start).
+ * Validates room and time span (end > start); opening hours are checked when booking.
  */
 export async function getBookingQuote(
   roomId: string,
@@ -508,19 +766,80 @@ export async function getBookingQuote(
 ): Promise<{ totalPrice: number; currency: string }> {
   const { locationName } = await getRoomWithLocation(roomId);
   const dateObj = new Date(date + 'T12:00:00Z');
-  const totalPrice = PricingService.calculateTotalPrice(locationName, dateObj, startTime, endTime);
+  const totalPrice = await PricingService.calculateTotalPrice(
+    locationName,
+    dateObj,
+    startTime,
+    endTime,
+    { roomId }
+  );
   return { totalPrice, currency: 'GBP' };
 }
 
+/**
+ * Start a pay-the-difference checkout: hold the slots for the user, create the PaymentIntent and
+ * link the holds to it, so nobody else can book the slots while the practitioner pays. The slots
+ * are checked for bookings and holds under the holds' room lock; excludeBookingId is the booking
+ * being changed, which may overlap its new slot. The holds are released again if the
+ * PaymentIntent cannot be created.
+ * @throws {BookingValidationError} A slot was booked meanwhile or another practitioner is paying
+ * for it.
+ */
+async function createPaymentIntentWithHolds(
+  userId: string,
+  slots: SlotHoldService.SlotHoldRequest[],
+  params: StripePaymentService.CreatePaymentIntentParams,
+  excludeBookingId?: string
+): Promise<StripePaymentService.CreatePaymentIntentResult> {
+  const holdIds = await SlotHoldService.placeHolds(userId, slots, (tx, holderUserId, slot) =>
+    checkAvailabilityExcludingTx(
+      tx,
+      slot.roomId,
+      slot.date,
+      slot.startTime,
+      slot.endTime,
+      excludeBookingId,
+      holderUserId
+    )
+  );
+  if (!holdIds) throw new BookingValidationError(SLOT_UNAVAILABLE_ERROR);
+  let intent: StripePaymentService.CreatePaymentIntentResult;
+  try {
+    intent = await StripePaymentService.createPaymentIntent(params);
+  } catch (err) {
+    await SlotHoldService.releaseHolds(holdIds);
+    throw err;
+  }
+  await SlotHoldService.attachPaymentIntent(holdIds, intent.paymentIntentId);
+  return intent;
+}
+
 export type CreateBookingResult =
   | { id: string }
   | { paymentRequired: true; clientSecret: string; paymentIntentId: string; amountPence: number };
 
+export interface CreateBookingOptions {
+  bookingType?: 'permanent_recurring' | 'ad_hoc' | 'free' | 'internal';
+  /**
+   * Payment already made (in GBP). When provided, this amount is used to cover the shortfall
+   * along with existing credits, and no new credits are granted.
+   */
+  paymentAmountMade?: number;
+  /**
+   * Stripe PaymentIntent of that payment, recorded against the booking so it can be refunded to
+   * the card on cancellation.
+   */
+  paymentIntentId?: string;
+  /**
+   * Who is making the booking, for the audit trail (an admin booking on someone's behalf);
+   * defaults to userId.
+   */
+  actorUserId?: string;
+}
+
 /**
  * Create a booking using credits and/or vouchers. When insufficient credits and Stripe is configured,
  * returns paymentRequired with clientSecret for pay-the-difference (PR 9).
- * @param paymentAmountMade - Optional payment amount already made (in GBP). When provided, this amount
- * is used to cover the shortfall along with existing credits, and no new credits are granted.
  */
 export async function createBooking(
   userId: string,
@@ -528,15 +847,24 @@ export async function createBooking(
   date: string,
   startTime: string,
   endTime: string,
-  bookingType: 'permanent_recurring' | 'ad_hoc' | 'free' | 'internal' = 'ad_hoc',
-  paymentAmountMade?: number
+  options: CreateBookingOptions = {}
 ): Promise<CreateBookingResult> {
-  const validation = await validateBookingRequest(userId, roomId, date, startTime, endTime);
+  const { bookingType = 'ad_hoc', paymentAmountMade, paymentIntentId } = options;
+  const actorUserId = options.actorUserId ?? userId;
+  const validation = await validateBookingRequest(userId, roomId, date, startTime, endTime, {
+    allowSelfOverlap: bookingType === 'internal',
+  });
   if (!validation.valid) throw new BookingValidationError(validation.error!);
 
   const { room, locationName } = await getRoomWithLocation(roomId);
   const dateObj = new Date(date + 'T12:00:00Z');
-  const totalPrice = PricingService.calculateTotalPrice(locationName, dateObj, startTime, endTime);
+  const totalPrice = await PricingService.calculateTotalPrice(
+    locationName,
+    dateObj,
+    startTime,
+    endTime,
+    { roomId }
+  );
   const durationHours = timeToHours(endTime) - timeToHours(startTime);
   if (durationHours <= 0) throw new BookingValidationError('Invalid booking span');
 
@@ -578,9 +906,7 @@ export async function createBooking(
       : Math.round((totalPriceCents * (durationHours - voucherHoursToUse)) / durationHours);
   const creditAmountNeeded = creditAmountCents / 100;
 
-  const { totalAvailable } = await CreditTransactionService.getCreditBalanceTotals(userId, {
-    forBookingMonth: date,
-  });
+  const { totalAvailable } = await CreditTransactionService.getCreditBalanceTotals(userId);
   
   // Total available resources: existing credits + payment already made (if any)
   const totalAvailableResources = totalAvailable + (paymentAmountMade ?? 0);
@@ -627,22 +953,26 @@ export async function createBooking(
       // Get Stripe customer ID for payment (if available)
       const customerId = membership.stripeCustomerId ?? undefined;
       
-      const { paymentIntentId, clientSecret } = await StripePaymentService.createPaymentIntent({
-        amount: amountToPayPence,
-        currency: 'gbp',
-        customerId,
-        metadata: {
-          type: 'pay_the_difference',
-          userId,
-          roomId,
-          date,
-          startTime,
-          endTime,
-          bookingType,
-          expectedAmountPence: String(amountToPayPence),
-        },
-        description: 'Pay the difference for room booking',
-      });
+      const { paymentIntentId, clientSecret } = await createPaymentIntentWithHolds(
+        userId,
+        [{ roomId, date, startTime: startTimeDb, endTime: endTimeDb }],
+        {
+          amount: amountToPayPence,
+          currency: 'gbp',
+          customerId,
+          metadata: {
+            type: 'pay_the_difference',
+            userId,
+            roomId,
+            date,
+            startTime,
+            endTime,
+            bookingType,
+            expectedAmountPence: String(amountToPayPence),
+          },
+          description: 'Pay the difference for room booking',
+        }
+      );
       return {
         paymentRequired: true,
         clientSecret,
@@ -702,37 +1032,41 @@ export async function createBooking(
         status: 'confirmed',
         bookingType,
       })
-      .returning({ id: bookings.id });
+      .returning();
     if (!created) throw new BookingValidationError('Failed to create booking');
+    await BookingEventService.recordBookingEvent(tx, {
+      bookingId: created.id,
+      actorUserId,
+      eventType: 'created',
+      before: null,
+      after: BookingEventService.snapshotBooking(created),
+      creditDelta: creditToUse,
+    });
+
+    if (paymentIntentId && paymentAmountMade != null && paymentAmountMade > 0) {
+      await BookingPaymentService.recordPayment(created.id, paymentIntentId, paymentAmountMade, {
+        client: tx,
+      });
+    }
+    if (paymentIntentId) {
+      await SlotHoldService.releaseHoldsForPaymentIntent(paymentIntentId, tx);
+    }
 
     if (voucherHoursToUse > 0) {
-      let remainingToDeduct = voucherHoursToUse;
-      for (const v of voucherRows) {
-        if (remainingToDeduct <= 0) break;
-        const used = parseFloat(v.hoursUsed.toString());
-        const allocated = parseFloat(v.hoursAllocated.toString());
-        const remaining = allocated - used;
-        const deduct = Math.min(remaining, remainingToDeduct);
-        await tx
-          .update(freeBookingVouchers)
-          .set({
-            hoursUsed: (used + deduct).toFixed(2),
-            updatedAt: new Date(),
-          })
-          .where(eq(freeBookingVouchers.id, v.id));
-        remainingToDeduct -= deduct;
-      }
+      await VoucherService.useHoursWithinTransaction(tx, created.id, voucherRows, voucherHoursToUse);
     }
 
     // Only use credits for the amount not covered by payment
     if (creditToUse > 0) {
       await CreditTransactionService.useCreditsWithinTransaction(tx, userId, creditToUse, {
         bookingDate: date,
+        bookingId: created.id,
       });
     }
 
-    return { id: created.id, creditUsed: creditToUse };
-  });
+    return { id: created.id, updatedAt: created.updatedAt, creditUsed: creditToUse };
+  }).catch(rethrowBookingOverlap);
+  CalendarEventsService.publishBookingChange('created', result.id, [{ roomId, date }]);
 
   // Send confirmation email (fire-and-forget; do not fail the request if email fails)
   const [userRow] = await db
@@ -753,6 +1087,7 @@ export async function createBooking(
         endTime: endTimeDb,
         totalPrice: totalPrice.toFixed(2),
         creditUsed,
+        calendar: { bookingId: result.id, updatedAt: result.updatedAt },
       })
       .catch((err) =>
         logger.error('Failed to send booking confirmation email', err, {
@@ -765,21 +1100,543 @@ export async function createBooking(
   return { id: result.id };
 }
 
+/** Maximum number of bookings accepted in one batch request. */
+export const MAX_BATCH_BOOKINGS = 20;
+
+export interface BatchBookingItem {
+  roomId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export type CreateBookingBatchResult = { ids: string[] } | CreateBookingPaymentRequired;
+
+type CreateBookingPaymentRequired = Extract<CreateBookingResult, { paymentRequired: true }>;
+
+interface PricedBatchItem extends BatchBookingItem {
+  label: string;
+  room: typeof rooms.$inferSelect;
+  locationName: string;
+  totalPrice: number;
+  durationHours: number;
+  startTimeDb: string;
+  endTimeDb: string;
+}
+
+/** Stripe metadata values are limited to 500 characters, so encoded items are split over keys. */
+const METADATA_VALUE_MAX_LENGTH = 500;
+
+/**
+ * Encode batch items for PaymentIntent metadata as "roomId|date|start|end" joined by ";",
+ * split over items0, items1, … keys.
+ */
+export function encodeBatchItemsMetadata(items: BatchBookingItem[]): Record<string, string> {
+  const encoded = items
+    .map((i) => [i.roomId, i.date, i.startTime.trim(), i.endTime.trim()].join('|'))
+    .join(';');
+  const metadata: Record<string, string> = {};
+  for (let i = 0; i * METADATA_VALUE_MAX_LENGTH < encoded.length; i++) {
+    metadata[`items${i}`] = encoded.slice(
+      i * METADATA_VALUE_MAX_LENGTH,
+      (i + 1) * METADATA_VALUE_MAX_LENGTH
+    );
+  }
+  return metadata;
+}
+
+/** Decode batch items written by encodeBatchItemsMetadata. Returns [] if none are present. */
+export function decodeBatchItemsMetadata(metadata: Record<string, string>): BatchBookingItem[] {
+  let encoded = '';
+  for (let i = 0; metadata[`items${i}`] != null; i++) encoded += metadata[`items${i}`];
+  if (!encoded) return [];
+  return encoded.split(';').map((part) => {
+    const [roomId, date, startTime, endTime] = part.split('|');
+    return { roomId, date, startTime, endTime };
+  });
+}
+
+function batchItemLabel(index: number, item: BatchBookingItem): string {
+  return `Booking ${index + 1} (${item.date} ${item.startTime.trim().slice(0, 5)}–${item.endTime
+    .trim()
+    .slice(0, 5)})`;
+}
+
+/**
+ * Split voucher hours and credit across the batch in order: vouchers cover whole hours from the
+ * first booking onwards, credit covers the rest of each booking's price.
+ */
+function planBatchFunding(
+  items: PricedBatchItem[],
+  remainingVoucherHours: number
+): Array<{ voucherHours: number; creditCents: number }> {
+  let voucherPool = remainingVoucherHours;
+  return items.map((item) => {
+    const voucherHours = Math.min(voucherPool, item.durationHours);
+    voucherPool -= voucherHours;
+    const totalPriceCents = Math.round(item.totalPrice * 100);
+    const creditCents =
+      voucherHours >= item.durationHours
+        ? 0
+        : Math.round((totalPriceCents * (item.durationHours - voucherHours)) / item.durationHours);
+    return { voucherHours, creditCents };
+  });
+}
+
+/**
+ * Create several bookings at once, all or none. Every item is validated and priced, vouchers and
+ * credits are applied across the whole set, and any shortfall is requested as one
+ * pay-the-difference PaymentIntent for the combined amount. The webhook calls back with
+ * `payment` once it succeeds; the payment is then recorded against the bookings it covers.
+ * @throws {BookingValidationError} Naming the first invalid item, or an overlap within the batch.
+ */
+export async function createBookingBatch(
+  userId: string,
+  items: BatchBookingItem[],
+  bookingType: 'permanent_recurring' | 'ad_hoc' = 'ad_hoc',
+  payment?: { amount: number; paymentIntentId: string }
+): Promise<CreateBookingBatchResult> {
+  if (items.length === 0) throw new BookingValidationError('At least one booking is required');
+  if (items.length > MAX_BATCH_BOOKINGS) {
+    throw new BookingValidationError(
+      `At most ${MAX_BATCH_BOOKINGS} bookings can be made at once`
+    );
+  }
+
+  const priced: PricedBatchItem[] = [];
+  for (const [index, item] of items.entries()) {
+    const label = batchItemLabel(index, item);
+    const validation = await validateBookingRequest(
+      userId,
+      item.roomId,
+      item.date,
+      item.startTime,
+      item.endTime
+    );
+    if (!validation.valid) throw new BookingValidationError(`${label}: ${validation.error}`);
+
+    const { room, locationName } = await getRoomWithLocation(item.roomId);
+    const totalPrice = await PricingService.calculateTotalPrice(
+      locationName,
+      new Date(item.date + 'T12:00:00Z'),
+      item.startTime,
+      item.endTime,
+      { roomId: item.roomId }
+    );
+    const durationHours = timeToHours(item.endTime) - timeToHours(item.startTime);
+    if (durationHours <= 0) throw new BookingValidationError(`${label}: Invalid booking span`);
+    let startTimeDb: string;
+    let endTimeDb: string;
+    try {
+      startTimeDb = toTimeString(item.startTime);
+      endTimeDb = toTimeString(item.endTime);
+    } catch {
+      throw new BookingValidationError(`${label}: Invalid time string`);
+    }
+
+    // Any two items on the same day overlapping is a clash: the practitioner cannot be in two
+    // rooms at once.
+    const clash = priced.find(
+      (p) =>
+        p.date === item.date &&
+        timeRangesOverlap(item.startTime, item.endTime, [
+          { startTime: p.startTimeDb, endTime: p.endTimeDb },
+        ])
+    );
+    if (clash) {
+      throw new BookingValidationError(`${label}: Overlaps ${clash.label}`);
+    }
+
+    priced.push({
+      ...item,
+      label,
+      room,
+      locationName,
+      totalPrice,
+      durationHours,
+      startTimeDb,
+      endTimeDb,
+    });
+  }
+  priced.sort((a, b) => a.date.localeCompare(b.date) || a.startTimeDb.localeCompare(b.startTimeDb));
+
+  const todayStr = todayUtcString();
+  const loadVouchers = (client: typeof db | CreditTransactionClient) =>
+    client
+      .select()
+      .from(freeBookingVouchers)
+      .where(
+        and(eq(freeBookingVouchers.userId, userId), gte(freeBookingVouchers.expiryDate, todayStr))
+      )
+      .orderBy(asc(freeBookingVouchers.expiryDate));
+  const remainingHours = (rows: Array<typeof freeBookingVouchers.$inferSelect>) =>
+    rows.reduce(
+      (sum, v) =>
+        sum +
+        Math.max(0, parseFloat(v.hoursAllocated.toString()) - parseFloat(v.hoursUsed.toString())),
+      0
+    );
+
+  const [membership] = await db
+    .select()
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+  if (!membership) throw new BookingValidationError('No membership');
+
+  const plan = planBatchFunding(priced, remainingHours(await loadVouchers(db)));
+  const creditAmountNeeded = plan.reduce((sum, p) => sum + p.creditCents, 0) / 100;
+  // Credits are not tied to a booking month (see useCreditsWithinTransaction): bookings in every
+  // month of the batch draw on the one balance, in the order they are committed below
+  const { totalAvailable } = await CreditTransactionService.getCreditBalanceTotals(userId);
+
+  if (totalAvailable + (payment?.amount ?? 0) < creditAmountNeeded) {
+    if (payment) {
+      logger.error('Insufficient resources after payment in batch webhook flow', {
+        userId,
+        creditAmountNeeded,
+        totalAvailable,
+        paymentAmountMade: payment.amount,
+      });
+      throw new Error(
+        `Insufficient resources after payment. Need £${creditAmountNeeded.toFixed(
+          2
+        )} but have £${totalAvailable.toFixed(2)} credits and £${payment.amount.toFixed(2)} payment.`
+      );
+    }
+
+    const amountToPayPence = Math.round((creditAmountNeeded - totalAvailable) * 100);
+    if (amountToPayPence > 0) {
+      if (!isStripeConfigured()) {
+        throw new BookingValidationError(
+          `Insufficient credits. You need £${creditAmountNeeded.toFixed(
+            2
+          )} but have £${totalAvailable.toFixed(2)}. Payment is not configured.`
+        );
+      }
+      if (membership.type === 'ad_hoc' && !hasActiveSubscription(membership)) {
+        throw new BookingValidationError(
+          'You must have an active subscription to pay the difference. Please purchase a subscription first.'
+        );
+      }
+      const { paymentIntentId, clientSecret } = await createPaymentIntentWithHolds(
+        userId,
+        priced.map((p) => ({
+          roomId: p.roomId,
+          date: p.date,
+          startTime: p.startTimeDb,
+          endTime: p.endTimeDb,
+        })),
+        {
+          amount: amountToPayPence,
+          currency: 'gbp',
+          customerId: membership.stripeCustomerId ?? undefined,
+          metadata: {
+            type: 'pay_the_difference_batch',
+            userId,
+            bookingType,
+            expectedAmountPence: String(amountToPayPence),
+            ...encodeBatchItemsMetadata(priced),
+          },
+          description: `Pay the difference for ${priced.length} room bookings`,
+        }
+      );
+      return {
+        paymentRequired: true,
+        clientSecret,
+        paymentIntentId,
+        amountPence: amountToPayPence,
+      };
+    }
+  }
+
+  const created = await db.transaction(async (tx) => {
+    const [membership] = await tx
+      .select()
+      .from(memberships)
+      .where(eq(memberships.userId, userId))
+      .limit(1);
+    if (!membership) throw new BookingValidationError('No membership');
+
+    const plan = planBatchFunding(priced, remainingHours(await loadVouchers(tx)));
+    let paymentPoolCents = payment ? Math.round(payment.amount * 100) : 0;
+
+    const results: Array<{ id: string; updatedAt: Date; creditUsed: number }> = [];
+    for (const [index, item] of priced.entries()) {
+      const available = await checkAvailabilityExcludingTx(
+        tx,
+        item.roomId,
+        item.date,
+        item.startTimeDb,
+        item.endTimeDb,
+        undefined,
+        userId
+      );
+      if (!available) {
+        throw new BookingValidationError(`${item.label}: ${SLOT_UNAVAILABLE_ERROR}`);
+      }
+
+      const { voucherHours, creditCents } = plan[index];
+      // The payment covers each booking's credit need in turn; any excess goes on the last booking
+      let paidCents = Math.min(paymentPoolCents, creditCents);
+      paymentPoolCents -= paidCents;
+      if (index === priced.length - 1) {
+        paidCents += paymentPoolCents;
+        paymentPoolCents = 0;
+      }
+      const creditToUse = Math.max(0, creditCents - paidCents) / 100;
+
+      const [booking] = await tx
+        .insert(bookings)
+        .values({
+          userId,
+          roomId: item.roomId,
+          membershipId: membership.id,
+          bookingDate: item.date,
+          startTime: item.startTimeDb,
+          endTime: item.endTimeDb,
+          pricePerHour: (item.totalPrice / item.durationHours).toFixed(2),
+          totalPrice: item.totalPrice.toFixed(2),
+          creditUsed: creditToUse.toFixed(2),
+          voucherHoursUsed: voucherHours.toFixed(2),
+          status: 'confirmed',
+          bookingType,
+        })
+        .returning();
+      if (!booking) throw new BookingValidationError('Failed to create booking');
+      await BookingEventService.recordBookingEvent(tx, {
+        bookingId: booking.id,
+        actorUserId: userId,
+        eventType: 'created',
+        before: null,
+        after: BookingEventService.snapshotBooking(booking),
+        creditDelta: creditToUse,
+      });
+
+      if (payment && paidCents > 0) {
+        await BookingPaymentService.recordPayment(
+          booking.id,
+          payment.paymentIntentId,
+          paidCents / 100,
+          { client: tx }
+        );
+      }
+      if (voucherHours > 0) {
+        // Reload so each booking draws on the hours left after the previous one
+        await VoucherService.useHoursWithinTransaction(
+          tx,
+          booking.id,
+          await loadVouchers(tx),
+          voucherHours
+        );
+      }
+      if (creditToUse > 0) {
+        await CreditTransactionService.useCreditsWithinTransaction(tx, userId, creditToUse, {
+          bookingDate: item.date,
+          bookingId: booking.id,
+        });
+      }
+      results.push({ id: booking.id, updatedAt: booking.updatedAt, creditUsed: creditToUse });
+    }
+    if (payment) await SlotHoldService.releaseHoldsForPaymentIntent(payment.paymentIntentId, tx);
+    return results;
+  }).catch(rethrowBookingOverlap);
+  for (const [index, item] of priced.entries()) {
+    CalendarEventsService.publishBookingChange('created', created[index].id, [
+      { roomId: item.roomId, date: item.date },
+    ]);
+  }
+
+  // Send confirmation emails (fire-and-forget; do not fail the request if email fails)
+  const [userRow] = await db
+    .select({ email: users.email, firstName: users.firstName })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (userRow) {
+    for (const [index, item] of priced.entries()) {
+      const { id, updatedAt, creditUsed } = created[index];
+      emailService
+        .sendBookingConfirmation({
+          firstName: userRow.firstName,
+          email: userRow.email,
+          roomName: item.room.name,
+          locationName: item.locationName,
+          bookingDate: item.date,
+          startTime: item.startTimeDb,
+          endTime: item.endTimeDb,
+          totalPrice: item.totalPrice.toFixed(2),
+          creditUsed: creditUsed > 0 ? creditUsed.toFixed(2) : undefined,
+          calendar: { bookingId: id, updatedAt },
+        })
+        .catch((err) =>
+          logger.error('Failed to send booking confirmation email', err, {
+            userId,
+            bookingId: id,
+          })
+        );
+    }
+  }
+
+  return { ids: created.map((c) => c.id) };
+}
+
+/** Start of a booking as an instant (booking date/time are Europe/London wall-clock). */
+function bookingStartInstant(booking: { bookingDate: string; startTime: string | Date }): Date {
+  const startTimeStr = formatTimeHHMM(booking.startTime);
+  return fromZonedTime(`${String(booking.bookingDate)}T${startTimeStr}:00`, 'Europe/London');
+}
+
+/**
+ * What a booking cost beyond voucher hours, i.e. the most a cancellation can give back: credit
+ * used plus card payments that were not turned into credit (pay the difference on creation).
+ */
+async function refundableAmount(
+  booking: { id: string; creditUsed: string | null; totalPrice: string },
+  client: typeof db | CreditTransactionClient
+): Promise<number> {
+  const credit =
+    booking.creditUsed === null
+      ? parseFloat(booking.totalPrice.toString())
+      : parseFloat(String(booking.creditUsed ?? 0));
+  const paidByCard = await BookingPaymentService.getDirectPaymentTotal(booking.id, client);
+  return Math.round((credit + paidByCard) * 100) / 100;
+}
+
+export type RefundMethod = 'credit' | 'card';
+
+export interface BookingCancellationQuote extends CancellationPolicyService.CancellationQuote {
+  /** Part of the refund that can go back to the card the booking was paid with. */
+  cardRefundableAmount: number;
+}
+
+/**
+ * What cancelling a booking now would refund under the cancellation policy.
+ * @throws {BookingNotFoundError} Booking not found for this user.
+ * @throws {BookingValidationError} Booking is cancelled, completed or has already started.
+ */
+export async function getCancellationQuote(
+  bookingId: string,
+  userId: string
+): Promise<BookingCancellationQuote> {
+  const [booking] = await db
+    .select()
+    .from(bookings)
+    .where(and(eq(bookings.id, bookingId), eq(bookings.userId, userId)))
+    .limit(1);
+  if (!booking) throw new BookingNotFoundError('Booking not found');
+  assertCancellable(booking, new Date());
+  const quote = await CancellationPolicyService.quoteCancellation(
+    bookingStartInstant(booking),
+    await refundableAmount(booking, db),
+    parseFloat(String(booking.voucherHoursUsed ?? 0))
+  );
+  const cardRefundable = await BookingPaymentService.getCardRefundableAmount(bookingId);
+  return { ...quote, cardRefundableAmount: Math.min(cardRefundable, quote.refundAmount) };
+}
+
+function assertCancellable(booking: typeof bookings.$inferSelect, now: Date): void {
+  if (booking.status === 'cancelled')
+    throw new BookingValidationError('Booking is already cancelled');
+  if (booking.status === 'completed')
+    throw new BookingValidationError('Completed bookings cannot be cancelled');
+  if (bookingStartInstant(booking).getTime() <= now.getTime()) {
+    throw new BookingValidationError('Bookings that have already started cannot be cancelled');
+  }
+}
+
 /**
- * Cancel a booking and refund credits (full amount as manual credit for PR3; voucher hours not refunded).
- * Booking update and credit grant run in a single transaction so both succeed or both roll back.
+ * Give credit back for a booking (cancellation or a cheaper update). The amount is restored to the
+ * credit transactions the booking was paid from, keeping their original expiry dates; whatever is
+ * not covered by recorded allocations (bookings made before they were tracked) is granted as a
+ * manual credit expiring at the end of the booking month.
  */
-export async function cancelBooking(bookingId: string, userId: string): Promise<void> {
-  let emailData: {
-    firstName: string;
-    email: string;
-    roomName: string;
-    locationName: string;
-    bookingDate: string;
-    startTime: string;
-    endTime: string;
-    refundAmount: string;
-  } | null = null;
+async function refundBookingCredit(
+  tx: CreditTransactionClient,
+  bookingId: string,
+  userId: string,
+  amount: number,
+  bookingDate: string,
+  description: string
+): Promise<void> {
+  const restored = await CreditTransactionService.restoreBookingCreditsWithinTransaction(
+    tx,
+    bookingId,
+    amount
+  );
+  const unallocated = Math.round((amount - restored) * 100) / 100;
+  if (unallocated <= 0) return;
+
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(bookingDate)) {
+    throw new BookingValidationError(
+      `Invalid booking date format for refund: ${bookingDate}. Expected YYYY-MM or YYYY-MM-DD.`
+    );
+  }
+  const parts = bookingDate.split('-').map(Number);
+  const y = parts[0];
+  const m = parts[1];
+  if (m < 1 || m > 12) {
+    throw new BookingValidationError(
+      `Invalid month in booking date: ${bookingDate}. Month must be 1-12.`
+    );
+  }
+  const lastDay = new Date(Date.UTC(y, m, 0));
+  const expiryDate = lastDay.toISOString().split('T')[0];
+  logger.info('Manual end-of-month grant created for booking refund', {
+    bookingId,
+    bookingDate,
+    refundAmount: unallocated,
+    expiryDate,
+    grantType: 'manual',
+  });
+  await CreditTransactionService.grantCreditsWithinTransaction(
+    tx,
+    userId,
+    unallocated,
+    expiryDate,
+    'manual',
+    undefined,
+    description
+  );
+}
+
+/**
+ * Give voucher hours back for a booking: to the vouchers it drew from where recorded, otherwise
+ * to any of the user's used vouchers (soonest expiry first).
+ */
+async function refundBookingVoucherHours(
+  tx: CreditTransactionClient,
+  bookingId: string,
+  userId: string,
+  hours: number
+): Promise<void> {
+  const restored = await VoucherService.restoreBookingHoursWithinTransaction(tx, bookingId, hours);
+  const unallocated = Math.round((hours - restored) * 100) / 100;
+  if (unallocated > 0) {
+    await VoucherService.releaseHoursWithinTransaction(tx, userId, unallocated);
+  }
+}
+
+/**
+ * Cancel a booking and refund credits and voucher hours according to the cancellation policy (see
+ * cancellation-policy.service); admins may waive the fee for a full refund. Refunds go back to the
+ * credit transactions and vouchers the booking drew from (see refundBookingCredit). With
+ * refundMethod 'card', the part of the refund the booking paid by card is refunded through Stripe
+ * instead (see booking-payment.service); a card refund Stripe rejects is given back as credit.
+ * Booking update and credit refund run in a single transaction so both succeed or both roll back.
+ * The freed slot is then offered to the waitlist. options.actorUserId is who cancelled (an admin
+ * cancelling for the owner), for the audit trail; it defaults to userId.
+ * @throws {BookingValidationError} Card refund requested for a booking not paid by card.
+ */
+export async function cancelBooking(
+  bookingId: string,
+  userId: string,
+  options: { waiveFee?: boolean; refundMethod?: RefundMethod; actorUserId?: string } = {}
+): Promise<void> {
+  let emailData: BookingCancellationEmailData | null = null;
+  let freedSlot: { roomId: string; bookingDate: string } | null = null;
+  let cardRefund = 0;
+  let bookingDateForRefund = '';
 
   await db.transaction(async (tx) => {
     const [row] = await tx
@@ -795,76 +1652,77 @@ export async function cancelBooking(bookingId: string, userId: string): Promise<
       .innerJoin(rooms, eq(bookings.roomId, rooms.id))
       .innerJoin(locations, eq(rooms.locationId, locations.id))
       .where(and(eq(bookings.id, bookingId), eq(bookings.userId, userId)))
-      .limit(1);
+      .limit(1)
+      .for('update', { of: bookings });
 
     if (!row) throw new BookingNotFoundError('Booking not found');
     const booking = row.booking;
-    if (booking.status === 'cancelled')
-      throw new BookingValidationError('Booking is already cancelled');
-
-    const bookingDateStr = String(booking.bookingDate);
-    const startTimeStr = formatTimeHHMM(booking.startTime as string | Date);
-    const [y, mo, d] = bookingDateStr.split('-').map(Number);
-    const [hh, mm] = startTimeStr.split(':').map(Number);
-    const bookingStartLocal = new Date(y, mo - 1, d, hh, mm, 0);
-    const bookingStartUtc = fromZonedTime(bookingStartLocal, 'Europe/London');
     const now = new Date();
-    const minCancelBy = bookingStartUtc.getTime() - 24 * 60 * 60 * 1000;
-    if (now.getTime() > minCancelBy) {
-      throw new BookingValidationError(
-        'Cancellation with less than 24 hours notice is not permitted'
+    assertCancellable(booking, now);
+
+    const waiveFee = options.waiveFee === true;
+    const { refundAmount, refundPercent, voucherHoursRefund } =
+      await CancellationPolicyService.quoteCancellation(
+        bookingStartInstant(booking),
+        await refundableAmount(booking, tx),
+        parseFloat(String(booking.voucherHoursUsed ?? 0)),
+        { now, waiveFee, client: tx }
+      );
+    if (options.refundMethod === 'card') {
+      const cardRefundable = await BookingPaymentService.getCardRefundableAmount(bookingId, tx);
+      if (cardRefundable <= 0) {
+        throw new BookingValidationError('This booking was not paid by card');
+      }
+      cardRefund = await BookingPaymentService.reserveCardRefundWithinTransaction(
+        tx,
+        bookingId,
+        refundAmount
       );
     }
-
-    const refundAmount =
-      booking.creditUsed === null
-        ? parseFloat(booking.totalPrice.toString())
-        : parseFloat(String(booking.creditUsed ?? 0));
+    const creditRefund = Math.round((refundAmount - cardRefund) * 100) / 100;
     await tx
       .update(bookings)
       .set({
         status: 'cancelled',
-        cancelledAt: new Date(),
+        cancelledAt: now,
         cancellationReason: 'Cancelled by user',
-        updatedAt: new Date(),
+        refundAmount: refundAmount.toFixed(2),
+        cancellationFeeWaived: waiveFee,
+        updatedAt: now,
       })
       .where(eq(bookings.id, bookingId));
 
-    if (refundAmount > 0) {
-      const bookingDate = String(booking.bookingDate);
-      if (!/^\d{4}-\d{2}(-\d{2})?$/.test(bookingDate)) {
-        throw new BookingValidationError(
-          `Invalid booking date format for refund: ${bookingDate}. Expected YYYY-MM or YYYY-MM-DD.`
-        );
-      }
-      const parts = bookingDate.split('-').map(Number);
-      const y = parts[0];
-      const m = parts[1];
-      if (m < 1 || m > 12) {
-        throw new BookingValidationError(
-          `Invalid month in booking date: ${bookingDate}. Month must be 1-12.`
-        );
-      }
-      const lastDay = new Date(Date.UTC(y, m, 0));
-      const expiryDate = lastDay.toISOString().split('T')[0];
-      // TODO(PR3): Temporary behavior. Replace with logic to refund/restore original debit transactions (or preserve original expiries) in a future change.
-      logger.info('Manual end-of-month grant created for booking cancellation', {
-        bookingId,
-        bookingDate: booking.bookingDate,
-        refundAmount,
-        expiryDate,
-        grantType: 'manual',
-      });
-      await CreditTransactionService.grantCreditsWithinTransaction(
+    if (creditRefund > 0) {
+      await refundBookingCredit(
         tx,
+        bookingId,
         userId,
-        refundAmount,
-        expiryDate,
-        'manual',
-        undefined,
+        creditRefund,
+        String(booking.bookingDate),
         'Refund for booking cancellation'
       );
     }
+    if (voucherHoursRefund > 0) {
+      await refundBookingVoucherHours(tx, bookingId, userId, voucherHoursRefund);
+    }
+    const before = BookingEventService.snapshotBooking(booking);
+    await BookingEventService.recordBookingEvent(tx, {
+      bookingId,
+      actorUserId: options.actorUserId ?? userId,
+      eventType: 'cancelled',
+      before,
+      after: { ...before, status: 'cancelled' },
+      creditDelta: -creditRefund,
+    });
+    logger.info('Booking cancelled', {
+      bookingId,
+      userId,
+      refundAmount,
+      cardRefund,
+      voucherHoursRefund,
+      refundPercent,
+      waiveFee,
+    });
 
     emailData = {
       firstName: row.userFirstName,
@@ -874,10 +1732,46 @@ export async function cancelBooking(bookingId: string, userId: string): Promise<
       bookingDate: String(booking.bookingDate),
       startTime: formatTimeForEmail(booking.startTime as string | Date),
       endTime: formatTimeForEmail(booking.endTime as string | Date),
-      refundAmount: refundAmount.toFixed(2),
+      refundAmount: creditRefund.toFixed(2),
+      ...(cardRefund > 0 && { cardRefundAmount: cardRefund.toFixed(2) }),
+      calendar: { bookingId, updatedAt: now },
     };
+    freedSlot = { roomId: booking.roomId, bookingDate: String(booking.bookingDate) };
+    bookingDateForRefund = String(booking.bookingDate);
   });
 
+  if (cardRefund > 0) {
+    const { failed } = await BookingPaymentService.issuePendingRefunds(bookingId);
+    if (failed > 0) {
+      // The booking is already cancelled; make good a rejected card refund as credit
+      await db.transaction((tx) =>
+        refundBookingCredit(
+          tx,
+          bookingId,
+          userId,
+          failed,
+          bookingDateForRefund,
+          'Refund for booking cancellation (card refund failed)'
+        )
+      );
+      logger.warn('Card refund failed; refunded as credit instead', {
+        bookingId,
+        userId,
+        amount: failed,
+      });
+      // emailData is assigned inside the transaction callback, which TS does not track
+      const data = emailData as BookingCancellationEmailData | null;
+      if (data) {
+        const cardTotal = cardRefund - failed;
+        emailData = {
+          ...data,
+          refundAmount: (parseFloat(data.refundAmount) + failed).toFixed(2),
+          cardRefundAmount: cardTotal > 0 ? cardTotal.toFixed(2) : undefined,
+        };
+      }
+    }
+  }
+
   if (emailData) {
     emailService.sendBookingCancellation(emailData).catch((err) =>
       logger.error('Failed to send booking cancellation email', err, {
@@ -886,6 +1780,16 @@ export async function cancelBooking(bookingId: string, userId: string): Promise<
       })
     );
   }
+
+  if (freedSlot) {
+    const { roomId, bookingDate } = freedSlot;
+    CalendarEventsService.publishBookingChange('cancelled', bookingId, [
+      { roomId, date: bookingDate },
+    ]);
+    WaitlistService.offerFreedSlot(roomId, bookingDate).catch((err) =>
+      logger.error('Failed to offer freed slot to waitlist', err, { bookingId, roomId, bookingDate })
+    );
+  }
 }
 
 /**
@@ -931,6 +1835,38 @@ class BookingUpdatePaymentComputationError extends Error {
   }
 }
 
+/**
+ * Email the booking's owner its new details, with an .ics update for their calendar app.
+ */
+async function sendBookingUpdateEmail(bookingId: string): Promise<void> {
+  const [row] = await db
+    .select({
+      booking: bookings,
+      roomName: rooms.name,
+      locationName: locations.name,
+      email: users.email,
+      firstName: users.firstName,
+    })
+    .from(bookings)
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .innerJoin(users, eq(bookings.userId, users.id))
+    .where(eq(bookings.id, bookingId))
+    .limit(1);
+  if (!row) return;
+  await emailService.sendBookingUpdate({
+    firstName: row.firstName,
+    email: row.email,
+    roomName: row.roomName,
+    locationName: row.locationName,
+    bookingDate: String(row.booking.bookingDate),
+    startTime: formatTimeForEmail(row.booking.startTime),
+    endTime: formatTimeForEmail(row.booking.endTime),
+    totalPrice: parseFloat(String(row.booking.totalPrice)).toFixed(2),
+    calendar: { bookingId, updatedAt: row.booking.updatedAt },
+  });
+}
+
 /**
  * Update booking date/time/room. Caller must be owner or admin. 24h before start required.
  * Recalculates price from new room/date/times. Runs in a single DB transaction: re-fetches and
@@ -945,6 +1881,10 @@ export async function updateBooking(
   isAdmin: boolean,
   updates: UpdateBookingParams
 ): Promise<void | UpdateBookingPaymentRequired> {
+  // Old and new slot of the booking, for live calendar updates once the change is committed
+  let changedSlots: CalendarEventsService.ChangedSlot[] = [];
+  // Slot the booking moved away from, offered to the waitlist once the change is committed
+  let freedSlot: { roomId: string; bookingDate: string } | null = null;
   try {
     // First, run a transaction that performs all validation and computes any required
     // payment amount while holding the necessary row locks. The transaction is rolled
@@ -1019,14 +1959,33 @@ export async function updateBooking(
       if (newDate > maxDateStr) {
         throw new BookingValidationError('Bookings can only be up to 1 month in advance');
       }
+      if (newDate !== bookingDateStr) {
+        const [pause] = await tx
+          .select({ pausedFrom: memberships.pausedFrom, pausedUntil: memberships.pausedUntil })
+          .from(memberships)
+          .where(eq(memberships.userId, userId))
+          .limit(1);
+        if (pause && SubscriptionService.isPausedOn(pause, newDate)) {
+          throw new BookingValidationError(SubscriptionService.PAUSED_REASON);
+        }
+      }
       const roomWithLoc = await getRoomWithLocationTx(tx, newRoomId);
       locationName = roomWithLoc.locationName;
+      const hoursError = await OpeningHoursService.checkOpeningHours(
+        newRoomId,
+        newDate,
+        newStartTime,
+        newEndTime,
+        tx
+      );
+      if (hoursError) throw new BookingValidationError(hoursError);
       try {
-        PricingService.calculateTotalPrice(
+        await PricingService.calculateTotalPrice(
           locationName,
           new Date(newDate + 'T12:00:00Z'),
           newStartTime,
-          newEndTime
+          newEndTime,
+          { roomId: newRoomId, client: tx }
         );
       } catch (e) {
         throw new BookingValidationError(e instanceof Error ? e.message : 'Invalid time window');
@@ -1037,20 +1996,36 @@ export async function updateBooking(
         newDate,
         newStartTime,
         newEndTime,
-        bookingId
+        bookingId,
+        userId
       );
-      if (!available) throw new BookingValidationError('Time slot is not available');
+      if (!available) throw new BookingValidationError(SLOT_UNAVAILABLE_ERROR);
+      // Only internal bookings (admin-made) may overlap the practitioner's other bookings
+      if (booking.bookingType !== 'internal') {
+        const overlap = await findSelfOverlap(
+          userId,
+          newDate,
+          newStartTime,
+          newEndTime,
+          bookingId,
+          tx
+        );
+        if (overlap) throw new BookingValidationError(selfOverlapError(overlap));
+      }
     } else {
       locationName = row.locationName as LocationName;
     }
 
-    const dateObj = new Date(newDate + 'T12:00:00Z');
-    const totalPrice = PricingService.calculateTotalPrice(
-      locationName,
-      dateObj,
-      newStartTime,
-      newEndTime
-    );
+    // An unchanged slot keeps the price it was booked at, even if the rates have changed since
+    const totalPrice = changed
+      ? await PricingService.calculateTotalPrice(
+          locationName,
+          new Date(newDate + 'T12:00:00Z'),
+          newStartTime,
+          newEndTime,
+          { roomId: newRoomId, client: tx }
+        )
+      : parseFloat(String(booking.totalPrice));
 
     const startTimeDb = toTimeString(
       typeof newStartTime === 'string'
@@ -1106,18 +2081,15 @@ export async function updateBooking(
     if (creditDelta > 0) {
       await CreditTransactionService.useCreditsWithinTransaction(tx, userId, creditDelta, {
         bookingDate: newDate,
+        bookingId,
       });
     } else if (creditDelta < 0) {
-      const [by, bmo] = newDate.split('-').map(Number);
-      const lastDay = new Date(Date.UTC(by, bmo, 0));
-      const expiryDate = lastDay.toISOString().split('T')[0];
-      await CreditTransactionService.grantCreditsWithinTransaction(
+      await refundBookingCredit(
         tx,
+        bookingId,
         userId,
         Math.abs(creditDelta),
-        expiryDate,
-        'manual',
-        undefined,
+        newDate,
         'Refund for booking update'
       );
     }
@@ -1186,57 +2158,23 @@ export async function updateBooking(
           tx,
           userId,
           shortfallCredit,
-          { bookingDate: newDate }
+          { bookingDate: newDate, bookingId }
         );
         finalCreditUsed = newCreditNeeded + shortfallCredit;
         finalVoucherHoursUsed = oldVoucherHoursUsed + actualVoucherDeduct;
       }
 
-      let remainingToDeduct = actualVoucherDeduct;
-      for (const v of voucherRows) {
-        if (remainingToDeduct <= 0) break;
-        const used = parseFloat(v.hoursUsed.toString());
-        const allocated = parseFloat(v.hoursAllocated.toString());
-        const remaining = allocated - used;
-        const deduct = Math.min(remaining, remainingToDeduct);
-        await tx
-          .update(freeBookingVouchers)
-          .set({
-            hoursUsed: (used + deduct).toFixed(2),
-            updatedAt: new Date(),
-          })
-          .where(eq(freeBookingVouchers.id, v.id));
-        remainingToDeduct -= deduct;
-      }
+      await VoucherService.useHoursWithinTransaction(
+        tx,
+        bookingId,
+        voucherRows,
+        actualVoucherDeduct
+      );
     } else if (voucherHoursDelta < 0) {
-      const releaseHours = Math.abs(voucherHoursDelta);
-      const rowsWithUsed = await tx
-        .select()
-        .from(freeBookingVouchers)
-        .where(
-          and(
-            eq(freeBookingVouchers.userId, userId),
-            gt(freeBookingVouchers.hoursUsed, '0')
-          )
-        )
-        .orderBy(asc(freeBookingVouchers.expiryDate));
-      let remainingToRelease = releaseHours;
-      for (const v of rowsWithUsed) {
-        if (remainingToRelease <= 0) break;
-        const used = parseFloat(v.hoursUsed.toString());
-        const release = Math.min(used, remainingToRelease);
-        await tx
-          .update(freeBookingVouchers)
-          .set({
-            hoursUsed: (used - release).toFixed(2),
-            updatedAt: new Date(),
-          })
-          .where(eq(freeBookingVouchers.id, v.id));
-        remainingToRelease -= release;
-      }
+      await refundBookingVoucherHours(tx, bookingId, userId, Math.abs(voucherHoursDelta));
     }
 
-    await tx
+    const [updated] = await tx
       .update(bookings)
       .set({
         roomId: newRoomId,
@@ -1249,12 +2187,45 @@ export async function updateBooking(
         voucherHoursUsed: finalVoucherHoursUsed.toFixed(2),
         updatedAt: new Date(),
       })
-      .where(eq(bookings.id, bookingId));
+      .where(eq(bookings.id, bookingId))
+      .returning();
+
+    changedSlots = [
+      { roomId: booking.roomId, date: bookingDateStr },
+      { roomId: newRoomId, date: newDate },
+    ];
+    if (changed) freedSlot = { roomId: booking.roomId, bookingDate: bookingDateStr };
+
+    const before = BookingEventService.snapshotBooking(booking);
+    const after = BookingEventService.snapshotBooking(updated);
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      await BookingEventService.recordBookingEvent(tx, {
+        bookingId,
+        actorUserId: requesterUserId,
+        eventType: 'updated',
+        before,
+        after,
+        creditDelta: finalCreditUsed - oldCreditUsed,
+      });
+    }
 
       return;
     });
+    CalendarEventsService.publishBookingChange('updated', bookingId, changedSlots);
+    sendBookingUpdateEmail(bookingId).catch((err) =>
+      logger.error('Failed to send booking update email', err, { bookingId })
+    );
+    if (freedSlot) {
+      const { roomId, bookingDate } = freedSlot;
+      WaitlistService.offerFreedSlot(roomId, bookingDate).catch((err) =>
+        logger.error('Failed to offer freed slot to waitlist', err, { bookingId, roomId, bookingDate })
+      );
+    }
     return result;
   } catch (err) {
+    if (isExclusionViolation(err, BOOKING_OVERLAP_CONSTRAINT)) {
+      throw new BookingValidationError(SLOT_UNAVAILABLE_ERROR);
+    }
     if (err instanceof BookingUpdatePaymentComputationError) {
       const {
         userId,
@@ -1267,22 +2238,34 @@ export async function updateBooking(
         stripeCustomerId,
       } = err.payload;
 
-      const { paymentIntentId, clientSecret } = await StripePaymentService.createPaymentIntent({
-        amount: amountToPayPence,
-        currency: 'gbp',
-        customerId: stripeCustomerId ?? undefined,
-        metadata: {
-          type: 'pay_the_difference_update',
-          userId,
-          bookingId: bookingIdForMetadata,
-          roomId: newRoomId,
-          bookingDate: newDate,
-          startTime: newStartTime,
-          endTime: newEndTime,
-          expectedAmountPence: String(amountToPayPence),
+      const { paymentIntentId, clientSecret } = await createPaymentIntentWithHolds(
+        userId,
+        [
+          {
+            roomId: newRoomId,
+            date: newDate,
+            startTime: toTimeString(newStartTime),
+            endTime: toTimeString(newEndTime),
+          },
+        ],
+        {
+          amount: amountToPayPence,
+          currency: 'gbp',
+          customerId: stripeCustomerId ?? undefined,
+          metadata: {
+            type: 'pay_the_difference_update',
+            userId,
+            bookingId: bookingIdForMetadata,
+            roomId: newRoomId,
+            bookingDate: newDate,
+            startTime: newStartTime,
+            endTime: newEndTime,
+            expectedAmountPence: String(amountToPayPence),
+          },
+          description: 'Pay the difference for booking update',
         },
-        description: 'Pay the difference for booking update',
-      });
+        bookingIdForMetadata
+      );
 
       // Now that the transaction has been rolled back and the DB locks released,
       // throw the existing PaymentRequiredError so the API returns the same payload.
@@ -1332,6 +2315,7 @@ export async function getBookingById(
   totalPrice: number;
   status: string;
   bookingType: string;
+  noShow: boolean;
 } | null> {
   const rows = await db
     .select({
@@ -1358,6 +2342,7 @@ export async function getBookingById(
     totalPrice: parseFloat(b.totalPrice.toString()),
     status: b.status,
     bookingType: b.bookingType,
+    noShow: b.noShow,
   };
 }
 
@@ -1405,87 +2390,90 @@ export async function getUserBookings(
     totalPrice: parseFloat(b.totalPrice.toString()),
     status: b.status,
     bookingType: b.bookingType,
+    noShow: b.noShow,
   }));
 }
 
-const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-
-function formatTimeForDisplay(t: string | Date): string {
-  const str =
-    typeof t === 'string'
-      ? t.slice(0, 5)
-      : `${(t as Date).getUTCHours().toString().padStart(2, '0')}:${(t as Date)
-          .getUTCMinutes()
-          .toString()
-          .padStart(2, '0')}`;
-  const [hh, mm] = str.split(':').map(Number);
-  const h = hh % 12 || 12;
-  const m = mm;
-  const ampm = hh < 12 ? 'am' : 'pm';
-  return m === 0 ? `${h}${ampm}` : `${h}:${m.toString().padStart(2, '0')}${ampm}`;
-}
-
-export interface PermanentSlot {
-  dayOfWeek: string;
+export interface SelfOverlapBooking {
+  id: string;
   roomName: string;
   locationName: string;
   startTime: string;
   endTime: string;
+  bookingType: string;
+}
+
+export interface SelfOverlapReportItem {
+  userId: string;
+  practitionerName: string;
+  bookingDate: string;
+  first: SelfOverlapBooking;
+  second: SelfOverlapBooking;
 }
 
 /**
- * Get distinct permanent (recurring) slots for a user from their confirmed permanent_recurring bookings.
- * Uses a 12-week window from today to sample recurring occurrences.
+ * Pairs of confirmed bookings from today on where one practitioner holds two rooms at the same
+ * time (admin report; includes overlaps created before they were rejected, and internal ones).
  */
-export async function getPermanentSlotsForUser(userId: string): Promise<PermanentSlot[]> {
-  const today = todayUtcString();
-  const toDate = new Date(today + 'T12:00:00Z');
-  toDate.setUTCDate(toDate.getUTCDate() + 84);
-  const toDateStr = toDate.toISOString().split('T')[0];
-
+export async function getSelfOverlapReport(): Promise<SelfOverlapReportItem[]> {
+  const other = aliasedTable(bookings, 'other_booking');
+  const otherRoom = aliasedTable(rooms, 'other_room');
+  const otherLocation = aliasedTable(locations, 'other_location');
   const rows = await db
     .select({
-      bookingDate: bookings.bookingDate,
-      startTime: bookings.startTime,
-      endTime: bookings.endTime,
+      booking: bookings,
       roomName: rooms.name,
       locationName: locations.name,
+      other,
+      otherRoomName: otherRoom.name,
+      otherLocationName: otherLocation.name,
+      firstName: users.firstName,
+      lastName: users.lastName,
     })
     .from(bookings)
-    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
-    .innerJoin(locations, eq(rooms.locationId, locations.id))
-    .where(
+    .innerJoin(
+      other,
       and(
-        eq(bookings.userId, userId),
-        eq(bookings.status, 'confirmed'),
-        eq(bookings.bookingType, 'permanent_recurring'),
-        gte(bookings.bookingDate, today),
-        lte(bookings.bookingDate, toDateStr)
+        eq(other.userId, bookings.userId),
+        eq(other.bookingDate, bookings.bookingDate),
+        eq(other.status, 'confirmed'),
+        sql`${bookings.id} < ${other.id}`,
+        sql`${bookings.startTime} < ${other.endTime} AND ${bookings.endTime} > ${other.startTime}`
       )
-    );
+    )
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .innerJoin(otherRoom, eq(other.roomId, otherRoom.id))
+    .innerJoin(otherLocation, eq(otherRoom.locationId, otherLocation.id))
+    .innerJoin(users, eq(bookings.userId, users.id))
+    .where(and(eq(bookings.status, 'confirmed'), gte(bookings.bookingDate, todayUtcString())))
+    .orderBy(asc(bookings.bookingDate), asc(bookings.startTime));
 
-  const seen = new Set<string>();
-  const slots: PermanentSlot[] = [];
-  for (const r of rows) {
-    const dateStr = String(r.bookingDate);
-    const [y, m, d] = dateStr.split('-').map(Number);
-    const dayOfWeek = DAY_NAMES[new Date(y, m - 1, d).getDay()];
-    const startFormatted = formatTimeForDisplay(r.startTime as string | Date);
-    const endFormatted = formatTimeForDisplay(r.endTime as string | Date);
-    const key = `${dayOfWeek}|${r.roomName}|${r.locationName}|${startFormatted}|${endFormatted}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    slots.push({
-      dayOfWeek,
+  return rows.map((r) => {
+    const first: SelfOverlapBooking = {
+      id: r.booking.id,
       roomName: r.roomName,
       locationName: r.locationName,
-      startTime: startFormatted,
-      endTime: endFormatted,
-    });
-  }
-  return slots.sort((a, b) => {
-    const dayOrder = DAY_NAMES.indexOf(a.dayOfWeek) - DAY_NAMES.indexOf(b.dayOfWeek);
-    if (dayOrder !== 0) return dayOrder;
-    return a.roomName.localeCompare(b.roomName) || a.locationName.localeCompare(b.locationName);
+      startTime: formatTimeForEmail(r.booking.startTime),
+      endTime: formatTimeForEmail(r.booking.endTime),
+      bookingType: r.booking.bookingType,
+    };
+    const second: SelfOverlapBooking = {
+      id: r.other.id,
+      roomName: r.otherRoomName,
+      locationName: r.otherLocationName,
+      startTime: formatTimeForEmail(r.other.startTime),
+      endTime: formatTimeForEmail(r.other.endTime),
+      bookingType: r.other.bookingType,
+    };
+    const [earlier, later] =
+      first.startTime <= second.startTime ? [first, second] : [second, first];
+    return {
+      userId: r.booking.userId,
+      practitionerName: `${r.firstName} ${r.lastName}`,
+      bookingDate: String(r.booking.bookingDate),
+      first: earlier,
+      second: later,
+    };
   });
 }
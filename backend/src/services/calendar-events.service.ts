@@ -0,0 +1,102 @@
+/**
+ * Live calendar updates. Booking changes are broadcast in-process to open calendars, which are
+ * subscribed over server-sent events for a location and date range and refetch when a change
+ * touches what they show. No external broker: with several API instances, each only hears the
+ * changes it made itself.
+ */
+
+import { EventEmitter } from 'events';
+import { db } from '../config/database';
+import { rooms, locations } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { logger } from '../utils/logger.util';
+
+export type BookingChangeType = 'created' | 'updated' | 'cancelled';
+
+export interface BookingChangeEvent {
+  type: BookingChangeType;
+  bookingId: string;
+  roomId: string;
+  locationName: string;
+  date: string; // YYYY-MM-DD
+}
+
+/** What a calendar shows; omitted fields match everything. */
+export interface CalendarSubscription {
+  location?: string;
+  fromDate?: string;
+  toDate?: string;
+}
+
+/** A booking slot a change affected: the new slot, plus the old one when a booking moved. */
+export interface ChangedSlot {
+  roomId: string;
+  date: string;
+}
+
+const BOOKING_CHANGED = 'booking-changed';
+
+const emitter = new EventEmitter();
+// One listener per open calendar
+emitter.setMaxListeners(0);
+
+function matches(subscription: CalendarSubscription, event: BookingChangeEvent): boolean {
+  if (subscription.location && subscription.location !== event.locationName) return false;
+  if (subscription.fromDate && event.date < subscription.fromDate) return false;
+  if (subscription.toDate && event.date > subscription.toDate) return false;
+  return true;
+}
+
+/**
+ * Listen for booking changes a calendar shows.
+ * @returns Unsubscribe function; call it when the client disconnects.
+ */
+export function subscribe(
+  subscription: CalendarSubscription,
+  listener: (event: BookingChangeEvent) => void
+): () => void {
+  const handler = (event: BookingChangeEvent) => {
+    if (matches(subscription, event)) listener(event);
+  };
+  emitter.on(BOOKING_CHANGED, handler);
+  return () => {
+    emitter.off(BOOKING_CHANGED, handler);
+  };
+}
+
+async function publish(type: BookingChangeType, bookingId: string, slot: ChangedSlot) {
+  const [room] = await db
+    .select({ locationName: locations.name })
+    .from(rooms)
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(eq(rooms.id, slot.roomId))
+    .limit(1);
+  if (!room) return;
+  const event: BookingChangeEvent = {
+    type,
+    bookingId,
+    roomId: slot.roomId,
+    locationName: room.locationName,
+    date: slot.date,
+  };
+  emitter.emit(BOOKING_CHANGED, event);
+}
+
+/**
+ * Tell open calendars a booking changed. Call after the change is committed. Fire-and-forget:
+ * failures are logged, never thrown.
+ */
+export function publishBookingChange(
+  type: BookingChangeType,
+  bookingId: string,
+  slots: ChangedSlot[]
+): void {
+  const unique = slots.filter(
+    (slot, i) => slots.findIndex((s) => s.roomId === slot.roomId && s.date === slot.date) === i
+  );
+  for (const slot of unique) {
+    publish(type, bookingId, slot).catch((err) =>
+      logger.error('Failed to publish calendar change', err, { bookingId, ...slot })
+    );
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * iCalendar (RFC 5545) output for bookings: the practitioner's personal feed, subscribed to from a
+ * calendar app with a secret URL, and the .ics invitations attached to booking emails.
+ * Events use the booking id as UID and the booking's last update as SEQUENCE, so calendar apps
+ * move or cancel the event they already have rather than adding another one.
+ * Times are Europe/London wall-clock (TZID with an embedded VTIMEZONE).
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../config/database';
+import { EMAIL_FROM } from '../config/email';
+import { bookings, rooms, locations, calendarFeeds } from '../db/schema';
+import { eq, and, gte, asc, inArray } from 'drizzle-orm';
+import { addDaysToDateString, formatTimeForEmail, todayUtcString } from '../utils/date.util';
+
+const TIMEZONE = 'Europe/London';
+const UID_DOMAIN = 'therapport.co.uk';
+/** Past bookings kept in the feed, so recent history stays in the practitioner's calendar. */
+const FEED_HISTORY_DAYS = 90;
+
+const VTIMEZONE_EUROPE_LONDON = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0000',
+  'TZOFFSETTO:+0100',
+  'TZNAME:BST',
+  'DTSTART:19700329T010000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0000',
+  'TZNAME:GMT',
+  'DTSTART:19701025T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export interface BookingCalendarEvent {
+  bookingId: string;
+  roomName: string;
+  locationName: string;
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string; // HH:mm or HH:mm:ss
+  endTime: string;
+  /** Last change to the booking; becomes the event SEQUENCE. */
+  updatedAt: Date;
+  cancelled?: boolean;
+}
+
+/** Practitioner the invitation is addressed to (email attachments only). */
+export interface CalendarAttendee {
+  name: string;
+  email: string;
+}
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt: Date | null;
+  lastAccessedAt: Date | null;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Quoted parameter values cannot contain double quotes or control characters. */
+function paramValue(value: string): string {
+  return value.replace(/["\x00-\x1f]/g, '');
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** Local date-time value, e.g. 20260320T093000. */
+function localDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${formatTimeForEmail(time).replace(':', '')}00`;
+}
+
+/** UTC date-time value, e.g. 20260320T093000Z. */
+function utcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Bare address of EMAIL_FROM, which may be in "Name <address>" form. */
+function organizerAddress(): string {
+  const match = EMAIL_FROM.match(/<([^>]+)>/);
+  return (match ? match[1] : EMAIL_FROM).trim();
+}
+
+function eventLines(
+  event: BookingCalendarEvent,
+  now: Date,
+  attendee?: CalendarAttendee
+): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:booking-${event.bookingId}@${UID_DOMAIN}`,
+    `DTSTAMP:${utcDateTime(now)}`,
+    `SEQUENCE:${Math.floor(event.updatedAt.getTime() / 1000)}`,
+    `DTSTART;TZID=${TIMEZONE}:${localDateTime(event.bookingDate, event.startTime)}`,
+    `DTEND;TZID=${TIMEZONE}:${localDateTime(event.bookingDate, event.endTime)}`,
+    `SUMMARY:${escapeText(`Room booking: ${event.roomName} (${event.locationName})`)}`,
+    `LOCATION:${escapeText(`${event.roomName}, ${event.locationName}`)}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+  ];
+  if (attendee) {
+    lines.push(
+      `ORGANIZER;CN=Therapport:mailto:${organizerAddress()}`,
+      `ATTENDEE;CN="${paramValue(attendee.name)}";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:` +
+        `mailto:${attendee.email}`
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function buildCalendar(
+  events: BookingCalendarEvent[],
+  options: { method?: 'REQUEST' | 'CANCEL'; name?: string; attendee?: CalendarAttendee } = {}
+): string {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Therapport//Room bookings//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  if (options.method) lines.push(`METHOD:${options.method}`);
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`, `X-WR-TIMEZONE:${TIMEZONE}`);
+  }
+  lines.push(...VTIMEZONE_EUROPE_LONDON);
+  for (const event of events) lines.push(...eventLines(event, now, options.attendee));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Single-event invitation for a booking email: METHOD:REQUEST creates or moves the event,
+ * METHOD:CANCEL (with event.cancelled) removes it.
+ */
+export function buildBookingInvite(
+  event: BookingCalendarEvent,
+  attendee: CalendarAttendee
+): string {
+  return buildCalendar([event], {
+    method: event.cancelled ? 'CANCEL' : 'REQUEST',
+    attendee,
+  });
+}
+
+/**
+ * Whether the user has a feed URL, and when it was last fetched.
+ */
+export async function getFeedStatus(userId: string): Promise<CalendarFeedStatus> {
+  const [feed] = await db
+    .select({ createdAt: calendarFeeds.createdAt, lastAccessedAt: calendarFeeds.lastAccessedAt })
+    .from(calendarFeeds)
+    .where(eq(calendarFeeds.userId, userId))
+    .limit(1);
+  return {
+    enabled: Boolean(feed),
+    createdAt: feed?.createdAt ?? null,
+    lastAccessedAt: feed?.lastAccessedAt ?? null,
+  };
+}
+
+/**
+ * Issue a new feed token (replacing any previous one, whose URL stops working). Only the hash is
+ * stored, so the token is returned once.
+ */
+export async function regenerateFeedToken(userId: string): Promise<string> {
+  const token = randomBytes(24).toString('hex');
+  const tokenHash = sha256(token);
+  await db
+    .insert(calendarFeeds)
+    .values({ userId, tokenHash })
+    .onConflictDoUpdate({
+      target: calendarFeeds.userId,
+      set: { tokenHash, createdAt: new Date(), lastAccessedAt: null },
+    });
+  return token;
+}
+
+/** Turn the feed off; its URL stops working. */
+export async function revokeFeed(userId: string): Promise<void> {
+  await db.delete(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+}
+
+/**
+ * The feed for a token: the user's confirmed bookings (and completed ones from the last
+ * FEED_HISTORY_DAYS, so past sessions do not vanish from the calendar). Null for an unknown token.
+ */
+export async function getFeedForToken(token: string): Promise<string | null> {
+  const [feed] = await db
+    .select({ userId: calendarFeeds.userId })
+    .from(calendarFeeds)
+    .where(eq(calendarFeeds.tokenHash, sha256(token)))
+    .limit(1);
+  if (!feed) return null;
+
+  const fromDate = addDaysToDateString(todayUtcString(), -FEED_HISTORY_DAYS);
+  const rows = await db
+    .select({
+      id: bookings.id,
+      bookingDate: bookings.bookingDate,
+      startTime: bookings.startTime,
+      endTime: bookings.endTime,
+      updatedAt: bookings.updatedAt,
+      roomName: rooms.name,
+      locationName: locations.name,
+    })
+    .from(bookings)
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(
+      and(
+        eq(bookings.userId, feed.userId),
+        inArray(bookings.status, ['confirmed', 'completed']),
+        gte(bookings.bookingDate, fromDate)
+      )
+    )
+    .orderBy(asc(bookings.bookingDate), asc(bookings.startTime));
+
+  await db
+    .update(calendarFeeds)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(calendarFeeds.userId, feed.userId));
+
+  return buildCalendar(
+    rows.map((r) => ({
+      bookingId: r.id,
+      roomName: r.roomName,
+      locationName: r.locationName,
+      bookingDate: String(r.bookingDate),
+      startTime: String(r.startTime),
+      endTime: String(r.endTime),
+      updatedAt: r.updatedAt,
+    })),
+    { name: 'Therapport bookings' }
+  );
+}
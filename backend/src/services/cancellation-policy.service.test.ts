@@ -0,0 +1,83 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CancellationPolicyTier } from './cancellation-policy.service';
+
+const TIERS: CancellationPolicyTier[] = [
+  { minNoticeHours: 0, refundPercent: 0 },
+  { minNoticeHours: 168, refundPercent: 100 },
+  { minNoticeHours: 24, refundPercent: 50 },
+];
+
+describe('cancellation policy', () => {
+  // The service imports the database client, which needs a DATABASE_URL; nothing here connects
+  let CancellationPolicyService: typeof import('./cancellation-policy.service');
+  before(async () => {
+    process.env.DATABASE_URL ??= 'postgres://localhost/unused';
+    CancellationPolicyService = await import('./cancellation-policy.service');
+  });
+
+  describe('resolveRefundPercent', () => {
+    it('uses the tier with the longest notice the cancellation meets, in any tier order', () => {
+      const { resolveRefundPercent } = CancellationPolicyService;
+      assert.equal(resolveRefundPercent(TIERS, 200), 100);
+      assert.equal(resolveRefundPercent(TIERS, 168), 100);
+      assert.equal(resolveRefundPercent(TIERS, 167.5), 50);
+      assert.equal(resolveRefundPercent(TIERS, 24), 50);
+      assert.equal(resolveRefundPercent(TIERS, 23), 0);
+    });
+
+    it('refunds nothing when no tier applies', () => {
+      const { resolveRefundPercent } = CancellationPolicyService;
+      assert.equal(resolveRefundPercent([], 500), 0);
+      assert.equal(resolveRefundPercent([{ minNoticeHours: 48, refundPercent: 100 }], 47), 0);
+    });
+  });
+
+  describe('quoteCancellationUnderTiers', () => {
+    const now = new Date('2026-03-02T09:00:00Z');
+    const hoursAhead = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+    it('applies the tier percentage to credit and voucher hours, rounded', () => {
+      const quote = CancellationPolicyService.quoteCancellationUnderTiers(
+        TIERS,
+        hoursAhead(30.5),
+        25.05,
+        1.25,
+        { now }
+      );
+      assert.deepEqual(quote, {
+        noticeHours: 30,
+        refundPercent: 50,
+        refundableAmount: 25.05,
+        refundAmount: 12.53,
+        refundableVoucherHours: 1.25,
+        voucherHoursRefund: 0.63,
+      });
+    });
+
+    it('counts a booking that has started as no notice', () => {
+      const quote = CancellationPolicyService.quoteCancellationUnderTiers(
+        TIERS,
+        hoursAhead(-2),
+        20,
+        0,
+        { now }
+      );
+      assert.equal(quote.noticeHours, 0);
+      assert.equal(quote.refundAmount, 0);
+    });
+
+    it('refunds everything when the fee is waived', () => {
+      const quote = CancellationPolicyService.quoteCancellationUnderTiers(
+        TIERS,
+        hoursAhead(1),
+        20,
+        2,
+        { now, waiveFee: true }
+      );
+      assert.equal(quote.refundPercent, 100);
+      assert.equal(quote.refundAmount, 20);
+      assert.equal(quote.voucherHoursRefund, 2);
+    });
+  });
+});
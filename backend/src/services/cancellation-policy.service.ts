@@ -0,0 +1,137 @@
+/**
+ * Cancellation policy: how much of a booking's credit (and voucher hours) is given back when it
+ * is cancelled.
+ * The policy is a set of tiers keyed by minimum hours of notice; the tier with the highest
+ * minNoticeHours not exceeding the notice given applies (e.g. 168h → 100%, 24h → 50%, 0h → 0%).
+ * Notice below every tier refunds nothing; cancelling is still allowed until the booking starts.
+ */
+
+import { z } from 'zod';
+import { db } from '../config/database';
+import { cancellationPolicyTiers } from '../db/schema';
+import { asc } from 'drizzle-orm';
+import { BookingValidationError } from '../errors/booking.errors';
+import type { CreditTransactionClient } from './credit-transaction.service';
+
+type DbClient = typeof db | CreditTransactionClient;
+
+export const cancellationPolicyTierSchema = z.object({
+  minNoticeHours: z
+    .number()
+    .int('minNoticeHours must be a whole number of hours')
+    .nonnegative('minNoticeHours must not be negative'),
+  refundPercent: z
+    .number()
+    .int('refundPercent must be a whole number')
+    .min(0, 'refundPercent must be between 0 and 100')
+    .max(100, 'refundPercent must be between 0 and 100'),
+});
+
+export type CancellationPolicyTier = z.infer<typeof cancellationPolicyTierSchema>;
+
+export interface CancellationQuote {
+  noticeHours: number;
+  refundPercent: number;
+  refundableAmount: number;
+  refundAmount: number;
+  refundableVoucherHours: number;
+  voucherHoursRefund: number;
+}
+
+/**
+ * Current policy tiers, longest notice first.
+ */
+export async function listTiers(client: DbClient = db): Promise<CancellationPolicyTier[]> {
+  const rows = await client
+    .select({
+      minNoticeHours: cancellationPolicyTiers.minNoticeHours,
+      refundPercent: cancellationPolicyTiers.refundPercent,
+    })
+    .from(cancellationPolicyTiers)
+    .orderBy(asc(cancellationPolicyTiers.minNoticeHours));
+  return rows.reverse();
+}
+
+/**
+ * Replace the whole policy. Tiers must have distinct notice thresholds.
+ * @throws {BookingValidationError} Duplicate minNoticeHours.
+ */
+export async function replaceTiers(
+  tiers: CancellationPolicyTier[]
+): Promise<CancellationPolicyTier[]> {
+  const thresholds = new Set(tiers.map((t) => t.minNoticeHours));
+  if (thresholds.size !== tiers.length) {
+    throw new BookingValidationError('Each tier must have a different minNoticeHours');
+  }
+  await db.transaction(async (tx) => {
+    await tx.delete(cancellationPolicyTiers);
+    if (tiers.length > 0) {
+      await tx.insert(cancellationPolicyTiers).values(
+        tiers.map((t) => ({ minNoticeHours: t.minNoticeHours, refundPercent: t.refundPercent }))
+      );
+    }
+  });
+  return listTiers();
+}
+
+/**
+ * Refund percentage for the given notice: the tier with the highest minNoticeHours that the
+ * notice meets, or 0 when no tier applies.
+ */
+export function resolveRefundPercent(tiers: CancellationPolicyTier[], noticeHours: number): number {
+  let best: CancellationPolicyTier | null = null;
+  for (const tier of tiers) {
+    if (noticeHours >= tier.minNoticeHours && (!best || tier.minNoticeHours > best.minNoticeHours)) {
+      best = tier;
+    }
+  }
+  return best?.refundPercent ?? 0;
+}
+
+/**
+ * Refund due under the given policy tiers for cancelling at `now` a booking starting at
+ * `bookingStart` that used `refundableAmount` of credit and `refundableVoucherHours` of free
+ * booking vouchers. The same percentage applies to both. Amounts are rounded to the penny, hours
+ * to two decimals.
+ */
+export function quoteCancellationUnderTiers(
+  tiers: CancellationPolicyTier[],
+  bookingStart: Date,
+  refundableAmount: number,
+  refundableVoucherHours: number,
+  options: { now?: Date; waiveFee?: boolean } = {}
+): CancellationQuote {
+  const now = options.now ?? new Date();
+  const noticeHours = Math.max(0, (bookingStart.getTime() - now.getTime()) / (60 * 60 * 1000));
+  const refundPercent = options.waiveFee ? 100 : resolveRefundPercent(tiers, noticeHours);
+  const refundAmount = Math.round(refundableAmount * refundPercent) / 100;
+  const voucherHoursRefund = Math.round(refundableVoucherHours * refundPercent) / 100;
+  return {
+    noticeHours: Math.floor(noticeHours),
+    refundPercent,
+    refundableAmount,
+    refundAmount,
+    refundableVoucherHours,
+    voucherHoursRefund,
+  };
+}
+
+/**
+ * Refund due under the current policy (see quoteCancellationUnderTiers). The tiers are not read
+ * when the fee is waived.
+ */
+export async function quoteCancellation(
+  bookingStart: Date,
+  refundableAmount: number,
+  refundableVoucherHours: number,
+  options: { now?: Date; waiveFee?: boolean; client?: DbClient } = {}
+): Promise<CancellationQuote> {
+  const tiers = options.waiveFee ? [] : await listTiers(options.client);
+  return quoteCancellationUnderTiers(
+    tiers,
+    bookingStart,
+    refundableAmount,
+    refundableVoucherHours,
+    options
+  );
+}
@@ -0,0 +1,82 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RestorableAllocation } from './credit-transaction.service';
+
+function allocation(
+  id: string,
+  amount: number,
+  expiryDate: string,
+  createdAt: string,
+  refundedAmount = 0
+): RestorableAllocation {
+  return {
+    id,
+    creditTransactionId: `credit-${id}`,
+    amount,
+    refundedAmount,
+    expiryDate,
+    createdAt: new Date(createdAt),
+  };
+}
+
+describe('planCreditRestore', () => {
+  // The service imports the database client, which needs a DATABASE_URL; nothing here connects
+  let CreditTransactionService: typeof import('./credit-transaction.service');
+  before(async () => {
+    process.env.DATABASE_URL ??= 'postgres://localhost/unused';
+    CreditTransactionService = await import('./credit-transaction.service');
+  });
+
+  const restored = (plan: Array<{ allocation: RestorableAllocation; amount: number }>) =>
+    plan.map((p) => [p.allocation.id, p.amount]);
+
+  it('restores the latest-expiring allocation first', () => {
+    const plan = CreditTransactionService.planCreditRestore(
+      [
+        allocation('march', 10, '2026-03-31', '2026-03-01T10:00:00Z'),
+        allocation('april', 6, '2026-04-30', '2026-03-01T10:00:00Z'),
+      ],
+      8
+    );
+    assert.deepEqual(restored(plan), [
+      ['april', 6],
+      ['march', 2],
+    ]);
+  });
+
+  it('restores the most recent allocation first within an expiry date', () => {
+    const plan = CreditTransactionService.planCreditRestore(
+      [
+        allocation('booked', 5, '2026-03-31', '2026-03-01T10:00:00Z'),
+        allocation('moved', 5, '2026-03-31', '2026-03-04T10:00:00Z'),
+      ],
+      5
+    );
+    assert.deepEqual(restored(plan), [['moved', 5]]);
+  });
+
+  it('skips what has already been refunded and stops at what the allocations cover', () => {
+    const plan = CreditTransactionService.planCreditRestore(
+      [
+        allocation('april', 6, '2026-04-30', '2026-03-01T10:00:00Z', 6),
+        allocation('march', 10, '2026-03-31', '2026-03-01T10:00:00Z', 2.5),
+      ],
+      20
+    );
+    assert.deepEqual(restored(plan), [['march', 7.5]]);
+  });
+
+  it('splits amounts in whole pence', () => {
+    const plan = CreditTransactionService.planCreditRestore(
+      [
+        allocation('a', 0.1, '2026-04-30', '2026-03-01T10:00:00Z'),
+        allocation('b', 0.2, '2026-03-31', '2026-03-01T10:00:00Z'),
+      ],
+      0.3
+    );
+    assert.deepEqual(restored(plan), [
+      ['a', 0.1],
+      ['b', 0.2],
+    ]);
+  });
+});
@@ -1,6 +1,6 @@
 import { db } from '../config/database';
-import { creditTransactions } from '../db/schema';
-import { eq, and, gte, lte, asc, sql } from 'drizzle-orm';
+import { creditTransactions, bookingCreditAllocations } from '../db/schema';
+import { eq, and, gt, gte, lte, asc, desc, sql } from 'drizzle-orm';
 import { logger } from '../utils/logger.util';
 import { todayUtcString, getMonthRange } from '../utils/date.util';
 
@@ -27,6 +27,16 @@ export interface UseCreditsResult {
   totalUsed: number;
 }
 
+/** A booking's credit allocation, as restoreBookingCreditsWithinTransaction gives it back. */
+export interface RestorableAllocation {
+  id: string;
+  creditTransactionId: string;
+  amount: number;
+  refundedAmount: number;
+  expiryDate: string;
+  createdAt: Date;
+}
+
 export interface CreditSummaryByExpiry {
   expiryDate: string;
   remainingAmount: number;
@@ -99,6 +109,92 @@ export async function revokePayDifferenceCredits(
   });
 }
 
+/**
+ * Revoke what is left of a user's credits of one source expiring after a date, e.g. months of a
+ * subscription that ended before them. Amounts already spent stay with their bookings.
+ * @returns Total remaining amount revoked.
+ */
+export async function revokeCreditsExpiringAfter(
+  userId: string,
+  sourceType: CreditSourceType,
+  afterDate: string
+): Promise<number> {
+  const rows = await db
+    .update(creditTransactions)
+    .set({ revoked: true, updatedAt: new Date() })
+    .where(
+      and(
+        eq(creditTransactions.userId, userId),
+        eq(creditTransactions.sourceType, sourceType),
+        eq(creditTransactions.revoked, false),
+        gt(creditTransactions.expiryDate, afterDate),
+        gt(creditTransactions.remainingAmount, '0')
+      )
+    )
+    .returning({ id: creditTransactions.id, remainingAmount: creditTransactions.remainingAmount });
+  const total = rows.reduce((sum, r) => sum + parseFloat(r.remainingAmount.toString()), 0);
+  if (rows.length > 0) {
+    logger.info('Revoked credits expiring after date', {
+      userId,
+      sourceType,
+      afterDate,
+      transactionIds: rows.map((r) => r.id),
+      total,
+    });
+  }
+  return total;
+}
+
+/**
+ * Take up to an amount from a user's unspent credits of one source, latest expiry first, when it
+ * is carried over into something else (e.g. towards the first payment of a new plan). Taken
+ * amounts count as used; the caller records `used` if they may have to be given back (see
+ * refundCreditsWithinTransaction). Caller must run inside db.transaction.
+ * @returns What was taken: less than asked for if the credits have been spent meanwhile.
+ */
+export async function takeCreditsOfSourceWithinTransaction(
+  tx: CreditTransactionClient,
+  userId: string,
+  sourceType: CreditSourceType,
+  amount: number
+): Promise<UseCreditsResult> {
+  if (amount <= 0) return { used: [], totalUsed: 0 };
+  const rows = await tx
+    .select()
+    .from(creditTransactions)
+    .where(
+      and(
+        eq(creditTransactions.userId, userId),
+        eq(creditTransactions.sourceType, sourceType),
+        eq(creditTransactions.revoked, false),
+        gte(creditTransactions.expiryDate, todayUtcString()),
+        sql`${creditTransactions.remainingAmount} > 0`
+      )
+    )
+    .orderBy(desc(creditTransactions.expiryDate), desc(creditTransactions.grantDate))
+    .for('update');
+
+  let remainingCents = Math.round(amount * 100);
+  const used: Array<{ transactionId: string; amount: number }> = [];
+  for (const row of rows) {
+    if (remainingCents <= 0) break;
+    const remCents = Math.round(parseFloat(row.remainingAmount.toString()) * 100);
+    const takeCents = Math.min(remCents, remainingCents);
+    const usedCents = Math.round(parseFloat(row.usedAmount.toString()) * 100) + takeCents;
+    await tx
+      .update(creditTransactions)
+      .set({
+        remainingAmount: ((remCents - takeCents) / 100).toFixed(2),
+        usedAmount: (usedCents / 100).toFixed(2),
+        updatedAt: new Date(),
+      })
+      .where(eq(creditTransactions.id, row.id));
+    used.push({ transactionId: row.id, amount: takeCents / 100 });
+    remainingCents -= takeCents;
+  }
+  return { used, totalUsed: (Math.round(amount * 100) - remainingCents) / 100 };
+}
+
 /**
  * Grant credits to a user. Creates a new credit transaction.
  */
@@ -162,7 +258,18 @@ export async function hasCreditForSourceId(
   sourceType: CreditSourceType,
   sourceId: string
 ): Promise<boolean> {
-  const rows = await db
+  return (await getCreditIdForSourceId(userId, sourceType, sourceId)) !== null;
+}
+
+/**
+ * Id of the user's credit transaction with the given sourceType and sourceId, or null.
+ */
+export async function getCreditIdForSourceId(
+  userId: string,
+  sourceType: CreditSourceType,
+  sourceId: string
+): Promise<string | null> {
+  const [row] = await db
     .select({ id: creditTransactions.id })
     .from(creditTransactions)
     .where(
@@ -173,7 +280,7 @@ export async function hasCreditForSourceId(
       )
     )
     .limit(1);
-  return rows.length > 0;
+  return row?.id ?? null;
 }
 
 /**
@@ -252,17 +359,19 @@ export async function getAvailableCredits(
 export type CreditTransactionClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 /**
- * Use credits within an existing transaction. When bookingDate is provided, only credits expiring
- * in the same month as the booking are used (e.g. February bookings use only February credits);
- * when that month is exhausted, caller should require payment, not use next month's credits.
- * Deducts from soonest-expiring first within that month. Caller must run inside db.transaction.
+ * Use credits within an existing transaction. Any credit not expired today can pay for a booking
+ * on any date (credits are no longer tied to the booking's month; bookingDate is not used), so
+ * getCreditBalanceTotals' totalAvailable is what a booking or a batch of bookings can draw on.
+ * Deducts from soonest-expiring first. Caller must run inside db.transaction.
+ * When bookingId is provided, the transactions drawn from are recorded against the booking so
+ * a later refund can restore them (see restoreBookingCreditsWithinTransaction).
  * Throws if insufficient credits.
  */
 export async function useCreditsWithinTransaction(
   tx: CreditTransactionClient,
   userId: string,
   amount: number,
-  options?: { bookingDate?: string }
+  options?: { bookingDate?: string; bookingId?: string }
 ): Promise<UseCreditsResult> {
   if (amount <= 0) return { used: [], totalUsed: 0 };
 
@@ -314,6 +423,15 @@ export async function useCreditsWithinTransaction(
       `Insufficient credits: requested £${amount.toFixed(2)}, available £${totalAvailable.toFixed(2)}`
     );
   }
+  if (options?.bookingId && used.length > 0) {
+    await tx.insert(bookingCreditAllocations).values(
+      used.map((u) => ({
+        bookingId: options.bookingId as string,
+        creditTransactionId: u.transactionId,
+        amount: u.amount.toFixed(2),
+      }))
+    );
+  }
   return { used, totalUsed };
 }
 
@@ -334,41 +452,127 @@ export async function useCredits(userId: string, amount: number): Promise<UseCre
  */
 export async function refundCredits(transactionId: string, amount: number): Promise<void> {
   if (amount <= 0) return;
-  await db.transaction(async (tx) => {
-    const [row] = await tx
-      .select()
-      .from(creditTransactions)
-      .where(eq(creditTransactions.id, transactionId))
-      .limit(1)
-      .for('update');
-    if (!row) throw new Error(`Credit transaction not found: ${transactionId}`);
-    const today = todayUtcString();
-    // Refunds to expired transactions are allowed for audit; restored credits remain unusable (filtered by getAvailableCredits).
-    if (row.expiryDate < today) {
-      logger.warn('Refunding credits to expired transaction', {
-        transactionId,
-        expiryDate: row.expiryDate,
-      });
-    }
-    const used = parseFloat(row.usedAmount.toString());
-    const remaining = parseFloat(row.remainingAmount.toString());
-    if (amount > used) {
-      throw new Error(
-        `Refund amount £${amount.toFixed(2)} exceeds used amount £${used.toFixed(2)}`
-      );
-    }
-    const newUsed = used - amount;
-    const newRemaining = remaining + amount;
-    const updatedAt = new Date();
+  await db.transaction((tx) => refundCreditsWithinTransaction(tx, transactionId, amount));
+}
+
+/**
+ * Refund credits to a specific transaction within an existing transaction.
+ * Caller must run inside db.transaction. Same validation as refundCredits.
+ */
+export async function refundCreditsWithinTransaction(
+  tx: CreditTransactionClient,
+  transactionId: string,
+  amount: number
+): Promise<void> {
+  if (amount <= 0) return;
+  const [row] = await tx
+    .select()
+    .from(creditTransactions)
+    .where(eq(creditTransactions.id, transactionId))
+    .limit(1)
+    .for('update');
+  if (!row) throw new Error(`Credit transaction not found: ${transactionId}`);
+  const today = todayUtcString();
+  // Refunds to expired transactions are allowed for audit; restored credits remain unusable (filtered by getAvailableCredits).
+  if (row.expiryDate < today) {
+    logger.warn('Refunding credits to expired transaction', {
+      transactionId,
+      expiryDate: row.expiryDate,
+    });
+  }
+  const used = parseFloat(row.usedAmount.toString());
+  const remaining = parseFloat(row.remainingAmount.toString());
+  if (amount > used) {
+    throw new Error(`Refund amount £${amount.toFixed(2)} exceeds used amount £${used.toFixed(2)}`);
+  }
+  const newUsed = used - amount;
+  const newRemaining = remaining + amount;
+  const updatedAt = new Date();
+  await tx
+    .update(creditTransactions)
+    .set({
+      usedAmount: newUsed.toFixed(2),
+      remainingAmount: newRemaining.toFixed(2),
+      updatedAt,
+    })
+    .where(eq(creditTransactions.id, transactionId));
+}
+
+/**
+ * Split `amount` over a booking's allocations for a refund: latest-expiring first (the reverse of
+ * how credits are spent), the most recent allocation first within an expiry date, each up to what
+ * it has not had refunded yet. Returns the amount to restore per allocation, in that order;
+ * together less than `amount` when the allocations do not cover it.
+ */
+export function planCreditRestore<T extends RestorableAllocation>(
+  allocations: T[],
+  amount: number
+): Array<{ allocation: T; amount: number }> {
+  const ordered = [...allocations].sort(
+    (a, b) =>
+      b.expiryDate.localeCompare(a.expiryDate) || b.createdAt.getTime() - a.createdAt.getTime()
+  );
+  const plan: Array<{ allocation: T; amount: number }> = [];
+  let remainingCents = Math.round(amount * 100);
+  for (const allocation of ordered) {
+    if (remainingCents <= 0) break;
+    const allocatedCents = Math.round(allocation.amount * 100);
+    const refundedCents = Math.round(allocation.refundedAmount * 100);
+    const restoreCents = Math.min(allocatedCents - refundedCents, remainingCents);
+    if (restoreCents <= 0) continue;
+    plan.push({ allocation, amount: restoreCents / 100 });
+    remainingCents -= restoreCents;
+  }
+  return plan;
+}
+
+/**
+ * Restore up to `amount` of a booking's credits to the transactions it was paid from, so the
+ * refund keeps the original expiry dates, in the order of planCreditRestore. Caller must run
+ * inside db.transaction.
+ * Returns the amount restored; less than requested when the booking has no (or too few)
+ * recorded allocations, e.g. bookings made before allocations were tracked.
+ */
+export async function restoreBookingCreditsWithinTransaction(
+  tx: CreditTransactionClient,
+  bookingId: string,
+  amount: number
+): Promise<number> {
+  if (amount <= 0) return 0;
+  const rows = await tx
+    .select({
+      id: bookingCreditAllocations.id,
+      creditTransactionId: bookingCreditAllocations.creditTransactionId,
+      amount: bookingCreditAllocations.amount,
+      refundedAmount: bookingCreditAllocations.refundedAmount,
+      expiryDate: creditTransactions.expiryDate,
+      createdAt: bookingCreditAllocations.createdAt,
+    })
+    .from(bookingCreditAllocations)
+    .innerJoin(
+      creditTransactions,
+      eq(bookingCreditAllocations.creditTransactionId, creditTransactions.id)
+    )
+    .where(eq(bookingCreditAllocations.bookingId, bookingId))
+    .orderBy(asc(bookingCreditAllocations.id))
+    .for('update', { of: bookingCreditAllocations });
+  const allocations = rows.map((r) => ({
+    ...r,
+    amount: parseFloat(r.amount.toString()),
+    refundedAmount: parseFloat(r.refundedAmount.toString()),
+    expiryDate: String(r.expiryDate),
+  }));
+
+  let restoredCents = 0;
+  for (const { allocation, amount: restore } of planCreditRestore(allocations, amount)) {
+    await refundCreditsWithinTransaction(tx, allocation.creditTransactionId, restore);
     await tx
-      .update(creditTransactions)
-      .set({
-        usedAmount: newUsed.toFixed(2),
-        remainingAmount: newRemaining.toFixed(2),
-        updatedAt,
-      })
-      .where(eq(creditTransactions.id, transactionId));
-  });
+      .update(bookingCreditAllocations)
+      .set({ refundedAmount: (allocation.refundedAmount + restore).toFixed(2) })
+      .where(eq(bookingCreditAllocations.id, allocation.id));
+    restoredCents += Math.round(restore * 100);
+  }
+  return restoredCents / 100;
 }
 
 /**
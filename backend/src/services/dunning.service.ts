@@ -0,0 +1,247 @@
+/**
+ * Dunning for failed monthly subscription payments. The first failure is recorded on the
+ * membership and the practitioner is emailed a link to update their payment details; reminders
+ * escalate while it stays unpaid, new bookings are blocked once the grace period is over, and the
+ * account is suspended through the usual suspension date if it is still unpaid after that.
+ * A later paid invoice reverses all of it.
+ */
+
+import { db } from '../config/database';
+import { memberships, users } from '../db/schema';
+import { and, eq, isNotNull, isNull } from 'drizzle-orm';
+import { emailService, type PaymentFailedStage } from './email.service';
+import { addDaysToDateString, todayUtcString } from '../utils/date.util';
+import { logger } from '../utils/logger.util';
+
+/** Days after a failed payment that the practitioner can still make new bookings. */
+export const DUNNING_GRACE_DAYS = ((): number => {
+  const raw = process.env.DUNNING_GRACE_DAYS;
+  if (raw === undefined || raw === '') return 7;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 0 ? n : 7;
+})();
+
+/** Days after a failed payment that the account is suspended if still unpaid (after the grace). */
+export const DUNNING_SUSPEND_AFTER_DAYS = ((): number => {
+  const raw = process.env.DUNNING_SUSPEND_AFTER_DAYS;
+  const fallback = Math.max(21, DUNNING_GRACE_DAYS + 1);
+  if (raw === undefined || raw === '') return fallback;
+  const n = Number(raw);
+  return Number.isInteger(n) && n > DUNNING_GRACE_DAYS ? n : fallback;
+})();
+
+/** Reminders after the first failure email, by days since the failure, in the order sent. */
+const REMINDERS: Array<{ afterDays: number; stage: PaymentFailedStage }> = [
+  { afterDays: 3, stage: 'reminder' },
+  { afterDays: DUNNING_GRACE_DAYS, stage: 'bookings_blocked' },
+  { afterDays: DUNNING_SUSPEND_AFTER_DAYS - 3, stage: 'final_notice' },
+];
+// A short grace period can put the block before the first reminder
+REMINDERS.sort((a, b) => a.afterDays - b.afterDays);
+
+export interface DunningDates {
+  /** First day new bookings are blocked (YYYY-MM-DD). */
+  bookingBlockDate: string;
+  /** Day the account is suspended if still unpaid (YYYY-MM-DD). */
+  suspensionDate: string;
+}
+
+export function getDunningDates(paymentFailedAt: Date): DunningDates {
+  const failedOn = paymentFailedAt.toISOString().slice(0, 10);
+  return {
+    bookingBlockDate: addDaysToDateString(failedOn, DUNNING_GRACE_DAYS),
+    suspensionDate: addDaysToDateString(failedOn, DUNNING_SUSPEND_AFTER_DAYS),
+  };
+}
+
+/**
+ * Why a failing payment stops the practitioner booking, or null while they are in the grace
+ * period (or nothing is failing).
+ */
+export function getBookingBlockReason(paymentFailedAt: Date | null): string | null {
+  if (paymentFailedAt == null) return null;
+  if (todayUtcString() < getDunningDates(paymentFailedAt).bookingBlockDate) return null;
+  return 'Your subscription payment failed. Update your payment details to make new bookings';
+}
+
+function defaultPaymentUpdateUrl(): string {
+  const baseUrl = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+  return `${baseUrl}/subscription`;
+}
+
+async function sendNotice(
+  user: { userId: string; firstName: string; email: string },
+  stage: PaymentFailedStage,
+  paymentFailedAt: Date,
+  paymentUpdateUrl: string | null
+): Promise<boolean> {
+  try {
+    await emailService.sendPaymentFailedNotice({
+      firstName: user.firstName,
+      email: user.email,
+      stage,
+      paymentUpdateUrl: paymentUpdateUrl ?? defaultPaymentUpdateUrl(),
+      ...getDunningDates(paymentFailedAt),
+    });
+    return true;
+  } catch (error) {
+    logger.error('Failed to send payment failed notice', error, { userId: user.userId, stage });
+    return false;
+  }
+}
+
+/**
+ * Record a failed monthly subscription payment. Starts dunning and emails the practitioner on the
+ * first failure; Stripe's retries of the same invoice only refresh the payment link.
+ * @param paymentUpdateUrl Stripe's hosted invoice page, where the card can be updated and paid.
+ */
+export async function recordPaymentFailure(
+  userId: string,
+  paymentUpdateUrl: string | null
+): Promise<void> {
+  const [row] = await db
+    .select({
+      subscriptionType: memberships.subscriptionType,
+      firstName: users.firstName,
+      email: users.email,
+    })
+    .from(memberships)
+    .innerJoin(users, eq(memberships.userId, users.id))
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+  if (!row || row.subscriptionType !== 'monthly') {
+    logger.info('Payment failure ignored: no monthly membership', { userId });
+    return;
+  }
+
+  const now = new Date();
+  const [started] = await db
+    .update(memberships)
+    .set({ paymentFailedAt: now, paymentRemindersSent: 0, paymentUpdateUrl, updatedAt: now })
+    .where(and(eq(memberships.userId, userId), isNull(memberships.paymentFailedAt)))
+    .returning({ id: memberships.id });
+  if (!started) {
+    if (paymentUpdateUrl) {
+      await db
+        .update(memberships)
+        .set({ paymentUpdateUrl, updatedAt: now })
+        .where(eq(memberships.userId, userId));
+    }
+    return;
+  }
+
+  logger.info('Dunning started for failed subscription payment', { userId });
+  await sendNotice({ userId, ...row }, 'failed', now, paymentUpdateUrl);
+}
+
+/**
+ * End dunning after a successful payment: clear the failure and, if dunning suspended the
+ * account, lift the suspension.
+ * @returns Whether the practitioner was in dunning.
+ */
+export async function resolvePaymentFailure(userId: string): Promise<boolean> {
+  const [membership] = await db
+    .select({
+      id: memberships.id,
+      paymentFailedAt: memberships.paymentFailedAt,
+      dunningSuspendedAt: memberships.dunningSuspendedAt,
+      terminationRequestedAt: memberships.terminationRequestedAt,
+    })
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+  if (!membership?.paymentFailedAt) return false;
+
+  const wasSuspended = membership.dunningSuspendedAt != null;
+  await db.transaction(async (tx) => {
+    await tx
+      .update(memberships)
+      .set({
+        paymentFailedAt: null,
+        paymentRemindersSent: 0,
+        paymentUpdateUrl: null,
+        dunningSuspendedAt: null,
+        // A suspension date from a termination request stands
+        ...(wasSuspended && membership.terminationRequestedAt == null
+          ? { suspensionDate: null }
+          : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(memberships.id, membership.id));
+    if (wasSuspended) {
+      await tx
+        .update(users)
+        .set({ status: 'active', updatedAt: new Date() })
+        .where(and(eq(users.id, userId), eq(users.status, 'suspended')));
+    }
+  });
+  logger.info('Dunning resolved by successful payment', { userId, reactivated: wasSuspended });
+  return true;
+}
+
+export interface ProcessDunningResult {
+  reminded: number;
+  suspended: number;
+  failedEmail: number;
+  total: number;
+}
+
+/**
+ * Daily dunning step for practitioners with an unpaid subscription: send the latest reminder
+ * that has come due (skipping any missed ones), and once the suspension date is reached set the
+ * membership's suspension date to today so the suspension job suspends the account. Run before
+ * the suspension job.
+ */
+export async function processDunning(): Promise<ProcessDunningResult> {
+  const today = todayUtcString();
+  const rows = await db
+    .select({
+      membershipId: memberships.id,
+      userId: memberships.userId,
+      paymentFailedAt: memberships.paymentFailedAt,
+      paymentRemindersSent: memberships.paymentRemindersSent,
+      paymentUpdateUrl: memberships.paymentUpdateUrl,
+      firstName: users.firstName,
+      email: users.email,
+    })
+    .from(memberships)
+    .innerJoin(users, eq(memberships.userId, users.id))
+    .where(and(isNotNull(memberships.paymentFailedAt), isNull(memberships.dunningSuspendedAt)));
+
+  const result: ProcessDunningResult = { reminded: 0, suspended: 0, failedEmail: 0, total: 0 };
+  for (const row of rows) {
+    const paymentFailedAt = row.paymentFailedAt as Date;
+    const failedOn = paymentFailedAt.toISOString().slice(0, 10);
+    const { suspensionDate } = getDunningDates(paymentFailedAt);
+
+    if (today >= suspensionDate) {
+      try {
+        await db
+          .update(memberships)
+          .set({ suspensionDate: today, dunningSuspendedAt: new Date(), updatedAt: new Date() })
+          .where(eq(memberships.id, row.membershipId));
+        result.suspended++;
+        result.total++;
+      } catch (error) {
+        logger.error('Failed to schedule dunning suspension', error, { userId: row.userId });
+      }
+      continue;
+    }
+
+    const due = REMINDERS.reduce(
+      (last, r, i) => (today >= addDaysToDateString(failedOn, r.afterDays) ? i : last),
+      -1
+    );
+    if (due < row.paymentRemindersSent) continue;
+    result.total++;
+    // Counted as sent even if the email fails, so a broken address is not retried daily
+    await db
+      .update(memberships)
+      .set({ paymentRemindersSent: due + 1, updatedAt: new Date() })
+      .where(eq(memberships.id, row.membershipId));
+    const sent = await sendNotice(row, REMINDERS[due].stage, paymentFailedAt, row.paymentUpdateUrl);
+    if (sent) result.reminded++;
+    else result.failedEmail++;
+  }
+  return result;
+}
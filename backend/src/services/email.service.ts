@@ -1,4 +1,5 @@
 import { transporter, EMAIL_FROM } from '../config/email';
+import { buildBookingInvite } from './calendar.service';
 
 /**
  * Escapes HTML special characters to prevent HTML injection attacks
@@ -85,6 +86,13 @@ export interface DocumentUploadNotificationData {
   expiryDate: string | null;
 }
 
+/** Identifies the booking's calendar event; when given, an .ics invitation is attached. */
+export interface BookingCalendarRef {
+  bookingId: string;
+  /** Booking's updatedAt after the change being emailed (the event SEQUENCE). */
+  updatedAt: Date;
+}
+
 export interface BookingConfirmationEmailData {
   firstName: string;
   email: string;
@@ -95,6 +103,19 @@ export interface BookingConfirmationEmailData {
   endTime: string;
   totalPrice: string;
   creditUsed?: string;
+  calendar?: BookingCalendarRef;
+}
+
+export interface BookingUpdateEmailData {
+  firstName: string;
+  email: string;
+  roomName: string;
+  locationName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  totalPrice: string;
+  calendar?: BookingCalendarRef;
 }
 
 export interface BookingReminderEmailData {
@@ -116,18 +137,122 @@ export interface BookingCancellationEmailData {
   startTime: string;
   endTime: string;
   refundAmount: string;
+  /** Amount refunded to the card the booking was paid with, when a card refund was chosen. */
+  cardRefundAmount?: string;
+  calendar?: BookingCalendarRef;
+}
+
+export interface WaitlistOfferEmailData {
+  firstName: string;
+  email: string;
+  roomName: string;
+  locationName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  /** ISO timestamp after which the offer passes to the next person */
+  expiresAt: string;
+  claimLink: string;
+}
+
+export interface UnbookedPaymentEmailData {
+  firstName: string;
+  email: string;
+  amount: string;
+  /** How the payment was returned; refund_failed means the team is following it up. */
+  outcome: 'refunded' | 'credited' | 'refund_failed';
+  slots: Array<{
+    roomName: string;
+    locationName: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+  }>;
 }
 
 export interface SuspensionNoticeEmailData {
   firstName: string;
   email: string;
   suspensionDate: string;
+  /** Why the account was suspended; defaults to an ad-hoc termination taking effect. */
+  reason?: 'termination' | 'unpaid';
+}
+
+/**
+ * failed: first failure. reminder: still unpaid. bookings_blocked: grace period over.
+ * final_notice: suspension is imminent.
+ */
+export type PaymentFailedStage = 'failed' | 'reminder' | 'bookings_blocked' | 'final_notice';
+
+export interface PaymentFailedEmailData {
+  firstName: string;
+  email: string;
+  stage: PaymentFailedStage;
+  paymentUpdateUrl: string;
+  /** Date new bookings are (or were) blocked from (YYYY-MM-DD). */
+  bookingBlockDate: string;
+  /** Date the account will be suspended if still unpaid (YYYY-MM-DD). */
+  suspensionDate: string;
 }
 
 export interface SubscriptionTerminatedEmailData {
   firstName: string;
   email: string;
   suspensionDate: string;
+  /** Defaults to ad_hoc (terminated on request); monthly means the Stripe subscription ended. */
+  subscriptionType?: 'ad_hoc' | 'monthly';
+}
+
+export interface RecurringBookingConflictsEmailData {
+  conflicts: Array<{
+    practitionerName: string;
+    roomName: string;
+    locationName: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    reason: string;
+  }>;
+}
+
+/**
+ * .ics attachment that creates, moves or (cancelled) removes the booking in the recipient's
+ * calendar app. None when the caller did not identify the booking.
+ */
+function bookingInviteAttachments(
+  data: {
+    firstName: string;
+    email: string;
+    roomName: string;
+    locationName: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    calendar?: BookingCalendarRef;
+  },
+  cancelled = false
+) {
+  if (!data.calendar) return undefined;
+  const content = buildBookingInvite(
+    {
+      bookingId: data.calendar.bookingId,
+      roomName: data.roomName,
+      locationName: data.locationName,
+      bookingDate: data.bookingDate,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      updatedAt: data.calendar.updatedAt,
+      cancelled,
+    },
+    { name: data.firstName, email: data.email }
+  );
+  return [
+    {
+      filename: cancelled ? 'cancel.ics' : 'invite.ics',
+      content,
+      contentType: `text/calendar; charset=utf-8; method=${cancelled ? 'CANCEL' : 'REQUEST'}`,
+    },
+  ];
 }
 
 export class EmailService {
@@ -480,6 +605,52 @@ export class EmailService {
       to: data.email,
       subject: 'Booking Confirmation - Therapport',
       html,
+      attachments: bookingInviteAttachments(data),
+    });
+  }
+
+  async sendBookingUpdate(data: BookingUpdateEmailData): Promise<void> {
+    const dateFormatted = formatDateSafely(data.bookingDate);
+    const escapedFirstName = escapeHtml(data.firstName);
+    const escapedRoomName = escapeHtml(data.roomName);
+    const escapedLocationName = escapeHtml(data.locationName);
+    const escapedDate = escapeHtml(dateFormatted);
+    const escapedStartTime = escapeHtml(data.startTime);
+    const escapedEndTime = escapeHtml(data.endTime);
+    const escapedTotalPrice = escapeHtml(data.totalPrice);
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Booking Updated</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #2c3e50;">Booking Updated</h1>
+            <p>Hello ${escapedFirstName},</p>
+            <p>Your room booking has been changed. Here are the new details:</p>
+            <div style="background-color: #e8f4f8; border-left: 4px solid #3498db; padding: 15px; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Room:</strong> ${escapedRoomName}</p>
+              <p style="margin: 5px 0 0 0;"><strong>Location:</strong> ${escapedLocationName}</p>
+              <p style="margin: 5px 0 0 0;"><strong>Date:</strong> ${escapedDate}</p>
+              <p style="margin: 5px 0 0 0;"><strong>Time:</strong> ${escapedStartTime} – ${escapedEndTime}</p>
+              <p style="margin: 5px 0 0 0;"><strong>Total:</strong> £${escapedTotalPrice}</p>
+            </div>
+            <p>If you did not make this change, please contact us at info@therapport.co.uk</p>
+            <p>Best regards,<br>The Therapport Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    await transporter.sendMail({
+      from: EMAIL_FROM,
+      to: data.email,
+      subject: 'Booking Updated - Therapport',
+      html,
+      attachments: bookingInviteAttachments(data),
     });
   }
 
@@ -534,6 +705,12 @@ export class EmailService {
     const escapedStartTime = escapeHtml(data.startTime);
     const escapedEndTime = escapeHtml(data.endTime);
     const escapedRefundAmount = escapeHtml(data.refundAmount);
+    const cardRefundHtml = data.cardRefundAmount
+      ? `<p style="margin: 5px 0 0 0;"><strong>Card refund:</strong> £${escapeHtml(data.cardRefundAmount)}</p>`
+      : '';
+    const cardRefundNote = data.cardRefundAmount
+      ? '<p>Card refunds usually take 5–10 working days to appear on your statement.</p>'
+      : '';
 
     const html = `
       <!DOCTYPE html>
@@ -553,8 +730,10 @@ export class EmailService {
               <p style="margin: 5px 0 0 0;"><strong>Date:</strong> ${escapedDate}</p>
               <p style="margin: 5px 0 0 0;"><strong>Time:</strong> ${escapedStartTime} – ${escapedEndTime}</p>
               <p style="margin: 5px 0 0 0;"><strong>Credit refunded:</strong> £${escapedRefundAmount}</p>
+              ${cardRefundHtml}
             </div>
-            <p>The refunded amount has been added back to your credit balance.</p>
+            <p>The refunded credit has been added back to your credit balance.</p>
+            ${cardRefundNote}
             <p>If you have any questions, please contact us at info@therapport.co.uk</p>
             <p>Best regards,<br>The Therapport Team</p>
           </div>
@@ -567,6 +746,108 @@ export class EmailService {
       to: data.email,
       subject: 'Booking Cancelled - Therapport',
       html,
+      attachments: bookingInviteAttachments(data, true),
+    });
+  }
+
+  async sendWaitlistOffer(data: WaitlistOfferEmailData): Promise<void> {
+    const dateFormatted = formatDateSafely(data.bookingDate);
+    const expiresAtFormatted = new Date(data.expiresAt).toLocaleString('en-GB', {
+      day: 'numeric',
+      month: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: 'Europe/London',
+    });
+    const escapedFirstName = escapeHtml(data.firstName);
+    const escapedRoomName = escapeHtml(data.roomName);
+    const escapedLocationName = escapeHtml(data.locationName);
+    const escapedDate = escapeHtml(dateFormatted);
+    const escapedStartTime = escapeHtml(data.startTime);
+    const escapedEndTime = escapeHtml(data.endTime);
+    const escapedExpiresAt = escapeHtml(expiresAtFormatted);
+    const escapedClaimLink = escapeHtml(data.claimLink);
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>A Room You Wanted Is Available</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #2c3e50;">A Room You Wanted Is Available</h1>
+            <p>Hello ${escapedFirstName},</p>
+            <p>A slot you are on the waitlist for has become free:</p>
+            <div style="background-color: #e8f4f8; border-left: 4px solid #3498db; padding: 15px; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Room:</strong> ${escapedRoomName}, ${escapedLocationName}</p>
+              <p style="margin: 5px 0 0 0;"><strong>Date:</strong> ${escapedDate}</p>
+              <p style="margin: 5px 0 0 0;"><strong>Time:</strong> ${escapedStartTime} – ${escapedEndTime}</p>
+            </div>
+            <p>This offer is held for you until <strong>${escapedExpiresAt}</strong>. After that it will be offered to the next person on the waitlist.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${escapedClaimLink}" style="background-color: #3498db; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">Claim This Booking</a>
+            </div>
+            <p>Best regards,<br>The Therapport Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    await transporter.sendMail({
+      from: EMAIL_FROM,
+      to: data.email,
+      subject: 'Waitlist Offer: Room Available - Therapport',
+      html,
+    });
+  }
+
+  async sendUnbookedPaymentNotice(data: UnbookedPaymentEmailData): Promise<void> {
+    const escapedFirstName = escapeHtml(data.firstName);
+    const escapedAmount = escapeHtml(data.amount);
+    const slotsHtml = data.slots
+      .map(
+        (s) =>
+          `<p style="margin: 5px 0 0 0;">${escapeHtml(formatDateSafely(s.date))}, ${escapeHtml(s.startTime)} – ${escapeHtml(s.endTime)}: ${escapeHtml(s.roomName)}${s.locationName ? `, ${escapeHtml(s.locationName)}` : ''}</p>`
+      )
+      .join('');
+    const outcomeHtml =
+      data.outcome === 'credited'
+        ? `<p>Your payment of £${escapedAmount} has been added to your credit balance, so you can use it for another booking.</p>`
+        : data.outcome === 'refunded'
+          ? `<p>Your payment of £${escapedAmount} has been refunded to your card. Card refunds usually take 5–10 working days to appear on your statement.</p>`
+          : `<p>We could not refund your payment of £${escapedAmount} automatically. Our team has been notified and will make sure you get your money back.</p>`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Booking Not Made</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #e74c3c;">Booking Not Made</h1>
+            <p>Hello ${escapedFirstName},</p>
+            <p>Your payment went through, but we could not make the booking it was for. The time may have been booked by someone else while you were paying.</p>
+            <div style="background-color: #f4f4f4; padding: 15px; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Not booked:</strong></p>
+              ${slotsHtml}
+            </div>
+            ${outcomeHtml}
+            <p>If you have any questions, please contact us at info@therapport.co.uk</p>
+            <p>Best regards,<br>The Therapport Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    await transporter.sendMail({
+      from: EMAIL_FROM,
+      to: data.email,
+      subject: 'Booking Not Made - Therapport',
+      html,
     });
   }
 
@@ -586,8 +867,13 @@ export class EmailService {
           <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
             <h1 style="color: #2c3e50;">Account Suspension Notice</h1>
             <p>Hello ${escapedFirstName},</p>
-            <p>Your ad-hoc subscription termination has taken effect. Your account has been suspended as of ${escapedSuspensionDate}.</p>
-            <p>You will no longer be able to make new bookings. If you wish to use the service again, please contact us to reactivate your membership.</p>
+            ${
+              data.reason === 'unpaid'
+                ? `<p>Your monthly subscription payment is still outstanding, so your account has been suspended as of ${escapedSuspensionDate}.</p>
+            <p>You will no longer be able to make new bookings. Your account will be reactivated automatically once the outstanding payment is made.</p>`
+                : `<p>Your subscription termination has taken effect. Your account has been suspended as of ${escapedSuspensionDate}.</p>
+            <p>You will no longer be able to make new bookings. If you wish to use the service again, please contact us to reactivate your membership.</p>`
+            }
             <p>If you have any questions, please contact us at info@therapport.co.uk</p>
             <p>Best regards,<br>The Therapport Team</p>
           </div>
@@ -603,23 +889,86 @@ export class EmailService {
     });
   }
 
+  async sendPaymentFailedNotice(data: PaymentFailedEmailData): Promise<void> {
+    const escapedFirstName = escapeHtml(data.firstName);
+    const escapedUrl = escapeHtml(data.paymentUpdateUrl);
+    const escapedBlockDate = escapeHtml(formatDateSafely(data.bookingBlockDate));
+    const escapedSuspensionDate = escapeHtml(formatDateSafely(data.suspensionDate));
+    const content: Record<PaymentFailedStage, { title: string; body: string }> = {
+      failed: {
+        title: 'Subscription Payment Failed',
+        body: `<p>We could not take your monthly subscription payment. Please update your payment details so we can try again.</p>
+            <p>You can keep booking until ${escapedBlockDate}. If the payment is still outstanding after that, new bookings will be paused.</p>`,
+      },
+      reminder: {
+        title: 'Subscription Payment Outstanding',
+        body: `<p>Your monthly subscription payment is still outstanding. Please update your payment details before ${escapedBlockDate} to avoid new bookings being paused.</p>`,
+      },
+      bookings_blocked: {
+        title: 'Bookings Paused - Payment Outstanding',
+        body: `<p>Your monthly subscription payment is still outstanding, so you can no longer make new bookings. Your existing bookings are unaffected.</p>
+            <p>If the payment is not made by ${escapedSuspensionDate}, your account will be suspended.</p>`,
+      },
+      final_notice: {
+        title: 'Final Notice - Account Suspension',
+        body: `<p>Your monthly subscription payment is still outstanding. Your account will be suspended on ${escapedSuspensionDate} unless the payment is made before then.</p>`,
+      },
+    };
+    const { title, body } = content[data.stage];
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>${title}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #e74c3c;">${title}</h1>
+            <p>Hello ${escapedFirstName},</p>
+            ${body}
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${escapedUrl}" style="background-color: #3498db; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">Update Payment Details</a>
+            </div>
+            <p>Once the payment goes through, everything is restored automatically.</p>
+            <p>If you have any questions, please contact us at info@therapport.co.uk</p>
+            <p>Best regards,<br>The Therapport Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    await transporter.sendMail({
+      from: EMAIL_FROM,
+      to: data.email,
+      subject: `${title} - Therapport`,
+      html,
+    });
+  }
+
   async sendSubscriptionTerminated(data: SubscriptionTerminatedEmailData): Promise<void> {
     const suspensionDateFormatted = formatDateSafely(data.suspensionDate);
     const escapedFirstName = escapeHtml(data.firstName);
     const escapedSuspensionDate = escapeHtml(suspensionDateFormatted);
+    const monthly = data.subscriptionType === 'monthly';
+    const title = monthly ? 'Monthly Subscription Cancelled' : 'Ad-hoc Subscription Terminated';
+    const intro = monthly
+      ? 'Your monthly subscription has been cancelled.'
+      : 'Your ad-hoc subscription has been terminated as requested.';
 
     const html = `
       <!DOCTYPE html>
       <html>
         <head>
           <meta charset="utf-8">
-          <title>Ad-hoc Subscription Terminated</title>
+          <title>${title}</title>
         </head>
         <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
           <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
-            <h1 style="color: #2c3e50;">Ad-hoc Subscription Terminated</h1>
+            <h1 style="color: #2c3e50;">${title}</h1>
             <p>Hello ${escapedFirstName},</p>
-            <p>Your ad-hoc subscription has been terminated as requested. You can continue to use the service until ${escapedSuspensionDate}. After that date your account will be suspended.</p>
+            <p>${intro} You can continue to use the service until ${escapedSuspensionDate}. After that date your account will be suspended.</p>
             <p>If you have any questions, please contact us at info@therapport.co.uk</p>
             <p>Best regards,<br>The Therapport Team</p>
           </div>
@@ -630,7 +979,58 @@ export class EmailService {
     await transporter.sendMail({
       from: EMAIL_FROM,
       to: data.email,
-      subject: 'Ad-hoc Subscription Terminated - Therapport',
+      subject: `${title} - Therapport`,
+      html,
+    });
+  }
+
+  async sendRecurringBookingConflicts(data: RecurringBookingConflictsEmailData): Promise<void> {
+    const rows = data.conflicts
+      .map(
+        (c) => `
+              <tr>
+                <td style="padding: 6px; border-bottom: 1px solid #eee;">${escapeHtml(c.practitionerName)}</td>
+                <td style="padding: 6px; border-bottom: 1px solid #eee;">${escapeHtml(formatDateSafely(c.bookingDate))}</td>
+                <td style="padding: 6px; border-bottom: 1px solid #eee;">${escapeHtml(c.startTime)}–${escapeHtml(c.endTime)}</td>
+                <td style="padding: 6px; border-bottom: 1px solid #eee;">${escapeHtml(c.roomName)}, ${escapeHtml(c.locationName)}</td>
+                <td style="padding: 6px; border-bottom: 1px solid #eee;">${escapeHtml(c.reason)}</td>
+              </tr>`
+      )
+      .join('');
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Permanent Booking Conflicts</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 700px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #e74c3c;">Permanent Booking Conflicts</h1>
+            <p>Hello Admin,</p>
+            <p>The following permanent slots could not be booked automatically. Please move the practitioner to another room or resolve the conflicting booking.</p>
+            <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+              <tr>
+                <th style="text-align: left; padding: 6px; border-bottom: 2px solid #ddd;">Practitioner</th>
+                <th style="text-align: left; padding: 6px; border-bottom: 2px solid #ddd;">Date</th>
+                <th style="text-align: left; padding: 6px; border-bottom: 2px solid #ddd;">Time</th>
+                <th style="text-align: left; padding: 6px; border-bottom: 2px solid #ddd;">Room</th>
+                <th style="text-align: left; padding: 6px; border-bottom: 2px solid #ddd;">Reason</th>
+              </tr>${rows}
+            </table>
+            <p>Best regards,<br>The Therapport System</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const adminEmail = process.env.ADMIN_EMAIL || 'info@therapport.co.uk';
+
+    await transporter.sendMail({
+      from: EMAIL_FROM,
+      to: adminEmail,
+      subject: `Permanent Booking Conflicts (${data.conflicts.length}) - Therapport`,
       html,
     });
   }
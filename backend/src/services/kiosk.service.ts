@@ -0,0 +1,624 @@
+/**
+ * Kiosk sign-in/out for the front-desk tablets.
+ * Devices are registered per location by an admin and authenticate with a device token.
+ * Practitioners identify themselves with a PIN or a QR code; each sign-in is matched to their
+ * booking at that location for the day. kiosk_logs then answers "who is in the building" and
+ * feeds the daily fire-safety attendance report.
+ */
+
+import { createHash, createHmac, randomBytes, randomInt } from 'crypto';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { db } from '../config/database';
+import {
+  kioskDevices,
+  kioskCredentials,
+  kioskLogs,
+  locations,
+  rooms,
+  bookings,
+  users,
+} from '../db/schema';
+import { eq, and, asc, desc, gt, gte, lt, inArray, sql, SQL } from 'drizzle-orm';
+import {
+  InvalidKioskCredentialError,
+  KioskDeviceNotFoundError,
+  KioskStateError,
+  KioskTooManyAttemptsError,
+} from '../errors/kiosk.errors';
+import { InvalidLocationError } from '../errors/location.errors';
+import { addDaysToDateString } from '../utils/date.util';
+
+const TIMEZONE = 'Europe/London';
+
+/** Key for PIN hashes; without one they would be predictable, so the server refuses to start. */
+const KIOSK_PIN_SECRET = ((): string => {
+  const secret = process.env.KIOSK_PIN_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('KIOSK_PIN_SECRET (or JWT_SECRET) environment variable is not set');
+  }
+  return secret;
+})();
+
+/** Failed PIN/QR attempts allowed per device within the window before the device is throttled. */
+const MAX_FAILED_ATTEMPTS = 10;
+const FAILED_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+export type KioskAction = 'sign_in' | 'sign_out';
+export type KioskMethod = 'pin' | 'qr';
+
+export interface KioskDevice {
+  id: string;
+  locationId: string;
+  locationName: string;
+  name: string;
+}
+
+export interface KioskDeviceItem extends KioskDevice {
+  active: boolean;
+  lastSeenAt: Date | null;
+  createdAt: Date;
+}
+
+export interface KioskCredentialInput {
+  pin?: string;
+  qrCode?: string;
+}
+
+export interface KioskBookingSummary {
+  id: string;
+  roomName: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface KioskActionResult {
+  action: KioskAction;
+  actionTime: Date;
+  firstName: string;
+  lastName: string;
+  booking: KioskBookingSummary | null;
+}
+
+export interface PresentPerson {
+  userId: string;
+  name: string;
+  phone: string | null;
+  locationId: string;
+  locationName: string;
+  signedInAt: Date;
+}
+
+export interface AttendanceEvent {
+  action: KioskAction;
+  time: Date;
+  method: string | null;
+}
+
+export interface AttendancePerson {
+  userId: string;
+  name: string;
+  phone: string | null;
+  events: AttendanceEvent[];
+  firstSignIn: Date | null;
+  lastSignOut: Date | null;
+  stillSignedIn: boolean;
+  bookings: KioskBookingSummary[];
+}
+
+export interface AttendanceReport {
+  date: string;
+  locationId: string;
+  locationName: string;
+  generatedAt: Date;
+  people: AttendancePerson[];
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/** PINs are looked up by value, so they are stored as a keyed hash rather than a salted one. */
+function hashPin(pin: string): string {
+  return createHmac('sha256', KIOSK_PIN_SECRET).update(pin).digest('hex');
+}
+
+function londonToday(): string {
+  return formatInTimeZone(new Date(), TIMEZONE, 'yyyy-MM-dd');
+}
+
+/** UTC instants bounding a Europe/London calendar day. */
+function londonDayBounds(date: string): { start: Date; end: Date } {
+  return {
+    start: fromZonedTime(`${date}T00:00:00`, TIMEZONE),
+    end: fromZonedTime(`${addDaysToDateString(date, 1)}T00:00:00`, TIMEZONE),
+  };
+}
+
+function hhmm(t: string | Date): string {
+  return String(t).slice(0, 5);
+}
+
+function fullName(firstName: string, lastName: string): string {
+  return [firstName, lastName].filter(Boolean).join(' ').trim();
+}
+
+/**
+ * Register a kiosk device for a location. The returned token is shown once and configured on the
+ * device; only its hash is stored.
+ */
+export async function registerDevice(
+  locationId: string,
+  name: string
+): Promise<{ id: string; token: string }> {
+  const [location] = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.id, locationId))
+    .limit(1);
+  if (!location) throw new InvalidLocationError('Location not found');
+  const token = randomBytes(32).toString('hex');
+  const [row] = await db
+    .insert(kioskDevices)
+    .values({ locationId, name, tokenHash: sha256(token) })
+    .returning({ id: kioskDevices.id });
+  return { id: row.id, token };
+}
+
+export async function listDevices(): Promise<KioskDeviceItem[]> {
+  const rows = await db
+    .select({ device: kioskDevices, locationName: locations.name })
+    .from(kioskDevices)
+    .innerJoin(locations, eq(kioskDevices.locationId, locations.id))
+    .orderBy(asc(locations.name), asc(kioskDevices.name));
+  return rows.map(({ device, locationName }) => ({
+    id: device.id,
+    locationId: device.locationId,
+    locationName,
+    name: device.name,
+    active: device.active,
+    lastSeenAt: device.lastSeenAt,
+    createdAt: device.createdAt,
+  }));
+}
+
+/** Revoke a device; its token stops working immediately. */
+export async function revokeDevice(deviceId: string): Promise<void> {
+  const updated = await db
+    .update(kioskDevices)
+    .set({ active: false })
+    .where(eq(kioskDevices.id, deviceId))
+    .returning({ id: kioskDevices.id });
+  if (updated.length === 0) throw new KioskDeviceNotFoundError();
+}
+
+/**
+ * Resolve an active device from its token, or null. Devices at deactivated locations are rejected.
+ */
+export async function authenticateDevice(token: string): Promise<KioskDevice | null> {
+  const [row] = await db
+    .select({
+      id: kioskDevices.id,
+      locationId: kioskDevices.locationId,
+      locationName: locations.name,
+      name: kioskDevices.name,
+    })
+    .from(kioskDevices)
+    .innerJoin(locations, eq(kioskDevices.locationId, locations.id))
+    .where(
+      and(
+        eq(kioskDevices.tokenHash, sha256(token)),
+        eq(kioskDevices.active, true),
+        eq(locations.active, true)
+      )
+    )
+    .limit(1);
+  if (!row) return null;
+  await db.update(kioskDevices).set({ lastSeenAt: new Date() }).where(eq(kioskDevices.id, row.id));
+  return row;
+}
+
+export interface KioskStatus {
+  hasPin: boolean;
+  hasQrCode: boolean;
+  /** Set when the practitioner's latest kiosk action today was a sign-in. */
+  signedIn: { locationName: string; deviceName: string | null; signedInAt: Date } | null;
+}
+
+/**
+ * Practitioner's kiosk credentials (issued or not) and whether they are signed in today.
+ */
+export async function getKioskStatus(userId: string): Promise<KioskStatus> {
+  const [credentials] = await db
+    .select({ pinHash: kioskCredentials.pinHash, qrTokenHash: kioskCredentials.qrTokenHash })
+    .from(kioskCredentials)
+    .where(eq(kioskCredentials.userId, userId))
+    .limit(1);
+
+  const { start, end } = londonDayBounds(londonToday());
+  const [latest] = await db
+    .select({
+      action: kioskLogs.action,
+      actionTime: kioskLogs.actionTime,
+      locationName: locations.name,
+      deviceName: kioskDevices.name,
+    })
+    .from(kioskLogs)
+    .innerJoin(locations, eq(kioskLogs.locationId, locations.id))
+    .leftJoin(kioskDevices, eq(kioskLogs.deviceId, kioskDevices.id))
+    .where(
+      and(
+        eq(kioskLogs.userId, userId),
+        gte(kioskLogs.actionTime, start),
+        lt(kioskLogs.actionTime, end)
+      )
+    )
+    .orderBy(desc(kioskLogs.actionTime))
+    .limit(1);
+
+  return {
+    hasPin: Boolean(credentials?.pinHash),
+    hasQrCode: Boolean(credentials?.qrTokenHash),
+    signedIn:
+      latest?.action === 'sign_in'
+        ? {
+            locationName: latest.locationName,
+            deviceName: latest.deviceName ?? null,
+            signedInAt: latest.actionTime,
+          }
+        : null,
+  };
+}
+
+/**
+ * Issue a new 6-digit PIN (replacing any previous one). PINs identify the practitioner on their
+ * own, so they are generated here to guarantee uniqueness.
+ */
+export async function regeneratePin(userId: string): Promise<string> {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const pin = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    const pinHash = hashPin(pin);
+    const [taken] = await db
+      .select({ userId: kioskCredentials.userId })
+      .from(kioskCredentials)
+      .where(eq(kioskCredentials.pinHash, pinHash))
+      .limit(1);
+    if (taken) continue;
+    await db
+      .insert(kioskCredentials)
+      .values({ userId, pinHash })
+      .onConflictDoUpdate({
+        target: kioskCredentials.userId,
+        set: { pinHash, updatedAt: new Date() },
+      });
+    return pin;
+  }
+  throw new Error('Could not allocate a unique kiosk PIN');
+}
+
+/**
+ * Issue a new QR code value (replacing any previous one). The kiosk scanner submits it as qrCode.
+ */
+export async function regenerateQrCode(userId: string): Promise<string> {
+  const qrCode = randomBytes(24).toString('hex');
+  const qrTokenHash = sha256(qrCode);
+  await db
+    .insert(kioskCredentials)
+    .values({ userId, qrTokenHash })
+    .onConflictDoUpdate({
+      target: kioskCredentials.userId,
+      set: { qrTokenHash, updatedAt: new Date() },
+    });
+  return qrCode;
+}
+
+/** Failed attempts are counted on the device row, so every server instance sees the same count. */
+async function assertNotThrottled(deviceId: string): Promise<void> {
+  const [device] = await db
+    .select({
+      failedAttempts: kioskDevices.failedAttempts,
+      failedAttemptsSince: kioskDevices.failedAttemptsSince,
+    })
+    .from(kioskDevices)
+    .where(eq(kioskDevices.id, deviceId))
+    .limit(1);
+  if (!device?.failedAttemptsSince) return;
+  if (Date.now() - device.failedAttemptsSince.getTime() > FAILED_ATTEMPT_WINDOW_MS) return;
+  if (device.failedAttempts >= MAX_FAILED_ATTEMPTS) throw new KioskTooManyAttemptsError();
+}
+
+/** Count a failed attempt, starting a new window when the last one has lapsed. */
+async function recordFailedAttempt(deviceId: string): Promise<void> {
+  const nowMs = Date.now();
+  const now = new Date(nowMs).toISOString();
+  const windowStart = new Date(nowMs - FAILED_ATTEMPT_WINDOW_MS).toISOString();
+  const since = kioskDevices.failedAttemptsSince;
+  const lapsed = sql`${since} IS NULL OR ${since} < ${windowStart}::timestamp`;
+  await db
+    .update(kioskDevices)
+    .set({
+      failedAttempts: sql`CASE WHEN ${lapsed} THEN 1 ELSE ${kioskDevices.failedAttempts} + 1 END`,
+      failedAttemptsSince: sql`CASE WHEN ${lapsed} THEN ${now}::timestamp ELSE ${since} END`,
+    })
+    .where(eq(kioskDevices.id, deviceId));
+}
+
+async function clearFailedAttempts(deviceId: string): Promise<void> {
+  await db
+    .update(kioskDevices)
+    .set({ failedAttempts: 0, failedAttemptsSince: null })
+    .where(and(eq(kioskDevices.id, deviceId), gt(kioskDevices.failedAttempts, 0)));
+}
+
+async function identifyPractitioner(
+  device: KioskDevice,
+  credential: KioskCredentialInput
+): Promise<{ user: typeof users.$inferSelect; method: KioskMethod }> {
+  await assertNotThrottled(device.id);
+  const method: KioskMethod = credential.pin ? 'pin' : 'qr';
+  const condition = credential.pin
+    ? eq(kioskCredentials.pinHash, hashPin(credential.pin))
+    : eq(kioskCredentials.qrTokenHash, sha256(credential.qrCode ?? ''));
+  const [row] = await db
+    .select({ user: users })
+    .from(kioskCredentials)
+    .innerJoin(users, eq(kioskCredentials.userId, users.id))
+    .where(condition)
+    .limit(1);
+  if (!row || row.user.deletedAt || row.user.status !== 'active') {
+    await recordFailedAttempt(device.id);
+    throw new InvalidKioskCredentialError();
+  }
+  await clearFailedAttempts(device.id);
+  return { user: row.user, method };
+}
+
+/** Latest kiosk action today for the user at the location, or null. */
+async function getLatestActionToday(
+  userId: string,
+  locationId: string
+): Promise<KioskAction | null> {
+  const { start, end } = londonDayBounds(londonToday());
+  const rows = await db
+    .select({ action: kioskLogs.action })
+    .from(kioskLogs)
+    .where(
+      and(
+        eq(kioskLogs.userId, userId),
+        eq(kioskLogs.locationId, locationId),
+        gte(kioskLogs.actionTime, start),
+        lt(kioskLogs.actionTime, end)
+      )
+    )
+    .orderBy(asc(kioskLogs.actionTime));
+  return rows.length > 0 ? rows[rows.length - 1].action : null;
+}
+
+/**
+ * The practitioner's booking at the location today that is in progress or next up; after the last
+ * booking has ended, the last booking of the day.
+ */
+async function findTodaysBooking(
+  userId: string,
+  locationId: string
+): Promise<KioskBookingSummary | null> {
+  const rows = await db
+    .select({
+      id: bookings.id,
+      roomName: rooms.name,
+      startTime: bookings.startTime,
+      endTime: bookings.endTime,
+    })
+    .from(bookings)
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .where(
+      and(
+        eq(bookings.userId, userId),
+        eq(rooms.locationId, locationId),
+        eq(bookings.bookingDate, londonToday()),
+        inArray(bookings.status, ['confirmed', 'completed'])
+      )
+    )
+    .orderBy(asc(bookings.startTime));
+  if (rows.length === 0) return null;
+  const nowTime = formatInTimeZone(new Date(), TIMEZONE, 'HH:mm');
+  const match = rows.find((r) => hhmm(r.endTime) > nowTime) ?? rows[rows.length - 1];
+  return {
+    id: match.id,
+    roomName: match.roomName,
+    startTime: hhmm(match.startTime),
+    endTime: hhmm(match.endTime),
+  };
+}
+
+async function recordAction(
+  device: KioskDevice,
+  credential: KioskCredentialInput,
+  action: KioskAction,
+  ipAddress: string | undefined
+): Promise<KioskActionResult> {
+  const { user, method } = await identifyPractitioner(device, credential);
+  const latest = await getLatestActionToday(user.id, device.locationId);
+  if (action === 'sign_in' && latest === 'sign_in') {
+    throw new KioskStateError(`${user.firstName}, you are already signed in`);
+  }
+  if (action === 'sign_out' && latest !== 'sign_in') {
+    throw new KioskStateError(`${user.firstName}, you are not signed in today`);
+  }
+  const booking = await findTodaysBooking(user.id, device.locationId);
+  const [log] = await db
+    .insert(kioskLogs)
+    .values({
+      userId: user.id,
+      locationId: device.locationId,
+      action,
+      ipAddress: ipAddress?.slice(0, 45) ?? null,
+      deviceId: device.id,
+      bookingId: booking?.id ?? null,
+      method,
+    })
+    .returning({ actionTime: kioskLogs.actionTime });
+  return {
+    action,
+    actionTime: log.actionTime,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    booking,
+  };
+}
+
+export async function signIn(
+  device: KioskDevice,
+  credential: KioskCredentialInput,
+  ipAddress?: string
+): Promise<KioskActionResult> {
+  return recordAction(device, credential, 'sign_in', ipAddress);
+}
+
+export async function signOut(
+  device: KioskDevice,
+  credential: KioskCredentialInput,
+  ipAddress?: string
+): Promise<KioskActionResult> {
+  return recordAction(device, credential, 'sign_out', ipAddress);
+}
+
+/**
+ * People currently in the building: their latest kiosk action today at a location is a sign-in.
+ * Sign-ins from previous days without a sign-out are not counted.
+ */
+export async function getPresent(locationId?: string): Promise<PresentPerson[]> {
+  const { start, end } = londonDayBounds(londonToday());
+  const conditions: SQL[] = [gte(kioskLogs.actionTime, start), lt(kioskLogs.actionTime, end)];
+  if (locationId) conditions.push(eq(kioskLogs.locationId, locationId));
+  const rows = await db
+    .select({
+      userId: kioskLogs.userId,
+      locationId: kioskLogs.locationId,
+      action: kioskLogs.action,
+      actionTime: kioskLogs.actionTime,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      phone: users.phone,
+      locationName: locations.name,
+    })
+    .from(kioskLogs)
+    .innerJoin(users, eq(kioskLogs.userId, users.id))
+    .innerJoin(locations, eq(kioskLogs.locationId, locations.id))
+    .where(and(...conditions))
+    .orderBy(asc(kioskLogs.actionTime));
+
+  const latest = new Map<string, (typeof rows)[number]>();
+  for (const row of rows) latest.set(`${row.userId}:${row.locationId}`, row);
+  return [...latest.values()]
+    .filter((row) => row.action === 'sign_in')
+    .map((row) => ({
+      userId: row.userId,
+      name: fullName(row.firstName, row.lastName),
+      phone: row.phone,
+      locationId: row.locationId,
+      locationName: row.locationName,
+      signedInAt: row.actionTime,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Daily attendance for a location (fire-safety register): everyone who signed in or had a
+ * confirmed/completed booking there that day, with their sign-in/out times and bookings.
+ */
+export async function getAttendanceReport(
+  locationId: string,
+  date: string
+): Promise<AttendanceReport> {
+  const [location] = await db
+    .select({ id: locations.id, name: locations.name })
+    .from(locations)
+    .where(eq(locations.id, locationId))
+    .limit(1);
+  if (!location) throw new InvalidLocationError('Location not found');
+
+  const { start, end } = londonDayBounds(date);
+  const logs = await db
+    .select({
+      userId: kioskLogs.userId,
+      action: kioskLogs.action,
+      actionTime: kioskLogs.actionTime,
+      method: kioskLogs.method,
+    })
+    .from(kioskLogs)
+    .where(
+      and(
+        eq(kioskLogs.locationId, locationId),
+        gte(kioskLogs.actionTime, start),
+        lt(kioskLogs.actionTime, end)
+      )
+    )
+    .orderBy(asc(kioskLogs.actionTime));
+
+  const dayBookings = await db
+    .select({
+      id: bookings.id,
+      userId: bookings.userId,
+      roomName: rooms.name,
+      startTime: bookings.startTime,
+      endTime: bookings.endTime,
+    })
+    .from(bookings)
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .where(
+      and(
+        eq(rooms.locationId, locationId),
+        eq(bookings.bookingDate, date),
+        inArray(bookings.status, ['confirmed', 'completed'])
+      )
+    )
+    .orderBy(asc(bookings.startTime));
+
+  const userIds = [...new Set([...logs.map((l) => l.userId), ...dayBookings.map((b) => b.userId)])];
+  const people =
+    userIds.length > 0
+      ? await db
+          .select({
+            id: users.id,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            phone: users.phone,
+          })
+          .from(users)
+          .where(inArray(users.id, userIds))
+      : [];
+
+  const report: AttendancePerson[] = people.map((person) => {
+    const events = logs
+      .filter((l) => l.userId === person.id)
+      .map((l) => ({ action: l.action, time: l.actionTime, method: l.method }));
+    const signIns = events.filter((e) => e.action === 'sign_in');
+    const signOuts = events.filter((e) => e.action === 'sign_out');
+    return {
+      userId: person.id,
+      name: fullName(person.firstName, person.lastName),
+      phone: person.phone,
+      events,
+      firstSignIn: signIns[0]?.time ?? null,
+      lastSignOut: signOuts[signOuts.length - 1]?.time ?? null,
+      stillSignedIn: events.length > 0 && events[events.length - 1].action === 'sign_in',
+      bookings: dayBookings
+        .filter((b) => b.userId === person.id)
+        .map((b) => ({
+          id: b.id,
+          roomName: b.roomName,
+          startTime: hhmm(b.startTime),
+          endTime: hhmm(b.endTime),
+        })),
+    };
+  });
+  report.sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    date,
+    locationId: location.id,
+    locationName: location.name,
+    generatedAt: new Date(),
+    people: report,
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Admin management of locations and rooms.
+ * Locations and rooms with booking (or kiosk) history cannot be deleted because the foreign keys
+ * cascade; deactivate them instead, which stops new bookings but keeps history intact.
+ */
+
+import { z } from 'zod';
+import { db } from '../config/database';
+import { locations, rooms, bookings, kioskLogs } from '../db/schema';
+import { eq, and, asc, ne, count, inArray, sql } from 'drizzle-orm';
+import {
+  DuplicateLocationError,
+  InvalidLocationError,
+  LocationInUseError,
+  LocationNotFoundError,
+  RoomNotFoundError,
+} from '../errors/location.errors';
+import type { OpeningHours } from '../types';
+
+/** HH:MM time of day; 24:00 is allowed as the end of the day. */
+const HHMM_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+export const openingHoursEntrySchema = z.object({
+  weekday: z.number().int().min(0).max(6, 'weekday must be 0 (Sunday) to 6 (Saturday)'),
+  openTime: z.string().regex(HHMM_REGEX, 'openTime must be HH:MM'),
+  closeTime: z.string().regex(HHMM_REGEX, 'closeTime must be HH:MM'),
+});
+
+export const openingHoursSchema = z
+  .array(openingHoursEntrySchema)
+  .refine((entries) => entries.every((e) => e.openTime < e.closeTime), {
+    message: 'closeTime must be after openTime',
+  })
+  .refine((entries) => new Set(entries.map((e) => e.weekday)).size === entries.length, {
+    message: 'Each weekday may appear only once',
+  });
+
+export interface LocationInput {
+  name: string;
+  address?: string | null;
+  openingHours?: OpeningHours[] | null;
+  active?: boolean;
+}
+
+export interface RoomInput {
+  locationId: string;
+  name: string;
+  roomNumber: number;
+  capacity?: number | null;
+  amenities?: string[];
+  active?: boolean;
+}
+
+export interface LocationItem {
+  id: string;
+  name: string;
+  address: string | null;
+  openingHours: OpeningHours[] | null;
+  roomCount: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RoomItem {
+  id: string;
+  locationId: string;
+  locationName: string;
+  name: string;
+  roomNumber: number;
+  capacity: number | null;
+  amenities: string[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Parse stored opening hours; null when the location has none configured. */
+export function parseOpeningHours(value: unknown): OpeningHours[] | null {
+  if (value == null) return null;
+  const parsed = openingHoursSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+function toLocationItem(row: typeof locations.$inferSelect): LocationItem {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    openingHours: parseOpeningHours(row.openingHours),
+    roomCount: parseFloat(String(row.roomCount)),
+    active: row.active,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * List locations by name. Practitioner-facing callers pass activeOnly.
+ */
+export async function listLocations(
+  options: { activeOnly?: boolean } = {}
+): Promise<LocationItem[]> {
+  const rows = await db
+    .select()
+    .from(locations)
+    .where(options.activeOnly ? eq(locations.active, true) : undefined)
+    .orderBy(asc(locations.name));
+  return rows.map(toLocationItem);
+}
+
+/** Active location by name, or null. Used to validate ?location= query params. */
+export async function getActiveLocationByName(name: string): Promise<LocationItem | null> {
+  const [row] = await db
+    .select()
+    .from(locations)
+    .where(and(eq(locations.name, name), eq(locations.active, true)))
+    .limit(1);
+  return row ? toLocationItem(row) : null;
+}
+
+async function assertLocationNameFree(name: string, excludeId?: string): Promise<void> {
+  const conditions = [sql`lower(${locations.name}) = lower(${name})`];
+  if (excludeId) conditions.push(ne(locations.id, excludeId));
+  const [existing] = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(and(...conditions))
+    .limit(1);
+  if (existing) throw new DuplicateLocationError(`A location named ${name} already exists`);
+}
+
+export async function createLocation(input: LocationInput): Promise<string> {
+  await assertLocationNameFree(input.name);
+  const [row] = await db
+    .insert(locations)
+    .values({
+      name: input.name,
+      address: input.address ?? null,
+      openingHours: input.openingHours ?? null,
+      roomCount: '0',
+      active: input.active ?? true,
+    })
+    .returning({ id: locations.id });
+  return row.id;
+}
+
+export async function updateLocation(locationId: string, input: LocationInput): Promise<void> {
+  const [existing] = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.id, locationId))
+    .limit(1);
+  if (!existing) throw new LocationNotFoundError();
+  await assertLocationNameFree(input.name, locationId);
+  await db
+    .update(locations)
+    .set({
+      name: input.name,
+      address: input.address ?? null,
+      openingHours: input.openingHours ?? null,
+      ...(input.active !== undefined && { active: input.active }),
+      updatedAt: new Date(),
+    })
+    .where(eq(locations.id, locationId));
+}
+
+/**
+ * Delete a location that has never been booked or used by the kiosk.
+ */
+export async function deleteLocation(locationId: string): Promise<void> {
+  const [existing] = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.id, locationId))
+    .limit(1);
+  if (!existing) throw new LocationNotFoundError();
+
+  const roomIds = (
+    await db.select({ id: rooms.id }).from(rooms).where(eq(rooms.locationId, locationId))
+  ).map((r) => r.id);
+  if (roomIds.length > 0) {
+    const [bookingCount] = await db
+      .select({ count: count() })
+      .from(bookings)
+      .where(inArray(bookings.roomId, roomIds));
+    if ((bookingCount?.count ?? 0) > 0) throw new LocationInUseError();
+  }
+  const [kioskCount] = await db
+    .select({ count: count() })
+    .from(kioskLogs)
+    .where(eq(kioskLogs.locationId, locationId));
+  if ((kioskCount?.count ?? 0) > 0) throw new LocationInUseError();
+
+  await db.delete(locations).where(eq(locations.id, locationId));
+}
+
+/** Keep locations.roomCount in step with the number of active rooms. */
+async function refreshRoomCount(locationId: string): Promise<void> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(rooms)
+    .where(and(eq(rooms.locationId, locationId), eq(rooms.active, true)));
+  await db
+    .update(locations)
+    .set({ roomCount: String(row?.count ?? 0), updatedAt: new Date() })
+    .where(eq(locations.id, locationId));
+}
+
+/**
+ * List rooms (including inactive ones), optionally for a single location.
+ */
+export async function listRooms(filters: { locationId?: string } = {}): Promise<RoomItem[]> {
+  const rows = await db
+    .select({ room: rooms, locationName: locations.name })
+    .from(rooms)
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(filters.locationId ? eq(rooms.locationId, filters.locationId) : undefined)
+    .orderBy(asc(locations.name), asc(rooms.roomNumber));
+  return rows.map(({ room, locationName }) => ({
+    id: room.id,
+    locationId: room.locationId,
+    locationName,
+    name: room.name,
+    roomNumber: parseFloat(String(room.roomNumber)),
+    capacity: room.capacity,
+    amenities: Array.isArray(room.amenities) ? (room.amenities as string[]) : [],
+    active: room.active,
+    createdAt: room.createdAt,
+    updatedAt: room.updatedAt,
+  }));
+}
+
+async function assertRoomInputValid(input: RoomInput, excludeRoomId?: string): Promise<void> {
+  const [location] = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.id, input.locationId))
+    .limit(1);
+  if (!location) throw new InvalidLocationError('Location not found');
+
+  const conditions = [
+    eq(rooms.locationId, input.locationId),
+    eq(rooms.roomNumber, String(input.roomNumber)),
+  ];
+  if (excludeRoomId) conditions.push(ne(rooms.id, excludeRoomId));
+  const [clash] = await db
+    .select({ id: rooms.id })
+    .from(rooms)
+    .where(and(...conditions))
+    .limit(1);
+  if (clash) {
+    throw new DuplicateLocationError(
+      `Room number ${input.roomNumber} is already used at this location`
+    );
+  }
+}
+
+function toRoomRow(input: RoomInput) {
+  return {
+    locationId: input.locationId,
+    name: input.name,
+    roomNumber: String(input.roomNumber),
+    capacity: input.capacity ?? null,
+    amenities: input.amenities ?? [],
+  };
+}
+
+export async function createRoom(input: RoomInput): Promise<string> {
+  await assertRoomInputValid(input);
+  const [row] = await db
+    .insert(rooms)
+    .values({ ...toRoomRow(input), active: input.active ?? true })
+    .returning({ id: rooms.id });
+  await refreshRoomCount(input.locationId);
+  return row.id;
+}
+
+/**
+ * Update a room. Moving a room that already has bookings to another location is rejected,
+ * since the bookings were priced against the original location.
+ */
+export async function updateRoom(roomId: string, input: RoomInput): Promise<void> {
+  const [existing] = await db
+    .select({ id: rooms.id, locationId: rooms.locationId })
+    .from(rooms)
+    .where(eq(rooms.id, roomId))
+    .limit(1);
+  if (!existing) throw new RoomNotFoundError();
+  await assertRoomInputValid(input, roomId);
+  if (existing.locationId !== input.locationId && (await roomHasBookings(roomId))) {
+    throw new LocationInUseError('Cannot move a room with bookings to another location');
+  }
+  await db
+    .update(rooms)
+    .set({
+      ...toRoomRow(input),
+      ...(input.active !== undefined && { active: input.active }),
+      updatedAt: new Date(),
+    })
+    .where(eq(rooms.id, roomId));
+  await refreshRoomCount(input.locationId);
+  if (existing.locationId !== input.locationId) await refreshRoomCount(existing.locationId);
+}
+
+async function roomHasBookings(roomId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ count: count() })
+    .from(bookings)
+    .where(eq(bookings.roomId, roomId));
+  return (row?.count ?? 0) > 0;
+}
+
+/**
+ * Delete a room that has never been booked.
+ */
+export async function deleteRoom(roomId: string): Promise<void> {
+  const [existing] = await db
+    .select({ id: rooms.id, locationId: rooms.locationId })
+    .from(rooms)
+    .where(eq(rooms.id, roomId))
+    .limit(1);
+  if (!existing) throw new RoomNotFoundError();
+  if (await roomHasBookings(roomId)) throw new LocationInUseError();
+  await db.delete(rooms).where(eq(rooms.id, roomId));
+  await refreshRoomCount(existing.locationId);
+}
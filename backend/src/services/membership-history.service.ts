@@ -0,0 +1,104 @@
+/**
+ * Membership history: a row for every change of membership type or subscription plan, written by
+ * plan switches and admin edits, for the admin practitioner view.
+ */
+
+import { db } from '../config/database';
+import { membershipHistory, users } from '../db/schema';
+import { desc, eq } from 'drizzle-orm';
+import type { CreditTransactionClient } from './credit-transaction.service';
+
+type DbClient = typeof db | CreditTransactionClient;
+
+type MembershipType = 'permanent' | 'ad_hoc';
+type SubscriptionType = 'monthly' | 'ad_hoc';
+
+export interface MembershipChange {
+  userId: string;
+  source: 'plan_switch' | 'admin_edit';
+  fromType: MembershipType | null;
+  toType: MembershipType | null;
+  fromSubscriptionType?: SubscriptionType | null;
+  toSubscriptionType?: SubscriptionType | null;
+  /** GBP. */
+  amountCharged?: number;
+  /** GBP. */
+  creditCarried?: number;
+  /** Null when the change was made by the system (e.g. a webhook completing a switch). */
+  changedBy?: string | null;
+  note?: string;
+}
+
+export interface MembershipHistoryItem {
+  id: string;
+  source: 'plan_switch' | 'admin_edit';
+  fromType: MembershipType | null;
+  toType: MembershipType | null;
+  fromSubscriptionType: SubscriptionType | null;
+  toSubscriptionType: SubscriptionType | null;
+  amountCharged: number;
+  creditCarried: number;
+  changedByName: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+/**
+ * Record a membership change. Pass the caller's transaction to write it with the change itself.
+ * @returns The history row id.
+ */
+export async function recordMembershipChange(
+  change: MembershipChange,
+  client: DbClient = db
+): Promise<string> {
+  const [row] = await client
+    .insert(membershipHistory)
+    .values({
+      userId: change.userId,
+      source: change.source,
+      fromType: change.fromType,
+      toType: change.toType,
+      fromSubscriptionType: change.fromSubscriptionType ?? null,
+      toSubscriptionType: change.toSubscriptionType ?? null,
+      amountCharged: (change.amountCharged ?? 0).toFixed(2),
+      creditCarried: (change.creditCarried ?? 0).toFixed(2),
+      changedBy: change.changedBy ?? null,
+      note: change.note ?? null,
+    })
+    .returning({ id: membershipHistory.id });
+  return row.id;
+}
+
+/** Add a note to a recorded change, e.g. when a follow-up step failed after it was written. */
+export async function setMembershipChangeNote(id: string, note: string): Promise<void> {
+  await db.update(membershipHistory).set({ note }).where(eq(membershipHistory.id, id));
+}
+
+/** A practitioner's membership changes, most recent first. */
+export async function listMembershipHistory(userId: string): Promise<MembershipHistoryItem[]> {
+  const rows = await db
+    .select({
+      entry: membershipHistory,
+      changedByFirstName: users.firstName,
+      changedByLastName: users.lastName,
+    })
+    .from(membershipHistory)
+    .leftJoin(users, eq(membershipHistory.changedBy, users.id))
+    .where(eq(membershipHistory.userId, userId))
+    .orderBy(desc(membershipHistory.createdAt))
+    .limit(100);
+  return rows.map(({ entry, changedByFirstName, changedByLastName }) => ({
+    id: entry.id,
+    source: entry.source,
+    fromType: entry.fromType,
+    toType: entry.toType,
+    fromSubscriptionType: entry.fromSubscriptionType,
+    toSubscriptionType: entry.toSubscriptionType,
+    amountCharged: parseFloat(entry.amountCharged.toString()),
+    creditCarried: parseFloat(entry.creditCarried.toString()),
+    changedByName:
+      changedByFirstName != null ? `${changedByFirstName} ${changedByLastName}` : null,
+    note: entry.note,
+    createdAt: entry.createdAt.toISOString(),
+  }));
+}
@@ -0,0 +1,287 @@
+/**
+ * Opening hours and closure calendar.
+ * Each location has optional weekly opening hours (locations.opening_hours). Without any configured
+ * it is open 08:00–22:00 every day; with hours configured it is closed on weekdays not listed.
+ * Closures block a whole location, or a single room, for an inclusive date range.
+ * Used by booking validation, slot generation, the permanent-slot generator and admin occupancy.
+ */
+
+import { db } from '../config/database';
+import { locations, rooms, locationClosures } from '../db/schema';
+import { eq, and, asc, gte, lte, isNull, or, SQL } from 'drizzle-orm';
+import {
+  InvalidLocationError,
+  ClosureNotFoundError,
+  RoomNotFoundError,
+} from '../errors/location.errors';
+import { parseOpeningHours } from './location.service';
+import { addDaysToDateString } from '../utils/date.util';
+import type { CreditTransactionClient } from './credit-transaction.service';
+import type { OpeningHours } from '../types';
+
+type DbClient = typeof db | CreditTransactionClient;
+
+export interface OpeningWindow {
+  openTime: string; // HH:MM
+  closeTime: string; // HH:MM
+}
+
+/** Window used by locations that have no opening hours configured. */
+export const DEFAULT_OPENING_WINDOW: OpeningWindow = { openTime: '08:00', closeTime: '22:00' };
+
+export type RoomDayStatus =
+  | ({ open: true } & OpeningWindow)
+  | { open: false; reason: string };
+
+export interface ClosureInput {
+  locationId: string;
+  roomId?: string | null;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+export interface ClosureItem {
+  id: string;
+  locationId: string;
+  locationName: string;
+  roomId: string | null;
+  roomName: string | null;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  createdAt: Date;
+}
+
+/** Weekday (0 = Sunday) of a YYYY-MM-DD calendar date. */
+function weekdayOf(date: string): number {
+  return new Date(date + 'T12:00:00Z').getUTCDay();
+}
+
+function hhmm(time: string): string {
+  return time.trim().slice(0, 5);
+}
+
+function hoursBetween(openTime: string, closeTime: string): number {
+  const [oh, om] = openTime.split(':').map(Number);
+  const [ch, cm] = closeTime.split(':').map(Number);
+  return Math.max(0, (ch * 60 + cm - (oh * 60 + om)) / 60);
+}
+
+/**
+ * Opening window for a date given a location's weekly hours, or null when closed that weekday.
+ */
+export function openingWindowForDate(
+  openingHours: OpeningHours[] | null,
+  date: string
+): OpeningWindow | null {
+  if (!openingHours) return DEFAULT_OPENING_WINDOW;
+  const entry = openingHours.find((h) => h.weekday === weekdayOf(date));
+  return entry ? { openTime: entry.openTime, closeTime: entry.closeTime } : null;
+}
+
+/**
+ * Whether a room can be booked on a date, and between which times.
+ * @throws {RoomNotFoundError} Room not found.
+ */
+export async function getRoomDayStatus(
+  roomId: string,
+  date: string,
+  client: DbClient = db
+): Promise<RoomDayStatus> {
+  const [row] = await client
+    .select({ locationId: rooms.locationId, openingHours: locations.openingHours })
+    .from(rooms)
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(eq(rooms.id, roomId))
+    .limit(1);
+  if (!row) throw new RoomNotFoundError();
+
+  const [closure] = await client
+    .select({ roomId: locationClosures.roomId, reason: locationClosures.reason })
+    .from(locationClosures)
+    .where(
+      and(
+        eq(locationClosures.locationId, row.locationId),
+        or(isNull(locationClosures.roomId), eq(locationClosures.roomId, roomId)),
+        lte(locationClosures.startDate, date),
+        gte(locationClosures.endDate, date)
+      )
+    )
+    .limit(1);
+  if (closure) {
+    return {
+      open: false,
+      reason: closure.roomId
+        ? `Room is out of service on this date (${closure.reason})`
+        : `Location is closed on this date (${closure.reason})`,
+    };
+  }
+
+  const window = openingWindowForDate(parseOpeningHours(row.openingHours), date);
+  if (!window) return { open: false, reason: 'Location is closed on this day of the week' };
+  return { open: true, ...window };
+}
+
+/**
+ * Check a booking span against the room's opening hours and closures.
+ * @returns An error message, or null when the span is within opening hours.
+ */
+export async function checkOpeningHours(
+  roomId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  client: DbClient = db
+): Promise<string | null> {
+  const status = await getRoomDayStatus(roomId, date, client);
+  if (!status.open) return status.reason;
+  if (hhmm(startTime) < status.openTime || hhmm(endTime) > status.closeTime) {
+    return `Bookings on this day must be between ${status.openTime} and ${status.closeTime}`;
+  }
+  return null;
+}
+
+/**
+ * Bookable room-hours for a location on each day of an inclusive date range (YYYY-MM-DD keys):
+ * opening hours for each active room, 0 on days the location is closed; rooms out of service that
+ * day are left out.
+ */
+export async function getDailyCapacityHours(
+  locationId: string,
+  fromDate: string,
+  toDate: string
+): Promise<Record<string, number>> {
+  const daily: Record<string, number> = {};
+  for (let date = fromDate; date <= toDate; date = addDaysToDateString(date, 1)) daily[date] = 0;
+
+  const [location] = await db
+    .select({ openingHours: locations.openingHours })
+    .from(locations)
+    .where(eq(locations.id, locationId))
+    .limit(1);
+  if (!location) return daily;
+  const openingHours = parseOpeningHours(location.openingHours);
+
+  const roomIds = (
+    await db
+      .select({ id: rooms.id })
+      .from(rooms)
+      .where(and(eq(rooms.locationId, locationId), eq(rooms.active, true)))
+  ).map((r) => r.id);
+  if (roomIds.length === 0) return daily;
+
+  const closures = await db
+    .select({
+      roomId: locationClosures.roomId,
+      startDate: locationClosures.startDate,
+      endDate: locationClosures.endDate,
+    })
+    .from(locationClosures)
+    .where(
+      and(
+        eq(locationClosures.locationId, locationId),
+        lte(locationClosures.startDate, toDate),
+        gte(locationClosures.endDate, fromDate)
+      )
+    );
+
+  for (const date of Object.keys(daily)) {
+    const window = openingWindowForDate(openingHours, date);
+    if (!window) continue;
+    const closedToday = closures.filter(
+      (c) => String(c.startDate) <= date && String(c.endDate) >= date
+    );
+    if (closedToday.some((c) => c.roomId === null)) continue;
+    const openRooms = roomIds.filter((id) => !closedToday.some((c) => c.roomId === id)).length;
+    daily[date] = openRooms * hoursBetween(window.openTime, window.closeTime);
+  }
+  return daily;
+}
+
+/**
+ * Bookable room-hours for a location over an inclusive date range (see getDailyCapacityHours).
+ * Used as occupancy capacity.
+ */
+export async function getCapacityHours(
+  locationId: string,
+  fromDate: string,
+  toDate: string
+): Promise<number> {
+  const daily = await getDailyCapacityHours(locationId, fromDate, toDate);
+  return Object.values(daily).reduce((sum, hours) => sum + hours, 0);
+}
+
+/**
+ * List closures, optionally for one location and/or overlapping a date range.
+ */
+export async function listClosures(
+  filters: { locationId?: string; fromDate?: string; toDate?: string } = {}
+): Promise<ClosureItem[]> {
+  const conditions: SQL[] = [];
+  if (filters.locationId) conditions.push(eq(locationClosures.locationId, filters.locationId));
+  if (filters.fromDate) conditions.push(gte(locationClosures.endDate, filters.fromDate));
+  if (filters.toDate) conditions.push(lte(locationClosures.startDate, filters.toDate));
+  const rows = await db
+    .select({ closure: locationClosures, locationName: locations.name, roomName: rooms.name })
+    .from(locationClosures)
+    .innerJoin(locations, eq(locationClosures.locationId, locations.id))
+    .leftJoin(rooms, eq(locationClosures.roomId, rooms.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(locationClosures.startDate), asc(locations.name));
+  return rows.map(({ closure, locationName, roomName }) => ({
+    id: closure.id,
+    locationId: closure.locationId,
+    locationName,
+    roomId: closure.roomId,
+    roomName: roomName ?? null,
+    startDate: String(closure.startDate),
+    endDate: String(closure.endDate),
+    reason: closure.reason,
+    createdAt: closure.createdAt,
+  }));
+}
+
+/**
+ * Add a closure. Existing bookings in the range are not cancelled; they are returned by the admin
+ * calendar as usual so the team can move or cancel them.
+ */
+export async function createClosure(input: ClosureInput, createdBy: string): Promise<string> {
+  if (input.endDate < input.startDate) {
+    throw new InvalidLocationError('endDate must be on or after startDate');
+  }
+  const [location] = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.id, input.locationId))
+    .limit(1);
+  if (!location) throw new InvalidLocationError('Location not found');
+  if (input.roomId) {
+    const [room] = await db
+      .select({ id: rooms.id })
+      .from(rooms)
+      .where(and(eq(rooms.id, input.roomId), eq(rooms.locationId, input.locationId)))
+      .limit(1);
+    if (!room) throw new InvalidLocationError('Room not found at this location');
+  }
+  const [row] = await db
+    .insert(locationClosures)
+    .values({
+      locationId: input.locationId,
+      roomId: input.roomId ?? null,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      reason: input.reason,
+      createdBy,
+    })
+    .returning({ id: locationClosures.id });
+  return row.id;
+}
+
+export async function deleteClosure(closureId: string): Promise<void> {
+  const deleted = await db
+    .delete(locationClosures)
+    .where(eq(locationClosures.id, closureId))
+    .returning({ id: locationClosures.id });
+  if (deleted.length === 0) throw new ClosureNotFoundError();
+}
@@ -0,0 +1,275 @@
+/**
+ * Pay-the-difference payments whose booking could not be made after the money was taken (slot
+ * taken since checkout, booking rules no longer met, membership suspended).
+ * The payment is returned the way the practitioner prefers (refunded to the card or kept as
+ * credit), they are emailed, and an incident is recorded so admins can see what happened and
+ * retry a card refund Stripe rejected.
+ */
+
+import { db } from '../config/database';
+import { paymentIncidents, users, rooms, locations } from '../db/schema';
+import { eq, desc, inArray } from 'drizzle-orm';
+import * as StripePaymentService from './stripe-payment.service';
+import * as CreditTransactionService from './credit-transaction.service';
+import { emailService } from './email.service';
+import { formatTimeForEmail } from '../utils/date.util';
+import { logger } from '../utils/logger.util';
+import {
+  PaymentIncidentNotFoundError,
+  PaymentIncidentStateError,
+} from '../errors/payment-incident.errors';
+
+export type PaymentIncident = typeof paymentIncidents.$inferSelect;
+
+export interface UnbookedSlot {
+  roomId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string;
+  endTime: string;
+}
+
+/** Slot as stored on the incident, with names so it still reads after rooms are renamed. */
+export interface IncidentSlot extends UnbookedSlot {
+  roomName: string;
+  locationName: string;
+}
+
+export interface UnbookedPaymentInput {
+  userId: string;
+  paymentIntentId: string;
+  /** PaymentIntent metadata type, e.g. pay_the_difference or pay_the_difference_batch. */
+  paymentType: string;
+  amountPence: number;
+  reason: string;
+  slots: UnbookedSlot[];
+}
+
+export interface PaymentIncidentListItem extends Omit<PaymentIncident, 'slots'> {
+  slots: IncidentSlot[];
+  practitionerName: string;
+  practitionerEmail: string;
+}
+
+async function withRoomNames(slots: UnbookedSlot[]): Promise<IncidentSlot[]> {
+  const roomIds = [...new Set(slots.map((s) => s.roomId))];
+  const rows = roomIds.length
+    ? await db
+        .select({ id: rooms.id, roomName: rooms.name, locationName: locations.name })
+        .from(rooms)
+        .innerJoin(locations, eq(rooms.locationId, locations.id))
+        .where(inArray(rooms.id, roomIds))
+    : [];
+  return slots.map((s) => {
+    const room = rows.find((r) => r.id === s.roomId);
+    return {
+      ...s,
+      startTime: formatTimeForEmail(s.startTime),
+      endTime: formatTimeForEmail(s.endTime),
+      roomName: room?.roomName ?? 'Unknown room',
+      locationName: room?.locationName ?? '',
+    };
+  });
+}
+
+/** Last day of the current UTC month, when pay-the-difference credit expires. */
+function endOfCurrentMonth(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0))
+    .toISOString()
+    .split('T')[0];
+}
+
+/**
+ * Refund the incident's payment to the card. The idempotency key changes after each attempt so
+ * an admin retry asks Stripe again rather than replaying the rejected refund.
+ */
+async function refundToCard(incident: PaymentIncident): Promise<PaymentIncident> {
+  let resolution: 'refunded' | 'refund_failed';
+  let stripeRefundId: string | null = null;
+  try {
+    const refund = await StripePaymentService.refundPayment({
+      paymentIntentId: incident.stripePaymentIntentId,
+      metadata: { paymentIncidentId: incident.id, userId: incident.userId },
+      idempotencyKey: `payment-incident-refund-${incident.id}-${incident.updatedAt.getTime()}`,
+    });
+    stripeRefundId = refund.id;
+    resolution =
+      refund.status === 'failed' || refund.status === 'canceled' ? 'refund_failed' : 'refunded';
+  } catch (err) {
+    logger.error(
+      'Refund of unbooked pay-the-difference payment failed',
+      err instanceof Error ? err : new Error(String(err)),
+      { paymentIncidentId: incident.id, paymentIntentId: incident.stripePaymentIntentId }
+    );
+    resolution = 'refund_failed';
+  }
+  const now = new Date();
+  const [updated] = await db
+    .update(paymentIncidents)
+    .set({
+      resolution,
+      stripeRefundId,
+      resolvedAt: resolution === 'refunded' ? now : null,
+      updatedAt: now,
+    })
+    .where(eq(paymentIncidents.id, incident.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Keep the payment as credit. The incident row is locked and must still be pending, so two
+ * concurrent resolutions cannot both grant it. Returns null when another one got there first.
+ */
+async function keepAsCredit(incident: PaymentIncident): Promise<PaymentIncident | null> {
+  return db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(paymentIncidents)
+      .where(eq(paymentIncidents.id, incident.id))
+      .limit(1)
+      .for('update');
+    if (!locked || locked.resolution !== 'pending') return null;
+
+    const creditTransactionId = await CreditTransactionService.grantCreditsWithinTransaction(
+      tx,
+      locked.userId,
+      parseFloat(String(locked.amount)),
+      endOfCurrentMonth(),
+      'pay_difference',
+      locked.id,
+      'Payment kept as credit: booking could not be made'
+    );
+    const now = new Date();
+    const [updated] = await tx
+      .update(paymentIncidents)
+      .set({ resolution: 'credited', creditTransactionId, resolvedAt: now, updatedAt: now })
+      .where(eq(paymentIncidents.id, locked.id))
+      .returning();
+    return updated;
+  });
+}
+
+async function notifyPractitioner(incident: PaymentIncident): Promise<void> {
+  const [user] = await db
+    .select({ email: users.email, firstName: users.firstName })
+    .from(users)
+    .where(eq(users.id, incident.userId))
+    .limit(1);
+  if (!user) return;
+  await emailService.sendUnbookedPaymentNotice({
+    firstName: user.firstName,
+    email: user.email,
+    amount: parseFloat(String(incident.amount)).toFixed(2),
+    outcome: incident.resolution === 'pending' ? 'refund_failed' : incident.resolution,
+    slots: incident.slots as IncidentSlot[],
+  });
+}
+
+/**
+ * Return a payment whose booking could not be made: record the incident, refund it to the card
+ * or keep it as credit (the practitioner's refund preference), and email the practitioner.
+ * Idempotent per PaymentIntent, so webhook retries do not refund twice.
+ */
+export async function resolveUnbookedPayment(
+  input: UnbookedPaymentInput
+): Promise<PaymentIncident> {
+  await db
+    .insert(paymentIncidents)
+    .values({
+      userId: input.userId,
+      stripePaymentIntentId: input.paymentIntentId,
+      paymentType: input.paymentType,
+      amount: (input.amountPence / 100).toFixed(2),
+      reason: input.reason,
+      slots: await withRoomNames(input.slots),
+    })
+    .onConflictDoNothing({ target: paymentIncidents.stripePaymentIntentId });
+  const [incident] = await db
+    .select()
+    .from(paymentIncidents)
+    .where(eq(paymentIncidents.stripePaymentIntentId, input.paymentIntentId))
+    .limit(1);
+  if (incident.resolution !== 'pending') return incident;
+
+  const [user] = await db
+    .select({ refundPreference: users.refundPreference })
+    .from(users)
+    .where(eq(users.id, incident.userId))
+    .limit(1);
+  const resolved =
+    user?.refundPreference === 'credit'
+      ? await keepAsCredit(incident)
+      : await refundToCard(incident);
+  if (!resolved) {
+    const [current] = await db
+      .select()
+      .from(paymentIncidents)
+      .where(eq(paymentIncidents.id, incident.id))
+      .limit(1);
+    return current;
+  }
+
+  logger.warn('Unbooked pay-the-difference payment returned', {
+    paymentIncidentId: resolved.id,
+    userId: resolved.userId,
+    paymentIntentId: resolved.stripePaymentIntentId,
+    resolution: resolved.resolution,
+    reason: resolved.reason,
+  });
+  notifyPractitioner(resolved).catch((err) =>
+    logger.error('Failed to send unbooked payment email', err, {
+      paymentIncidentId: resolved.id,
+    })
+  );
+  return resolved;
+}
+
+/**
+ * Most recent incidents first, with the practitioner's name and email (admin).
+ */
+export async function listIncidents(limit = 100): Promise<PaymentIncidentListItem[]> {
+  const rows = await db
+    .select({
+      incident: paymentIncidents,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+    })
+    .from(paymentIncidents)
+    .innerJoin(users, eq(paymentIncidents.userId, users.id))
+    .orderBy(desc(paymentIncidents.createdAt))
+    .limit(limit);
+  return rows.map((r) => ({
+    ...r.incident,
+    slots: r.incident.slots as IncidentSlot[],
+    practitionerName: `${r.firstName} ${r.lastName}`.trim(),
+    practitionerEmail: r.email,
+  }));
+}
+
+/**
+ * Ask Stripe again for a card refund it rejected (admin).
+ * @throws {PaymentIncidentNotFoundError} Unknown incident.
+ * @throws {PaymentIncidentStateError} The incident is not a failed refund.
+ */
+export async function retryRefund(incidentId: string): Promise<PaymentIncident> {
+  const [incident] = await db
+    .select()
+    .from(paymentIncidents)
+    .where(eq(paymentIncidents.id, incidentId))
+    .limit(1);
+  if (!incident) throw new PaymentIncidentNotFoundError();
+  if (incident.resolution !== 'refund_failed') {
+    throw new PaymentIncidentStateError('Only failed refunds can be retried');
+  }
+  const resolved = await refundToCard(incident);
+  if (resolved.resolution === 'refunded') {
+    notifyPractitioner(resolved).catch((err) =>
+      logger.error('Failed to send unbooked payment email', err, {
+        paymentIncidentId: resolved.id,
+      })
+    );
+  }
+  return resolved;
+}
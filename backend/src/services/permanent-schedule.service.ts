@@ -0,0 +1,595 @@
+/**
+ * Permanent schedule service: weekly slots held by permanent members (memberships.permanentSchedule)
+ * and the recurrence generator that materialises them as permanent_recurring bookings.
+ * Occurrences that cannot be booked are recorded in recurring_booking_conflicts for admins.
+ */
+
+import { z } from 'zod';
+import { db } from '../config/database';
+import {
+  bookings,
+  memberships,
+  recurringBookingConflicts,
+  rooms,
+  locations,
+  users,
+} from '../db/schema';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { addDaysUtcString, formatTimeForDisplay, formatTimeForEmail } from '../utils/date.util';
+import * as PricingService from './pricing.service';
+import * as OpeningHoursService from './opening-hours.service';
+import * as BookingEventService from './booking-event.service';
+import * as CalendarEventsService from './calendar-events.service';
+import * as SlotHoldService from './slot-hold.service';
+import { emailService } from './email.service';
+import { logger } from '../utils/logger.util';
+import { isExclusionViolation, BOOKING_OVERLAP_CONSTRAINT } from '../utils/db-error.util';
+import { BookingNotFoundError, BookingValidationError } from '../errors/booking.errors';
+import { MembershipNotFoundError } from '../errors/subscription.errors';
+import type { PermanentSchedule } from '../types';
+
+/** Fixed hours for each permanent slot band (matches the pricing bands). */
+export const PERMANENT_SLOT_TIMES: Record<
+  PermanentSchedule['slot'],
+  { startTime: string; endTime: string }
+> = {
+  morning: { startTime: '08:00:00', endTime: '15:00:00' },
+  afternoon: { startTime: '15:00:00', endTime: '22:00:00' },
+};
+
+/** How many weeks ahead the generator keeps permanent bookings materialised. */
+export const PERMANENT_BOOKING_WEEKS_AHEAD = ((): number => {
+  const raw = process.env.PERMANENT_BOOKING_WEEKS_AHEAD;
+  if (raw === undefined || raw === '') return 8;
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : 8;
+})();
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const permanentScheduleEntrySchema = z.object({
+  weekday: z.number().int().min(0, 'weekday must be 0-6').max(6, 'weekday must be 0-6'),
+  slot: z.enum(['morning', 'afternoon']),
+  roomId: z.string().uuid('roomId must be a UUID'),
+});
+
+export const permanentScheduleSchema = z.array(permanentScheduleEntrySchema);
+
+/**
+ * Parse the jsonb permanentSchedule column: null is no schedule, and a lone entry object is read
+ * as a one-entry schedule. Invalid data is logged and treated as an empty schedule so one bad row cannot stop the generator.
+ */
+export function parsePermanentSchedule(raw: unknown, membershipId?: string): PermanentSchedule[] {
+  if (raw == null) return [];
+  const entries = Array.isArray(raw) ? raw : [raw];
+  const parsed = permanentScheduleSchema.safeParse(entries);
+  if (!parsed.success) {
+    logger.warn('Invalid permanentSchedule on membership, ignoring', {
+      membershipId,
+      issues: parsed.error.errors.map((e) => e.message),
+    });
+    return [];
+  }
+  return parsed.data;
+}
+
+/**
+ * Replace a permanent member's weekly schedule. Rooms must exist and be active, and the same
+ * weekday/slot cannot be held twice.
+ */
+export async function setPermanentSchedule(
+  userId: string,
+  schedule: PermanentSchedule[]
+): Promise<PermanentSchedule[]> {
+  const [membership] = await db
+    .select({ id: memberships.id, type: memberships.type })
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+  if (!membership) throw new MembershipNotFoundError();
+  if (membership.type !== 'permanent' && schedule.length > 0) {
+    throw new BookingValidationError('Only permanent members can hold a permanent schedule');
+  }
+
+  const seen = new Set<string>();
+  for (const entry of schedule) {
+    const key = `${entry.weekday}|${entry.slot}`;
+    if (seen.has(key)) {
+      throw new BookingValidationError(
+        `Duplicate permanent slot: ${DAY_NAMES[entry.weekday]} ${entry.slot}`
+      );
+    }
+    seen.add(key);
+  }
+
+  const roomIds = Array.from(new Set(schedule.map((e) => e.roomId)));
+  if (roomIds.length > 0) {
+    const roomRows = await db
+      .select({ id: rooms.id, active: rooms.active })
+      .from(rooms)
+      .where(inArray(rooms.id, roomIds));
+    const byId = new Map(roomRows.map((r) => [r.id, r]));
+    for (const roomId of roomIds) {
+      const room = byId.get(roomId);
+      if (!room) throw new BookingNotFoundError(`Room not found: ${roomId}`);
+      if (!room.active) throw new BookingValidationError(`Room is not active: ${roomId}`);
+    }
+  }
+
+  await db
+    .update(memberships)
+    .set({
+      permanentSchedule: schedule.length > 0 ? schedule : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(memberships.id, membership.id));
+  return schedule;
+}
+
+export interface PermanentSlot {
+  dayOfWeek: string;
+  roomName: string;
+  locationName: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Get the permanent (recurring) slots for a user from memberships.permanentSchedule.
+ */
+export async function getPermanentSlotsForUser(userId: string): Promise<PermanentSlot[]> {
+  const [membership] = await db
+    .select({ id: memberships.id, permanentSchedule: memberships.permanentSchedule })
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+  const schedule = parsePermanentSchedule(membership?.permanentSchedule, membership?.id);
+  if (schedule.length === 0) return [];
+
+  const roomRows = await db
+    .select({ id: rooms.id, roomName: rooms.name, locationName: locations.name })
+    .from(rooms)
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(inArray(rooms.id, schedule.map((e) => e.roomId)));
+  const roomById = new Map(roomRows.map((r) => [r.id, r]));
+
+  const slots: PermanentSlot[] = [];
+  for (const entry of schedule) {
+    const room = roomById.get(entry.roomId);
+    if (!room) continue;
+    const times = PERMANENT_SLOT_TIMES[entry.slot];
+    slots.push({
+      dayOfWeek: DAY_NAMES[entry.weekday],
+      roomName: room.roomName,
+      locationName: room.locationName,
+      startTime: formatTimeForDisplay(times.startTime),
+      endTime: formatTimeForDisplay(times.endTime),
+    });
+  }
+  return slots.sort((a, b) => {
+    const dayOrder = DAY_NAMES.indexOf(a.dayOfWeek) - DAY_NAMES.indexOf(b.dayOfWeek);
+    if (dayOrder !== 0) return dayOrder;
+    return a.roomName.localeCompare(b.roomName) || a.locationName.localeCompare(b.locationName);
+  });
+}
+
+type OccurrenceOutcome =
+  | { status: 'created'; bookingId: string }
+  | { status: 'exists' }
+  | { status: 'conflict'; conflictId: string | null; reason: string };
+
+interface Occurrence {
+  membershipId: string;
+  userId: string;
+  roomId: string;
+  roomActive: boolean;
+  locationName: PricingService.LocationName;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Record a conflict for an occurrence. Returns the new conflict id, or null when the same
+ * occurrence was already recorded on an earlier run (so admins are only notified once).
+ */
+async function recordConflict(
+  occurrence: Occurrence,
+  reason: string,
+  conflictingBookingId: string | null
+): Promise<string | null> {
+  const [row] = await db
+    .insert(recurringBookingConflicts)
+    .values({
+      membershipId: occurrence.membershipId,
+      userId: occurrence.userId,
+      roomId: occurrence.roomId,
+      bookingDate: occurrence.bookingDate,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      reason,
+      conflictingBookingId,
+    })
+    .onConflictDoNothing()
+    .returning({ id: recurringBookingConflicts.id });
+  return row?.id ?? null;
+}
+
+/**
+ * Book one occurrence of a permanent slot. An existing permanent_recurring booking for the same
+ * occurrence (in any status) counts as materialised, so occurrences the practitioner cancelled
+ * are not recreated.
+ */
+async function materialiseOccurrence(occurrence: Occurrence): Promise<OccurrenceOutcome> {
+  const outcome = await db.transaction(async (tx) => {
+    const [existing] = await tx
+      .select({ id: bookings.id })
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.userId, occurrence.userId),
+          eq(bookings.roomId, occurrence.roomId),
+          eq(bookings.bookingDate, occurrence.bookingDate),
+          eq(bookings.startTime, occurrence.startTime),
+          eq(bookings.bookingType, 'permanent_recurring')
+        )
+      )
+      .limit(1);
+    if (existing) return { status: 'exists' } as const;
+
+    if (!occurrence.roomActive) {
+      return { status: 'conflict', reason: 'Room is not active', conflictingBookingId: null } as const;
+    }
+
+    const hoursError = await OpeningHoursService.checkOpeningHours(
+      occurrence.roomId,
+      occurrence.bookingDate,
+      occurrence.startTime,
+      occurrence.endTime,
+      tx
+    );
+    if (hoursError) {
+      return { status: 'conflict', reason: hoursError, conflictingBookingId: null } as const;
+    }
+
+    // Lock the room as placeHolds does, so a checkout or waitlist offer cannot hold the slot
+    // between the hold check and the insert.
+    await tx
+      .select({ id: rooms.id })
+      .from(rooms)
+      .where(eq(rooms.id, occurrence.roomId))
+      .for('update');
+    const held = await SlotHoldService.hasConflictingHold(
+      occurrence.roomId,
+      occurrence.bookingDate,
+      occurrence.startTime,
+      occurrence.endTime,
+      occurrence.userId,
+      tx
+    );
+    if (held) {
+      return {
+        status: 'conflict',
+        reason: "Slot is held for another practitioner's checkout or waitlist offer",
+        conflictingBookingId: null,
+      } as const;
+    }
+
+    const [overlapping] = await tx
+      .select({ id: bookings.id })
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.roomId, occurrence.roomId),
+          eq(bookings.bookingDate, occurrence.bookingDate),
+          eq(bookings.status, 'confirmed'),
+          sql`${bookings.startTime} < ${occurrence.endTime}::time AND ${bookings.endTime} > ${occurrence.startTime}::time`
+        )
+      )
+      .limit(1);
+    if (overlapping) {
+      return {
+        status: 'conflict',
+        reason: 'Room already booked for this slot',
+        conflictingBookingId: overlapping.id,
+      } as const;
+    }
+
+    const totalPrice = await PricingService.calculateTotalPrice(
+      occurrence.locationName,
+      new Date(occurrence.bookingDate + 'T12:00:00Z'),
+      occurrence.startTime,
+      occurrence.endTime,
+      { roomId: occurrence.roomId, client: tx }
+    );
+    const [startH, startM] = occurrence.startTime.split(':').map(Number);
+    const [endH, endM] = occurrence.endTime.split(':').map(Number);
+    const durationHours = (endH * 60 + endM - (startH * 60 + startM)) / 60;
+
+    // Permanent slots are covered by the membership fee, so no credits are drawn.
+    const [created] = await tx
+      .insert(bookings)
+      .values({
+        userId: occurrence.userId,
+        roomId: occurrence.roomId,
+        membershipId: occurrence.membershipId,
+        bookingDate: occurrence.bookingDate,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        pricePerHour: (totalPrice / durationHours).toFixed(2),
+        totalPrice: totalPrice.toFixed(2),
+        creditUsed: '0.00',
+        voucherHoursUsed: '0.00',
+        status: 'confirmed',
+        bookingType: 'permanent_recurring',
+      })
+      .returning();
+    await BookingEventService.recordBookingEvent(tx, {
+      bookingId: created.id,
+      actorUserId: null,
+      eventType: 'created',
+      before: null,
+      after: BookingEventService.snapshotBooking(created),
+      creditDelta: 0,
+    });
+
+    await tx
+      .update(recurringBookingConflicts)
+      .set({ resolvedAt: new Date() })
+      .where(
+        and(
+          eq(recurringBookingConflicts.membershipId, occurrence.membershipId),
+          eq(recurringBookingConflicts.roomId, occurrence.roomId),
+          eq(recurringBookingConflicts.bookingDate, occurrence.bookingDate),
+          eq(recurringBookingConflicts.startTime, occurrence.startTime),
+          isNull(recurringBookingConflicts.resolvedAt)
+        )
+      );
+
+    return { status: 'created', bookingId: created.id } as const;
+  }).catch((err: unknown) => {
+    // A concurrent booking took the slot after the overlap check above.
+    if (!isExclusionViolation(err, BOOKING_OVERLAP_CONSTRAINT)) throw err;
+    return {
+      status: 'conflict',
+      reason: 'Room already booked for this slot',
+      conflictingBookingId: null,
+    } as const;
+  });
+
+  if (outcome.status === 'conflict') {
+    const conflictId = await recordConflict(
+      occurrence,
+      outcome.reason,
+      outcome.conflictingBookingId
+    );
+    return { status: 'conflict', conflictId, reason: outcome.reason };
+  }
+  if (outcome.status === 'created') {
+    CalendarEventsService.publishBookingChange('created', outcome.bookingId, [
+      { roomId: occurrence.roomId, date: occurrence.bookingDate },
+    ]);
+  }
+  return outcome;
+}
+
+/**
+ * List dates (YYYY-MM-DD) from tomorrow through the rolling window that fall on the given weekday.
+ */
+function datesForWeekday(weekday: number, weeksAhead: number): string[] {
+  const dates: string[] = [];
+  for (let offset = 1; offset <= weeksAhead * 7; offset++) {
+    const dateStr = addDaysUtcString(offset);
+    if (new Date(dateStr + 'T12:00:00Z').getUTCDay() === weekday) dates.push(dateStr);
+  }
+  return dates;
+}
+
+export interface GeneratePermanentBookingsResult {
+  created: number;
+  existing: number;
+  conflicts: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Materialise permanent_recurring bookings for every active permanent member's schedule over the
+ * next `weeksAhead` weeks. Occurrences that cannot be booked (room inactive, taken or held) are
+ * recorded as conflicts and newly found conflicts are emailed to the admin in one digest.
+ */
+export async function generatePermanentBookings(
+  weeksAhead: number = PERMANENT_BOOKING_WEEKS_AHEAD
+): Promise<GeneratePermanentBookingsResult> {
+  const membershipRows = await db
+    .select({
+      membershipId: memberships.id,
+      userId: memberships.userId,
+      permanentSchedule: memberships.permanentSchedule,
+      firstName: users.firstName,
+      lastName: users.lastName,
+    })
+    .from(memberships)
+    .innerJoin(users, eq(memberships.userId, users.id))
+    .where(
+      and(
+        eq(memberships.type, 'permanent'),
+        eq(users.status, 'active'),
+        isNull(users.deletedAt),
+        sql`${memberships.permanentSchedule} IS NOT NULL`
+      )
+    );
+
+  const schedules = membershipRows.map((m) => ({
+    ...m,
+    schedule: parsePermanentSchedule(m.permanentSchedule, m.membershipId),
+  }));
+  const roomIds = Array.from(
+    new Set(schedules.flatMap((m) => m.schedule.map((entry) => entry.roomId)))
+  );
+  const result: GeneratePermanentBookingsResult = {
+    created: 0,
+    existing: 0,
+    conflicts: 0,
+    failed: 0,
+    total: 0,
+  };
+  if (roomIds.length === 0) return result;
+
+  const roomRows = await db
+    .select({
+      id: rooms.id,
+      name: rooms.name,
+      active: rooms.active,
+      locationName: locations.name,
+    })
+    .from(rooms)
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(inArray(rooms.id, roomIds));
+  const roomById = new Map(roomRows.map((r) => [r.id, r]));
+
+  const newConflicts: Array<{
+    practitionerName: string;
+    roomName: string;
+    locationName: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    reason: string;
+  }> = [];
+
+  for (const membership of schedules) {
+    for (const entry of membership.schedule) {
+      const room = roomById.get(entry.roomId);
+      if (!room) {
+        logger.warn('Permanent schedule references unknown room', {
+          membershipId: membership.membershipId,
+          roomId: entry.roomId,
+        });
+        continue;
+      }
+      const times = PERMANENT_SLOT_TIMES[entry.slot];
+      for (const bookingDate of datesForWeekday(entry.weekday, weeksAhead)) {
+        result.total++;
+        const occurrence: Occurrence = {
+          membershipId: membership.membershipId,
+          userId: membership.userId,
+          roomId: room.id,
+          roomActive: room.active,
+          locationName: room.locationName,
+          bookingDate,
+          startTime: times.startTime,
+          endTime: times.endTime,
+        };
+        try {
+          const outcome = await materialiseOccurrence(occurrence);
+          if (outcome.status === 'created') {
+            result.created++;
+          } else if (outcome.status === 'exists') {
+            result.existing++;
+          } else {
+            result.conflicts++;
+            if (outcome.conflictId) {
+              newConflicts.push({
+                practitionerName: `${membership.firstName} ${membership.lastName}`,
+                roomName: room.name,
+                locationName: room.locationName,
+                bookingDate,
+                startTime: formatTimeForEmail(times.startTime),
+                endTime: formatTimeForEmail(times.endTime),
+                reason: outcome.reason,
+              });
+            }
+          }
+        } catch (error) {
+          result.failed++;
+          logger.error('Failed to materialise permanent booking', error, {
+            membershipId: membership.membershipId,
+            userId: membership.userId,
+            roomId: room.id,
+            bookingDate,
+          });
+        }
+      }
+    }
+  }
+
+  if (newConflicts.length > 0) {
+    try {
+      await emailService.sendRecurringBookingConflicts({ conflicts: newConflicts });
+    } catch (error) {
+      logger.error('Failed to send recurring booking conflicts email', error, {
+        conflictCount: newConflicts.length,
+      });
+    }
+  }
+
+  return result;
+}
+
+export interface RecurringBookingConflictItem {
+  id: string;
+  userId: string;
+  practitionerName: string;
+  roomId: string;
+  roomName: string;
+  locationName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  reason: string;
+  conflictingBookingId: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * List recorded recurring booking conflicts (unresolved only unless includeResolved).
+ */
+export async function getRecurringBookingConflicts(
+  includeResolved = false
+): Promise<RecurringBookingConflictItem[]> {
+  const rows = await db
+    .select({
+      conflict: recurringBookingConflicts,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      roomName: rooms.name,
+      locationName: locations.name,
+    })
+    .from(recurringBookingConflicts)
+    .innerJoin(users, eq(recurringBookingConflicts.userId, users.id))
+    .innerJoin(rooms, eq(recurringBookingConflicts.roomId, rooms.id))
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(includeResolved ? undefined : isNull(recurringBookingConflicts.resolvedAt))
+    .orderBy(asc(recurringBookingConflicts.bookingDate), asc(recurringBookingConflicts.startTime));
+
+  return rows.map(({ conflict: c, firstName, lastName, roomName, locationName }) => ({
+    id: c.id,
+    userId: c.userId,
+    practitionerName: `${firstName} ${lastName}`,
+    roomId: c.roomId,
+    roomName,
+    locationName,
+    bookingDate: String(c.bookingDate),
+    startTime: formatTimeForEmail(c.startTime),
+    endTime: formatTimeForEmail(c.endTime),
+    reason: c.reason,
+    conflictingBookingId: c.conflictingBookingId,
+    resolvedAt: c.resolvedAt,
+    createdAt: c.createdAt,
+  }));
+}
+
+/**
+ * Mark a conflict as handled by an admin (e.g. practitioner moved to another room).
+ * Returns false when the conflict does not exist.
+ */
+export async function resolveRecurringBookingConflict(conflictId: string): Promise<boolean> {
+  const updated = await db
+    .update(recurringBookingConflicts)
+    .set({ resolvedAt: new Date() })
+    .where(eq(recurringBookingConflicts.id, conflictId))
+    .returning({ id: recurringBookingConflicts.id });
+  return updated.length > 0;
+}
@@ -0,0 +1,62 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+describe('priceSwitch', () => {
+  // The service imports the database client, which needs a DATABASE_URL; nothing here connects
+  let PlanSwitchService: typeof import('./plan-switch.service');
+  before(async () => {
+    process.env.DATABASE_URL ??= 'postgres://localhost/unused';
+    PlanSwitchService = await import('./plan-switch.service');
+  });
+
+  it('prices a switch to monthly as a join on the day, less the carried credit', () => {
+    // 21 of April's 30 days left: £105 × 21/30 = £73.50, then the first full month
+    const quote = PlanSwitchService.priceSwitch('ad_hoc', 'monthly', '2026-04-10', [
+      { remainingAmount: 40, expiryDate: '2026-05-31' },
+    ]);
+    assert.deepEqual(quote, {
+      fromPlan: 'ad_hoc',
+      toPlan: 'monthly',
+      switchDate: '2026-04-10',
+      newPlanAmount: 178.5,
+      currentMonthAmount: 73.5,
+      nextMonthAmount: 105,
+      carriedCredit: 40,
+      amountDue: 138.5,
+      keptCredit: 0,
+    });
+  });
+
+  it('carries credit expiring this month only up to the prorated value of the days left', () => {
+    // 6 of June's 30 days left: £21; the rest of this month's credit is kept until it expires
+    const quote = PlanSwitchService.priceSwitch('monthly', 'ad_hoc', '2026-06-25', [
+      { remainingAmount: 50, expiryDate: '2026-06-30' },
+      { remainingAmount: 30, expiryDate: '2026-07-31' },
+    ]);
+    assert.equal(quote.newPlanAmount, 150);
+    assert.equal(quote.carriedCredit, 51);
+    assert.equal(quote.amountDue, 99);
+    assert.equal(quote.keptCredit, 29);
+  });
+
+  it('reduces only the prorated month of a switch to monthly', () => {
+    // 2 of February's 28 days left: £7.50 is all the first invoice can be reduced by
+    const quote = PlanSwitchService.priceSwitch('ad_hoc', 'monthly', '2026-02-27', [
+      { remainingAmount: 100, expiryDate: '2026-08-26' },
+    ]);
+    assert.equal(quote.currentMonthAmount, 7.5);
+    assert.equal(quote.carriedCredit, 7.5);
+    assert.equal(quote.amountDue, 105);
+    assert.equal(quote.keptCredit, 92.5);
+  });
+
+  it('never carries more than the ad-hoc price', () => {
+    const quote = PlanSwitchService.priceSwitch('monthly', 'ad_hoc', '2026-04-01', [
+      { remainingAmount: 105, expiryDate: '2026-04-30' },
+      { remainingAmount: 105, expiryDate: '2026-05-31' },
+    ]);
+    assert.equal(quote.carriedCredit, 150);
+    assert.equal(quote.amountDue, 0);
+    assert.equal(quote.keptCredit, 60);
+  });
+});
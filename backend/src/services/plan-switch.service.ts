@@ -0,0 +1,554 @@
+/**
+ * Switching a practitioner between the ad-hoc and monthly plans. The new plan's first payment is
+ * priced as a fresh join (monthly: calculateProrataAmount for the rest of this month plus the
+ * first full month; ad-hoc: £150), less the old plan's unused credit, which is carried over:
+ * credit expiring later in full, credit expiring this month up to the prorated value of the days
+ * left. Carried credit is taken from the old plan's buckets when the switch starts and given
+ * back if it is never paid for; the rest stays until it expires. Each switch is a plan_switches
+ * row; the webhook finishes it from that row and records it in the membership history.
+ */
+
+import { db } from '../config/database';
+import { memberships, planSwitchCreditAllocations, planSwitches } from '../db/schema';
+import { and, eq, lt } from 'drizzle-orm';
+import { todayUtcString } from '../utils/date.util';
+import * as ProrataService from './prorata.service';
+import * as SubscriptionService from './subscription.service';
+import * as SubscriptionChangeService from './subscription-change.service';
+import * as StripePaymentService from './stripe-payment.service';
+import * as CreditTransactionService from './credit-transaction.service';
+import * as MembershipHistoryService from './membership-history.service';
+import {
+  MembershipNotFoundError,
+  PlanSwitchNotAllowedError,
+  SubscriptionChangeConflictError,
+} from '../errors/subscription.errors';
+import { logger } from '../utils/logger.util';
+import { PLAN_SWITCH_PENDING_INDEX, isUniqueViolation } from '../utils/db-error.util';
+
+export type Plan = 'ad_hoc' | 'monthly';
+
+const PLAN_LABELS: Record<Plan, string> = { ad_hoc: 'ad-hoc', monthly: 'monthly' };
+
+const CREDIT_SOURCES: Record<Plan, CreditTransactionService.CreditSourceType> = {
+  ad_hoc: 'ad_hoc_subscription',
+  monthly: 'monthly_subscription',
+};
+
+export interface PlanSwitchQuote {
+  fromPlan: Plan;
+  toPlan: Plan;
+  switchDate: string;
+  /** The new plan's first payment before carried credit (GBP). */
+  newPlanAmount: number;
+  /** Monthly: the prorated rest of this month and the first full month in that payment. */
+  currentMonthAmount: number | null;
+  nextMonthAmount: number | null;
+  /** Unused credit of the old plan put towards the first payment. */
+  carriedCredit: number;
+  /** What the practitioner pays now. */
+  amountDue: number;
+  /** Unused credit of the old plan that is not carried and stays until it expires. */
+  keptCredit: number;
+}
+
+export type PlanSwitchResult =
+  | { status: 'checkout'; quote: PlanSwitchQuote; checkoutUrl: string }
+  | { status: 'payment'; quote: PlanSwitchQuote; clientSecret: string; paymentIntentId: string }
+  | { status: 'completed'; quote: PlanSwitchQuote };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+async function getSwitchableMembership(userId: string, toPlan: Plan) {
+  const [membership] = await db
+    .select()
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+  if (!membership) throw new MembershipNotFoundError();
+  if (membership.type === 'permanent') {
+    throw new PlanSwitchNotAllowedError('Permanent memberships are billed outside the app');
+  }
+  const fromPlan = membership.subscriptionType;
+  if (fromPlan == null) {
+    throw new PlanSwitchNotAllowedError('Subscribe to a plan before switching');
+  }
+  if (fromPlan === toPlan) {
+    throw new PlanSwitchNotAllowedError(`You are already on the ${PLAN_LABELS[toPlan]} plan`);
+  }
+  if (fromPlan === 'monthly') {
+    if (!membership.stripeSubscriptionId) {
+      throw new PlanSwitchNotAllowedError('Your monthly subscription has already ended');
+    }
+    if (membership.paymentFailedAt != null) {
+      throw new SubscriptionChangeConflictError(
+        'Settle your failed subscription payment before switching plans'
+      );
+    }
+    if (await SubscriptionChangeService.getOpenRequest(userId)) {
+      throw new SubscriptionChangeConflictError(
+        'You have a cancellation or pause in progress; ask us to withdraw it before switching'
+      );
+    }
+  }
+  return { ...membership, fromPlan };
+}
+
+/**
+ * Price a switch on switchDate (YYYY-MM-DD), given the old plan's unexpired credits with what is
+ * left of each.
+ */
+export function priceSwitch(
+  fromPlan: Plan,
+  toPlan: Plan,
+  switchDate: string,
+  credits: Array<{ remainingAmount: number; expiryDate: string }>
+): PlanSwitchQuote {
+  const prorata = ProrataService.calculateProrataAmount(
+    new Date(switchDate + 'T12:00:00Z'),
+    SubscriptionService.MONTHLY_AMOUNT_GBP
+  );
+  const sum = (rows: typeof credits) => rows.reduce((s, c) => s + c.remainingAmount, 0);
+  const thisMonth = sum(credits.filter((c) => c.expiryDate <= prorata.currentMonthExpiry));
+  const later = sum(credits.filter((c) => c.expiryDate > prorata.currentMonthExpiry));
+  const eligible = Math.min(thisMonth, prorata.currentMonthAmount) + later;
+
+  // Monthly: only the prorated line of the first invoice can be reduced
+  const newPlanAmount =
+    toPlan === 'monthly'
+      ? prorata.currentMonthAmount + prorata.nextMonthAmount
+      : SubscriptionService.AD_HOC_AMOUNT_GBP;
+  const cap =
+    toPlan === 'monthly' ? prorata.currentMonthAmount : SubscriptionService.AD_HOC_AMOUNT_GBP;
+  const carriedCredit = round2(Math.min(eligible, cap));
+
+  return {
+    fromPlan,
+    toPlan,
+    switchDate,
+    newPlanAmount: round2(newPlanAmount),
+    currentMonthAmount: toPlan === 'monthly' ? prorata.currentMonthAmount : null,
+    nextMonthAmount: toPlan === 'monthly' ? prorata.nextMonthAmount : null,
+    carriedCredit,
+    amountDue: round2(newPlanAmount - carriedCredit),
+    keptCredit: round2(thisMonth + later - carriedCredit),
+  };
+}
+
+/**
+ * Price a switch to the other plan today.
+ * @throws PlanSwitchNotAllowedError | SubscriptionChangeConflictError | MembershipNotFoundError
+ */
+export async function quotePlanSwitch(userId: string, toPlan: Plan): Promise<PlanSwitchQuote> {
+  const { fromPlan } = await getSwitchableMembership(userId, toPlan);
+  const switchDate = todayUtcString();
+  const credits = (await CreditTransactionService.getAvailableCredits(userId, switchDate)).filter(
+    (c) => c.sourceType === CREDIT_SOURCES[fromPlan]
+  );
+  return priceSwitch(fromPlan, toPlan, switchDate, credits);
+}
+
+/** A plan switch by its id, or by the Stripe checkout session or payment intent paying for it. */
+export type PlanSwitchRef =
+  | { id: string }
+  | { checkoutSessionId: string }
+  | { paymentIntentId: string };
+
+type PlanSwitchRow = typeof planSwitches.$inferSelect;
+
+/** Pending switches older than this are treated as abandoned by the daily cron. */
+const STALE_SWITCH_HOURS = 24;
+
+function refCondition(ref: PlanSwitchRef) {
+  if ('id' in ref) return eq(planSwitches.id, ref.id);
+  if ('checkoutSessionId' in ref) {
+    return eq(planSwitches.stripeCheckoutSessionId, ref.checkoutSessionId);
+  }
+  return eq(planSwitches.stripePaymentIntentId, ref.paymentIntentId);
+}
+
+/**
+ * Make sure a pending switch's payment can no longer go through: expire its checkout or cancel
+ * its payment intent.
+ * @returns False when it may already be paid (or Stripe could not be reached).
+ */
+async function stopSwitchPayment(row: PlanSwitchRow): Promise<boolean> {
+  try {
+    if (row.stripePaymentIntentId) {
+      const paymentIntent = await StripePaymentService.getPaymentIntent(row.stripePaymentIntentId);
+      if (paymentIntent.status === 'canceled') return true;
+      if (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing') {
+        return false;
+      }
+      await StripePaymentService.cancelPaymentIntent(row.stripePaymentIntentId);
+    } else if (row.stripeCheckoutSessionId) {
+      const session = await StripePaymentService.getCheckoutSession(row.stripeCheckoutSessionId);
+      if (session.status === 'expired') return true;
+      if (session.status === 'complete') return false;
+      await StripePaymentService.expireCheckoutSession(row.stripeCheckoutSessionId);
+    }
+    return true;
+  } catch (error) {
+    logger.warn('Plan switch: could not stop the payment', {
+      planSwitchId: row.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Release a pending switch whose payment can no longer go through (checkout expired, payment
+ * intent cancelled): give the carried credit back to the credit transactions it was taken from.
+ * @returns Whether a pending switch was released.
+ */
+export async function releasePlanSwitch(ref: PlanSwitchRef): Promise<boolean> {
+  const released = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(planSwitches)
+      .where(refCondition(ref))
+      .limit(1)
+      .for('update');
+    if (!row || row.status !== 'pending') return null;
+    const allocations = await tx
+      .select()
+      .from(planSwitchCreditAllocations)
+      .where(eq(planSwitchCreditAllocations.planSwitchId, row.id));
+    for (const allocation of allocations) {
+      await CreditTransactionService.refundCreditsWithinTransaction(
+        tx,
+        allocation.creditTransactionId,
+        parseFloat(allocation.amount.toString())
+      );
+    }
+    await tx
+      .update(planSwitches)
+      .set({ status: 'released', updatedAt: new Date() })
+      .where(eq(planSwitches.id, row.id));
+    return row;
+  });
+  if (released) {
+    logger.info('Plan switch released', {
+      planSwitchId: released.id,
+      userId: released.userId,
+      carried: parseFloat(released.carriedCredit.toString()),
+    });
+  }
+  return released != null;
+}
+
+/**
+ * Stop and release the user's pending switch, if any, before they start another.
+ * @throws SubscriptionChangeConflictError when its payment may already have gone through.
+ */
+async function releasePendingSwitchOf(userId: string): Promise<void> {
+  const [pending] = await db
+    .select()
+    .from(planSwitches)
+    .where(and(eq(planSwitches.userId, userId), eq(planSwitches.status, 'pending')))
+    .limit(1);
+  if (!pending) return;
+  if (!(await stopSwitchPayment(pending))) {
+    throw new SubscriptionChangeConflictError(
+      'Your previous plan switch is still being processed; try again in a few minutes'
+    );
+  }
+  await releasePlanSwitch({ id: pending.id });
+}
+
+/**
+ * Release switches left unpaid for a day (e.g. the payment form was closed), so their carried
+ * credit can be spent again. Run daily by the cron.
+ * @returns How many were released.
+ */
+export async function releaseStalePlanSwitches(): Promise<{ released: number }> {
+  const cutoff = new Date(Date.now() - STALE_SWITCH_HOURS * 60 * 60 * 1000);
+  const stale = await db
+    .select()
+    .from(planSwitches)
+    .where(and(eq(planSwitches.status, 'pending'), lt(planSwitches.createdAt, cutoff)));
+  let released = 0;
+  for (const row of stale) {
+    if ((await stopSwitchPayment(row)) && (await releasePlanSwitch({ id: row.id }))) {
+      released++;
+    }
+  }
+  return { released };
+}
+
+/**
+ * Start a switch to the other plan. The carried credit is taken from the old plan's buckets in
+ * the transaction that records the switch, so it cannot be spent while the payment is open;
+ * credit spent since the quote is charged instead. The Stripe payment is created once that is
+ * committed, and the switch is released again if that fails. Monthly goes through Stripe
+ * Checkout and ad-hoc through a payment intent; either is finished by the webhook
+ * (completePlanSwitch) or released if never paid. A switch to ad-hoc fully covered by carried
+ * credit is finished straight away. An earlier unpaid switch is released first.
+ * @throws PlanSwitchNotAllowedError | SubscriptionChangeConflictError | MembershipNotFoundError
+ */
+export async function switchPlan(
+  userId: string,
+  toPlan: Plan,
+  email: string,
+  name: string
+): Promise<PlanSwitchResult> {
+  await releasePendingSwitchOf(userId);
+  const quote = await quotePlanSwitch(userId, toPlan);
+
+  // Record the switch and take its carried credit, then create the payment once that is committed
+  let reserved: { planSwitchId: string; quote: PlanSwitchQuote };
+  try {
+    reserved = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(planSwitches)
+        .values({ userId, fromPlan: quote.fromPlan, toPlan })
+        .returning({ id: planSwitches.id });
+      const taken = await CreditTransactionService.takeCreditsOfSourceWithinTransaction(
+        tx,
+        userId,
+        CREDIT_SOURCES[quote.fromPlan],
+        quote.carriedCredit
+      );
+      if (taken.used.length > 0) {
+        await tx.insert(planSwitchCreditAllocations).values(
+          taken.used.map((u) => ({
+            planSwitchId: row.id,
+            creditTransactionId: u.transactionId,
+            amount: u.amount.toFixed(2),
+          }))
+        );
+      }
+      const carriedCredit = taken.totalUsed;
+      const amountDue = round2(quote.newPlanAmount - carriedCredit);
+      await tx
+        .update(planSwitches)
+        .set({
+          carriedCredit: carriedCredit.toFixed(2),
+          amountDue: amountDue.toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(planSwitches.id, row.id));
+      return { planSwitchId: row.id, quote: { ...quote, carriedCredit, amountDue } };
+    });
+  } catch (error) {
+    if (isUniqueViolation(error, PLAN_SWITCH_PENDING_INDEX)) {
+      throw new SubscriptionChangeConflictError('A plan switch is already in progress');
+    }
+    throw error;
+  }
+  const { planSwitchId } = reserved;
+  logger.info('Plan switch started', { userId, planSwitchId, ...reserved.quote });
+
+  const planSwitch = { planSwitchId, carriedCreditGbp: reserved.quote.carriedCredit };
+  // Stripe objects created so far, so they can be cancelled again if the switch is released
+  const created: { checkoutSessionId?: string; paymentIntentId?: string } = {};
+  let result: PlanSwitchResult;
+  try {
+    if (toPlan === 'monthly') {
+      const { checkoutUrl, checkoutSessionId } = await SubscriptionService.createMonthlySubscription(
+        userId,
+        quote.switchDate,
+        email,
+        name,
+        planSwitch
+      );
+      created.checkoutSessionId = checkoutSessionId;
+      if (!checkoutUrl || !checkoutSessionId) throw new Error('Stripe did not return a checkout');
+      await recordSwitchPayment(planSwitchId, { stripeCheckoutSessionId: checkoutSessionId });
+      result = { status: 'checkout', quote: reserved.quote, checkoutUrl };
+    } else if (reserved.quote.amountDue > 0) {
+      const { clientSecret, paymentIntentId } = await SubscriptionService.createAdHocSubscription(
+        userId,
+        quote.switchDate,
+        email,
+        name,
+        planSwitch
+      );
+      created.paymentIntentId = paymentIntentId;
+      await recordSwitchPayment(planSwitchId, { stripePaymentIntentId: paymentIntentId });
+      result = { status: 'payment', quote: reserved.quote, clientSecret, paymentIntentId };
+    } else {
+      result = { status: 'completed', quote: reserved.quote };
+    }
+  } catch (error) {
+    // Nothing can be paid for the switch any more, so its carried credit goes back
+    await cancelUnrecordedPayment(userId, created);
+    await releasePlanSwitch({ id: planSwitchId });
+    throw error;
+  }
+
+  if (result.status === 'completed') {
+    await SubscriptionService.processAdHocPaymentSuccess(userId, quote.switchDate);
+    await completePlanSwitch({ id: planSwitchId });
+  }
+  return result;
+}
+
+/**
+ * Save the Stripe payment on a switch that is still pending.
+ * @throws Error when the switch was released meanwhile (e.g. by a newer switch).
+ */
+async function recordSwitchPayment(
+  planSwitchId: string,
+  payment: { stripeCheckoutSessionId: string } | { stripePaymentIntentId: string }
+): Promise<void> {
+  const [row] = await db
+    .update(planSwitches)
+    .set({ ...payment, updatedAt: new Date() })
+    .where(and(eq(planSwitches.id, planSwitchId), eq(planSwitches.status, 'pending')))
+    .returning({ id: planSwitches.id });
+  if (!row) throw new Error('Plan switch is no longer pending');
+}
+
+/** Best effort: the switch is released, so its payment must not be taken. */
+async function cancelUnrecordedPayment(
+  userId: string,
+  created: { checkoutSessionId?: string; paymentIntentId?: string }
+): Promise<void> {
+  try {
+    if (created.checkoutSessionId) {
+      await StripePaymentService.expireCheckoutSession(created.checkoutSessionId);
+    }
+    if (created.paymentIntentId) {
+      await StripePaymentService.cancelPaymentIntent(created.paymentIntentId);
+    }
+  } catch (error) {
+    logger.error('Plan switch: failed to cancel the payment of a released switch', error, {
+      userId,
+      ...created,
+    });
+  }
+}
+
+/**
+ * Finish a paid switch; the one place every switch completion goes through, whichever webhook
+ * event reports the payment first. Keyed on the switch record, which holds the plans, the carried
+ * credit (already taken) and the amount paid; does nothing unless the switch is still pending.
+ * To monthly: drop the ad-hoc end date and any termination (the invoice credits are granted by
+ * the caller). To ad-hoc (after processAdHocPaymentSuccess): unlink the monthly subscription and
+ * cancel it in Stripe once that is committed, without the usual end-of-subscription suspension.
+ * Either way the change is recorded in the membership history.
+ * @returns Whether a pending switch was completed.
+ */
+export async function completePlanSwitch(ref: PlanSwitchRef): Promise<boolean> {
+  const completed = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(planSwitches)
+      .where(refCondition(ref))
+      .limit(1)
+      .for('update');
+    if (!row) return null;
+    if (row.status !== 'pending') {
+      if (row.status === 'released') {
+        // Payments are stopped before a switch is released, so this needs an admin
+        logger.error('Plan switch paid after it was released', {
+          planSwitchId: row.id,
+          userId: row.userId,
+        });
+      }
+      return null;
+    }
+    const [membership] = await tx
+      .select()
+      .from(memberships)
+      .where(eq(memberships.userId, row.userId))
+      .limit(1)
+      .for('update');
+    if (!membership) throw new MembershipNotFoundError();
+
+    let subscriptionToCancel: string | null = null;
+    if (row.toPlan === 'monthly') {
+      await applySwitchToMonthly(tx, membership);
+    } else {
+      subscriptionToCancel = await applySwitchToAdHoc(tx, membership);
+    }
+    const historyId = await MembershipHistoryService.recordMembershipChange(
+      {
+        userId: row.userId,
+        source: 'plan_switch',
+        fromType: membership.type,
+        toType: membership.type,
+        fromSubscriptionType: row.fromPlan,
+        toSubscriptionType: row.toPlan,
+        amountCharged: parseFloat(row.amountDue.toString()),
+        creditCarried: parseFloat(row.carriedCredit.toString()),
+        changedBy: row.userId,
+      },
+      tx
+    );
+    await tx
+      .update(planSwitches)
+      .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(planSwitches.id, row.id));
+    return { row, subscriptionToCancel, historyId };
+  });
+  if (!completed) return false;
+
+  const { row, subscriptionToCancel, historyId } = completed;
+  if (subscriptionToCancel) {
+    try {
+      await StripePaymentService.cancelSubscription(subscriptionToCancel);
+    } catch (error) {
+      // The ad-hoc payment is already taken; an admin has to cancel the subscription in Stripe
+      logger.error('Plan switch: failed to cancel monthly subscription', error, {
+        userId: row.userId,
+        subscriptionId: subscriptionToCancel,
+      });
+      await MembershipHistoryService.setMembershipChangeNote(
+        historyId,
+        `Stripe subscription ${subscriptionToCancel} could not be cancelled`
+      );
+    }
+  }
+  logger.info(`Plan switch to ${PLAN_LABELS[row.toPlan]} completed`, {
+    planSwitchId: row.id,
+    userId: row.userId,
+    carried: parseFloat(row.carriedCredit.toString()),
+    amountPaidGbp: parseFloat(row.amountDue.toString()),
+  });
+  return true;
+}
+
+type MembershipRow = typeof memberships.$inferSelect;
+
+async function applySwitchToMonthly(
+  tx: CreditTransactionService.CreditTransactionClient,
+  membership: MembershipRow
+): Promise<void> {
+  await tx
+    .update(memberships)
+    .set({
+      subscriptionType: 'monthly',
+      subscriptionStartDate: todayUtcString(),
+      subscriptionEndDate: null,
+      terminationRequestedAt: null,
+      suspensionDate: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(memberships.id, membership.id));
+}
+
+/** @returns The monthly subscription to cancel in Stripe after commit, if any. */
+async function applySwitchToAdHoc(
+  tx: CreditTransactionService.CreditTransactionClient,
+  membership: MembershipRow
+): Promise<string | null> {
+  const subscriptionId = membership.stripeSubscriptionId;
+  // Unlink first so the deletion webhook finds no membership to suspend
+  await tx
+    .update(memberships)
+    .set({
+      stripeSubscriptionId: null,
+      stripeSubscriptionStatus: subscriptionId ? 'canceled' : membership.stripeSubscriptionStatus,
+      pausedFrom: null,
+      pausedUntil: null,
+      paymentFailedAt: null,
+      paymentRemindersSent: 0,
+      paymentUpdateUrl: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(memberships.id, membership.id));
+  return subscriptionId;
+}
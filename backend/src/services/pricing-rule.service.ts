@@ -0,0 +1,190 @@
+/**
+ * Admin management of pricing rules (rate cards) and bank holidays.
+ * Rules that are already in force are immutable so the rate history stays accurate; a price
+ * change is a new rule with a later effectiveFrom.
+ */
+
+import { z } from 'zod';
+import { db } from '../config/database';
+import { pricingRules, bankHolidays, locations, rooms } from '../db/schema';
+import { eq, and, asc, gte, lte, SQL } from 'drizzle-orm';
+import { todayUtcString } from '../utils/date.util';
+import * as PricingService from './pricing.service';
+import type { PricingBand } from './pricing.service';
+import {
+  InvalidPricingRuleError,
+  PricingRuleLockedError,
+  PricingRuleNotFoundError,
+} from '../errors/pricing.errors';
+
+export interface PricingRuleInput {
+  locationId: string;
+  roomId?: string | null;
+  effectiveFrom: string;
+  weekdayBands: PricingBand[];
+  weekendRate: number;
+  bankHolidayRate?: number | null;
+}
+
+export interface PricingRuleItem {
+  id: string;
+  locationId: string;
+  locationName: string;
+  roomId: string | null;
+  roomName: string | null;
+  effectiveFrom: string;
+  weekdayBands: PricingBand[];
+  weekendRate: number;
+  bankHolidayRate: number | null;
+  inForce: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * List rules, oldest effective date first, optionally filtered by location or room.
+ */
+export async function listPricingRules(
+  filters: { locationId?: string; roomId?: string } = {}
+): Promise<PricingRuleItem[]> {
+  const conditions: SQL[] = [];
+  if (filters.locationId) conditions.push(eq(pricingRules.locationId, filters.locationId));
+  if (filters.roomId) conditions.push(eq(pricingRules.roomId, filters.roomId));
+
+  const rows = await db
+    .select({
+      rule: pricingRules,
+      locationName: locations.name,
+      roomName: rooms.name,
+    })
+    .from(pricingRules)
+    .innerJoin(locations, eq(pricingRules.locationId, locations.id))
+    .leftJoin(rooms, eq(pricingRules.roomId, rooms.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(locations.name), asc(pricingRules.effectiveFrom));
+
+  const today = todayUtcString();
+  return rows.map(({ rule, locationName, roomName }) => ({
+    id: rule.id,
+    locationId: rule.locationId,
+    locationName,
+    roomId: rule.roomId,
+    roomName: roomName ?? null,
+    effectiveFrom: String(rule.effectiveFrom),
+    weekdayBands: z.array(PricingService.pricingBandSchema).parse(rule.weekdayBands),
+    weekendRate: parseFloat(String(rule.weekendRate)),
+    bankHolidayRate: rule.bankHolidayRate != null ? parseFloat(String(rule.bankHolidayRate)) : null,
+    inForce: String(rule.effectiveFrom) <= today,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  }));
+}
+
+async function assertValidRule(input: PricingRuleInput): Promise<void> {
+  if (input.effectiveFrom < todayUtcString()) {
+    throw new InvalidPricingRuleError('effectiveFrom cannot be in the past');
+  }
+  try {
+    PricingService.validateWeekdayBands(input.weekdayBands);
+  } catch (e) {
+    throw new InvalidPricingRuleError(e instanceof Error ? e.message : 'Invalid weekday bands');
+  }
+  const [location] = await db
+    .select({ id: locations.id })
+    .from(locations)
+    .where(eq(locations.id, input.locationId))
+    .limit(1);
+  if (!location) throw new InvalidPricingRuleError('Location not found');
+  if (input.roomId) {
+    const [room] = await db
+      .select({ id: rooms.id })
+      .from(rooms)
+      .where(and(eq(rooms.id, input.roomId), eq(rooms.locationId, input.locationId)))
+      .limit(1);
+    if (!room) throw new InvalidPricingRuleError('Room not found at this location');
+  }
+}
+
+function toRow(input: PricingRuleInput) {
+  return {
+    locationId: input.locationId,
+    roomId: input.roomId ?? null,
+    effectiveFrom: input.effectiveFrom,
+    weekdayBands: [...input.weekdayBands].sort((a, b) => a.startTime.localeCompare(b.startTime)),
+    weekendRate: input.weekendRate.toFixed(2),
+    bankHolidayRate: input.bankHolidayRate != null ? input.bankHolidayRate.toFixed(2) : null,
+  };
+}
+
+async function getEditableRule(ruleId: string) {
+  const [rule] = await db.select().from(pricingRules).where(eq(pricingRules.id, ruleId)).limit(1);
+  if (!rule) throw new PricingRuleNotFoundError();
+  if (String(rule.effectiveFrom) <= todayUtcString()) throw new PricingRuleLockedError();
+  return rule;
+}
+
+export async function createPricingRule(
+  input: PricingRuleInput,
+  createdBy: string
+): Promise<string> {
+  await assertValidRule(input);
+  const [row] = await db
+    .insert(pricingRules)
+    .values({ ...toRow(input), createdBy })
+    .returning({ id: pricingRules.id });
+  return row.id;
+}
+
+/**
+ * Update a rule that has not come into force yet.
+ */
+export async function updatePricingRule(ruleId: string, input: PricingRuleInput): Promise<void> {
+  await getEditableRule(ruleId);
+  await assertValidRule(input);
+  await db
+    .update(pricingRules)
+    .set({ ...toRow(input), updatedAt: new Date() })
+    .where(eq(pricingRules.id, ruleId));
+}
+
+/**
+ * Delete a rule that has not come into force yet.
+ */
+export async function deletePricingRule(ruleId: string): Promise<void> {
+  await getEditableRule(ruleId);
+  await db.delete(pricingRules).where(eq(pricingRules.id, ruleId));
+}
+
+export async function listBankHolidays(
+  fromDate?: string,
+  toDate?: string
+): Promise<Array<{ date: string; name: string }>> {
+  const conditions: SQL[] = [];
+  if (fromDate) conditions.push(gte(bankHolidays.date, fromDate));
+  if (toDate) conditions.push(lte(bankHolidays.date, toDate));
+  const rows = await db
+    .select({ date: bankHolidays.date, name: bankHolidays.name })
+    .from(bankHolidays)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(bankHolidays.date));
+  return rows.map((r) => ({ date: String(r.date), name: r.name }));
+}
+
+/**
+ * Add a bank holiday (or rename an existing one).
+ */
+export async function upsertBankHoliday(date: string, name: string): Promise<void> {
+  await db
+    .insert(bankHolidays)
+    .values({ date, name })
+    .onConflictDoUpdate({ target: bankHolidays.date, set: { name } });
+}
+
+/** Returns false when the date was not a bank holiday. */
+export async function deleteBankHoliday(date: string): Promise<boolean> {
+  const deleted = await db
+    .delete(bankHolidays)
+    .where(eq(bankHolidays.date, date))
+    .returning({ date: bankHolidays.date });
+  return deleted.length > 0;
+}
@@ -0,0 +1,52 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RateCard } from './pricing.service';
+
+const CARD: RateCard = {
+  weekdayBands: [
+    { startTime: '08:00', endTime: '15:00', rate: 16, label: 'off_peak' },
+    { startTime: '15:00', endTime: '22:00', rate: 20, label: 'peak' },
+  ],
+  weekendRate: 18,
+  bankHolidayRate: null,
+};
+
+describe('priceSpan', () => {
+  // The service imports the database client, which needs a DATABASE_URL; nothing here connects
+  let PricingService: typeof import('./pricing.service');
+  before(async () => {
+    process.env.DATABASE_URL ??= 'postgres://localhost/unused';
+    PricingService = await import('./pricing.service');
+  });
+
+  it('prices a span inside one band at its rate', () => {
+    assert.equal(PricingService.priceSpan(CARD, null, '09:00', '11:30'), 40);
+  });
+
+  it('bills each part of a span crossing bands at the rate of its band', () => {
+    assert.equal(PricingService.priceSpan(CARD, null, '14:30', '15:30'), 18);
+    assert.equal(PricingService.priceSpan(CARD, null, '08:00', '22:00'), 252);
+  });
+
+  it('uses the flat day rate for the whole span when one applies', () => {
+    assert.equal(PricingService.priceSpan(CARD, 18, '14:30', '16:15'), 31.5);
+  });
+
+  it('rounds to the penny', () => {
+    assert.equal(PricingService.priceSpan(CARD, null, '10:00', '10:20'), 5.33);
+  });
+
+  it('rejects a span not covered by the bands', () => {
+    assert.throws(
+      () => PricingService.priceSpan(CARD, null, '07:00', '09:00'),
+      /not covered by a configured rate band/
+    );
+  });
+
+  it('rejects a span that ends before it starts', () => {
+    assert.throws(
+      () => PricingService.priceSpan(CARD, null, '12:00', '11:00'),
+      /Invalid booking span/
+    );
+  });
+});
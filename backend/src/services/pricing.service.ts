@@ -1,21 +1,53 @@
 /**
  * Pricing engine for room bookings.
- * Weekend and rate bands use Europe/London timezone.
- * Morning = 08:00–15:00, Afternoon = 15:00–22:00. Booking window 08:00–22:00 same day.
+ * Rates come from pricing_rules: per location (optionally per room), effective from a date, with
+ * weekday bands (e.g. off-peak 08:00–15:00, peak 15:00–22:00), a weekend rate and an optional
+ * bank-holiday rate. The rule in force on the day the price is calculated is used, so bookings keep
+ * the rate they were made at (bookings store pricePerHour/totalPrice).
+ * Weekend and rate bands use Europe/London timezone. Bookings are same-day spans; the bookable
+ * window itself comes from each location's opening hours (opening-hours.service).
  */
 
 import { toZonedTime } from 'date-fns-tz';
+import { z } from 'zod';
+import { db } from '../config/database';
+import { pricingRules, bankHolidays, locations } from '../db/schema';
+import { eq, and, or, lte, isNull, desc, sql } from 'drizzle-orm';
+import { todayUtcString } from '../utils/date.util';
+import type { CreditTransactionClient } from './credit-transaction.service';
 
-export type LocationName = 'Pimlico' | 'Kensington';
+/** Location name as stored in locations.name (admin-managed). */
+export type LocationName = string;
 
-// £ per hour by location and band
-const RATES: Record<
-  LocationName,
-  { weekday: { morning: number; afternoon: number }; weekend: number }
-> = {
-  Kensington: { weekday: { morning: 19, afternoon: 23 }, weekend: 14 },
-  Pimlico: { weekday: { morning: 15, afternoon: 20 }, weekend: 13 },
-};
+type DbClient = typeof db | CreditTransactionClient;
+
+/** HH:MM time of day; 24:00 is allowed as the end of the day. */
+const HHMM_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+export const pricingBandSchema = z.object({
+  startTime: z.string().regex(HHMM_REGEX, 'Band startTime must be HH:MM'),
+  endTime: z.string().regex(HHMM_REGEX, 'Band endTime must be HH:MM'),
+  rate: z.number().nonnegative('Band rate must not be negative'),
+  label: z.enum(['off_peak', 'peak', 'standard']).optional(),
+});
+
+export type PricingBand = z.infer<typeof pricingBandSchema>;
+
+/** Rate card used to price a booking span. */
+export interface RateCard {
+  id?: string;
+  weekdayBands: PricingBand[];
+  weekendRate: number;
+  bankHolidayRate: number | null;
+}
+
+export interface PriceOptions {
+  /** Room-specific rules take precedence over location-wide rules. */
+  roomId?: string;
+  /** Date (YYYY-MM-DD) whose rule is in force; defaults to today (when the booking is made). */
+  asOf?: string;
+  client?: DbClient;
+}
 
 /**
  * Parse time string "HH:mm" or "HH:mm:ss" to hours (fractional).
@@ -47,79 +79,192 @@ function isWeekend(date: Date): boolean {
   return day === 0 || day === 6;
 }
 
+/** YYYY-MM-DD of a date in Europe/London. */
+function londonDateString(date: Date): string {
+  const zoned = toZonedTime(date, 'Europe/London');
+  const y = zoned.getFullYear();
+  const m = String(zoned.getMonth() + 1).padStart(2, '0');
+  const d = String(zoned.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
 /**
- * Get price per hour for a given location, date, and time.
- * Time is used to determine morning (08:00–15:00) vs afternoon (15:00–22:00).
+ * Validate weekday bands: each band non-empty, sorted, contiguous and without overlaps.
+ * @throws {Error} describing the first problem found.
  */
-export function calculatePricePerHour(location: LocationName, date: Date, time: string): number {
-  const rates = RATES[location];
-  if (isWeekend(date)) return rates.weekend;
-  const hours = parseTimeToHours(time);
-  if (hours < 8 || hours > 22) {
-    throw new Error('Booking time outside allowed window 08:00–22:00');
+export function validateWeekdayBands(bands: PricingBand[]): void {
+  if (bands.length === 0) throw new Error('At least one weekday band is required');
+  const sorted = [...bands].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  for (let i = 0; i < sorted.length; i++) {
+    const band = sorted[i];
+    if (parseTimeToHours(band.endTime) <= parseTimeToHours(band.startTime)) {
+      throw new Error(`Band ${band.startTime}–${band.endTime} must end after it starts`);
+    }
+    const next = sorted[i + 1];
+    if (next && next.startTime !== band.endTime) {
+      throw new Error(
+        `Weekday bands must be contiguous: ${band.endTime} is followed by ${next.startTime}`
+      );
+    }
   }
-  // Morning: 8–15 (8.0 to 14.999...), Afternoon: 15–22
-  if (hours >= 8 && hours < 15) return rates.weekday.morning;
-  if (hours >= 15 && hours < 22) return rates.weekday.afternoon;
-  // 22:00 is the end of the booking window, not a valid start time for billing.
-  throw new Error('Booking time outside allowed window 08:00–22:00');
 }
 
 /**
- * Calculate total price for a booking span.
- * Splits by hour and applies the correct rate per hour (handles morning/afternoon boundary).
- * @throws {Error} Invalid booking span when end time <= start time (overnight not supported).
- * @throws {Error} Invalid time format when start/end time strings are invalid.
+ * Find the rate card in force for a location (and room) on a date.
+ * Room-specific rules win over location-wide rules; the latest effectiveFrom wins within each.
+ * @throws {Error} No pricing configured when no rule is in force.
  */
-export function calculateTotalPrice(
+export async function getRateCard(
   location: LocationName,
+  options: PriceOptions = {}
+): Promise<RateCard> {
+  const client: DbClient = options.client ?? db;
+  const asOf = options.asOf ?? todayUtcString();
+  const roomMatch = options.roomId
+    ? or(isNull(pricingRules.roomId), eq(pricingRules.roomId, options.roomId))
+    : isNull(pricingRules.roomId);
+  const [rule] = await client
+    .select({
+      id: pricingRules.id,
+      weekdayBands: pricingRules.weekdayBands,
+      weekendRate: pricingRules.weekendRate,
+      bankHolidayRate: pricingRules.bankHolidayRate,
+    })
+    .from(pricingRules)
+    .innerJoin(locations, eq(pricingRules.locationId, locations.id))
+    .where(and(eq(locations.name, location), lte(pricingRules.effectiveFrom, asOf), roomMatch))
+    .orderBy(sql`${pricingRules.roomId} IS NULL`, desc(pricingRules.effectiveFrom))
+    .limit(1);
+  if (!rule) throw new Error(`No pricing configured for ${location}`);
+  return {
+    id: rule.id,
+    weekdayBands: z.array(pricingBandSchema).parse(rule.weekdayBands),
+    weekendRate: parseFloat(String(rule.weekendRate)),
+    bankHolidayRate: rule.bankHolidayRate != null ? parseFloat(String(rule.bankHolidayRate)) : null,
+  };
+}
+
+async function isBankHoliday(date: Date, client: DbClient): Promise<boolean> {
+  const [row] = await client
+    .select({ date: bankHolidays.date })
+    .from(bankHolidays)
+    .where(eq(bankHolidays.date, londonDateString(date)))
+    .limit(1);
+  return Boolean(row);
+}
+
+/** Flat day rate (weekend or bank holiday) for the date, or null when weekday bands apply. */
+async function getFlatDayRate(
+  card: RateCard,
   date: Date,
-  startTime: string,
-  endTime: string
-): number {
+  client: DbClient
+): Promise<number | null> {
+  if (card.bankHolidayRate != null && (await isBankHoliday(date, client))) {
+    return card.bankHolidayRate;
+  }
+  return isWeekend(date) ? card.weekendRate : null;
+}
+
+function findBand(bands: PricingBand[], hours: number): PricingBand | undefined {
+  return bands.find(
+    (b) => hours >= parseTimeToHours(b.startTime) && hours < parseTimeToHours(b.endTime)
+  );
+}
+
+/**
+ * Get price per hour for a given location, date, and time.
+ * Time selects the weekday band (e.g. off-peak vs peak).
+ */
+export async function calculatePricePerHour(
+  location: LocationName,
+  date: Date,
+  time: string,
+  options: PriceOptions = {}
+): Promise<number> {
+  const hours = parseTimeToHours(time);
+  const card = await getRateCard(location, options);
+  const flatRate = await getFlatDayRate(card, date, options.client ?? db);
+  if (flatRate != null) return flatRate;
+  const band = findBand(card.weekdayBands, hours);
+  if (!band) throw new Error(`No rate configured for ${location} at ${time}`);
+  return band.rate;
+}
+
+/**
+ * Parse and validate a booking span, returning [startHours, endHours].
+ */
+function parseSpan(startTime: string, endTime: string): [number, number] {
   const startHours = parseTimeToHours(startTime);
   const endHours = parseTimeToHours(endTime);
-  if (startHours < 8 || endHours > 22) {
-    throw new Error('Bookings must be within the 08:00–22:00 window');
-  }
-  // Overnight or reversed spans are invalid; booking window is 08:00–22:00 same day.
+  // Overnight or reversed spans are invalid; opening hours are enforced by the booking service.
   if (endHours <= startHours) {
     throw new Error(
       'Invalid booking span: end time must be after start time within the same day (overnight bookings are not supported)'
     );
   }
-  const rates = RATES[location];
-  const isSatSun = isWeekend(date);
+  return [startHours, endHours];
+}
+
+/**
+ * Price a booking span against a rate card.
+ * Walks the span segment by segment up to the next band boundary, so fractional crossings
+ * (e.g. 14:30–15:30) are billed correctly.
+ * @throws {Error} Invalid booking span when end time <= start time (overnight not supported).
+ * @throws {Error} Invalid time format when start/end time strings are invalid.
+ */
+export function priceSpan(
+  card: RateCard,
+  flatDayRate: number | null,
+  startTime: string,
+  endTime: string
+): number {
+  const [startHours, endHours] = parseSpan(startTime, endTime);
+  if (flatDayRate != null) {
+    return Math.round(flatDayRate * (endHours - startHours) * 100) / 100;
+  }
   let total = 0;
-  // Walk the span by segments up to the next band boundary (15:00, 22:00),
-  // so fractional crossings (e.g. 14:30–15:30) are billed correctly.
   let h = startHours;
   while (h < endHours) {
-    let nextBoundary = endHours;
-    if (!isSatSun) {
-      if (h < 15 && endHours > 15) {
-        nextBoundary = Math.min(endHours, 15);
-      } else {
-        nextBoundary = Math.min(endHours, 22);
-      }
+    const band = findBand(card.weekdayBands, h);
+    if (!band) {
+      throw new Error('Booking segment is not covered by a configured rate band');
     }
-    const segmentEnd = nextBoundary;
-    const segmentHours = segmentEnd - h;
-    let rate: number;
-    if (isSatSun) {
-      rate = rates.weekend;
-    } else {
-      if (h >= 8 && h < 15) {
-        rate = rates.weekday.morning;
-      } else if (h >= 15 && h < 22) {
-        rate = rates.weekday.afternoon;
-      } else {
-        // Should not occur due to window validation, but guard defensively.
-        throw new Error('Booking segment outside allowed window 08:00–22:00');
-      }
-    }
-    total += rate * segmentHours;
+    const segmentEnd = Math.min(endHours, parseTimeToHours(band.endTime));
+    total += band.rate * (segmentEnd - h);
     h = segmentEnd;
   }
   return Math.round(total * 100) / 100;
 }
+
+/**
+ * Calculate total price for a booking span using the rate card in force (see PriceOptions.asOf).
+ * @throws {Error} Invalid booking span when end time <= start time (overnight not supported).
+ * @throws {Error} Invalid time format when start/end time strings are invalid.
+ */
+export async function calculateTotalPrice(
+  location: LocationName,
+  date: Date,
+  startTime: string,
+  endTime: string,
+  options: PriceOptions = {}
+): Promise<number> {
+  // Validate the span before touching the database
+  parseSpan(startTime, endTime);
+  const price = await getDayPricer(location, date, options);
+  return price(startTime, endTime);
+}
+
+/**
+ * Pricer for many spans in one room on one day, with the same result as calculateTotalPrice but
+ * reading the rate card and day rate once (used by the slot search).
+ * @throws {Error} No pricing configured when no rule is in force.
+ */
+export async function getDayPricer(
+  location: LocationName,
+  date: Date,
+  options: PriceOptions = {}
+): Promise<(startTime: string, endTime: string) => number> {
+  const card = await getRateCard(location, options);
+  const flatRate = await getFlatDayRate(card, date, options.client ?? db);
+  return (startTime, endTime) => priceSpan(card, flatRate, startTime, endTime);
+}
@@ -0,0 +1,215 @@
+/**
+ * Slot holds: a room slot reserved for a practitioner while they complete a pay-the-difference
+ * checkout, so nobody else can book it between the PaymentIntent being created and the
+ * payment_intent.succeeded webhook making the booking.
+ * A hold is placed before the PaymentIntent is created and linked to it afterwards. It ends when
+ * the webhook books the slot, when the payment fails or is cancelled, or when it expires; expired
+ * holds are ignored everywhere and deleted the next time holds are placed.
+ * An open waitlist offer holds its slot the same way until the offer is claimed, given up or
+ * expires.
+ */
+
+import { db } from '../config/database';
+import { rooms, slotHolds } from '../db/schema';
+import { eq, and, gt, lt, ne, asc, inArray, sql } from 'drizzle-orm';
+import type { CreditTransactionClient } from './credit-transaction.service';
+
+type DbClient = typeof db | CreditTransactionClient;
+
+/** How long a checkout keeps the slot before anyone else can book it again. */
+export const HOLD_MINUTES = 15;
+
+export interface SlotHoldRequest {
+  roomId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:mm:ss
+  endTime: string;
+}
+
+export interface ActiveSlotHold {
+  roomId: string;
+  userId: string;
+  startTime: string | Date;
+  endTime: string | Date;
+  expiresAt: Date;
+}
+
+function activeHoldOverlapping(
+  roomId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  now: Date
+) {
+  return and(
+    eq(slotHolds.roomId, roomId),
+    eq(slotHolds.bookingDate, date),
+    gt(slotHolds.expiresAt, now),
+    sql`${slotHolds.startTime} < ${endTime}::time AND ${slotHolds.endTime} > ${startTime}::time`
+  );
+}
+
+/**
+ * Whether an active hold overlaps the span. Holds placed by holderUserId are ignored, so the
+ * practitioner who is paying can still book the slot they are holding.
+ */
+export async function hasConflictingHold(
+  roomId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  holderUserId?: string,
+  client: DbClient = db
+): Promise<boolean> {
+  const overlapping = activeHoldOverlapping(roomId, date, startTime, endTime, new Date());
+  const rows = await client
+    .select({ id: slotHolds.id })
+    .from(slotHolds)
+    .where(holderUserId ? and(overlapping, ne(slotHolds.userId, holderUserId)) : overlapping)
+    .limit(1);
+  return rows.length > 0;
+}
+
+/**
+ * Whether a slot can be held, checked with the rooms locked. placeHolds' default only looks at
+ * other practitioners' holds; booking checkouts also check confirmed bookings.
+ */
+export type SlotAvailabilityCheck = (
+  tx: CreditTransactionClient,
+  userId: string,
+  slot: SlotHoldRequest
+) => Promise<boolean>;
+
+const isSlotUnheld: SlotAvailabilityCheck = async (tx, userId, slot) =>
+  !(await hasConflictingHold(slot.roomId, slot.date, slot.startTime, slot.endTime, userId, tx));
+
+/**
+ * Hold the slots for the user for HOLD_MINUTES, all or none. The rooms are locked while the slots
+ * are checked with isAvailable and the holds inserted, so two checkouts cannot hold the same slot
+ * and a slot booked meanwhile is not held. Returns the hold ids, or null when a slot is not
+ * available.
+ */
+export async function placeHolds(
+  userId: string,
+  slots: SlotHoldRequest[],
+  isAvailable: SlotAvailabilityCheck = isSlotUnheld
+): Promise<string[] | null> {
+  if (slots.length === 0) return [];
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + HOLD_MINUTES * 60 * 1000);
+
+  return db.transaction(async (tx) => {
+    await tx.delete(slotHolds).where(lt(slotHolds.expiresAt, now));
+
+    const roomIds = [...new Set(slots.map((s) => s.roomId))].sort();
+    await tx
+      .select({ id: rooms.id })
+      .from(rooms)
+      .where(inArray(rooms.id, roomIds))
+      .orderBy(asc(rooms.id))
+      .for('update');
+
+    for (const slot of slots) {
+      if (!(await isAvailable(tx, userId, slot))) return null;
+    }
+
+    const inserted = await tx
+      .insert(slotHolds)
+      .values(
+        slots.map((s) => ({
+          userId,
+          roomId: s.roomId,
+          bookingDate: s.date,
+          startTime: s.startTime,
+          endTime: s.endTime,
+          expiresAt,
+        }))
+      )
+      .returning({ id: slotHolds.id });
+    return inserted.map((h) => h.id);
+  });
+}
+
+/** Link holds to the checkout's PaymentIntent so its webhooks can release them. */
+export async function attachPaymentIntent(
+  holdIds: string[],
+  paymentIntentId: string
+): Promise<void> {
+  if (holdIds.length === 0) return;
+  await db
+    .update(slotHolds)
+    .set({ stripePaymentIntentId: paymentIntentId })
+    .where(inArray(slotHolds.id, holdIds));
+}
+
+/** Release holds by id (e.g. when the PaymentIntent could not be created). */
+export async function releaseHolds(holdIds: string[]): Promise<void> {
+  if (holdIds.length === 0) return;
+  await db.delete(slotHolds).where(inArray(slotHolds.id, holdIds));
+}
+
+/**
+ * Release the holds for a checkout: once its booking is made, or when the payment fails or is
+ * cancelled. Returns the number of holds released.
+ */
+export async function releaseHoldsForPaymentIntent(
+  paymentIntentId: string,
+  client: DbClient = db
+): Promise<number> {
+  const released = await client
+    .delete(slotHolds)
+    .where(eq(slotHolds.stripePaymentIntentId, paymentIntentId))
+    .returning({ id: slotHolds.id });
+  return released.length;
+}
+
+/**
+ * Hold a slot for a waitlist offer until the offer expires. Runs in the caller's transaction so
+ * the hold is placed together with the offer.
+ */
+export async function placeOfferHold(
+  client: DbClient,
+  userId: string,
+  waitlistEntryId: string,
+  slot: SlotHoldRequest,
+  expiresAt: Date
+): Promise<void> {
+  await client.insert(slotHolds).values({
+    userId,
+    roomId: slot.roomId,
+    bookingDate: slot.date,
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    waitlistEntryId,
+    expiresAt,
+  });
+}
+
+/** Release a waitlist offer's hold once the offer is claimed or given up. */
+export async function releaseOfferHold(waitlistEntryId: string): Promise<void> {
+  await db.delete(slotHolds).where(eq(slotHolds.waitlistEntryId, waitlistEntryId));
+}
+
+/**
+ * Active holds for the rooms on a date (for the day calendar and slot availability).
+ */
+export async function getActiveHolds(roomIds: string[], date: string): Promise<ActiveSlotHold[]> {
+  if (roomIds.length === 0) return [];
+  return db
+    .select({
+      roomId: slotHolds.roomId,
+      userId: slotHolds.userId,
+      startTime: slotHolds.startTime,
+      endTime: slotHolds.endTime,
+      expiresAt: slotHolds.expiresAt,
+    })
+    .from(slotHolds)
+    .where(
+      and(
+        inArray(slotHolds.roomId, roomIds),
+        eq(slotHolds.bookingDate, date),
+        gt(slotHolds.expiresAt, new Date())
+      )
+    )
+    .orderBy(asc(slotHolds.startTime));
+}
@@ -0,0 +1,228 @@
+/**
+ * Cross-room availability search ("find me a slot").
+ * Looks for free spans of a given duration across every active room at active locations, within
+ * a date range and optional weekday / time-of-day / location / price constraints. Opening hours,
+ * closures and confirmed bookings are loaded once for the whole range; each candidate is priced
+ * with the pricing engine (the same rates calculateTotalPrice uses when the booking is made).
+ */
+
+import { z } from 'zod';
+import { fromZonedTime } from 'date-fns-tz';
+import { db } from '../config/database';
+import { bookings, rooms, locations, locationClosures } from '../db/schema';
+import { eq, and, asc, gte, lte, inArray } from 'drizzle-orm';
+import { addDaysToDateString, todayUtcString, formatTimeForEmail } from '../utils/date.util';
+import { parseOpeningHours } from './location.service';
+import { openingWindowForDate } from './opening-hours.service';
+import * as PricingService from './pricing.service';
+import { BookingValidationError } from '../errors/booking.errors';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const HHMM_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+/** Candidate start times are on the half hour, like the booking form. */
+const SLOT_STEP_MINUTES = 30;
+/** Longest date range searched in one request. */
+const MAX_RANGE_DAYS = 31;
+
+export const slotSearchSchema = z.object({
+  /** Location names; all active locations when omitted. */
+  locations: z.array(z.string().min(1)).optional(),
+  fromDate: z.string().regex(DATE_REGEX, 'fromDate must be YYYY-MM-DD'),
+  toDate: z.string().regex(DATE_REGEX, 'toDate must be YYYY-MM-DD'),
+  /** Weekdays to include (0 = Sunday); every day when omitted. */
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  earliestStart: z.string().regex(HHMM_REGEX, 'earliestStart must be HH:MM').optional(),
+  latestEnd: z.string().regex(HHMM_REGEX, 'latestEnd must be HH:MM').optional(),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(SLOT_STEP_MINUTES)
+    .max(24 * 60)
+    .multipleOf(SLOT_STEP_MINUTES, 'durationMinutes must be a multiple of 30'),
+  maxPrice: z.number().nonnegative().optional(),
+  sort: z.enum(['soonest', 'cheapest']).default('soonest'),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+export type SlotSearchParams = z.input<typeof slotSearchSchema>;
+
+export interface SlotSearchResult {
+  roomId: string;
+  roomName: string;
+  locationName: string;
+  date: string;
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  price: number;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function toHHMM(mins: number): string {
+  return `${String(Math.floor(mins / 60)).padStart(2, '0')}:${String(mins % 60).padStart(2, '0')}`;
+}
+
+/** Weekday (0 = Sunday) of a YYYY-MM-DD calendar date. */
+function weekdayOf(date: string): number {
+  return new Date(date + 'T12:00:00Z').getUTCDay();
+}
+
+/**
+ * Search free slots across rooms. Results are ranked soonest first (then cheapest) or cheapest
+ * first (then soonest), and capped at `limit`.
+ * The range is clamped to today .. one month ahead, matching what can be booked.
+ * @throws {BookingValidationError} Invalid range or time window.
+ * @throws {ZodError} Invalid parameters.
+ */
+export async function searchSlots(params: SlotSearchParams): Promise<SlotSearchResult[]> {
+  const input = slotSearchSchema.parse(params);
+  if (input.toDate < input.fromDate) {
+    throw new BookingValidationError('toDate must be on or after fromDate');
+  }
+  if (addDaysToDateString(input.fromDate, MAX_RANGE_DAYS - 1) < input.toDate) {
+    throw new BookingValidationError(`Search at most ${MAX_RANGE_DAYS} days at a time`);
+  }
+  if (input.earliestStart && input.latestEnd && input.latestEnd <= input.earliestStart) {
+    throw new BookingValidationError('latestEnd must be after earliestStart');
+  }
+
+  const today = todayUtcString();
+  const [y, m, d] = today.split('-').map(Number);
+  const maxDate = new Date(Date.UTC(y, m - 1, d));
+  maxDate.setUTCMonth(maxDate.getUTCMonth() + 1);
+  const fromDate = input.fromDate < today ? today : input.fromDate;
+  const maxDateStr = maxDate.toISOString().split('T')[0];
+  const toDate = input.toDate > maxDateStr ? maxDateStr : input.toDate;
+  if (toDate < fromDate) return [];
+
+  const locationConditions = [eq(rooms.active, true), eq(locations.active, true)];
+  if (input.locations?.length) locationConditions.push(inArray(locations.name, input.locations));
+  const roomRows = await db
+    .select({
+      id: rooms.id,
+      name: rooms.name,
+      locationId: rooms.locationId,
+      locationName: locations.name,
+      openingHours: locations.openingHours,
+    })
+    .from(rooms)
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(and(...locationConditions))
+    .orderBy(asc(locations.name), asc(rooms.roomNumber));
+  if (roomRows.length === 0) return [];
+
+  const roomIds = roomRows.map((r) => r.id);
+  const closures = await db
+    .select({
+      locationId: locationClosures.locationId,
+      roomId: locationClosures.roomId,
+      startDate: locationClosures.startDate,
+      endDate: locationClosures.endDate,
+    })
+    .from(locationClosures)
+    .where(
+      and(
+        inArray(locationClosures.locationId, [...new Set(roomRows.map((r) => r.locationId))]),
+        lte(locationClosures.startDate, toDate),
+        gte(locationClosures.endDate, fromDate)
+      )
+    );
+  const booked = await db
+    .select({
+      roomId: bookings.roomId,
+      bookingDate: bookings.bookingDate,
+      startTime: bookings.startTime,
+      endTime: bookings.endTime,
+    })
+    .from(bookings)
+    .where(
+      and(
+        inArray(bookings.roomId, roomIds),
+        gte(bookings.bookingDate, fromDate),
+        lte(bookings.bookingDate, toDate),
+        eq(bookings.status, 'confirmed')
+      )
+    );
+
+  const durationMins = input.durationMinutes;
+  const nowMs = Date.now();
+  const results: SlotSearchResult[] = [];
+  for (let date = fromDate; date <= toDate; date = addDaysToDateString(date, 1)) {
+    if (input.weekdays && !input.weekdays.includes(weekdayOf(date))) continue;
+    for (const room of roomRows) {
+      const closed = closures.some(
+        (c) =>
+          c.locationId === room.locationId &&
+          (c.roomId === null || c.roomId === room.id) &&
+          String(c.startDate) <= date &&
+          String(c.endDate) >= date
+      );
+      if (closed) continue;
+      const window = openingWindowForDate(parseOpeningHours(room.openingHours), date);
+      if (!window) continue;
+
+      const firstStart = Math.max(
+        toMinutes(window.openTime),
+        input.earliestStart ? toMinutes(input.earliestStart) : 0
+      );
+      const lastEnd = Math.min(
+        toMinutes(window.closeTime),
+        input.latestEnd ? toMinutes(input.latestEnd) : 24 * 60
+      );
+      const taken = booked
+        .filter((b) => b.roomId === room.id && String(b.bookingDate) === date)
+        .map((b) => ({
+          start: toMinutes(formatTimeForEmail(b.startTime)),
+          end: toMinutes(formatTimeForEmail(b.endTime)),
+        }));
+
+      let price: ((startTime: string, endTime: string) => number) | null = null;
+      const alignedStart = Math.ceil(firstStart / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+      for (let start = alignedStart; start + durationMins <= lastEnd; start += SLOT_STEP_MINUTES) {
+        const end = start + durationMins;
+        if (taken.some((b) => b.start < end && b.end > start)) continue;
+        const startTime = toHHMM(start);
+        if (fromZonedTime(`${date}T${startTime}:00`, 'Europe/London').getTime() <= nowMs) continue;
+
+        try {
+          price ??= await PricingService.getDayPricer(
+            room.locationName,
+            new Date(date + 'T12:00:00Z'),
+            { roomId: room.id }
+          );
+        } catch {
+          // No pricing configured for this room: it cannot be booked, so it has no slots
+          break;
+        }
+        const endTime = toHHMM(end);
+        let slotPrice: number;
+        try {
+          slotPrice = price(startTime, endTime);
+        } catch {
+          continue; // span not covered by a rate band
+        }
+        if (input.maxPrice != null && slotPrice > input.maxPrice) continue;
+        results.push({
+          roomId: room.id,
+          roomName: room.name,
+          locationName: room.locationName,
+          date,
+          startTime,
+          endTime,
+          price: slotPrice,
+        });
+      }
+    }
+  }
+
+  const soonest = (a: SlotSearchResult, b: SlotSearchResult) =>
+    a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime);
+  const cheapest = (a: SlotSearchResult, b: SlotSearchResult) => a.price - b.price;
+  results.sort((a, b) =>
+    input.sort === 'cheapest' ? cheapest(a, b) || soonest(a, b) : soonest(a, b) || cheapest(a, b)
+  );
+  return results.slice(0, input.limit);
+}
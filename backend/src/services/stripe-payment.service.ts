@@ -166,10 +166,13 @@ export interface CreateCheckoutSessionForSubscriptionParams {
   proratedAmountPence?: number;
   /** Optional: first-invoice split for webhook to grant two credit buckets without parsing line items. */
   firstInvoiceSplit?: FirstInvoiceSplit;
+  /** Optional: extra subscription metadata, e.g. a plan switch to finish when the first invoice is paid. */
+  metadata?: Record<string, string>;
 }
 
 export interface CreateCheckoutSessionForSubscriptionResult {
   checkoutUrl: string;
+  sessionId: string;
 }
 
 /**
@@ -198,7 +201,10 @@ export async function createCheckoutSessionForSubscription(
       quantity: 1,
     });
   }
-  const subscriptionMetadata: Record<string, string> = { userId: params.userId };
+  const subscriptionMetadata: Record<string, string> = {
+    ...params.metadata,
+    userId: params.userId,
+  };
   if (params.firstInvoiceSplit) {
     subscriptionMetadata.currentMonthAmountPence = String(params.firstInvoiceSplit.currentMonthAmountPence);
     subscriptionMetadata.nextMonthAmountPence = String(params.firstInvoiceSplit.nextMonthAmountPence);
@@ -217,7 +223,27 @@ export async function createCheckoutSessionForSubscription(
   if (!session.url) {
     throw new Error('Stripe did not return a checkout URL');
   }
-  return { checkoutUrl: session.url };
+  return { checkoutUrl: session.url, sessionId: session.id };
+}
+
+/**
+ * Retrieve a Checkout Session (e.g. to check whether it is still open).
+ */
+export async function getCheckoutSession(sessionId: string) {
+  if (!sessionId || !sessionId.trim()) {
+    throw new Error('Invalid sessionId: must be a non-empty string');
+  }
+  return getStripe().checkout.sessions.retrieve(sessionId.trim());
+}
+
+/**
+ * Expire an open Checkout Session so it can no longer be paid.
+ */
+export async function expireCheckoutSession(sessionId: string) {
+  if (!sessionId || !sessionId.trim()) {
+    throw new Error('Invalid sessionId: must be a non-empty string');
+  }
+  return getStripe().checkout.sessions.expire(sessionId.trim());
 }
 
 /**
@@ -230,6 +256,16 @@ export async function getPaymentIntent(paymentIntentId: string) {
   return getStripe().paymentIntents.retrieve(paymentIntentId.trim());
 }
 
+/**
+ * Cancel a PaymentIntent that has not been paid, so it can no longer be confirmed.
+ */
+export async function cancelPaymentIntent(paymentIntentId: string) {
+  if (!paymentIntentId || !paymentIntentId.trim()) {
+    throw new Error('Invalid paymentIntentId: must be a non-empty string');
+  }
+  return getStripe().paymentIntents.cancel(paymentIntentId.trim());
+}
+
 /**
  * Confirm a PaymentIntent server-side (optional; usually the client confirms with clientSecret).
  * Use when you need to confirm with a specific payment method server-side.
@@ -251,10 +287,47 @@ export async function cancelSubscription(subscriptionId: string) {
   return getStripe().subscriptions.cancel(subscriptionId.trim());
 }
 
+/**
+ * End of a subscription's current billing period (when the next invoice is due).
+ */
+export async function getSubscriptionPeriodEnd(subscriptionId: string): Promise<Date> {
+  const subscription = await getStripe().subscriptions.retrieve(subscriptionId.trim());
+  const periodEnd = subscription.items.data[0]?.current_period_end;
+  if (periodEnd == null) {
+    throw new Error(`Subscription ${subscriptionId} has no current period`);
+  }
+  return new Date(periodEnd * 1000);
+}
+
+/**
+ * Cancel a subscription when its current period ends, or (cancel = false) undo that.
+ */
+export async function setCancelAtPeriodEnd(subscriptionId: string, cancel: boolean) {
+  return getStripe().subscriptions.update(subscriptionId.trim(), {
+    cancel_at_period_end: cancel,
+  });
+}
+
+/**
+ * Pause billing until resumesAt: invoices in between are voided, so nothing is charged and no
+ * credits are granted. Pass null to resume billing now.
+ */
+export async function pauseSubscriptionCollection(subscriptionId: string, resumesAt: Date | null) {
+  return getStripe().subscriptions.update(subscriptionId.trim(), {
+    pause_collection:
+      resumesAt == null
+        ? ''
+        : { behavior: 'void', resumes_at: Math.floor(resumesAt.getTime() / 1000) },
+  });
+}
+
 export interface RefundPaymentParams {
   paymentIntentId: string;
   /** Optional: amount to refund in smallest currency unit. If omitted, full refund. */
   amount?: number;
+  metadata?: Record<string, string>;
+  /** Optional idempotency key so retries do not create duplicate refunds. */
+  idempotencyKey?: string;
 }
 
 /**
@@ -267,13 +340,17 @@ export async function refundPayment(params: RefundPaymentParams) {
   if (params.amount != null && params.amount < 0) {
     throw new Error('Invalid amount: refund amount cannot be negative');
   }
-  const payload: { payment_intent: string; amount?: number } = {
+  const payload: { payment_intent: string; amount?: number; metadata?: Record<string, string> } = {
     payment_intent: params.paymentIntentId.trim(),
+    ...(params.metadata && { metadata: params.metadata }),
   };
   if (params.amount != null && params.amount > 0) {
     payload.amount = Math.round(params.amount);
   }
-  return getStripe().refunds.create(payload);
+  const requestOptions = params.idempotencyKey
+    ? { idempotencyKey: params.idempotencyKey }
+    : undefined;
+  return getStripe().refunds.create(payload, requestOptions);
 }
 
 export interface InvoiceListItem {
@@ -342,7 +419,7 @@ export async function getRevenueForMonthGbp(yearMonth: {
   })) {
     if (pi.status !== 'succeeded' || pi.amount_received == null) continue;
     const type = (pi.metadata?.type as string) ?? '';
-    if (type === 'pay_the_difference') continue;
+    if (type === 'pay_the_difference' || type === 'pay_the_difference_batch') continue;
     totalPence += pi.amount_received;
   }
   return totalPence / 100;
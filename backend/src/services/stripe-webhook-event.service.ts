@@ -0,0 +1,159 @@
+/**
+ * Stripe webhook event store. Every verified event is stored before it is handled, so a
+ * redelivery is recognised across restarts and API instances (no double-granted credits), and
+ * events that failed or had no handler stay visible for admins to inspect and replay.
+ */
+
+import Stripe from 'stripe';
+import { db } from '../config/database';
+import { stripeWebhookEvents } from '../db/schema';
+import { and, eq, or, lt, desc, inArray, sql } from 'drizzle-orm';
+import {
+  WebhookEventNotFoundError,
+  WebhookEventStateError,
+} from '../errors/stripe-webhook-event.errors';
+
+export type WebhookEventStatus = (typeof stripeWebhookEvents.$inferSelect)['status'];
+
+/** Outcome of running the handler for an event. */
+export type WebhookEventOutcome = Extract<WebhookEventStatus, 'processed' | 'unhandled'>;
+
+/**
+ * claimed: this delivery should run the handler. duplicate: already handled (or had no handler).
+ * in_progress: another delivery is handling it right now.
+ */
+export type ClaimResult = 'claimed' | 'duplicate' | 'in_progress';
+
+export type WebhookEventListItem = Omit<typeof stripeWebhookEvents.$inferSelect, 'payload'>;
+
+/** A delivery still 'processing' after this long is assumed to have died mid-way and is retried. */
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+const LIST_LIMIT = 200;
+
+/** Error text kept on the event; enough to diagnose without storing whole stack traces. */
+const MAX_ERROR_LENGTH = 2000;
+
+/** Take a failed event, or one whose delivery died mid-way, for another run. */
+function retryableCondition() {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+  return or(
+    eq(stripeWebhookEvents.status, 'failed'),
+    and(
+      eq(stripeWebhookEvents.status, 'processing'),
+      lt(stripeWebhookEvents.updatedAt, staleBefore)
+    )
+  );
+}
+
+/**
+ * Store a delivered event and decide whether this delivery should handle it. A first delivery
+ * is claimed; a redelivery of a failed event (Stripe's retry) is claimed again with the attempt
+ * counted.
+ */
+export async function claimEvent(event: Stripe.Event): Promise<ClaimResult> {
+  const [inserted] = await db
+    .insert(stripeWebhookEvents)
+    .values({ id: event.id, type: event.type, payload: event })
+    .onConflictDoNothing({ target: stripeWebhookEvents.id })
+    .returning({ id: stripeWebhookEvents.id });
+  if (inserted) return 'claimed';
+
+  const [reclaimed] = await db
+    .update(stripeWebhookEvents)
+    .set({
+      status: 'processing',
+      attempts: sql`${stripeWebhookEvents.attempts} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(stripeWebhookEvents.id, event.id), retryableCondition()))
+    .returning({ id: stripeWebhookEvents.id });
+  if (reclaimed) return 'claimed';
+
+  const [existing] = await db
+    .select({ status: stripeWebhookEvents.status })
+    .from(stripeWebhookEvents)
+    .where(eq(stripeWebhookEvents.id, event.id))
+    .limit(1);
+  return existing?.status === 'processing' ? 'in_progress' : 'duplicate';
+}
+
+/**
+ * Take a stored failed or unhandled event for an admin replay.
+ * @returns The stored event to run the handler on.
+ * @throws {WebhookEventNotFoundError} Unknown event.
+ * @throws {WebhookEventStateError} The event is being processed or was already handled.
+ */
+export async function claimForReplay(eventId: string): Promise<Stripe.Event> {
+  const [claimed] = await db
+    .update(stripeWebhookEvents)
+    .set({
+      status: 'processing',
+      attempts: sql`${stripeWebhookEvents.attempts} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(stripeWebhookEvents.id, eventId),
+        or(eq(stripeWebhookEvents.status, 'unhandled'), retryableCondition())
+      )
+    )
+    .returning({ payload: stripeWebhookEvents.payload });
+  if (claimed) return claimed.payload as Stripe.Event;
+
+  const [existing] = await db
+    .select({ status: stripeWebhookEvents.status })
+    .from(stripeWebhookEvents)
+    .where(eq(stripeWebhookEvents.id, eventId))
+    .limit(1);
+  if (!existing) throw new WebhookEventNotFoundError();
+  if (existing.status === 'processing') {
+    throw new WebhookEventStateError('Webhook event is being processed');
+  }
+  throw new WebhookEventStateError('Only failed or unhandled webhook events can be replayed');
+}
+
+export async function markHandled(eventId: string, outcome: WebhookEventOutcome): Promise<void> {
+  const now = new Date();
+  await db
+    .update(stripeWebhookEvents)
+    .set({ status: outcome, lastError: null, processedAt: now, updatedAt: now })
+    .where(eq(stripeWebhookEvents.id, eventId));
+}
+
+export async function markFailed(eventId: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  await db
+    .update(stripeWebhookEvents)
+    .set({
+      status: 'failed',
+      lastError: message.slice(0, MAX_ERROR_LENGTH),
+      updatedAt: new Date(),
+    })
+    .where(eq(stripeWebhookEvents.id, eventId));
+}
+
+/**
+ * Stored events, newest first, without payloads. Defaults to the ones needing attention: failed,
+ * unhandled, and deliveries stuck mid-way.
+ */
+export async function listEvents(
+  statuses: WebhookEventStatus[] = ['failed', 'unhandled', 'processing']
+): Promise<WebhookEventListItem[]> {
+  if (statuses.length === 0) return [];
+  return db
+    .select({
+      id: stripeWebhookEvents.id,
+      type: stripeWebhookEvents.type,
+      status: stripeWebhookEvents.status,
+      attempts: stripeWebhookEvents.attempts,
+      lastError: stripeWebhookEvents.lastError,
+      processedAt: stripeWebhookEvents.processedAt,
+      createdAt: stripeWebhookEvents.createdAt,
+      updatedAt: stripeWebhookEvents.updatedAt,
+    })
+    .from(stripeWebhookEvents)
+    .where(inArray(stripeWebhookEvents.status, statuses))
+    .orderBy(desc(stripeWebhookEvents.createdAt))
+    .limit(LIST_LIMIT);
+}
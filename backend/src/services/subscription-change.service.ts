@@ -0,0 +1,463 @@
+/**
+ * Self-service changes to a monthly subscription: cancel at the end of the current billing
+ * period, or pause billing for a number of months from then. A request with no bookings in the
+ * affected dates is applied straight away; otherwise the bookings are flagged and an admin
+ * approves or rejects it. Admins can also revert an applied request.
+ */
+
+import { db } from '../config/database';
+import {
+  bookings,
+  locations,
+  memberships,
+  rooms,
+  subscriptionChangeRequests,
+  users,
+} from '../db/schema';
+import { and, desc, eq, getTableColumns, gte, inArray, lt, or } from 'drizzle-orm';
+import { todayUtcString } from '../utils/date.util';
+import * as StripePaymentService from './stripe-payment.service';
+import * as SubscriptionService from './subscription.service';
+import { isStripeConfigured } from '../config/stripe';
+import {
+  InvalidPauseLengthError,
+  MembershipNotFoundError,
+  OnlyMonthlyChangeableError,
+  PaymentsNotConfiguredError,
+  SubscriptionChangeConflictError,
+  SubscriptionChangeNotFoundError,
+} from '../errors/subscription.errors';
+import { logger } from '../utils/logger.util';
+import type { CreditTransactionClient } from './credit-transaction.service';
+
+/** Longest pause a practitioner can request, in months. */
+export const SUBSCRIPTION_MAX_PAUSE_MONTHS = ((): number => {
+  const raw = process.env.SUBSCRIPTION_MAX_PAUSE_MONTHS;
+  if (raw === undefined || raw === '') return 3;
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : 3;
+})();
+
+export type SubscriptionChangeKind = 'cancel' | 'pause';
+export type SubscriptionChangeStatus = 'pending' | 'applied' | 'rejected' | 'reverted';
+
+export interface FlaggedBooking {
+  id: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  roomName: string;
+  locationName: string;
+  status: string;
+}
+
+export interface SubscriptionChangeRequestItem {
+  id: string;
+  userId: string;
+  kind: SubscriptionChangeKind;
+  status: SubscriptionChangeStatus;
+  effectiveDate: string;
+  resumeDate: string | null;
+  flaggedBookings: FlaggedBooking[];
+  reviewedAt: string | null;
+  reviewerName: string | null;
+  adminNote: string | null;
+  createdAt: string;
+}
+
+export interface AdminSubscriptionChangeRequestItem extends SubscriptionChangeRequestItem {
+  practitionerName: string;
+  practitionerEmail: string;
+}
+
+type ChangeRequestRow = typeof subscriptionChangeRequests.$inferSelect;
+type DbClient = typeof db | CreditTransactionClient;
+
+/** Add whole months to a YYYY-MM-DD date, clamping to the end of shorter months. */
+function addMonthsToDateString(dateStr: string, months: number): string {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(y, m - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m - 1 + months, Math.min(d, lastDay))).toISOString().slice(0, 10);
+}
+
+function toDateString(value: string | Date | null): string | null {
+  return value != null ? String(value).slice(0, 10) : null;
+}
+
+/** A request that still affects the subscription: pending, or applied and not yet over. */
+function isOpen(request: ChangeRequestRow, today: string): boolean {
+  if (request.status === 'pending') return true;
+  if (request.status !== 'applied') return false;
+  const end = toDateString(request.kind === 'pause' ? request.resumeDate : request.effectiveDate);
+  return end != null && end > today;
+}
+
+async function findOpenRequest(
+  userId: string,
+  client: DbClient = db
+): Promise<ChangeRequestRow | null> {
+  const rows = await client
+    .select()
+    .from(subscriptionChangeRequests)
+    .where(
+      and(
+        eq(subscriptionChangeRequests.userId, userId),
+        inArray(subscriptionChangeRequests.status, ['pending', 'applied'])
+      )
+    )
+    .orderBy(desc(subscriptionChangeRequests.createdAt));
+  const today = todayUtcString();
+  return rows.find((r) => isOpen(r, today)) ?? null;
+}
+
+async function getFlaggedBookings(ids: string[]): Promise<Map<string, FlaggedBooking>> {
+  if (ids.length === 0) return new Map();
+  const rows = await db
+    .select({
+      id: bookings.id,
+      bookingDate: bookings.bookingDate,
+      startTime: bookings.startTime,
+      endTime: bookings.endTime,
+      roomName: rooms.name,
+      locationName: locations.name,
+      status: bookings.status,
+    })
+    .from(bookings)
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(inArray(bookings.id, ids));
+  return new Map(
+    rows.map((r) => [
+      r.id,
+      {
+        ...r,
+        bookingDate: String(r.bookingDate).slice(0, 10),
+        startTime: String(r.startTime).slice(0, 5),
+        endTime: String(r.endTime).slice(0, 5),
+      },
+    ])
+  );
+}
+
+function toItem(
+  request: ChangeRequestRow,
+  flagged: Map<string, FlaggedBooking>,
+  reviewerName: string | null
+): SubscriptionChangeRequestItem {
+  const ids = request.flaggedBookingIds as string[];
+  return {
+    id: request.id,
+    userId: request.userId,
+    kind: request.kind,
+    status: request.status,
+    effectiveDate: String(request.effectiveDate).slice(0, 10),
+    resumeDate: toDateString(request.resumeDate),
+    flaggedBookings: ids.flatMap((id) => flagged.get(id) ?? []),
+    reviewedAt: request.reviewedAt?.toISOString() ?? null,
+    reviewerName,
+    adminNote: request.adminNote,
+    createdAt: request.createdAt.toISOString(),
+  };
+}
+
+async function getMonthlyMembership(userId: string) {
+  const [membership] = await db
+    .select({
+      id: memberships.id,
+      subscriptionType: memberships.subscriptionType,
+      stripeSubscriptionId: memberships.stripeSubscriptionId,
+    })
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+  if (!membership) throw new MembershipNotFoundError();
+  if (membership.subscriptionType !== 'monthly' || !membership.stripeSubscriptionId) {
+    throw new OnlyMonthlyChangeableError();
+  }
+  return { ...membership, stripeSubscriptionId: membership.stripeSubscriptionId };
+}
+
+/** Make the change in Stripe and on the membership. */
+async function applyChange(request: ChangeRequestRow): Promise<void> {
+  const membership = await getMonthlyMembership(request.userId);
+  const effectiveDate = String(request.effectiveDate).slice(0, 10);
+  if (request.kind === 'cancel') {
+    await StripePaymentService.setCancelAtPeriodEnd(membership.stripeSubscriptionId, true);
+    await db
+      .update(memberships)
+      .set({
+        terminationRequestedAt: new Date(),
+        subscriptionEndDate: effectiveDate,
+        updatedAt: new Date(),
+      })
+      .where(eq(memberships.id, membership.id));
+  } else {
+    const resumeDate = toDateString(request.resumeDate) as string;
+    await StripePaymentService.pauseSubscriptionCollection(
+      membership.stripeSubscriptionId,
+      new Date(resumeDate + 'T00:00:00Z')
+    );
+    await db
+      .update(memberships)
+      .set({ pausedFrom: effectiveDate, pausedUntil: resumeDate, updatedAt: new Date() })
+      .where(eq(memberships.id, membership.id));
+  }
+}
+
+/** Undo an applied change in Stripe and on the membership. */
+async function revertChange(request: ChangeRequestRow): Promise<void> {
+  const membership = await getMonthlyMembership(request.userId);
+  if (request.kind === 'cancel') {
+    await StripePaymentService.setCancelAtPeriodEnd(membership.stripeSubscriptionId, false);
+    await db
+      .update(memberships)
+      .set({ terminationRequestedAt: null, subscriptionEndDate: null, updatedAt: new Date() })
+      .where(eq(memberships.id, membership.id));
+  } else {
+    await StripePaymentService.pauseSubscriptionCollection(membership.stripeSubscriptionId, null);
+    await db
+      .update(memberships)
+      .set({ pausedFrom: null, pausedUntil: null, updatedAt: new Date() })
+      .where(eq(memberships.id, membership.id));
+  }
+}
+
+async function createRequest(
+  userId: string,
+  kind: SubscriptionChangeKind,
+  getDates: (periodEnd: Date) => { effectiveDate: string; resumeDate: string | null }
+): Promise<SubscriptionChangeRequestItem> {
+  if (!isStripeConfigured()) {
+    throw new PaymentsNotConfiguredError();
+  }
+  const membership = await getMonthlyMembership(userId);
+  const periodEnd = await StripePaymentService.getSubscriptionPeriodEnd(
+    membership.stripeSubscriptionId
+  );
+  const { effectiveDate, resumeDate } = getDates(periodEnd);
+  const flaggedRows = await db
+    .select({ id: bookings.id })
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.userId, userId),
+        eq(bookings.status, 'confirmed'),
+        gte(bookings.bookingDate, effectiveDate),
+        ...(resumeDate != null ? [lt(bookings.bookingDate, resumeDate)] : [])
+      )
+    )
+    .orderBy(bookings.bookingDate, bookings.startTime);
+  const flaggedBookingIds = flaggedRows.map((r) => r.id);
+
+  // The membership row is locked while checking for an open request and inserting this one, so
+  // two requests sent at once cannot both be created.
+  const request = await db.transaction(async (tx) => {
+    await tx
+      .select({ id: memberships.id })
+      .from(memberships)
+      .where(eq(memberships.id, membership.id))
+      .for('update');
+    if (await findOpenRequest(userId, tx)) {
+      throw new SubscriptionChangeConflictError(
+        'You already have a cancellation or pause in progress'
+      );
+    }
+    const [inserted] = await tx
+      .insert(subscriptionChangeRequests)
+      .values({ userId, kind, effectiveDate, resumeDate, flaggedBookingIds })
+      .returning();
+    return inserted;
+  });
+
+  let result = request;
+  if (flaggedBookingIds.length === 0) {
+    await applyChange(request);
+    [result] = await db
+      .update(subscriptionChangeRequests)
+      .set({ status: 'applied', updatedAt: new Date() })
+      .where(eq(subscriptionChangeRequests.id, request.id))
+      .returning();
+  }
+  logger.info('Subscription change requested', {
+    userId,
+    requestId: request.id,
+    kind,
+    effectiveDate,
+    resumeDate,
+    flaggedBookings: flaggedBookingIds.length,
+    status: result.status,
+  });
+  return toItem(result, await getFlaggedBookings(flaggedBookingIds), null);
+}
+
+/**
+ * Cancel the practitioner's monthly subscription when the current billing period ends. They keep
+ * access until calculateSuspensionDate(period end), as after any monthly termination; bookings
+ * from that date are flagged for an admin to review before it is applied.
+ * @throws OnlyMonthlyChangeableError | SubscriptionChangeConflictError
+ */
+export async function requestCancellation(userId: string): Promise<SubscriptionChangeRequestItem> {
+  return createRequest(userId, 'cancel', (periodEnd) => ({
+    effectiveDate: SubscriptionService.calculateSuspensionDate(periodEnd),
+    resumeDate: null,
+  }));
+}
+
+/**
+ * Pause billing from the end of the current billing period for a number of months. Invoices in
+ * the pause are voided, so no credits are granted, and new bookings in it are blocked; bookings
+ * already in it are flagged for an admin to review before it is applied.
+ * @throws InvalidPauseLengthError | OnlyMonthlyChangeableError | SubscriptionChangeConflictError
+ */
+export async function requestPause(
+  userId: string,
+  months: number
+): Promise<SubscriptionChangeRequestItem> {
+  if (!Number.isInteger(months) || months < 1 || months > SUBSCRIPTION_MAX_PAUSE_MONTHS) {
+    throw new InvalidPauseLengthError(
+      `months must be a whole number from 1 to ${SUBSCRIPTION_MAX_PAUSE_MONTHS}`
+    );
+  }
+  return createRequest(userId, 'pause', (periodEnd) => {
+    const effectiveDate = periodEnd.toISOString().slice(0, 10);
+    return { effectiveDate, resumeDate: addMonthsToDateString(effectiveDate, months) };
+  });
+}
+
+/** The practitioner's cancellation or pause that is pending or in effect, if any. */
+export async function getOpenRequest(
+  userId: string
+): Promise<SubscriptionChangeRequestItem | null> {
+  const request = await findOpenRequest(userId);
+  if (!request) return null;
+  const flagged = await getFlaggedBookings(request.flaggedBookingIds as string[]);
+  return toItem(request, flagged, null);
+}
+
+/** Requests for the admin dashboard, pending first, then the most recent. */
+export async function listRequests(): Promise<AdminSubscriptionChangeRequestItem[]> {
+  const rows = await db
+    .select({
+      ...getTableColumns(subscriptionChangeRequests),
+      practitionerFirstName: users.firstName,
+      practitionerLastName: users.lastName,
+      practitionerEmail: users.email,
+    })
+    .from(subscriptionChangeRequests)
+    .innerJoin(users, eq(subscriptionChangeRequests.userId, users.id))
+    .where(
+      or(
+        inArray(subscriptionChangeRequests.status, ['pending', 'applied']),
+        gte(subscriptionChangeRequests.updatedAt, new Date(Date.now() - 30 * 24 * 60 * 60 * 1000))
+      )
+    )
+    .orderBy(desc(subscriptionChangeRequests.createdAt))
+    .limit(200);
+
+  const flagged = await getFlaggedBookings(rows.flatMap((r) => r.flaggedBookingIds as string[]));
+  const reviewerIds = [...new Set(rows.flatMap((r) => (r.reviewedBy ? [r.reviewedBy] : [])))];
+  const reviewers = new Map(
+    reviewerIds.length === 0
+      ? []
+      : (
+          await db
+            .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+            .from(users)
+            .where(inArray(users.id, reviewerIds))
+        ).map((u) => [u.id, `${u.firstName} ${u.lastName}`])
+  );
+  const items = rows.map((r) => ({
+    ...toItem(r, flagged, r.reviewedBy ? (reviewers.get(r.reviewedBy) ?? null) : null),
+    practitionerName: `${r.practitionerFirstName} ${r.practitionerLastName}`,
+    practitionerEmail: r.practitionerEmail,
+  }));
+  return [
+    ...items.filter((i) => i.status === 'pending'),
+    ...items.filter((i) => i.status !== 'pending'),
+  ];
+}
+
+async function getRequest(requestId: string): Promise<ChangeRequestRow> {
+  const [request] = await db
+    .select()
+    .from(subscriptionChangeRequests)
+    .where(eq(subscriptionChangeRequests.id, requestId))
+    .limit(1);
+  if (!request) throw new SubscriptionChangeNotFoundError();
+  return request;
+}
+
+async function markReviewed(
+  requestId: string,
+  fromStatus: SubscriptionChangeStatus,
+  status: SubscriptionChangeStatus,
+  adminUserId: string,
+  adminNote: string | undefined
+): Promise<void> {
+  const now = new Date();
+  const [updated] = await db
+    .update(subscriptionChangeRequests)
+    .set({
+      status,
+      reviewedBy: adminUserId,
+      reviewedAt: now,
+      adminNote: adminNote?.trim() || null,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(subscriptionChangeRequests.id, requestId),
+        eq(subscriptionChangeRequests.status, fromStatus)
+      )
+    )
+    .returning({ id: subscriptionChangeRequests.id });
+  if (!updated) {
+    throw new SubscriptionChangeConflictError('The request was reviewed by someone else');
+  }
+}
+
+/**
+ * Approve a pending request and apply it. Flagged bookings are left for the admin to cancel or
+ * move.
+ * @throws SubscriptionChangeNotFoundError | SubscriptionChangeConflictError
+ */
+export async function approveRequest(
+  requestId: string,
+  adminUserId: string,
+  adminNote?: string
+): Promise<void> {
+  const request = await getRequest(requestId);
+  if (request.status !== 'pending') {
+    throw new SubscriptionChangeConflictError(`Request is already ${request.status}`);
+  }
+  await applyChange(request);
+  await markReviewed(requestId, 'pending', 'applied', adminUserId, adminNote);
+  logger.info('Subscription change approved', { requestId, adminUserId, kind: request.kind });
+}
+
+/**
+ * Reject a pending request, or override an applied one by reverting it in Stripe and on the
+ * membership.
+ * @throws SubscriptionChangeNotFoundError | SubscriptionChangeConflictError
+ */
+export async function rejectRequest(
+  requestId: string,
+  adminUserId: string,
+  adminNote?: string
+): Promise<void> {
+  const request = await getRequest(requestId);
+  if (request.status === 'pending') {
+    await markReviewed(requestId, 'pending', 'rejected', adminUserId, adminNote);
+  } else if (request.status === 'applied' && isOpen(request, todayUtcString())) {
+    await revertChange(request);
+    await markReviewed(requestId, 'applied', 'reverted', adminUserId, adminNote);
+  } else {
+    throw new SubscriptionChangeConflictError(`Request is already ${request.status}`);
+  }
+  logger.info('Subscription change rejected', {
+    requestId,
+    adminUserId,
+    kind: request.kind,
+    previousStatus: request.status,
+  });
+}
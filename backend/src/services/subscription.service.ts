@@ -8,12 +8,18 @@ import { db } from '../config/database';
 import { memberships, users } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { todayUtcString } from '../utils/date.util';
-import * as BookingService from './booking.service';
+import * as PermanentScheduleService from './permanent-schedule.service';
 import * as ProrataService from './prorata.service';
 import * as StripePaymentService from './stripe-payment.service';
 import * as CreditTransactionService from './credit-transaction.service';
+import * as DunningService from './dunning.service';
+import { emailService } from './email.service';
 import { isStripeConfigured } from '../config/stripe';
-import { MembershipNotFoundError, OnlyAdHocTerminableError } from '../errors/subscription.errors';
+import {
+  MembershipNotFoundError,
+  OnlyAdHocTerminableError,
+  PaymentsNotConfiguredError,
+} from '../errors/subscription.errors';
 import { logger } from '../utils/logger.util';
 
 /**
@@ -58,14 +64,14 @@ async function getOrCreateStripeCustomerId(
   return customerId;
 }
 
-const AD_HOC_AMOUNT_GBP = 150;
-const MONTHLY_AMOUNT_GBP = 105;
+export const AD_HOC_AMOUNT_GBP = 150;
+export const MONTHLY_AMOUNT_GBP = 105;
 
 /** Stripe Price ID for monthly £105 subscription (set in env). */
 function getMonthlyPriceId(): string {
   const id = process.env.STRIPE_MONTHLY_PRICE_ID;
   if (!id || !id.trim()) {
-    throw new Error('STRIPE_MONTHLY_PRICE_ID is not set');
+    throw new PaymentsNotConfiguredError('STRIPE_MONTHLY_PRICE_ID is not set');
   }
   return id.trim();
 }
@@ -98,6 +104,35 @@ export function calculateSuspensionDate(terminationDate: Date | string): string
   return getLastDayOfMonthString(y, m + 1);
 }
 
+/** Why a paused monthly subscription stops booking, whether paused in Stripe or by a request. */
+export const PAUSED_REASON = 'Your monthly subscription is paused';
+
+/** Monthly subscription Stripe statuses that stop new bookings; past_due is left to dunning. */
+const BLOCKING_SUBSCRIPTION_STATUSES: Record<string, string> = {
+  unpaid: 'Your monthly subscription is unpaid. Update your payment details to make new bookings',
+  paused: PAUSED_REASON,
+};
+
+/** Whether a date (YYYY-MM-DD) falls within a monthly subscription's pause. */
+export function isPausedOn(
+  membership: { pausedFrom: string | Date | null; pausedUntil: string | Date | null },
+  date: string
+): boolean {
+  if (membership.pausedFrom == null || membership.pausedUntil == null) return false;
+  return (
+    String(membership.pausedFrom).slice(0, 10) <= date &&
+    date < String(membership.pausedUntil).slice(0, 10)
+  );
+}
+
+/** Why the monthly subscription's Stripe status stops the practitioner booking, or null. */
+export function getSubscriptionStatusBlockReason(
+  stripeSubscriptionStatus: string | null
+): string | null {
+  if (stripeSubscriptionStatus == null) return null;
+  return BLOCKING_SUBSCRIPTION_STATUSES[stripeSubscriptionStatus] ?? null;
+}
+
 export interface SubscriptionStatusResult {
   canBook: boolean;
   reason?: string;
@@ -107,6 +142,12 @@ export interface SubscriptionStatusResult {
     subscriptionEndDate: string | null;
     suspensionDate: string | null;
     terminationRequestedAt: string | null;
+    /** Set while a monthly payment is failing. */
+    paymentFailedAt: string | null;
+    paymentUpdateUrl: string | null;
+    /** Monthly subscription pause: first paused day and first day after it. */
+    pausedFrom: string | null;
+    pausedUntil: string | null;
   };
   monthlyPriceGbp?: number;
   permanentSlots?: Array<{
@@ -124,6 +165,10 @@ function formatMembershipForStatus(membership: {
   subscriptionEndDate: string | Date | null;
   suspensionDate: string | Date | null;
   terminationRequestedAt: Date | null;
+  paymentFailedAt: Date | null;
+  paymentUpdateUrl: string | null;
+  pausedFrom: string | Date | null;
+  pausedUntil: string | Date | null;
 }): SubscriptionStatusResult['membership'] {
   return {
     type: membership.type,
@@ -138,6 +183,12 @@ function formatMembershipForStatus(membership: {
       membership.terminationRequestedAt != null
         ? membership.terminationRequestedAt.toISOString()
         : null,
+    paymentFailedAt:
+      membership.paymentFailedAt != null ? membership.paymentFailedAt.toISOString() : null,
+    paymentUpdateUrl: membership.paymentUpdateUrl,
+    pausedFrom: membership.pausedFrom != null ? String(membership.pausedFrom).slice(0, 10) : null,
+    pausedUntil:
+      membership.pausedUntil != null ? String(membership.pausedUntil).slice(0, 10) : null,
   };
 }
 
@@ -162,6 +213,11 @@ export async function checkSubscriptionStatus(userId: string): Promise<Subscript
       suspensionDate: memberships.suspensionDate,
       terminationRequestedAt: memberships.terminationRequestedAt,
       stripeSubscriptionId: memberships.stripeSubscriptionId,
+      stripeSubscriptionStatus: memberships.stripeSubscriptionStatus,
+      paymentFailedAt: memberships.paymentFailedAt,
+      paymentUpdateUrl: memberships.paymentUpdateUrl,
+      pausedFrom: memberships.pausedFrom,
+      pausedUntil: memberships.pausedUntil,
     })
     .from(memberships)
     .where(eq(memberships.userId, userId))
@@ -169,6 +225,18 @@ export async function checkSubscriptionStatus(userId: string): Promise<Subscript
   if (!membership) return { canBook: false, reason: 'No membership' };
 
   const today = todayUtcString();
+  const blockReason =
+    DunningService.getBookingBlockReason(membership.paymentFailedAt) ??
+    getSubscriptionStatusBlockReason(membership.stripeSubscriptionStatus) ??
+    (isPausedOn(membership, today) ? PAUSED_REASON : null);
+  if (blockReason) {
+    return {
+      canBook: false,
+      reason: blockReason,
+      membership: formatMembershipForStatus(membership),
+    };
+  }
+
   if (membership.subscriptionType === 'monthly' && membership.stripeSubscriptionId) {
     return { canBook: true, membership: formatMembershipForStatus(membership) };
   }
@@ -232,9 +300,18 @@ export async function terminateAdHocSubscription(
     .where(eq(memberships.id, membership.id));
 }
 
+/** A switch from the other plan, finished by the webhook once the new plan is paid for. */
+export interface PlanSwitchPayment {
+  /** The plan_switches row the payment is for. */
+  planSwitchId: string;
+  /** Unused credit of the old plan put towards the first payment (GBP). */
+  carriedCreditGbp: number;
+}
+
 export interface CreateMonthlySubscriptionResult {
   customerId: string;
   checkoutUrl?: string;
+  checkoutSessionId?: string;
   subscriptionId?: string;
   clientSecret?: string;
   currentMonthAmount: number;
@@ -245,15 +322,18 @@ export interface CreateMonthlySubscriptionResult {
 
 /**
  * Create monthly subscription: redirect user to Stripe Checkout to pay. Pro-rata for display; credits granted on payment (webhook).
+ * For a switch from ad-hoc, the carried credit comes off the prorated current month charge; the
+ * credits granted are unchanged.
  */
 export async function createMonthlySubscription(
   userId: string,
   joinDate: Date | string,
   email: string,
-  name: string
+  name: string,
+  planSwitch?: PlanSwitchPayment
 ): Promise<CreateMonthlySubscriptionResult> {
   if (!isStripeConfigured()) {
-    throw new Error('Stripe is not configured');
+    throw new PaymentsNotConfiguredError();
   }
   const join = typeof joinDate === 'string' ? new Date(joinDate + 'T12:00:00Z') : joinDate;
   if (Number.isNaN(join.getTime())) {
@@ -261,12 +341,14 @@ export async function createMonthlySubscription(
   }
 
   const prorata = ProrataService.calculateProrataAmount(join, MONTHLY_AMOUNT_GBP);
-  const proratedAmountPence = Math.round(prorata.currentMonthAmount * 100);
+  const currentMonthAmountPence = Math.round(prorata.currentMonthAmount * 100);
   const nextMonthAmountPence = Math.round(prorata.nextMonthAmount * 100);
+  const carriedPence = planSwitch ? Math.round(planSwitch.carriedCreditGbp * 100) : 0;
+  const proratedAmountPence = Math.max(0, currentMonthAmountPence - carriedPence);
   const customerId = await getOrCreateStripeCustomerId(userId, email, name);
   const priceId = getMonthlyPriceId();
   const baseUrl = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
-  const { checkoutUrl } = await StripePaymentService.createCheckoutSessionForSubscription({
+  const checkout = await StripePaymentService.createCheckoutSessionForSubscription({
     customerId,
     priceId,
     userId,
@@ -274,19 +356,21 @@ export async function createMonthlySubscription(
     cancelUrl: `${baseUrl}/subscription`,
     proratedAmountPence,
     firstInvoiceSplit:
-      proratedAmountPence > 0 && nextMonthAmountPence > 0
+      currentMonthAmountPence > 0 && nextMonthAmountPence > 0
         ? {
-            currentMonthAmountPence: proratedAmountPence,
+            currentMonthAmountPence,
             nextMonthAmountPence,
             currentMonthExpiry: prorata.currentMonthExpiry,
             nextMonthExpiry: prorata.nextMonthExpiry,
           }
         : undefined,
+    metadata: planSwitch ? { planSwitchId: planSwitch.planSwitchId } : undefined,
   });
 
   return {
     customerId,
-    checkoutUrl,
+    checkoutUrl: checkout.checkoutUrl,
+    checkoutSessionId: checkout.sessionId,
     currentMonthAmount: prorata.currentMonthAmount,
     nextMonthAmount: prorata.nextMonthAmount,
     currentMonthExpiry: prorata.currentMonthExpiry,
@@ -303,15 +387,18 @@ export interface CreateAdHocSubscriptionResult {
 /**
  * Create ad-hoc subscription: Stripe customer + payment intent for £150.
  * On payment success (webhook in PR 8), credits are granted and membership updated.
+ * For a switch from monthly, the carried credit comes off the £150 (which must leave something to
+ * pay); the £150 credit granted is unchanged.
  */
 export async function createAdHocSubscription(
   userId: string,
   purchaseDate: Date | string,
   email: string,
-  name: string
+  name: string,
+  planSwitch?: PlanSwitchPayment
 ): Promise<CreateAdHocSubscriptionResult> {
   if (!isStripeConfigured()) {
-    throw new Error('Stripe is not configured');
+    throw new PaymentsNotConfiguredError();
   }
   const purchase =
     typeof purchaseDate === 'string' ? new Date(purchaseDate + 'T12:00:00Z') : purchaseDate;
@@ -320,7 +407,11 @@ export async function createAdHocSubscription(
   }
 
   const customerId = await getOrCreateStripeCustomerId(userId, email, name);
-  const amountPence = AD_HOC_AMOUNT_GBP * 100;
+  const amountPence =
+    AD_HOC_AMOUNT_GBP * 100 - (planSwitch ? Math.round(planSwitch.carriedCreditGbp * 100) : 0);
+  if (amountPence <= 0) {
+    throw new RangeError('Nothing to pay for the ad-hoc subscription');
+  }
   const { paymentIntentId, clientSecret } = await StripePaymentService.createPaymentIntent({
     amount: amountPence,
     currency: 'gbp',
@@ -330,6 +421,7 @@ export async function createAdHocSubscription(
       userId,
       purchaseDate:
         typeof purchaseDate === 'string' ? purchaseDate : purchaseDate.toISOString().split('T')[0],
+      ...(planSwitch ? { planSwitchId: planSwitch.planSwitchId } : {}),
     },
     description: 'Ad-hoc one-month subscription',
   });
@@ -353,6 +445,21 @@ export async function processMonthlyPayment(
   if (Number.isNaN(d.getTime())) {
     throw new TypeError('Invalid paymentDate');
   }
+  const [membership] = await db
+    .select({ pausedFrom: memberships.pausedFrom, pausedUntil: memberships.pausedUntil })
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .limit(1);
+  const paymentDateStr = d.toISOString().slice(0, 10);
+  if (membership && isPausedOn(membership, paymentDateStr)) {
+    // Paused invoices are voided, so this is a payment Stripe took anyway; keep it visible
+    logger.warn('Monthly payment during a pause: credits not granted', {
+      userId,
+      paymentDate: paymentDateStr,
+      amountPaidPence,
+    });
+    return;
+  }
   const y = d.getUTCFullYear();
   const m = d.getUTCMonth();
   const expiryDate = getLastDayOfMonthString(y, m);
@@ -479,6 +586,7 @@ export async function linkMonthlySubscriptionToMembership(
         marketingAddon: false,
         subscriptionType: 'monthly',
         stripeSubscriptionId,
+        stripeSubscriptionStatus: 'active',
       });
       logger.info('linkMonthlySubscriptionToMembership: created membership for user', {
         userId,
@@ -491,6 +599,7 @@ export async function linkMonthlySubscriptionToMembership(
       .update(memberships)
       .set({
         stripeSubscriptionId,
+        stripeSubscriptionStatus: 'active',
         subscriptionType: 'monthly',
         updatedAt: new Date(),
       })
@@ -508,6 +617,148 @@ export async function linkMonthlySubscriptionToMembership(
   }
 }
 
+/** Membership linked to a Stripe monthly subscription, with the practitioner's contact details. */
+async function findMembershipBySubscriptionId(stripeSubscriptionId: string) {
+  const [row] = await db
+    .select({
+      id: memberships.id,
+      userId: memberships.userId,
+      stripeSubscriptionStatus: memberships.stripeSubscriptionStatus,
+      suspensionDate: memberships.suspensionDate,
+      terminationRequestedAt: memberships.terminationRequestedAt,
+      dunningSuspendedAt: memberships.dunningSuspendedAt,
+      firstName: users.firstName,
+      email: users.email,
+    })
+    .from(memberships)
+    .innerJoin(users, eq(memberships.userId, users.id))
+    .where(eq(memberships.stripeSubscriptionId, stripeSubscriptionId))
+    .limit(1);
+  return row;
+}
+
+/** The earlier of an existing suspension date and a new one. */
+function earlierSuspensionDate(existing: string | Date | null, proposed: string): string {
+  const current = existing != null ? String(existing).slice(0, 10) : null;
+  return current != null && current < proposed ? current : proposed;
+}
+
+/**
+ * Suspend at calculateSuspensionDate(from) (or keep an earlier date) and revoke what is left of
+ * monthly credits expiring after it, which the practitioner can no longer use.
+ */
+async function scheduleMonthlySuspension(
+  membership: { userId: string; suspensionDate: string | Date | null },
+  from: Date
+): Promise<string> {
+  const suspensionDate = earlierSuspensionDate(
+    membership.suspensionDate,
+    calculateSuspensionDate(from)
+  );
+  await CreditTransactionService.revokeCreditsExpiringAfter(
+    membership.userId,
+    'monthly_subscription',
+    suspensionDate
+  );
+  return suspensionDate;
+}
+
+/**
+ * Record a Stripe status change of a monthly subscription on its membership
+ * (customer.subscription.updated). unpaid schedules a suspension; paused blocks new bookings;
+ * past_due makes sure dunning is running; becoming active again lifts a suspension that unpaid
+ * scheduled.
+ * @returns false when no membership is linked to the subscription.
+ */
+export async function updateMonthlySubscriptionStatus(
+  stripeSubscriptionId: string,
+  status: string
+): Promise<boolean> {
+  const membership = await findMembershipBySubscriptionId(stripeSubscriptionId);
+  if (!membership) return false;
+  const previous = membership.stripeSubscriptionStatus;
+  if (previous === status) return true;
+
+  const updates: Partial<typeof memberships.$inferInsert> = {
+    stripeSubscriptionStatus: status,
+    updatedAt: new Date(),
+  };
+  if (status === 'unpaid') {
+    updates.suspensionDate = await scheduleMonthlySuspension(membership, new Date());
+  } else if (
+    status === 'active' &&
+    previous === 'unpaid' &&
+    membership.terminationRequestedAt == null &&
+    membership.dunningSuspendedAt == null
+  ) {
+    updates.suspensionDate = null;
+  }
+  await db.update(memberships).set(updates).where(eq(memberships.id, membership.id));
+
+  if (status === 'past_due') {
+    await DunningService.recordPaymentFailure(membership.userId, null);
+  }
+  logger.info('Monthly subscription status updated', {
+    userId: membership.userId,
+    stripeSubscriptionId,
+    previous,
+    status,
+    suspensionDate: updates.suspensionDate,
+  });
+  return true;
+}
+
+/**
+ * A monthly subscription ended in Stripe (customer.subscription.deleted), whether cancelled or
+ * after failed payments: unlink it, let the practitioner book until
+ * calculateSuspensionDate(endedAt), revoke credits beyond that, and tell them.
+ * @returns The suspension date, or null when no membership is linked (e.g. a redelivered event).
+ */
+export async function endMonthlySubscription(
+  stripeSubscriptionId: string,
+  endedAt: Date
+): Promise<string | null> {
+  const membership = await findMembershipBySubscriptionId(stripeSubscriptionId);
+  if (!membership) return null;
+
+  const suspensionDate = await scheduleMonthlySuspension(membership, endedAt);
+  await db
+    .update(memberships)
+    .set({
+      stripeSubscriptionId: null,
+      stripeSubscriptionStatus: 'canceled',
+      subscriptionEndDate: suspensionDate,
+      suspensionDate,
+      terminationRequestedAt: membership.terminationRequestedAt ?? endedAt,
+      // Nothing left to pay once the subscription is gone; an account dunning already
+      // suspended stays suspended
+      ...(membership.dunningSuspendedAt == null
+        ? { paymentFailedAt: null, paymentRemindersSent: 0, paymentUpdateUrl: null }
+        : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(memberships.id, membership.id));
+  logger.info('Monthly subscription ended', {
+    userId: membership.userId,
+    stripeSubscriptionId,
+    suspensionDate,
+  });
+
+  try {
+    await emailService.sendSubscriptionTerminated({
+      firstName: membership.firstName,
+      email: membership.email,
+      suspensionDate,
+      subscriptionType: 'monthly',
+    });
+  } catch (error) {
+    logger.error('Failed to send subscription terminated email', error, {
+      userId: membership.userId,
+    });
+  }
+  return suspensionDate;
+}
+
 /** Alias for practitioner UI; same shape as SubscriptionStatusResult. */
 export type SubscriptionStatusDetails = SubscriptionStatusResult;
 
@@ -529,7 +780,7 @@ export async function getSubscriptionStatusDetails(
     result.monthlyPriceGbp = MONTHLY_AMOUNT_GBP;
   }
   if (status.membership?.type === 'permanent') {
-    result.permanentSlots = await BookingService.getPermanentSlotsForUser(userId);
+    result.permanentSlots = await PermanentScheduleService.getPermanentSlotsForUser(userId);
   }
   return result;
 }
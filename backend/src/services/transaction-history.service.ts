@@ -1,19 +1,25 @@
 import { db } from '../config/database';
-import { creditTransactions, bookings, freeBookingVouchers, rooms } from '../db/schema';
-import { eq, and, gte, lte, asc } from 'drizzle-orm';
+import {
+  creditTransactions,
+  bookings,
+  bookingPayments,
+  freeBookingVouchers,
+  rooms,
+} from '../db/schema';
+import { eq, and, gte, lte, asc, inArray } from 'drizzle-orm';
 import { getMonthRange, formatTimeForDisplay } from '../utils/date.util';
 
 export interface TransactionHistoryEntry {
   date: string; // YYYY-MM-DD
   description: string;
-  amount: number; // positive for credits, negative for spending, 0 for vouchers
-  type: 'credit_grant' | 'booking' | 'voucher_allocation' | 'stripe_payment';
+  amount: number; // positive for credits and card payments, negative for spending and card refunds, 0 for vouchers
+  type: 'credit_grant' | 'booking' | 'voucher_allocation' | 'stripe_payment' | 'stripe_refund';
   createdAt?: Date; // Internal field for sorting (not exposed to frontend)
 }
 
 /**
  * Get transaction history for a user for a specific month.
- * Combines credit transactions, bookings, and voucher allocations.
+ * Combines credit transactions, bookings, card refunds and voucher allocations.
  */
 export async function getTransactionHistory(
   userId: string,
@@ -81,7 +87,7 @@ export async function getTransactionHistory(
         eq(bookings.userId, userId),
         gte(bookings.createdAt, firstDayDate),
         lte(bookings.createdAt, lastDayDate),
-        eq(bookings.status, 'confirmed')
+        inArray(bookings.status, ['confirmed', 'completed'])
       )
     )
     .orderBy(asc(bookings.createdAt));
@@ -132,6 +138,35 @@ export async function getTransactionHistory(
     }
   }
 
+  // Get card refunds issued for cancelled bookings in the month (failed refunds were credited instead)
+  const refundRows = await db
+    .select({ payment: bookingPayments, booking: bookings, roomName: rooms.name })
+    .from(bookingPayments)
+    .innerJoin(bookings, eq(bookingPayments.bookingId, bookings.id))
+    .innerJoin(rooms, eq(bookings.roomId, rooms.id))
+    .where(
+      and(
+        eq(bookings.userId, userId),
+        inArray(bookingPayments.refundStatus, ['pending', 'succeeded']),
+        gte(bookingPayments.refundedAt, firstDayDate),
+        lte(bookingPayments.refundedAt, lastDayDate)
+      )
+    )
+    .orderBy(asc(bookingPayments.refundedAt));
+
+  for (const { payment, booking, roomName } of refundRows) {
+    if (!payment.refundedAt) continue;
+    const [bookingYear, bookingMonth, bookingDay] = String(booking.bookingDate).split('-');
+    const pending = payment.refundStatus === 'pending' ? ' (processing)' : '';
+    transactions.push({
+      date: payment.refundedAt.toISOString().split('T')[0],
+      description: `Card refund for booking ${roomName}, ${bookingDay}.${bookingMonth}.${bookingYear}${pending}`,
+      amount: -parseFloat(String(payment.refundAmount ?? 0)),
+      type: 'stripe_refund',
+      createdAt: payment.refundedAt,
+    });
+  }
+
   // Get voucher allocations for the month
   const vouchers = await db
     .select()
@@ -1,6 +1,9 @@
 import { db } from '../config/database';
-import { freeBookingVouchers } from '../db/schema';
-import { eq, and, gte } from 'drizzle-orm';
+import { freeBookingVouchers, bookingVoucherAllocations } from '../db/schema';
+import { eq, and, gt, gte, asc, desc } from 'drizzle-orm';
+import type { CreditTransactionClient } from './credit-transaction.service';
+
+type VoucherRow = typeof freeBookingVouchers.$inferSelect;
 
 export interface VoucherSummary {
   totalHoursAllocated: number;
@@ -77,4 +80,121 @@ export class VoucherService {
       earliestExpiry,
     };
   }
+
+  /**
+   * Deduct `hours` from the given vouchers in order (caller passes them soonest-expiring first)
+   * and record against the booking which vouchers were drawn from.
+   * Caller must run inside db.transaction.
+   */
+  static async useHoursWithinTransaction(
+    tx: CreditTransactionClient,
+    bookingId: string,
+    vouchers: VoucherRow[],
+    hours: number
+  ): Promise<void> {
+    let remainingToDeduct = hours;
+    for (const v of vouchers) {
+      if (remainingToDeduct <= 0) break;
+      const used = parseFloat(v.hoursUsed.toString());
+      const allocated = parseFloat(v.hoursAllocated.toString());
+      const deduct = Math.min(allocated - used, remainingToDeduct);
+      if (deduct <= 0) continue;
+      await tx
+        .update(freeBookingVouchers)
+        .set({
+          hoursUsed: (used + deduct).toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(freeBookingVouchers.id, v.id));
+      await tx.insert(bookingVoucherAllocations).values({
+        bookingId,
+        voucherId: v.id,
+        hours: deduct.toFixed(2),
+      });
+      remainingToDeduct -= deduct;
+    }
+  }
+
+  /**
+   * Give up to `hours` of a booking's voucher hours back to the vouchers it drew from, latest
+   * expiry first. Caller must run inside db.transaction.
+   * Returns the hours restored; less than requested when the booking has no (or too few)
+   * recorded allocations, e.g. bookings made before allocations were tracked.
+   */
+  static async restoreBookingHoursWithinTransaction(
+    tx: CreditTransactionClient,
+    bookingId: string,
+    hours: number
+  ): Promise<number> {
+    if (hours <= 0) return 0;
+    const allocations = await tx
+      .select({
+        id: bookingVoucherAllocations.id,
+        voucherId: bookingVoucherAllocations.voucherId,
+        hours: bookingVoucherAllocations.hours,
+        refundedHours: bookingVoucherAllocations.refundedHours,
+        voucherHoursUsed: freeBookingVouchers.hoursUsed,
+      })
+      .from(bookingVoucherAllocations)
+      .innerJoin(
+        freeBookingVouchers,
+        eq(bookingVoucherAllocations.voucherId, freeBookingVouchers.id)
+      )
+      .where(eq(bookingVoucherAllocations.bookingId, bookingId))
+      .orderBy(desc(freeBookingVouchers.expiryDate), desc(bookingVoucherAllocations.createdAt))
+      .for('update');
+
+    let remaining = Math.round(hours * 100);
+    for (const a of allocations) {
+      if (remaining <= 0) break;
+      const allocated = Math.round(parseFloat(a.hours.toString()) * 100);
+      const refunded = Math.round(parseFloat(a.refundedHours.toString()) * 100);
+      const voucherUsed = Math.round(parseFloat(a.voucherHoursUsed.toString()) * 100);
+      const restore = Math.min(allocated - refunded, remaining, voucherUsed);
+      if (restore <= 0) continue;
+      await tx
+        .update(freeBookingVouchers)
+        .set({
+          hoursUsed: ((voucherUsed - restore) / 100).toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(freeBookingVouchers.id, a.voucherId));
+      await tx
+        .update(bookingVoucherAllocations)
+        .set({ refundedHours: ((refunded + restore) / 100).toFixed(2) })
+        .where(eq(bookingVoucherAllocations.id, a.id));
+      remaining -= restore;
+    }
+    return (Math.round(hours * 100) - remaining) / 100;
+  }
+
+  /**
+   * Release `hours` from any of the user's used vouchers, soonest expiry first. Fallback for
+   * bookings without recorded allocations. Caller must run inside db.transaction.
+   */
+  static async releaseHoursWithinTransaction(
+    tx: CreditTransactionClient,
+    userId: string,
+    hours: number
+  ): Promise<void> {
+    const rowsWithUsed = await tx
+      .select()
+      .from(freeBookingVouchers)
+      .where(and(eq(freeBookingVouchers.userId, userId), gt(freeBookingVouchers.hoursUsed, '0')))
+      .orderBy(asc(freeBookingVouchers.expiryDate));
+    let remainingToRelease = hours;
+    for (const v of rowsWithUsed) {
+      if (remainingToRelease <= 0) break;
+      const used = parseFloat(v.hoursUsed.toString());
+      const release = Math.min(used, remainingToRelease);
+      await tx
+        .update(freeBookingVouchers)
+        .set({
+          hoursUsed: (used - release).toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(freeBookingVouchers.id, v.id));
+      remainingToRelease -= release;
+    }
+  }
 }
@@ -0,0 +1,388 @@
+/**
+ * Waitlist service: practitioners queue for a room/date/time range that is already booked.
+ * When a slot is freed (booking cancelled or moved) the first matching entry gets a time-limited
+ * offer by email. The offer holds the slot (a slot hold) so nobody else can book it meanwhile;
+ * unclaimed offers expire and the slot moves on to the next person in the queue.
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '../config/database';
+import { bookingWaitlist, bookings, rooms, locations, users } from '../db/schema';
+import { eq, and, asc, gt, gte, lt, lte, inArray, sql } from 'drizzle-orm';
+import { fromZonedTime } from 'date-fns-tz';
+import { todayUtcString, formatTimeForEmail } from '../utils/date.util';
+import * as BookingService from './booking.service';
+import * as SlotHoldService from './slot-hold.service';
+import { emailService } from './email.service';
+import { logger } from '../utils/logger.util';
+import {
+  BookingConflictError,
+  BookingNotFoundError,
+  BookingValidationError,
+} from '../errors/booking.errors';
+
+/** How long a waitlist offer stays claimable before moving to the next person. */
+export const WAITLIST_OFFER_HOURS = ((): number => {
+  const raw = process.env.WAITLIST_OFFER_HOURS;
+  if (raw === undefined || raw === '') return 2;
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? n : 2;
+})();
+
+const ACTIVE_STATUSES = ['waiting', 'offered'] as const;
+
+export interface WaitlistEntryItem {
+  id: string;
+  roomId: string;
+  roomName: string;
+  locationName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+  offerToken?: string;
+  offerExpiresAt?: Date;
+  bookingId?: string;
+  createdAt: Date;
+}
+
+function toHHMMSS(t: string): string {
+  return `${formatTimeForEmail(t)}:00`;
+}
+
+function slotStartUtc(date: string, startTime: string): Date {
+  const [y, mo, d] = date.split('-').map(Number);
+  const [hh, mm] = formatTimeForEmail(startTime).split(':').map(Number);
+  return fromZonedTime(new Date(y, mo - 1, d, hh, mm, 0), 'Europe/London');
+}
+
+/**
+ * Join the waitlist for a range that is currently taken. The range must otherwise be bookable
+ * (same rules as createBooking); a free range should be booked directly instead.
+ */
+export async function joinWaitlist(
+  userId: string,
+  roomId: string,
+  date: string,
+  startTime: string,
+  endTime: string
+): Promise<WaitlistEntryItem> {
+  const validation = await BookingService.validateBookingRequest(
+    userId,
+    roomId,
+    date,
+    startTime,
+    endTime
+  );
+  if (validation.valid) {
+    throw new BookingValidationError('Time slot is available; book it directly');
+  }
+  if (validation.error !== BookingService.SLOT_UNAVAILABLE_ERROR) {
+    throw new BookingValidationError(validation.error ?? 'Invalid booking request');
+  }
+
+  const start = toHHMMSS(startTime);
+  const end = toHHMMSS(endTime);
+  const [duplicate] = await db
+    .select({ id: bookingWaitlist.id })
+    .from(bookingWaitlist)
+    .where(
+      and(
+        eq(bookingWaitlist.userId, userId),
+        eq(bookingWaitlist.roomId, roomId),
+        eq(bookingWaitlist.bookingDate, date),
+        inArray(bookingWaitlist.status, [...ACTIVE_STATUSES]),
+        sql`${bookingWaitlist.startTime} < ${end}::time AND ${bookingWaitlist.endTime} > ${start}::time`
+      )
+    )
+    .limit(1);
+  if (duplicate) {
+    throw new BookingConflictError('You are already on the waitlist for this time');
+  }
+
+  const [entry] = await db
+    .insert(bookingWaitlist)
+    .values({ userId, roomId, bookingDate: date, startTime: start, endTime: end })
+    .returning({ id: bookingWaitlist.id });
+
+  const list = await getUserWaitlist(userId);
+  const created = list.find((e) => e.id === entry.id);
+  if (!created) throw new BookingNotFoundError('Waitlist entry not found');
+  return created;
+}
+
+/**
+ * Upcoming waitlist entries for a user that are still waiting or hold an open offer.
+ */
+export async function getUserWaitlist(userId: string): Promise<WaitlistEntryItem[]> {
+  const rows = await db
+    .select({
+      entry: bookingWaitlist,
+      roomName: rooms.name,
+      locationName: locations.name,
+    })
+    .from(bookingWaitlist)
+    .innerJoin(rooms, eq(bookingWaitlist.roomId, rooms.id))
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(
+      and(
+        eq(bookingWaitlist.userId, userId),
+        gte(bookingWaitlist.bookingDate, todayUtcString()),
+        inArray(bookingWaitlist.status, [...ACTIVE_STATUSES])
+      )
+    )
+    .orderBy(asc(bookingWaitlist.bookingDate), asc(bookingWaitlist.startTime));
+
+  return rows.map(({ entry, roomName, locationName }) => ({
+    id: entry.id,
+    roomId: entry.roomId,
+    roomName,
+    locationName,
+    bookingDate: String(entry.bookingDate),
+    startTime: formatTimeForEmail(entry.startTime),
+    endTime: formatTimeForEmail(entry.endTime),
+    status: entry.status,
+    offerToken: entry.status === 'offered' ? entry.offerToken ?? undefined : undefined,
+    offerExpiresAt: entry.status === 'offered' ? entry.offerExpiresAt ?? undefined : undefined,
+    bookingId: entry.bookingId ?? undefined,
+    createdAt: entry.createdAt,
+  }));
+}
+
+/**
+ * Leave the waitlist. Giving up an open offer passes the slot to the next person.
+ */
+export async function leaveWaitlist(entryId: string, userId: string): Promise<void> {
+  const [entry] = await db
+    .update(bookingWaitlist)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(
+      and(
+        eq(bookingWaitlist.id, entryId),
+        eq(bookingWaitlist.userId, userId),
+        inArray(bookingWaitlist.status, [...ACTIVE_STATUSES])
+      )
+    )
+    .returning({
+      roomId: bookingWaitlist.roomId,
+      bookingDate: bookingWaitlist.bookingDate,
+      offerToken: bookingWaitlist.offerToken,
+    });
+  if (!entry) throw new BookingNotFoundError('Waitlist entry not found');
+
+  if (entry.offerToken) {
+    await SlotHoldService.releaseOfferHold(entryId);
+    await offerFreedSlot(entry.roomId, String(entry.bookingDate));
+  }
+}
+
+/**
+ * Offer freed time in a room on a date to the waitlist, first come first served.
+ * An entry is offered when its whole range is free; open offers hold their slots, so two offers
+ * never overlap. Returns the number of offers sent.
+ */
+export async function offerFreedSlot(roomId: string, date: string): Promise<number> {
+  const now = new Date();
+  if (date < todayUtcString()) return 0;
+
+  const entries = await db
+    .select({
+      entry: bookingWaitlist,
+      firstName: users.firstName,
+      email: users.email,
+      roomName: rooms.name,
+      locationName: locations.name,
+    })
+    .from(bookingWaitlist)
+    .innerJoin(users, eq(bookingWaitlist.userId, users.id))
+    .innerJoin(rooms, eq(bookingWaitlist.roomId, rooms.id))
+    .innerJoin(locations, eq(rooms.locationId, locations.id))
+    .where(
+      and(
+        eq(bookingWaitlist.roomId, roomId),
+        eq(bookingWaitlist.bookingDate, date),
+        eq(bookingWaitlist.status, 'waiting')
+      )
+    )
+    .orderBy(asc(bookingWaitlist.createdAt));
+
+  let offered = 0;
+  for (const row of entries) {
+    const { entry } = row;
+    const start = formatTimeForEmail(entry.startTime);
+    const end = formatTimeForEmail(entry.endTime);
+    const startsAt = slotStartUtc(date, start);
+    if (startsAt.getTime() <= now.getTime()) continue;
+    if (!(await BookingService.checkAvailability(roomId, date, start, end))) continue;
+
+    // Never let an offer outlive the slot itself
+    const expiresAt = new Date(
+      Math.min(now.getTime() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000, startsAt.getTime())
+    );
+    const token = randomBytes(32).toString('hex');
+    const updated = await db.transaction(async (tx) => {
+      const [offer] = await tx
+        .update(bookingWaitlist)
+        .set({
+          status: 'offered',
+          offerToken: token,
+          offeredAt: now,
+          offerExpiresAt: expiresAt,
+          updatedAt: now,
+        })
+        .where(and(eq(bookingWaitlist.id, entry.id), eq(bookingWaitlist.status, 'waiting')))
+        .returning({ id: bookingWaitlist.id });
+      if (!offer) return false;
+      await SlotHoldService.placeOfferHold(
+        tx,
+        entry.userId,
+        entry.id,
+        { roomId, date, startTime: entry.startTime, endTime: entry.endTime },
+        expiresAt
+      );
+      return true;
+    });
+    if (!updated) continue;
+
+    offered++;
+
+    const baseUrl = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+    emailService
+      .sendWaitlistOffer({
+        firstName: row.firstName,
+        email: row.email,
+        roomName: row.roomName,
+        locationName: row.locationName,
+        bookingDate: date,
+        startTime: start,
+        endTime: end,
+        expiresAt: expiresAt.toISOString(),
+        claimLink: `${baseUrl}/bookings?waitlistOffer=${token}`,
+      })
+      .catch((err) =>
+        logger.error('Failed to send waitlist offer email', err, {
+          userId: entry.userId,
+          waitlistEntryId: entry.id,
+        })
+      );
+  }
+  return offered;
+}
+
+/**
+ * Claim an open offer: books the slot through the normal createBooking flow (vouchers, credits,
+ * then pay-the-difference). When payment is required the offer stays open until it expires;
+ * the expiry sweep marks it claimed if the paid booking was created in time.
+ */
+export async function claimWaitlistOffer(
+  token: string,
+  userId: string
+): Promise<BookingService.CreateBookingResult> {
+  const [entry] = await db
+    .select()
+    .from(bookingWaitlist)
+    .where(and(eq(bookingWaitlist.offerToken, token), eq(bookingWaitlist.userId, userId)))
+    .limit(1);
+  if (!entry) throw new BookingNotFoundError('Waitlist offer not found');
+  if (entry.status === 'claimed') throw new BookingValidationError('Offer has already been claimed');
+  if (entry.status !== 'offered') throw new BookingValidationError('Offer is no longer available');
+  if (!entry.offerExpiresAt || entry.offerExpiresAt.getTime() <= Date.now()) {
+    await processExpiredWaitlistOffers();
+    throw new BookingValidationError('Offer has expired');
+  }
+
+  const date = String(entry.bookingDate);
+  const result = await BookingService.createBooking(
+    userId,
+    entry.roomId,
+    date,
+    formatTimeForEmail(entry.startTime),
+    formatTimeForEmail(entry.endTime)
+  );
+  if ('id' in result) {
+    await db
+      .update(bookingWaitlist)
+      .set({ status: 'claimed', bookingId: result.id, updatedAt: new Date() })
+      .where(eq(bookingWaitlist.id, entry.id));
+    await SlotHoldService.releaseOfferHold(entry.id);
+  }
+  return result;
+}
+
+/**
+ * Expire lapsed offers (or mark them claimed when the holder booked the slot, e.g. after paying
+ * the difference), expire entries for past dates, and pass freed slots to the next person.
+ */
+export async function processExpiredWaitlistOffers(): Promise<{
+  expired: number;
+  claimed: number;
+  offered: number;
+}> {
+  const now = new Date();
+  let expired = 0;
+  let claimed = 0;
+  let offered = 0;
+
+  const pastEntries = await db
+    .update(bookingWaitlist)
+    .set({ status: 'expired', updatedAt: now })
+    .where(
+      and(
+        lt(bookingWaitlist.bookingDate, todayUtcString()),
+        inArray(bookingWaitlist.status, [...ACTIVE_STATUSES])
+      )
+    )
+    .returning({ id: bookingWaitlist.id });
+  expired += pastEntries.length;
+
+  const lapsed = await db
+    .select()
+    .from(bookingWaitlist)
+    .where(and(eq(bookingWaitlist.status, 'offered'), lte(bookingWaitlist.offerExpiresAt, now)));
+
+  const slotsToReoffer = new Map<string, { roomId: string; date: string }>();
+  for (const entry of lapsed) {
+    const date = String(entry.bookingDate);
+    const [booked] = await db
+      .select({ id: bookings.id })
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.userId, entry.userId),
+          eq(bookings.roomId, entry.roomId),
+          eq(bookings.bookingDate, date),
+          eq(bookings.startTime, entry.startTime),
+          eq(bookings.endTime, entry.endTime),
+          eq(bookings.status, 'confirmed'),
+          gt(bookings.createdAt, entry.offeredAt ?? entry.createdAt)
+        )
+      )
+      .limit(1);
+    const [updated] = await db
+      .update(bookingWaitlist)
+      .set(
+        booked
+          ? { status: 'claimed', bookingId: booked.id, updatedAt: now }
+          : { status: 'expired', updatedAt: now }
+      )
+      .where(and(eq(bookingWaitlist.id, entry.id), eq(bookingWaitlist.status, 'offered')))
+      .returning({ id: bookingWaitlist.id });
+    if (!updated) continue;
+    if (booked) {
+      claimed++;
+    } else {
+      expired++;
+      slotsToReoffer.set(`${entry.roomId}|${date}`, { roomId: entry.roomId, date });
+    }
+  }
+
+  for (const { roomId, date } of slotsToReoffer.values()) {
+    try {
+      offered += await offerFreedSlot(roomId, date);
+    } catch (error) {
+      logger.error('Failed to re-offer waitlist slot', error, { roomId, date });
+    }
+  }
+
+  return { expired, claimed, offered };
+}
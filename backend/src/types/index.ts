@@ -10,11 +10,15 @@ export interface User {
   photoUrl?: string;
   role: UserRole;
   nextOfKin?: NextOfKin;
+  /** How a payment is returned when the booking it paid for cannot be made. */
+  refundPreference?: RefundPreference;
   emailVerifiedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type RefundPreference = 'card' | 'credit';
+
 export interface NextOfKin {
   name: string;
   relationship: string;
@@ -30,7 +34,7 @@ export interface Membership {
   userId: string;
   type: MembershipType;
   marketingAddon: boolean;
-  permanentSchedule?: PermanentSchedule;
+  permanentSchedule?: PermanentSchedule[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,16 +42,27 @@ export interface Membership {
 export interface PermanentSchedule {
   weekday: number; // 0-6 (Sunday-Saturday)
   slot: 'morning' | 'afternoon'; // 08:00-15:00 or 15:00-22:00
+  roomId: string;
 }
 
 // Location types
-export type LocationName = 'Pimlico' | 'Kensington';
+export type LocationName = string;
+
+export interface OpeningHours {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  openTime: string; // HH:MM
+  closeTime: string; // HH:MM
+}
 
 export interface Location {
   id: string;
   name: LocationName;
+  address: string | null;
+  openingHours: OpeningHours[] | null;
   roomCount: number;
+  active: boolean;
   createdAt: Date;
+  updatedAt: Date;
 }
 
 // Room types
@@ -56,8 +71,11 @@ export interface Room {
   locationId: string;
   name: string;
   roomNumber: number;
+  capacity: number | null;
+  amenities: string[];
   active: boolean;
   createdAt: Date;
+  updatedAt: Date;
 }
 
 // Booking types
@@ -130,6 +148,7 @@ export interface UpdateProfileRequest {
   lastName: string;
   phone?: string;
   nextOfKin?: Partial<NextOfKin>;
+  refundPreference?: RefundPreference;
 }
 
 // API Response types
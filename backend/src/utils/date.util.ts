@@ -81,6 +81,15 @@ export function addDaysUtcString(days: number): string {
   return d.toISOString().split('T')[0];
 }
 
+/**
+ * Add N days to a date string (YYYY-MM-DD), returning YYYY-MM-DD.
+ */
+export function addDaysToDateString(dateStr: string, days: number): string {
+  const d = new Date(dateStr + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
 /**
  * Format time from DB (string or Date) to HH:mm for display.
  */
@@ -0,0 +1,27 @@
+/** Postgres SQLSTATEs for unique and exclusion constraint violations. */
+const UNIQUE_VIOLATION = '23505';
+const EXCLUSION_VIOLATION = '23P01';
+
+/** Exclusion constraint that stops confirmed bookings overlapping in a room (migration 0027). */
+export const BOOKING_OVERLAP_CONSTRAINT = 'bookings_no_overlapping_confirmed';
+
+/** Unique index allowing one pending plan switch per practitioner (migration 0036). */
+export const PLAN_SWITCH_PENDING_INDEX = 'plan_switches_user_pending_idx';
+
+/**
+ * Whether err is Postgres rejecting a write under the named exclusion constraint.
+ */
+export function isExclusionViolation(err: unknown, constraint: string): boolean {
+  if (typeof err !== 'object' || err === null) return false;
+  const { code, constraint: violated } = err as { code?: unknown; constraint?: unknown };
+  return code === EXCLUSION_VIOLATION && violated === constraint;
+}
+
+/**
+ * Whether err is Postgres rejecting a write under the named unique constraint or index.
+ */
+export function isUniqueViolation(err: unknown, constraint: string): boolean {
+  if (typeof err !== 'object' || err === null) return false;
+  const { code, constraint: violated } = err as { code?: unknown; constraint?: unknown };
+  return code === UNIQUE_VIOLATION && violated === constraint;
+}
@@ -17,6 +17,8 @@ import { AdminDashboard } from './pages/admin/AdminDashboard';
 import { PractitionerManagement } from './pages/admin/PractitionerManagement';
 import { AdminCalendar } from './pages/admin/AdminCalendar';
 import { AdminProfile } from './pages/admin/AdminProfile';
+import { Building } from './pages/admin/Building';
+import { Kiosk } from './pages/Kiosk';
 import './styles/globals.css';
 
 function App() {
@@ -31,6 +33,7 @@ function App() {
             <Route path="/forgot-password" element={<ForgotPassword />} />
             <Route path="/reset-password" element={<ResetPassword />} />
             <Route path="/verify-email-change" element={<VerifyEmailChange />} />
+            <Route path="/kiosk" element={<Kiosk />} />
             <Route
               path="/dashboard"
               element={
@@ -95,6 +98,14 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/admin/building"
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <Building />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/admin/profile"
               element={
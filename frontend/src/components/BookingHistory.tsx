@@ -0,0 +1,62 @@
+import type { BookingHistoryEvent, BookingSnapshot } from '@/services/api';
+import { formatDateUK } from '@/lib/utils';
+
+const EVENT_LABELS: Record<BookingHistoryEvent['eventType'], string> = {
+  created: 'Created',
+  updated: 'Changed',
+  cancelled: 'Cancelled',
+};
+
+const describeSlot = (s: BookingSnapshot) =>
+  `${s.roomName}, ${formatDateUK(s.bookingDate)} ${s.startTime}–${s.endTime}`;
+
+const formatDelta = (amount: number) =>
+  `${amount < 0 ? '−' : '+'}£${Math.abs(amount).toFixed(2)}`;
+
+function describeChange(event: BookingHistoryEvent): string | null {
+  const { before, after } = event;
+  if (event.eventType === 'created' && after) return describeSlot(after);
+  if (event.eventType === 'updated' && before && after) {
+    const from = describeSlot(before);
+    const to = describeSlot(after);
+    return from === to ? null : `${from} → ${to}`;
+  }
+  return null;
+}
+
+/**
+ * Audit trail of a booking: who created, moved or cancelled it, and what that did to the price
+ * and the credit drawn.
+ */
+export const BookingHistory: React.FC<{ history: BookingHistoryEvent[] | null }> = ({
+  history,
+}) => {
+  if (history === null) return <p className="text-sm text-slate-500">Loading history…</p>;
+  if (history.length === 0) {
+    return <p className="text-sm text-slate-500">No recorded changes for this booking.</p>;
+  }
+  return (
+    <ol className="space-y-2 text-sm">
+      {history.map((event) => {
+        const change = describeChange(event);
+        const deltas = [
+          event.priceDelta !== 0 && `price ${formatDelta(event.priceDelta)}`,
+          event.creditDelta !== 0 && `credit ${formatDelta(event.creditDelta)}`,
+        ].filter(Boolean);
+        return (
+          <li key={event.id} className="border-l-2 border-slate-200 dark:border-slate-700 pl-3">
+            <p className="font-medium text-slate-900 dark:text-white">
+              {EVENT_LABELS[event.eventType]} by {event.actorName ?? 'System'}
+              {event.actorRole === 'admin' ? ' (admin)' : ''}
+            </p>
+            {change && <p className="text-xs text-slate-600 dark:text-slate-400">{change}</p>}
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {new Date(event.createdAt).toLocaleString('en-GB')}
+              {deltas.length > 0 && ` · ${deltas.join(' · ')}`}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
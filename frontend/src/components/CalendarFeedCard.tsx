@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { AxiosError } from 'axios';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { practitionerApi, calendarFeedUrl, type CalendarFeedStatus } from '@/services/api';
+
+/**
+ * Personal calendar feed: a secret URL to subscribe to from Google Calendar, Outlook or Apple
+ * Calendar. The URL is only returned when issued, so it is shown until the page is left.
+ */
+export const CalendarFeedCard: React.FC = () => {
+  const [status, setStatus] = useState<CalendarFeedStatus | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    practitionerApi
+      .getCalendarFeedStatus(controller.signal)
+      .then((res) => {
+        if (res.data.success && res.data.data) setStatus(res.data.data);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setStatus(null);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const errorMessage = (err: unknown, fallback: string) => {
+    const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+    return typeof msg === 'string' && msg ? msg : fallback;
+  };
+
+  const issue = async () => {
+    if (status?.enabled && !window.confirm('Create a new link? The old link will stop working.')) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const res = await practitionerApi.regenerateCalendarFeed();
+      if (res.data.data) setFeedUrl(calendarFeedUrl(res.data.data.token));
+      setStatus({ enabled: true, createdAt: new Date().toISOString(), lastAccessedAt: null });
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to create calendar link'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async () => {
+    if (!window.confirm('Turn off the calendar feed? Calendars subscribed to it stop updating.')) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await practitionerApi.revokeCalendarFeed();
+      setFeedUrl(null);
+      setStatus({ enabled: false, createdAt: null, lastAccessedAt: null });
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to turn off calendar feed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Calendar feed</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Subscribe to your bookings from your calendar app. Booking emails also include an
+          invitation that adds, moves or removes the booking in your calendar.
+        </p>
+        {status?.enabled && !feedUrl && (
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Your feed is on
+            {status.lastAccessedAt
+              ? ` (last fetched ${new Date(status.lastAccessedAt).toLocaleString('en-GB')})`
+              : ''}
+            . For security the link is only shown when it is created.
+          </p>
+        )}
+        {feedUrl && (
+          <div className="text-xs space-y-1">
+            <p className="text-slate-500 dark:text-slate-400">
+              Your feed link (shown once; keep it private):
+            </p>
+            <code className="block break-all font-mono text-slate-900 dark:text-white">
+              {feedUrl}
+            </code>
+            <Button variant="ghost" size="sm" onClick={copy}>
+              {copied ? 'Copied' : 'Copy link'}
+            </Button>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={issue} disabled={busy}>
+            {status?.enabled ? 'New link' : 'Get calendar link'}
+          </Button>
+          {status?.enabled && (
+            <Button variant="destructive" size="sm" onClick={revoke} disabled={busy}>
+              Turn off
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
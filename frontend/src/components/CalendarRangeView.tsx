@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from 'react';
+import { practitionerApi, type CalendarView, type RangeCalendar } from '@/services/api';
+import { useCalendarChanges } from '@/hooks/useCalendarChanges';
+import { formatDateUK } from '@/lib/utils';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** Monday-based weekday (0 = Monday) of a YYYY-MM-DD date. */
+const mondayIndex = (date: string) => (new Date(date + 'T12:00:00Z').getUTCDay() + 6) % 7;
+
+const dayOfMonth = (date: string) => parseInt(date.slice(8, 10), 10);
+
+function occupancyClass(percent: number): string {
+  if (percent >= 80) return 'bg-red-500';
+  if (percent >= 50) return 'bg-orange-400';
+  if (percent > 0) return 'bg-green-500';
+  return 'bg-slate-300 dark:bg-slate-600';
+}
+
+interface CalendarRangeViewProps {
+  view: CalendarView;
+  date: string;
+  /** Omit for all locations. */
+  location?: string;
+  /** Open the day view for a date. */
+  onSelectDay: (date: string) => void;
+}
+
+/**
+ * Week grid (rooms × days, with each booking) or month grid (days with occupancy) for one
+ * location or all of them.
+ */
+export const CalendarRangeView: React.FC<CalendarRangeViewProps> = ({
+  view,
+  date,
+  location,
+  onSelectDay,
+}) => {
+  const [calendar, setCalendar] = useState<RangeCalendar | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCalendar = useCallback(
+    (signal?: AbortSignal) =>
+      practitionerApi
+        .getRangeCalendar(view, date, location, signal)
+        .then((res) => {
+          if (res.data.success) setCalendar(res.data);
+          else setError('Failed to load calendar');
+        })
+        .catch(() => {
+          if (!signal?.aborted) setError('Failed to load calendar');
+        }),
+    [view, date, location]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setCalendar(null);
+    setError(null);
+    fetchCalendar(controller.signal);
+    return () => controller.abort();
+  }, [fetchCalendar]);
+
+  // Refetch in place (no loading state) when a booking in the shown range changes
+  useCalendarChanges(
+    calendar ? { location, from: calendar.fromDate, to: calendar.toDate } : null,
+    () => fetchCalendar()
+  );
+
+  if (error) return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  if (!calendar) return <p className="text-sm text-slate-500">Loading calendar…</p>;
+
+  const days = calendar.occupancy;
+
+  if (view === 'month') {
+    const leading = mondayIndex(calendar.fromDate);
+    return (
+      <div className="grid grid-cols-7 gap-1 text-sm">
+        {WEEKDAYS.map((d) => (
+          <div
+            key={d}
+            className="p-1 text-center text-xs font-medium text-slate-600 dark:text-slate-400"
+          >
+            {d}
+          </div>
+        ))}
+        {Array.from({ length: leading }, (_, i) => (
+          <div key={`blank-${i}`} />
+        ))}
+        {days.map((day) => {
+          const count = calendar.bookings.filter((b) => b.bookingDate === day.date).length;
+          return (
+            <button
+              key={day.date}
+              type="button"
+              onClick={() => onSelectDay(day.date)}
+              className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-1.5 text-left hover:border-primary min-h-[72px] flex flex-col gap-1"
+              title={`${day.bookedHours}h booked of ${day.capacityHours}h`}
+            >
+              <span className="text-xs font-medium text-slate-700 dark:text-slate-300">
+                {dayOfMonth(day.date)}
+              </span>
+              {day.capacityHours > 0 ? (
+                <>
+                  <span className="h-1.5 w-full rounded bg-slate-100 dark:bg-slate-800">
+                    <span
+                      className={`block h-1.5 rounded ${occupancyClass(day.occupancyPercent)}`}
+                      style={{ width: `${day.occupancyPercent}%` }}
+                    />
+                  </span>
+                  <span className="text-[11px] text-slate-500 dark:text-slate-400">
+                    {day.occupancyPercent}% · {count} booking{count === 1 ? '' : 's'}
+                  </span>
+                </>
+              ) : (
+                <span className="text-[11px] text-slate-400">Closed</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const showLocation = new Set(calendar.rooms.map((r) => r.locationName)).size > 1;
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse min-w-[700px] text-sm">
+        <thead>
+          <tr>
+            <th className="border border-slate-200 dark:border-slate-700 bg-slate-100 dark:bg-slate-800 p-1.5 text-left text-xs font-medium text-slate-600 dark:text-slate-400 w-[120px]">
+              Room
+            </th>
+            {days.map((day) => (
+              <th
+                key={day.date}
+                className="border border-slate-200 dark:border-slate-700 bg-slate-100 dark:bg-slate-800 p-1.5 text-center text-xs font-medium text-slate-700 dark:text-slate-300"
+              >
+                <button type="button" onClick={() => onSelectDay(day.date)} className="w-full">
+                  <span className="block">
+                    {WEEKDAYS[mondayIndex(day.date)]} {formatDateUK(day.date)}
+                  </span>
+                  <span className="block font-normal text-slate-500 dark:text-slate-400">
+                    {day.capacityHours > 0 ? `${day.occupancyPercent}% booked` : 'Closed'}
+                  </span>
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {calendar.rooms.map((room) => (
+            <tr key={room.id}>
+              <td className="border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-1.5 text-xs font-medium text-slate-700 dark:text-slate-300 align-top">
+                {room.name}
+                {showLocation && (
+                  <span className="block font-normal text-slate-500">{room.locationName}</span>
+                )}
+              </td>
+              {days.map((day) => (
+                <td
+                  key={day.date}
+                  className="border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-1 align-top"
+                >
+                  {calendar.bookings
+                    .filter((b) => b.roomId === room.id && b.bookingDate === day.date)
+                    .map((b) => (
+                      <div
+                        key={b.id ?? `${b.startTime}-${b.endTime}`}
+                        className="mb-1 rounded bg-primary/20 dark:bg-primary/30 px-1 py-0.5 text-[11px] leading-tight"
+                      >
+                        <span className="block">
+                          {b.startTime}–{b.endTime}
+                        </span>
+                        {b.bookerName && (
+                          <span className="block truncate font-medium">{b.bookerName}</span>
+                        )}
+                      </div>
+                    ))}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { AxiosError } from 'axios';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Icon } from '@/components/ui/Icon';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { practitionerApi, type KioskStatus } from '@/services/api';
+
+interface KioskStatusCardProps {
+  initials: string;
+}
+
+/**
+ * Dashboard card: today's front-desk kiosk sign-in and the practitioner's kiosk PIN / QR code.
+ * New credentials are only returned once by the API, so they are shown until the page is left.
+ */
+export const KioskStatusCard: React.FC<KioskStatusCardProps> = ({ initials }) => {
+  const [status, setStatus] = useState<KioskStatus | null>(null);
+  const [issued, setIssued] = useState<{ label: string; value: string } | null>(null);
+  const [issuing, setIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    practitionerApi
+      .getKioskStatus(controller.signal)
+      .then((res) => {
+        if (res.data.success && res.data.data) setStatus(res.data.data);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setStatus(null);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const issue = async (kind: 'pin' | 'qr') => {
+    const hasExisting = kind === 'pin' ? status?.hasPin : status?.hasQrCode;
+    const label = kind === 'pin' ? 'PIN' : 'QR code';
+    if (hasExisting && !window.confirm(`Issue a new ${label}? The old one will stop working.`)) {
+      return;
+    }
+    setIssuing(true);
+    setError(null);
+    try {
+      if (kind === 'pin') {
+        const res = await practitionerApi.regenerateKioskPin();
+        if (res.data.data) setIssued({ label: 'Your kiosk PIN', value: res.data.data.pin });
+        setStatus((prev) => (prev ? { ...prev, hasPin: true } : prev));
+      } else {
+        const res = await practitionerApi.regenerateKioskQrCode();
+        if (res.data.data) setIssued({ label: 'Your kiosk QR code', value: res.data.data.qrCode });
+        setStatus((prev) => (prev ? { ...prev, hasQrCode: true } : prev));
+      }
+    } catch (err: unknown) {
+      const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+      setError(typeof msg === 'string' && msg ? msg : 'Failed to issue kiosk credential');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const signedIn = status?.signedIn ?? null;
+
+  return (
+    <Card className="col-span-1 md:col-span-2 lg:col-span-1">
+      <CardContent className="p-5 flex flex-row items-center gap-4">
+        <div className="relative">
+          <Avatar
+            className={`h-28 w-28 border-2 ${signedIn ? 'border-green-500' : 'border-slate-300 dark:border-slate-600'}`}
+          >
+            <AvatarFallback className="bg-primary/10 text-primary text-2xl font-bold">
+              {initials}
+            </AvatarFallback>
+          </Avatar>
+          {signedIn && (
+            <div className="absolute -bottom-2 -right-2 bg-green-500 text-white p-1 rounded-full border-2 border-white dark:border-surface-dark">
+              <Icon name="check" size={16} />
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col flex-1 gap-1 min-w-0">
+          {signedIn ? (
+            <div>
+              <p className="text-slate-900 dark:text-white font-bold text-lg">Signed In</p>
+              <p className="text-slate-500 dark:text-slate-400 text-sm">
+                {signedIn.deviceName
+                  ? `${signedIn.locationName} · ${signedIn.deviceName}`
+                  : signedIn.locationName}
+              </p>
+              <p className="text-slate-400 dark:text-slate-500 text-xs mt-1">
+                Check-in:{' '}
+                {new Date(signedIn.signedInAt).toLocaleTimeString('en-GB', {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </p>
+            </div>
+          ) : (
+            <div>
+              <p className="text-slate-900 dark:text-white font-bold text-lg">Not Signed In</p>
+              <p className="text-slate-500 dark:text-slate-400 text-sm">
+                Sign in at the front-desk kiosk when you arrive.
+              </p>
+            </div>
+          )}
+          {issued && (
+            <div className="mt-1 text-xs">
+              <p className="text-slate-500 dark:text-slate-400">{issued.label} (shown once):</p>
+              <code className="block break-all font-mono font-bold text-slate-900 dark:text-white">
+                {issued.value}
+              </code>
+            </div>
+          )}
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <div className="flex gap-2 mt-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              className="flex-1"
+              disabled={issuing}
+              onClick={() => issue('pin')}
+            >
+              {status?.hasPin ? 'New PIN' : 'Get PIN'}
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="flex-1"
+              disabled={issuing}
+              onClick={() => issue('qr')}
+            >
+              {status?.hasQrCode ? 'New QR code' : 'Get QR code'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
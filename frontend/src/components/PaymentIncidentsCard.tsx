@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AxiosError } from 'axios';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Icon } from '@/components/ui/Icon';
+import { adminApi, type PaymentIncidentItem } from '@/services/api';
+import { formatDateUK } from '@/lib/utils';
+
+const RESOLUTION_LABELS: Record<
+  PaymentIncidentItem['resolution'],
+  { label: string; variant: 'success' | 'secondary' | 'destructive' | 'warning' }
+> = {
+  refunded: { label: 'Refunded to card', variant: 'success' },
+  credited: { label: 'Kept as credit', variant: 'secondary' },
+  refund_failed: { label: 'Refund failed', variant: 'destructive' },
+  pending: { label: 'Pending', variant: 'warning' },
+};
+
+/**
+ * Admin dashboard card: pay-the-difference payments whose booking could not be made, how the
+ * money was returned, and a retry for card refunds Stripe rejected.
+ */
+export const PaymentIncidentsCard: React.FC = () => {
+  const [incidents, setIncidents] = useState<PaymentIncidentItem[] | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchIncidents = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await adminApi.getPaymentIncidents(signal);
+      if (res.data.success && res.data.data) setIncidents(res.data.data);
+    } catch {
+      if (!signal?.aborted) setIncidents([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchIncidents(controller.signal);
+    return () => controller.abort();
+  }, [fetchIncidents]);
+
+  const retry = async (incident: PaymentIncidentItem) => {
+    setRetryingId(incident.id);
+    setError(null);
+    try {
+      await adminApi.retryPaymentIncidentRefund(incident.id);
+      await fetchIncidents();
+    } catch (err: unknown) {
+      const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+      setError(typeof msg === 'string' && msg ? msg : 'Failed to retry refund');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-bold flex items-center gap-2">
+          <Icon name="payments" className="text-orange-500" />
+          Unbooked Payments
+        </CardTitle>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Payments taken for bookings that could not then be made, and how they were returned
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        {incidents === null ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : incidents.length === 0 ? (
+          <p className="text-sm text-slate-500">No unbooked payments.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {incidents.map((incident) => {
+              const status = RESOLUTION_LABELS[incident.resolution];
+              return (
+                <li key={incident.id} className="py-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-900 dark:text-white">
+                      {incident.practitionerName} · £{incident.amount}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                      {incident.resolution === 'refund_failed' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => retry(incident)}
+                          disabled={retryingId === incident.id}
+                        >
+                          {retryingId === incident.id ? 'Retrying…' : 'Retry refund'}
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                  {incident.slots.map((slot) => (
+                    <p
+                      key={`${slot.roomId}-${slot.date}-${slot.startTime}`}
+                      className="text-xs text-slate-600 dark:text-slate-400"
+                    >
+                      {formatDateUK(slot.date)} · {slot.startTime}–{slot.endTime} ·{' '}
+                      {slot.roomName}
+                      {slot.locationName ? `, ${slot.locationName}` : ''}
+                    </p>
+                  ))}
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {incident.reason} · {new Date(incident.createdAt).toLocaleString('en-GB')} ·{' '}
+                    <span className="font-mono">{incident.stripePaymentIntentId}</span>
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
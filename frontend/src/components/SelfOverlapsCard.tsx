@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Icon } from '@/components/ui/Icon';
+import { adminApi, type SelfOverlapBooking, type SelfOverlapItem } from '@/services/api';
+import { formatDateUK } from '@/lib/utils';
+
+const describe = (b: SelfOverlapBooking) =>
+  `${b.startTime}–${b.endTime} · ${b.roomName}, ${b.locationName}`;
+
+/**
+ * Admin dashboard card: upcoming cases of one practitioner booked into two rooms at the same
+ * time, so the spare room can be cancelled or moved.
+ */
+export const SelfOverlapsCard: React.FC = () => {
+  const [overlaps, setOverlaps] = useState<SelfOverlapItem[] | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    adminApi
+      .getSelfOverlaps(controller.signal)
+      .then((res) => {
+        if (res.data.success && res.data.data) setOverlaps(res.data.data);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setOverlaps([]);
+      });
+    return () => controller.abort();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-bold flex items-center gap-2">
+          <Icon name="event_busy" className="text-orange-500" />
+          Double-Booked Practitioners
+          {overlaps && overlaps.length > 0 && <Badge variant="warning">{overlaps.length}</Badge>}
+        </CardTitle>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Upcoming bookings where a practitioner holds two rooms at the same time
+        </p>
+      </CardHeader>
+      <CardContent>
+        {overlaps === null ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : overlaps.length === 0 ? (
+          <p className="text-sm text-slate-500">No overlapping bookings.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {overlaps.map((o) => (
+              <li key={`${o.first.id}-${o.second.id}`} className="py-3 text-sm space-y-1">
+                <p className="font-medium text-slate-900 dark:text-white">
+                  {o.practitionerName} · {formatDateUK(o.bookingDate)}
+                </p>
+                {[o.first, o.second].map((b) => (
+                  <p key={b.id} className="text-xs text-slate-600 dark:text-slate-400">
+                    {describe(b)}
+                    {b.bookingType === 'internal' ? ' (internal)' : ''}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { AxiosError } from 'axios';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { practitionerApi, type SlotSearchResult } from '@/services/api';
+import { formatDateUK } from '@/lib/utils';
+
+interface SlotSearchCardProps {
+  /** Active location names to choose from. */
+  locations: string[];
+  /** Earliest and latest dates that can be booked (YYYY-MM-DD). */
+  minDate: string;
+  maxDate: string;
+  /** Called when the practitioner picks a result, to fill in the booking form. */
+  onSelect: (slot: SlotSearchResult) => void;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+/** Half-hour times from 08:00 to 22:00. */
+const TIMES = Array.from({ length: 29 }, (_, i) => {
+  const mins = 8 * 60 + i * 30;
+  return `${String(Math.floor(mins / 60)).padStart(2, '0')}:${String(mins % 60).padStart(2, '0')}`;
+});
+
+const DURATIONS = Array.from({ length: 16 }, (_, i) => (i + 1) * 30);
+
+const selectClass =
+  'rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm';
+
+/**
+ * "Find me a slot": searches free rooms across locations for a date range, weekdays, time window,
+ * duration and maximum price, and lists the options with their price.
+ */
+export const SlotSearchCard: React.FC<SlotSearchCardProps> = ({
+  locations,
+  minDate,
+  maxDate,
+  onSelect,
+}) => {
+  const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
+  const [fromDate, setFromDate] = useState(minDate);
+  const [toDate, setToDate] = useState(maxDate);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [earliestStart, setEarliestStart] = useState('08:00');
+  const [latestEnd, setLatestEnd] = useState('22:00');
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [maxPrice, setMaxPrice] = useState('');
+  const [sort, setSort] = useState<'soonest' | 'cheapest'>('soonest');
+  const [results, setResults] = useState<SlotSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const handleSearch = async () => {
+    const price = maxPrice.trim() ? Number(maxPrice) : undefined;
+    if (price != null && (Number.isNaN(price) || price < 0)) {
+      setError('Max price must be a positive number.');
+      return;
+    }
+    setSearching(true);
+    setError(null);
+    try {
+      const res = await practitionerApi.searchSlots({
+        locations: selectedLocations.length ? selectedLocations : undefined,
+        fromDate,
+        toDate,
+        weekdays: weekdays.length ? weekdays : undefined,
+        earliestStart,
+        latestEnd,
+        durationMinutes,
+        maxPrice: price,
+        sort,
+      });
+      setResults(res.data.success ? res.data.slots : []);
+    } catch (err: unknown) {
+      const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+      setError(typeof msg === 'string' && msg ? msg : 'Failed to search for slots');
+      setResults(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Find a slot</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 items-center">
+          <span className="text-sm text-slate-600 dark:text-slate-400">Locations:</span>
+          {locations.map((loc) => (
+            <Button
+              key={loc}
+              variant={selectedLocations.includes(loc) ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSelectedLocations((prev) => toggle(prev, loc))}
+            >
+              {loc}
+            </Button>
+          ))}
+          {selectedLocations.length === 0 && (
+            <span className="text-xs text-slate-500">(all)</span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2 items-center">
+          <span className="text-sm text-slate-600 dark:text-slate-400">Days:</span>
+          {WEEKDAYS.map((d) => (
+            <Button
+              key={d.value}
+              variant={weekdays.includes(d.value) ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setWeekdays((prev) => toggle(prev, d.value))}
+            >
+              {d.label}
+            </Button>
+          ))}
+          {weekdays.length === 0 && <span className="text-xs text-slate-500">(any)</span>}
+        </div>
+        <div className="flex flex-wrap gap-4 items-end">
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-600 dark:text-slate-400">From</span>
+            <input
+              type="date"
+              value={fromDate}
+              min={minDate}
+              max={maxDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className={selectClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-600 dark:text-slate-400">To</span>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              max={maxDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className={selectClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-600 dark:text-slate-400">Earliest start</span>
+            <select
+              value={earliestStart}
+              onChange={(e) => setEarliestStart(e.target.value)}
+              className={selectClass}
+            >
+              {TIMES.slice(0, -1).map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-600 dark:text-slate-400">Latest end</span>
+            <select
+              value={latestEnd}
+              onChange={(e) => setLatestEnd(e.target.value)}
+              className={selectClass}
+            >
+              {TIMES.slice(1).map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-600 dark:text-slate-400">Duration</span>
+            <select
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value))}
+              className={selectClass}
+            >
+              {DURATIONS.map((m) => (
+                <option key={m} value={m}>
+                  {m % 60 === 0 ? `${m / 60}h` : `${Math.floor(m / 60)}h ${m % 60}m`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-600 dark:text-slate-400">Max price (£)</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+              className={`${selectClass} w-28`}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-slate-600 dark:text-slate-400">Sort</span>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as 'soonest' | 'cheapest')}
+              className={selectClass}
+            >
+              <option value="soonest">Soonest</option>
+              <option value="cheapest">Cheapest</option>
+            </select>
+          </label>
+          <Button onClick={handleSearch} disabled={searching}>
+            {searching ? 'Searching…' : 'Search'}
+          </Button>
+        </div>
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+        {results && results.length === 0 && (
+          <p className="text-sm text-slate-500">No free slots match these constraints.</p>
+        )}
+        {results && results.length > 0 && (
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {results.map((slot) => (
+              <li
+                key={`${slot.roomId}-${slot.date}-${slot.startTime}`}
+                className="flex items-center justify-between gap-2 py-2 text-sm"
+              >
+                <span className="text-slate-700 dark:text-slate-300">
+                  {formatDateUK(slot.date)} · {slot.startTime}–{slot.endTime} · {slot.roomName},{' '}
+                  {slot.locationName}
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className="font-medium text-slate-900 dark:text-white">
+                    £{slot.price.toFixed(2)}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => onSelect(slot)}>
+                    Select
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
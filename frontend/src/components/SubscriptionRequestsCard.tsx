@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AxiosError } from 'axios';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Icon } from '@/components/ui/Icon';
+import {
+  adminApi,
+  type AdminSubscriptionChangeRequest,
+  type SubscriptionChangeStatus,
+} from '@/services/api';
+import { formatDateUK } from '@/lib/utils';
+
+const STATUS_LABELS: Record<
+  SubscriptionChangeStatus,
+  { label: string; variant: 'success' | 'secondary' | 'destructive' | 'warning' }
+> = {
+  pending: { label: 'Needs approval', variant: 'warning' },
+  applied: { label: 'Applied', variant: 'success' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+  reverted: { label: 'Reverted', variant: 'secondary' },
+};
+
+function describeRequest(request: AdminSubscriptionChangeRequest): string {
+  if (request.kind === 'cancel') {
+    return `Cancel at period end · suspended ${formatDateUK(request.effectiveDate)}`;
+  }
+  return `Pause ${formatDateUK(request.effectiveDate)} to ${formatDateUK(
+    request.resumeDate ?? request.effectiveDate
+  )}`;
+}
+
+/**
+ * Admin dashboard card: monthly subscribers' cancellations and pauses. Requests with bookings in
+ * the affected dates wait here for approval; applied ones can be reverted.
+ */
+export const SubscriptionRequestsCard: React.FC = () => {
+  const [requests, setRequests] = useState<AdminSubscriptionChangeRequest[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRequests = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await adminApi.getSubscriptionRequests(signal);
+      if (res.data.success && res.data.data) setRequests(res.data.data);
+    } catch {
+      if (!signal?.aborted) setRequests([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchRequests(controller.signal);
+    return () => controller.abort();
+  }, [fetchRequests]);
+
+  const review = async (request: AdminSubscriptionChangeRequest, approve: boolean) => {
+    setBusyId(request.id);
+    setError(null);
+    try {
+      if (approve) await adminApi.approveSubscriptionRequest(request.id);
+      else await adminApi.rejectSubscriptionRequest(request.id);
+      await fetchRequests();
+    } catch (err: unknown) {
+      const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+      setError(typeof msg === 'string' && msg ? msg : 'Failed to update request');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-bold flex items-center gap-2">
+          <Icon name="event_busy" className="text-orange-500" />
+          Subscription Requests
+        </CardTitle>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Monthly cancellations and pauses; ones with bookings in the affected dates need approval
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        {requests === null ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-slate-500">No subscription requests.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {requests.map((request) => {
+              const status = STATUS_LABELS[request.status];
+              const busy = busyId === request.id;
+              return (
+                <li key={request.id} className="py-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-900 dark:text-white">
+                      {request.practitionerName} · {describeRequest(request)}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                      {request.status === 'pending' && (
+                        <>
+                          <Button size="sm" onClick={() => review(request, true)} disabled={busy}>
+                            Approve
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => review(request, false)}
+                            disabled={busy}
+                          >
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                      {request.status === 'applied' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => review(request, false)}
+                          disabled={busy}
+                        >
+                          {busy ? 'Reverting…' : 'Revert'}
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                  {request.flaggedBookings.map((b) => (
+                    <p key={b.id} className="text-xs text-slate-600 dark:text-slate-400">
+                      {formatDateUK(b.bookingDate)} · {b.startTime}–{b.endTime} · {b.roomName},{' '}
+                      {b.locationName}
+                      {b.status !== 'confirmed' ? ` (${b.status})` : ''}
+                    </p>
+                  ))}
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {request.practitionerEmail} · requested{' '}
+                    {new Date(request.createdAt).toLocaleString('en-GB')}
+                    {request.reviewedAt &&
+                      ` · reviewed ${new Date(request.reviewedAt).toLocaleString('en-GB')}` +
+                        (request.reviewerName ? ` by ${request.reviewerName}` : '')}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
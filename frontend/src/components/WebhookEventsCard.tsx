@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AxiosError } from 'axios';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Icon } from '@/components/ui/Icon';
+import { adminApi, type WebhookEventItem } from '@/services/api';
+
+const STATUS_LABELS: Record<
+  WebhookEventItem['status'],
+  { label: string; variant: 'success' | 'secondary' | 'destructive' | 'warning' }
+> = {
+  processed: { label: 'Processed', variant: 'success' },
+  unhandled: { label: 'Unhandled', variant: 'secondary' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  processing: { label: 'Processing', variant: 'warning' },
+};
+
+/**
+ * Admin dashboard card: Stripe webhook events that failed, had no handler or are still being
+ * processed, with a replay that re-runs the handler for a stored event.
+ */
+export const WebhookEventsCard: React.FC = () => {
+  const [events, setEvents] = useState<WebhookEventItem[] | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await adminApi.getWebhookEvents(undefined, signal);
+      if (res.data.success && res.data.data) setEvents(res.data.data);
+    } catch {
+      if (!signal?.aborted) setEvents([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchEvents(controller.signal);
+    return () => controller.abort();
+  }, [fetchEvents]);
+
+  const replay = async (event: WebhookEventItem) => {
+    setReplayingId(event.id);
+    setError(null);
+    try {
+      await adminApi.replayWebhookEvent(event.id);
+    } catch (err: unknown) {
+      const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+      setError(typeof msg === 'string' && msg ? msg : 'Failed to replay event');
+    } finally {
+      // A failed replay is recorded on the event too
+      await fetchEvents();
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-bold flex items-center gap-2">
+          <Icon name="sync" className="text-orange-500" />
+          Stripe Webhook Events
+        </CardTitle>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Events from Stripe that failed or were not handled; replay once the cause is fixed
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        {events === null ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-slate-500">No failed or unhandled events.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {events.map((event) => {
+              const status = STATUS_LABELS[event.status];
+              return (
+                <li key={event.id} className="py-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-900 dark:text-white">{event.type}</span>
+                    <span className="flex items-center gap-2">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                      {event.status !== 'processing' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => replay(event)}
+                          disabled={replayingId !== null}
+                        >
+                          {replayingId === event.id ? 'Replaying…' : 'Replay'}
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                  {event.lastError && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{event.lastError}</p>
+                  )}
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {new Date(event.createdAt).toLocaleString('en-GB')} · {event.attempts} attempt
+                    {event.attempts === 1 ? '' : 's'} ·{' '}
+                    <span className="font-mono">{event.id}</span>
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
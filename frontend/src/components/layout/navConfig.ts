@@ -20,5 +20,6 @@ export const adminNavItems: NavItem[] = [
   { name: 'Dashboard', icon: 'dashboard', path: '/admin', implemented: true },
   { name: 'Practitioners', icon: 'people', path: '/admin/practitioners', implemented: true },
   { name: 'Calendar', icon: 'calendar_month', path: '/admin/calendar', implemented: true },
+  { name: 'Building', icon: 'apartment', path: '/admin/building', implemented: true },
   { name: 'Profile', icon: 'person', path: '/admin/profile', implemented: true },
 ];
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import {
+  subscribeToCalendarChanges,
+  type BookingChangeEvent,
+  type CalendarStreamFilter,
+} from '@/services/api';
+
+/** Changes arriving within this window (e.g. a batch booking) trigger a single refresh. */
+const COALESCE_MS = 300;
+
+/**
+ * Call onChange when a booking in the shown location and dates is created, moved or cancelled by
+ * anyone, so an open calendar can refetch. Pass null to stop following (e.g. nothing loaded yet).
+ */
+export const useCalendarChanges = (
+  filter: CalendarStreamFilter | null,
+  onChange: (events: BookingChangeEvent[]) => void
+): void => {
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  const enabled = filter !== null;
+  const location = filter?.location;
+  const from = filter?.from;
+  const to = filter?.to;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let pending: BookingChangeEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToCalendarChanges({ location, from, to }, (event) => {
+      pending.push(event);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const events = pending;
+        pending = [];
+        onChangeRef.current(events);
+      }, COALESCE_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [enabled, location, from, to]);
+};
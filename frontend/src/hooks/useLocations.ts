@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { practitionerApi } from '@/services/api';
+
+interface UseLocationsReturn {
+  /** Names of active locations, in display order. */
+  locations: string[];
+  /** Selected location; empty until the list has loaded. */
+  location: string;
+  setLocation: (location: string) => void;
+  loadingLocations: boolean;
+}
+
+/**
+ * Active locations for the calendar/booking location picker. Selects the first location once loaded.
+ */
+export const useLocations = (): UseLocationsReturn => {
+  const [locations, setLocations] = useState<string[]>([]);
+  const [location, setLocation] = useState('');
+  const [loadingLocations, setLoadingLocations] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoadingLocations(true);
+    practitionerApi
+      .getLocations(controller.signal)
+      .then((res) => {
+        if (controller.signal.aborted || !res.data.success) return;
+        const names = res.data.locations.map((l) => l.name);
+        setLocations(names);
+        setLocation((prev) => (names.includes(prev) ? prev : names[0] ?? ''));
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setLocations([]);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoadingLocations(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  return { locations, location, setLocation, loadingLocations };
+};
@@ -1,7 +1,9 @@
 import { fromZonedTime } from 'date-fns-tz';
+import type { CancellationQuote, RefundMethod } from '@/services/api';
 
 /**
- * True if the booking start is at least 24 hours from now.
+ * True if the booking has not started yet. How much is refunded depends on the notice given
+ * (cancellation policy); see CancellationQuote.
  * Uses Europe/London to match server; server is source of truth.
  * Returns false for malformed bookingDate or startTimeStr.
  */
@@ -25,5 +27,38 @@ export function canCancelBooking(bookingDate: string, startTimeStr: string): boo
   if (Number.isNaN(bookingStartTime)) return false;
 
   const bookingStartUtc = fromZonedTime(bookingStartLocal, 'Europe/London');
-  return bookingStartUtc.getTime() - Date.now() >= 24 * 60 * 60 * 1000;
+  return bookingStartUtc.getTime() > Date.now();
+}
+
+/** Confirmation prompt for cancelling a booking, stating the refund under the policy. */
+export function cancellationConfirmMessage(quote: CancellationQuote): string {
+  if (quote.refundableAmount <= 0 && quote.refundableVoucherHours <= 0) {
+    return 'Are you sure you want to cancel this booking?';
+  }
+  if (quote.refundPercent === 0) {
+    return 'Cancelling now is too late for a refund; nothing will be returned. Cancel anyway?';
+  }
+  const refunds: string[] = [];
+  if (quote.refundableAmount > 0) refunds.push(`£${quote.refundAmount.toFixed(2)} in credit`);
+  if (quote.refundableVoucherHours > 0) {
+    refunds.push(`${quote.voucherHoursRefund} free booking hour(s)`);
+  }
+  return (
+    `Cancelling now refunds ${refunds.join(' and ')} (${quote.refundPercent}%). ` +
+    'Cancel this booking?'
+  );
+}
+
+/**
+ * For bookings partly paid by card, ask whether that part should go back to the card rather than
+ * as credit. Returns 'credit' when there is nothing to refund to a card.
+ */
+export function chooseRefundMethod(quote: CancellationQuote): RefundMethod {
+  if (quote.cardRefundableAmount <= 0) return 'credit';
+  return window.confirm(
+    `£${quote.cardRefundableAmount.toFixed(2)} of this refund was paid by card. ` +
+      'Refund it to the card (OK) or add it to the credit balance (Cancel)?'
+  )
+    ? 'card'
+    : 'credit';
 }
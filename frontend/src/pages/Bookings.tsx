@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { AxiosError } from 'axios';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { useAuth } from '@/context/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -15,20 +15,33 @@ import {
 } from '@/components/ui/table';
 import { Icon } from '@/components/ui/Icon';
 import { PaymentModal } from '@/components/payment/PaymentModal';
+import { SlotSearchCard } from '@/components/SlotSearchCard';
+import { CalendarFeedCard } from '@/components/CalendarFeedCard';
+import { CalendarRangeView } from '@/components/CalendarRangeView';
 import {
   practitionerApi,
   type BookingItem,
   type RoomItem,
   type CreditSummary,
   type CreateBookingPaymentRequiredError,
+  type BatchBookingItem,
+  type SlotSearchResult,
+  type WaitlistEntryItem,
+  type CalendarView,
 } from '@/services/api';
 import { toZonedTime } from 'date-fns-tz';
-import { canCancelBooking } from '@/lib/booking-utils';
+import {
+  canCancelBooking,
+  cancellationConfirmMessage,
+  chooseRefundMethod,
+} from '@/lib/booking-utils';
 import { formatDateUK } from '@/lib/utils';
+import { useLocations } from '@/hooks/useLocations';
+import { useCalendarChanges } from '@/hooks/useCalendarChanges';
 
-type LocationName = 'Pimlico' | 'Kensington';
+/** Backend error for a taken range; the booking form then offers to join the waitlist. */
+const SLOT_UNAVAILABLE_ERROR = 'Time slot is not available';
 
-const LOCATIONS: LocationName[] = ['Pimlico', 'Kensington'];
 /** 30-minute options from 08:00 to 22:00 (start times). */
 const TIME_OPTIONS_30MIN = (() => {
   const options: { value: string; label: string }[] = [];
@@ -52,6 +65,8 @@ type CalendarBooking = {
   endTime: string;
   bookerName?: string;
   userId?: string;
+  /** Held by a pay-the-difference checkout in progress, not yet booked. */
+  heldUntil?: string;
 };
 
 /** Maps "HH:mm" to row index 0–28 (08:00 = 0, 22:00 = 28). */
@@ -157,6 +172,12 @@ function maxBookingDateString(): string {
 }
 
 /** Booking types available to practitioners; admins can also use 'free' and 'internal'. */
+const CALENDAR_VIEWS = [
+  { value: 'day' as const, label: 'Day' },
+  { value: 'week' as const, label: 'Week' },
+  { value: 'month' as const, label: 'Month' },
+];
+
 const PRACTITIONER_BOOKING_TYPES = [
   { value: 'ad_hoc' as const, label: 'Ad hoc' },
   { value: 'permanent_recurring' as const, label: 'Recurring' },
@@ -178,18 +199,20 @@ function formatMonthKeyToLabel(month: string): string {
 export const Bookings: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const waitlistOfferToken = searchParams.get('waitlistOffer');
   const postSuccessControllerRef = useRef<AbortController | null>(null);
 
-  const [location, setLocation] = useState<LocationName>('Pimlico');
+  const { locations, location, setLocation } = useLocations();
   const [date, setDate] = useState(todayDateString());
+  const [calendarView, setCalendarView] = useState<'day' | CalendarView>('day');
+  const [allLocations, setAllLocations] = useState(false);
   const [rooms, setRooms] = useState<RoomItem[]>([]);
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
   const [bookings, setBookings] = useState<BookingItem[]>([]);
   const [credit, setCredit] = useState<CreditSummary | null>(null);
   const [calendarRooms, setCalendarRooms] = useState<Array<{ id: string; name: string }>>([]);
-  const [calendarBookings, setCalendarBookings] = useState<
-    Array<{ roomId: string; startTime: string; endTime: string; bookerName?: string; userId?: string }>
-  >([]);
+  const [calendarBookings, setCalendarBookings] = useState<CalendarBooking[]>([]);
   const [loadingRooms, setLoadingRooms] = useState(false);
   const [loadingCalendar, setLoadingCalendar] = useState(false);
   const [loadingBookings, setLoadingBookings] = useState(false);
@@ -204,6 +227,14 @@ export const Bookings: React.FC = () => {
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
   const [paymentClientSecret, setPaymentClientSecret] = useState<string | null>(null);
   const [paymentAmountPence, setPaymentAmountPence] = useState<number | undefined>(undefined);
+  const [batchItems, setBatchItems] = useState<Array<BatchBookingItem & { roomName: string }>>([]);
+  const [paymentForBatch, setPaymentForBatch] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistEntryItem[]>([]);
+  const [loadingWaitlist, setLoadingWaitlist] = useState(false);
+  const [waitlistError, setWaitlistError] = useState<string | null>(null);
+  const [waitlistSuccess, setWaitlistSuccess] = useState<string | null>(null);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [waitlistActionId, setWaitlistActionId] = useState<string | null>(null);
   // Form state
   const [startTime, setStartTime] = useState('09:00');
   const [endTime, setEndTime] = useState('10:00');
@@ -213,13 +244,18 @@ export const Bookings: React.FC = () => {
 
   const fetchRooms = useCallback(
     async (signal?: AbortSignal) => {
+      if (!location) return;
       setLoadingRooms(true);
       try {
         const res = await practitionerApi.getRooms(location, signal);
         if (signal?.aborted) return;
         if (res.data.success && res.data.rooms) {
-          setRooms(res.data.rooms);
-          setSelectedRoomId(res.data.rooms[0]?.id ?? null);
+          const list = res.data.rooms;
+          setRooms(list);
+          // Keep a room picked from the slot search when it belongs to this location
+          setSelectedRoomId((prev) =>
+            prev && list.some((r) => r.id === prev) ? prev : list[0]?.id ?? null
+          );
         }
       } catch (err) {
         if (
@@ -238,13 +274,23 @@ export const Bookings: React.FC = () => {
 
   const fetchCalendar = useCallback(
     async (signal?: AbortSignal) => {
+      if (!location) return;
       setLoadingCalendar(true);
       try {
         const res = await practitionerApi.getCalendar(location, date, signal);
         if (signal?.aborted) return;
         if (res.data.success) {
           setCalendarRooms(res.data.rooms ?? []);
-          setCalendarBookings(res.data.bookings ?? []);
+          setCalendarBookings([
+            ...(res.data.bookings ?? []),
+            ...(res.data.holds ?? []).map((h) => ({
+              roomId: h.roomId,
+              startTime: h.startTime,
+              endTime: h.endTime,
+              userId: h.userId,
+              heldUntil: h.expiresAt,
+            })),
+          ]);
         } else {
           setCalendarRooms([]);
           setCalendarBookings([]);
@@ -308,6 +354,24 @@ export const Bookings: React.FC = () => {
     }
   }, []);
 
+  const fetchWaitlist = useCallback(async (signal?: AbortSignal) => {
+    setLoadingWaitlist(true);
+    try {
+      const res = await practitionerApi.getWaitlist(signal);
+      if (signal?.aborted) return;
+      setWaitlist(res.data.success && res.data.waitlist ? res.data.waitlist : []);
+    } catch (err) {
+      if (
+        signal?.aborted ||
+        (err instanceof Error && (err.name === 'AbortError' || err.name === 'CanceledError'))
+      )
+        return;
+      setWaitlist([]);
+    } finally {
+      if (!signal?.aborted) setLoadingWaitlist(false);
+    }
+  }, []);
+
   useEffect(() => {
     const controller = new AbortController();
     fetchRooms(controller.signal);
@@ -320,6 +384,16 @@ export const Bookings: React.FC = () => {
     return () => controller.abort();
   }, [fetchCalendar]);
 
+  // Live updates: refetch when anyone changes a booking on the day shown, and refresh my bookings
+  // when one of them was changed elsewhere (e.g. by an admin)
+  useCalendarChanges(
+    calendarView === 'day' && location ? { location, from: date, to: date } : null,
+    (events) => {
+      fetchCalendar();
+      if (events.some((e) => bookings.some((b) => b.id === e.bookingId))) fetchBookings();
+    }
+  );
+
   useEffect(() => {
     if (!selectedRoomId || endTime <= startTime) {
       setQuotePrice(null);
@@ -358,6 +432,12 @@ export const Bookings: React.FC = () => {
     return () => controller.abort();
   }, [fetchCredit]);
 
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchWaitlist(controller.signal);
+    return () => controller.abort();
+  }, [fetchWaitlist]);
+
   useEffect(() => {
     return () => {
       postSuccessControllerRef.current?.abort();
@@ -380,6 +460,26 @@ export const Bookings: React.FC = () => {
     }
   }, [user?.role, bookingType]);
 
+  /** Opens the payment modal for a 402 pay-the-difference response. Returns true when handled. */
+  const openPaymentForError = (err: unknown): boolean => {
+    if (!(err instanceof AxiosError) || err.response?.status !== 402) return false;
+    const data = err.response.data as CreateBookingPaymentRequiredError | undefined;
+    if (!data?.paymentRequired || !data.clientSecret || data.amountPence == null) return false;
+    setPaymentClientSecret(data.clientSecret);
+    setPaymentAmountPence(data.amountPence);
+    setPaymentModalOpen(true);
+    return true;
+  };
+
+  const refreshAfterChange = () => {
+    const c = new AbortController();
+    postSuccessControllerRef.current = c;
+    fetchBookings(c.signal);
+    fetchCalendar(c.signal);
+    fetchCredit(c.signal);
+    fetchWaitlist(c.signal);
+  };
+
   const handleCreateBooking = async () => {
     if (!selectedRoomId) {
       setCreateError('Please select a room.');
@@ -407,11 +507,7 @@ export const Bookings: React.FC = () => {
       const data = res.data;
       if (data.success && 'booking' in data) {
         setCreateSuccess('Booking created.');
-        const c = new AbortController();
-        postSuccessControllerRef.current = c;
-        fetchBookings(c.signal);
-        fetchCalendar(c.signal);
-        fetchCredit(c.signal);
+        refreshAfterChange();
       } else if (!data.success && 'error' in data) {
         setCreateError(data.error ?? 'Failed to create booking');
       } else {
@@ -424,15 +520,9 @@ export const Bookings: React.FC = () => {
         const data = err.response.data as CreateBookingPaymentRequiredError | { error?: string } | undefined;
 
         // Handle payment required case (backend returns 402 with paymentRequired: true)
-        if (status === 402 && data && 'paymentRequired' in data && data.paymentRequired) {
-          const paymentData = data as CreateBookingPaymentRequiredError;
-          if (paymentData.clientSecret && paymentData.amountPence != null) {
-            setCreateError(null);
-            setPaymentClientSecret(paymentData.clientSecret);
-            setPaymentAmountPence(paymentData.amountPence);
-            setPaymentModalOpen(true);
-            return;
-          }
+        if (status === 402 && openPaymentForError(err)) {
+          setCreateError(null);
+          return;
         }
 
         // Handle regular error case
@@ -446,18 +536,151 @@ export const Bookings: React.FC = () => {
     }
   };
 
+  /** Adds the selected room/date/time to the batch, to be booked together with "Book all". */
+  const handleAddToBatch = () => {
+    if (!selectedRoomId) {
+      setCreateError('Please select a room.');
+      return;
+    }
+    if (endTime <= startTime) {
+      setCreateError('End time must be after start time.');
+      return;
+    }
+    const duplicate = batchItems.some(
+      (i) =>
+        i.roomId === selectedRoomId &&
+        i.date === date &&
+        i.startTime < endTime &&
+        i.endTime > startTime
+    );
+    if (duplicate) {
+      setCreateError('This overlaps a booking already in the batch.');
+      return;
+    }
+    const roomName = rooms.find((r) => r.id === selectedRoomId)?.name ?? 'Room';
+    setCreateError(null);
+    setCreateSuccess(null);
+    setBatchItems((prev) => [
+      ...prev,
+      { roomId: selectedRoomId, roomName, date, startTime, endTime },
+    ]);
+  };
+
+  const handleBookBatch = async () => {
+    if (batchItems.length === 0) return;
+    setCreateError(null);
+    setCreateSuccess(null);
+    setSubmitting(true);
+    try {
+      const res = await practitionerApi.createBookingBatch({
+        items: batchItems.map(({ roomId, date, startTime, endTime }) => ({
+          roomId,
+          date,
+          startTime,
+          endTime,
+        })),
+      });
+      if (res.data.success) {
+        setCreateSuccess(`${res.data.bookings.length} bookings created.`);
+        setBatchItems([]);
+        refreshAfterChange();
+      } else {
+        setCreateError(res.data.error ?? 'Failed to create bookings');
+      }
+    } catch (err: unknown) {
+      if (openPaymentForError(err)) {
+        setPaymentForBatch(true);
+        return;
+      }
+      const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+      setCreateError(typeof msg === 'string' && msg ? msg : 'Failed to create bookings');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /** Fills the booking form with a slot picked from the search. */
+  const handleSelectSlot = (slot: SlotSearchResult) => {
+    setLocation(slot.locationName);
+    setDate(slot.date);
+    setSelectedRoomId(slot.roomId);
+    setStartTime(slot.startTime);
+    setEndTime(slot.endTime);
+    setCreateError(null);
+    setCreateSuccess(null);
+    document.getElementById('new-booking')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!selectedRoomId) return;
+    setJoiningWaitlist(true);
+    setWaitlistError(null);
+    try {
+      await practitionerApi.joinWaitlist({ roomId: selectedRoomId, date, startTime, endTime });
+      setCreateError(null);
+      setWaitlistSuccess("You're on the waitlist. We'll email you if this time becomes free.");
+      const c = new AbortController();
+      postSuccessControllerRef.current = c;
+      fetchWaitlist(c.signal);
+    } catch (err) {
+      const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+      setWaitlistError(msg ?? 'Failed to join waitlist');
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const handleClaimOffer = async (token: string, entryId?: string) => {
+    setWaitlistActionId(entryId ?? token);
+    setWaitlistError(null);
+    setWaitlistSuccess(null);
+    try {
+      const res = await practitionerApi.claimWaitlistOffer(token);
+      if (res.data.success) {
+        setWaitlistSuccess('Booking created from your waitlist offer.');
+        refreshAfterChange();
+      } else {
+        setWaitlistError(res.data.error ?? 'Failed to claim offer');
+      }
+    } catch (err) {
+      if (!openPaymentForError(err)) {
+        const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+        setWaitlistError(msg ?? 'Failed to claim offer');
+      }
+    } finally {
+      setWaitlistActionId(null);
+      if (waitlistOfferToken) {
+        searchParams.delete('waitlistOffer');
+        setSearchParams(searchParams, { replace: true });
+      }
+    }
+  };
+
+  const handleLeaveWaitlist = async (id: string) => {
+    setWaitlistActionId(id);
+    setWaitlistError(null);
+    try {
+      await practitionerApi.leaveWaitlist(id);
+      const c = new AbortController();
+      postSuccessControllerRef.current = c;
+      fetchWaitlist(c.signal);
+    } catch (err) {
+      const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+      setWaitlistError(msg ?? 'Failed to leave waitlist');
+    } finally {
+      setWaitlistActionId(null);
+    }
+  };
+
   const handleCancelBooking = async (id: string) => {
-    if (!window.confirm('Are you sure you want to cancel this booking?')) return;
     setCancellingId(id);
     setCancelError(null);
     try {
-      await practitionerApi.cancelBooking(id);
+      const { quote } = (await practitionerApi.getCancellationQuote(id)).data;
+      if (!window.confirm(cancellationConfirmMessage(quote))) return;
+      await practitionerApi.cancelBooking(id, { refundMethod: chooseRefundMethod(quote) });
       setCancelError(null);
-      const c = new AbortController();
-      postSuccessControllerRef.current = c;
-      fetchBookings(c.signal);
-      fetchCalendar(c.signal);
-      fetchCredit(c.signal);
+      refreshAfterChange();
     } catch (err) {
       console.error('Cancel booking failed', err);
       const msg =
@@ -523,6 +746,7 @@ export const Bookings: React.FC = () => {
     if (!open) {
       setPaymentClientSecret(null);
       setPaymentAmountPence(undefined);
+      setPaymentForBatch(false);
     }
   };
 
@@ -530,13 +754,15 @@ export const Bookings: React.FC = () => {
     setPaymentModalOpen(false);
     setPaymentClientSecret(null);
     setPaymentAmountPence(undefined);
-    setCreateSuccess('Booking created.');
+    if (paymentForBatch) {
+      setCreateSuccess('Bookings created.');
+      setBatchItems([]);
+      setPaymentForBatch(false);
+    } else {
+      setCreateSuccess('Booking created.');
+    }
     setCreateError(null);
-    const c = new AbortController();
-    postSuccessControllerRef.current = c;
-    fetchBookings(c.signal);
-    fetchCalendar(c.signal);
-    fetchCredit(c.signal);
+    refreshAfterChange();
   };
 
   return (
@@ -557,6 +783,22 @@ export const Bookings: React.FC = () => {
           </p>
         </div>
 
+        {waitlistOfferToken && (
+          <Card className="border-primary">
+            <CardContent className="flex flex-wrap items-center justify-between gap-4 pt-6">
+              <p className="text-sm text-slate-700 dark:text-slate-300">
+                A slot you were waiting for is available. Claim it before the offer expires.
+              </p>
+              <Button
+                onClick={() => handleClaimOffer(waitlistOfferToken)}
+                disabled={waitlistActionId === waitlistOfferToken}
+              >
+                {waitlistActionId === waitlistOfferToken ? 'Claiming…' : 'Claim booking'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Credit summary */}
         <Card>
           <CardHeader className="pb-2">
@@ -630,7 +872,7 @@ export const Bookings: React.FC = () => {
           </CardContent>
         </Card>
 
-        {/* Calendar: location, date, day grid with rooms as columns */}
+        {/* Calendar: location, date, day grid with rooms as columns, or week/month grids */}
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-base">Calendar</CardTitle>
@@ -638,16 +880,40 @@ export const Bookings: React.FC = () => {
           <CardContent className="space-y-4">
             <div className="flex flex-wrap gap-4 items-center">
               <div className="flex gap-2">
-                {LOCATIONS.map((loc) => (
+                {locations.map((loc) => (
                   <Button
                     key={loc}
-                    variant={location === loc ? 'default' : 'outline'}
+                    variant={location === loc && !allLocations ? 'default' : 'outline'}
                     size="sm"
-                    onClick={() => setLocation(loc)}
+                    onClick={() => {
+                      setLocation(loc);
+                      setAllLocations(false);
+                    }}
                   >
                     {loc}
                   </Button>
                 ))}
+                {calendarView !== 'day' && (
+                  <Button
+                    variant={allLocations ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setAllLocations(true)}
+                  >
+                    All locations
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {CALENDAR_VIEWS.map((v) => (
+                  <Button
+                    key={v.value}
+                    variant={calendarView === v.value ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setCalendarView(v.value)}
+                  >
+                    {v.label}
+                  </Button>
+                ))}
               </div>
               <label className="flex items-center gap-2 text-sm">
                 <span className="text-slate-600 dark:text-slate-400">Date</span>
@@ -661,7 +927,18 @@ export const Bookings: React.FC = () => {
                 />
               </label>
             </div>
-            {loadingCalendar ? (
+            {calendarView !== 'day' ? (
+              <CalendarRangeView
+                view={calendarView}
+                date={date}
+                location={allLocations ? undefined : location}
+                onSelectDay={(day) => {
+                  setDate(day < today ? today : day);
+                  setAllLocations(false);
+                  setCalendarView('day');
+                }}
+              />
+            ) : loadingCalendar ? (
               <p className="text-sm text-slate-500">Loading calendar…</p>
             ) : (
               <div className="overflow-x-auto">
@@ -700,6 +977,23 @@ export const Bookings: React.FC = () => {
                               room.id,
                               i
                             );
+                            if (bookingStartingHere?.heldUntil) {
+                              const heldUntil = new Date(
+                                bookingStartingHere.heldUntil
+                              ).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+                              return (
+                                <td
+                                  key={room.id}
+                                  rowSpan={getRowSpanForBooking(bookingStartingHere)}
+                                  className="border border-dashed border-slate-400 dark:border-slate-500 bg-slate-100 dark:bg-slate-800 p-1 align-top"
+                                  title={`Held for a checkout until ${heldUntil}`}
+                                >
+                                  <span className="text-xs italic truncate block text-slate-600 dark:text-slate-300">
+                                    Held
+                                  </span>
+                                </td>
+                              );
+                            }
                             if (bookingStartingHere) {
                               const rowSpan = getRowSpanForBooking(bookingStartingHere);
                               return (
@@ -732,7 +1026,14 @@ export const Bookings: React.FC = () => {
         </Card>
 
         {/* Create booking form */}
-        <Card>
+        <SlotSearchCard
+          locations={locations}
+          minDate={today}
+          maxDate={maxBookingDateString()}
+          onSelect={handleSelectSlot}
+        />
+
+        <Card id="new-booking">
           <CardHeader className="pb-2">
             <CardTitle className="text-base">New booking</CardTitle>
           </CardHeader>
@@ -810,13 +1111,63 @@ export const Bookings: React.FC = () => {
                 <Button onClick={handleCreateBooking} disabled={submitting || !selectedRoomId}>
                   {submitting ? 'Creating…' : 'Create booking'}
                 </Button>
+                {user?.role !== 'admin' && (
+                  <Button
+                    variant="outline"
+                    onClick={handleAddToBatch}
+                    disabled={submitting || !selectedRoomId}
+                  >
+                    Add to batch
+                  </Button>
+                )}
               </div>
             </div>
+            {batchItems.length > 0 && (
+              <div className="space-y-2 rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+                <p className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Batch ({batchItems.length}) — booked together, all or none, with one payment
+                </p>
+                <ul className="space-y-1">
+                  {batchItems.map((item, index) => (
+                    <li
+                      key={`${item.roomId}-${item.date}-${item.startTime}`}
+                      className="flex items-center justify-between gap-2 text-sm text-slate-600 dark:text-slate-400"
+                    >
+                      <span>
+                        {formatDateUK(item.date)} · {item.startTime}–{item.endTime} ·{' '}
+                        {item.roomName}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setBatchItems((prev) => prev.filter((_, i) => i !== index))}
+                        disabled={submitting}
+                      >
+                        Remove
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+                <Button size="sm" onClick={handleBookBatch} disabled={submitting}>
+                  {submitting ? 'Booking…' : `Book all (${batchItems.length})`}
+                </Button>
+              </div>
+            )}
             {createError && (
               <p className="text-sm text-red-600 dark:text-red-400" role="alert">
                 {createError}
               </p>
             )}
+            {createError === SLOT_UNAVAILABLE_ERROR && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleJoinWaitlist}
+                disabled={joiningWaitlist}
+              >
+                {joiningWaitlist ? 'Joining…' : 'Join waitlist for this time'}
+              </Button>
+            )}
             {createSuccess && (
               <output
                 className="block text-sm text-green-600 dark:text-green-400"
@@ -828,6 +1179,87 @@ export const Bookings: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Waitlist */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">My waitlist</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {waitlistError && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4" role="alert">
+                {waitlistError}
+              </p>
+            )}
+            {waitlistSuccess && (
+              <output
+                className="block text-sm text-green-600 dark:text-green-400 mb-4"
+                aria-live="polite"
+              >
+                {waitlistSuccess}
+              </output>
+            )}
+            {loadingWaitlist ? (
+              <p className="text-sm text-slate-500">Loading…</p>
+            ) : waitlist.length === 0 ? (
+              <p className="text-sm text-slate-500">You are not waiting for any slots.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table className="min-w-[550px]">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Room</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-[180px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {waitlist.map((w) => (
+                      <TableRow key={w.id}>
+                        <TableCell>{formatDateUK(w.bookingDate)}</TableCell>
+                        <TableCell>
+                          {w.roomName} ({w.locationName})
+                        </TableCell>
+                        <TableCell>
+                          {w.startTime} – {w.endTime}
+                        </TableCell>
+                        <TableCell>
+                          {w.status === 'offered' && w.offerExpiresAt
+                            ? `Offered until ${new Date(w.offerExpiresAt).toLocaleTimeString('en-GB', {
+                                hour: '2-digit',
+                                minute: '2-digit',
+                              })}`
+                            : 'Waiting'}
+                        </TableCell>
+                        <TableCell className="flex gap-2">
+                          {w.status === 'offered' && w.offerToken && (
+                            <Button
+                              size="sm"
+                              onClick={() => handleClaimOffer(w.offerToken!, w.id)}
+                              disabled={waitlistActionId === w.id}
+                            >
+                              Claim
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleLeaveWaitlist(w.id)}
+                            disabled={waitlistActionId === w.id}
+                          >
+                            Leave
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* My bookings list */}
         <Card id="my-bookings">
           <CardHeader className="pb-2">
@@ -878,11 +1310,7 @@ export const Bookings: React.FC = () => {
                               onClick={() => handleCancelBooking(b.id)}
                               disabled={cancellingId === b.id || !isCancelable}
                               className="text-red-600 hover:text-red-700"
-                              title={
-                                !isCancelable
-                                  ? 'Cancellation with less than 24 hours notice is not permitted'
-                                  : undefined
-                              }
+                              title={!isCancelable ? 'This booking has already started' : undefined}
                             >
                               {cancellingId === b.id ? 'Cancelling…' : 'Cancel'}
                             </Button>
@@ -896,6 +1324,8 @@ export const Bookings: React.FC = () => {
             )}
           </CardContent>
         </Card>
+
+        <CalendarFeedCard />
       </div>
     </MainLayout>
   );
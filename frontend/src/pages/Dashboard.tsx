@@ -13,10 +13,14 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Icon } from '@/components/ui/Icon';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { KioskStatusCard } from '@/components/KioskStatusCard';
 import api, { practitionerApi } from '@/services/api';
 import { useNavigate } from 'react-router-dom';
-import { canCancelBooking } from '@/lib/booking-utils';
+import {
+  canCancelBooking,
+  cancellationConfirmMessage,
+  chooseRefundMethod,
+} from '@/lib/booking-utils';
 import type { DocumentData } from '@/types/documents';
 import axios from 'axios';
 
@@ -481,12 +485,18 @@ export const Dashboard: React.FC = () => {
   };
 
   const handleCancelBooking = async (bookingId: string) => {
-    if (!window.confirm('Are you sure you want to cancel this booking?')) return;
     setCancellingId(bookingId);
     setCancelError(null);
     cancelBookingControllerRef.current = new AbortController();
     try {
-      await practitionerApi.cancelBooking(bookingId);
+      const { quote } = (
+        await practitionerApi.getCancellationQuote(
+          bookingId,
+          cancelBookingControllerRef.current.signal
+        )
+      ).data;
+      if (!window.confirm(cancellationConfirmMessage(quote))) return;
+      await practitionerApi.cancelBooking(bookingId, { refundMethod: chooseRefundMethod(quote) });
       await fetchDashboardData(cancelBookingControllerRef.current.signal);
     } catch (err) {
       const msg =
@@ -668,36 +678,7 @@ export const Dashboard: React.FC = () => {
           </Card>
 
           {/* Kiosk Status */}
-          <Card className="col-span-1 md:col-span-2 lg:col-span-1">
-            <CardContent className="p-5 flex flex-row items-center gap-4">
-              <div className="relative">
-                <Avatar className="h-28 w-28 border-2 border-green-500">
-                  <AvatarImage src="" alt="Kiosk check-in photo" />
-                  <AvatarFallback className="bg-primary/10 text-primary text-2xl font-bold">
-                    {getInitials(user?.firstName, user?.lastName)}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="absolute -bottom-2 -right-2 bg-green-500 text-white p-1 rounded-full border-2 border-white dark:border-surface-dark">
-                  <Icon name="check" size={16} />
-                </div>
-              </div>
-              <div className="flex flex-col flex-1 gap-1">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <p className="text-slate-900 dark:text-white font-bold text-lg">Signed In</p>
-                    <p className="text-slate-500 dark:text-slate-400 text-sm">Pimlico Tablet</p>
-                    <p className="text-slate-400 dark:text-slate-500 text-xs mt-1">
-                      Check-in: 09:00 AM
-                    </p>
-                  </div>
-                </div>
-                <Button variant="destructive" size="sm" className="mt-2 w-full">
-                  <Icon name="logout" size={18} className="mr-2" />
-                  Sign Out
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          <KioskStatusCard initials={getInitials(user?.firstName, user?.lastName)} />
         </div>
 
         {/* Main Content Columns */}
@@ -759,9 +740,7 @@ export const Dashboard: React.FC = () => {
                                 onClick={() => handleCancelBooking(booking.id)}
                                 disabled={cancellingId === booking.id || !isCancelable}
                                 title={
-                                  !isCancelable
-                                    ? 'Cancellation with less than 24 hours notice is not permitted'
-                                    : undefined
+                                  !isCancelable ? 'This booking has already started' : undefined
                                 }
                               >
                                 {cancellingId === booking.id ? (
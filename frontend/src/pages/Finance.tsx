@@ -30,7 +30,7 @@ interface TransactionHistoryEntry {
   date: string;
   description: string;
   amount: number;
-  type: 'credit_grant' | 'booking' | 'voucher_allocation' | 'stripe_payment';
+  type: 'credit_grant' | 'booking' | 'voucher_allocation' | 'stripe_payment' | 'stripe_refund';
 }
 
 export const Finance: React.FC = () => {
@@ -0,0 +1,300 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AxiosError } from 'axios';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Icon } from '@/components/ui/Icon';
+import { kioskApi, KIOSK_TOKEN_STORAGE_KEY, type KioskActionResult } from '@/services/api';
+
+type DeviceState =
+  | { status: 'loading' }
+  | { status: 'unconfigured'; error?: string }
+  | { status: 'ready'; locationName: string; name: string };
+
+type Method = 'pin' | 'qr';
+type Action = 'sign_in' | 'sign_out';
+
+/** How long the confirmation / error stays on screen before the kiosk resets. */
+const RESULT_DISPLAY_MS = 6000;
+
+function errorMessage(err: unknown, fallback: string): string {
+  const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+  return typeof msg === 'string' && msg ? msg : fallback;
+}
+
+/**
+ * Front-desk sign-in screen, run on a registered tablet at each location. Practitioners sign in
+ * and out with their kiosk PIN or by scanning their QR code (scanners type the code and Enter).
+ */
+export const Kiosk: React.FC = () => {
+  const [device, setDevice] = useState<DeviceState>({ status: 'loading' });
+  const [tokenInput, setTokenInput] = useState('');
+  const [method, setMethod] = useState<Method>('pin');
+  const [action, setAction] = useState<Action>('sign_in');
+  const [credential, setCredential] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<KioskActionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const loadDevice = useCallback(async (signal?: AbortSignal) => {
+    if (!localStorage.getItem(KIOSK_TOKEN_STORAGE_KEY)) {
+      setDevice({ status: 'unconfigured' });
+      return;
+    }
+    setDevice({ status: 'loading' });
+    try {
+      const res = await kioskApi.getDevice(signal);
+      if (signal?.aborted) return;
+      if (res.data.success && res.data.data) {
+        setDevice({
+          status: 'ready',
+          locationName: res.data.data.locationName,
+          name: res.data.data.name,
+        });
+      }
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      if (err instanceof AxiosError && err.response?.status === 401) {
+        localStorage.removeItem(KIOSK_TOKEN_STORAGE_KEY);
+        setDevice({
+          status: 'unconfigured',
+          error: 'This device is not registered or has been revoked.',
+        });
+      } else {
+        setDevice({ status: 'unconfigured', error: errorMessage(err, 'Could not reach server.') });
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadDevice(controller.signal);
+    return () => controller.abort();
+  }, [loadDevice]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Clear the outcome and go back to the default state after a few seconds.
+  useEffect(() => {
+    if (!result && !error) return;
+    const timer = setTimeout(() => {
+      setResult(null);
+      setError(null);
+      setAction('sign_in');
+      inputRef.current?.focus();
+    }, RESULT_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [result, error]);
+
+  const handleSaveToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    const token = tokenInput.trim();
+    if (!token) return;
+    localStorage.setItem(KIOSK_TOKEN_STORAGE_KEY, token);
+    setTokenInput('');
+    loadDevice();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = credential.trim();
+    if (!value || submitting) return;
+    setSubmitting(true);
+    setResult(null);
+    setError(null);
+    try {
+      const payload = method === 'pin' ? { pin: value } : { qrCode: value };
+      const res =
+        action === 'sign_in' ? await kioskApi.signIn(payload) : await kioskApi.signOut(payload);
+      if (res.data.success && res.data.data) {
+        setResult(res.data.data);
+      }
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Something went wrong. Please try again or ask reception.'));
+    } finally {
+      setCredential('');
+      setSubmitting(false);
+    }
+  };
+
+  if (device.status === 'loading') {
+    return (
+      <div className="min-h-screen bg-background-light dark:bg-background-dark flex items-center justify-center font-display">
+        <p className="text-slate-500 dark:text-slate-400">Loading…</p>
+      </div>
+    );
+  }
+
+  if (device.status === 'unconfigured') {
+    return (
+      <div className="min-h-screen bg-background-light dark:bg-background-dark flex items-center justify-center px-4 font-display">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-black text-center">Set up kiosk</CardTitle>
+            <CardDescription className="text-center">
+              Enter the device token shown when this kiosk was registered by an admin.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {device.error && (
+              <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 rounded-lg flex items-center gap-2">
+                <Icon name="error" size={20} />
+                <span className="text-sm font-medium">{device.error}</span>
+              </div>
+            )}
+            <form onSubmit={handleSaveToken} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-token">Device token</Label>
+                <Input
+                  id="kiosk-token"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  autoComplete="off"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full">
+                Save
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background-light dark:bg-background-dark flex flex-col items-center justify-center px-4 font-display">
+      <div className="text-center mb-8">
+        <h1 className="text-4xl font-black text-slate-900 dark:text-white">
+          Welcome to {device.locationName}
+        </h1>
+        <p className="text-slate-500 dark:text-slate-400 text-lg mt-2">
+          {now.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long' })}{' '}
+          · {now.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+        </p>
+      </div>
+
+      <Card className="w-full max-w-lg">
+        <CardContent className="p-6 space-y-6">
+          {result ? (
+            <div className="text-center space-y-2 py-6">
+              <Icon
+                name={result.action === 'sign_in' ? 'login' : 'logout'}
+                className="text-6xl text-green-500"
+              />
+              <p className="text-2xl font-bold text-slate-900 dark:text-white">
+                {result.action === 'sign_in' ? 'Welcome' : 'Goodbye'}, {result.firstName}
+              </p>
+              <p className="text-slate-500 dark:text-slate-400">
+                {result.action === 'sign_in' ? 'Signed in' : 'Signed out'} at{' '}
+                {new Date(result.actionTime).toLocaleTimeString('en-GB', {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </p>
+              {result.booking && result.action === 'sign_in' && (
+                <p className="text-slate-700 dark:text-slate-300 font-medium">
+                  {result.booking.roomName}, {result.booking.startTime.slice(0, 5)} –{' '}
+                  {result.booking.endTime.slice(0, 5)}
+                </p>
+              )}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  type="button"
+                  size="lg"
+                  variant={action === 'sign_in' ? 'default' : 'secondary'}
+                  onClick={() => setAction('sign_in')}
+                >
+                  <Icon name="login" size={20} className="mr-2" />
+                  Sign in
+                </Button>
+                <Button
+                  type="button"
+                  size="lg"
+                  variant={action === 'sign_out' ? 'default' : 'secondary'}
+                  onClick={() => setAction('sign_out')}
+                >
+                  <Icon name="logout" size={20} className="mr-2" />
+                  Sign out
+                </Button>
+              </div>
+
+              <div className="flex justify-center gap-4 text-sm">
+                <button
+                  type="button"
+                  className={method === 'pin' ? 'font-bold text-primary' : 'text-slate-500'}
+                  onClick={() => {
+                    setMethod('pin');
+                    setCredential('');
+                  }}
+                >
+                  Use PIN
+                </button>
+                <button
+                  type="button"
+                  className={method === 'qr' ? 'font-bold text-primary' : 'text-slate-500'}
+                  onClick={() => {
+                    setMethod('qr');
+                    setCredential('');
+                  }}
+                >
+                  Scan QR code
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-credential">
+                  {method === 'pin' ? 'Enter your 6-digit PIN' : 'Scan your QR code'}
+                </Label>
+                <Input
+                  id="kiosk-credential"
+                  ref={inputRef}
+                  type={method === 'pin' ? 'password' : 'text'}
+                  inputMode={method === 'pin' ? 'numeric' : 'text'}
+                  maxLength={method === 'pin' ? 6 : 48}
+                  value={credential}
+                  onChange={(e) =>
+                    setCredential(
+                      method === 'pin' ? e.target.value.replace(/\D/g, '') : e.target.value
+                    )
+                  }
+                  className="text-center text-2xl tracking-widest h-14"
+                  autoComplete="off"
+                  autoFocus
+                />
+              </div>
+
+              {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 rounded-lg flex items-center gap-2">
+                  <Icon name="error" size={20} />
+                  <span className="text-sm font-medium">{error}</span>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                size="lg"
+                className="w-full"
+                disabled={submitting || (method === 'pin' && credential.length !== 6)}
+              >
+                {submitting ? 'Please wait…' : action === 'sign_in' ? 'Sign in' : 'Sign out'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-slate-400 dark:text-slate-500 mt-6">{device.name}</p>
+    </div>
+  );
+};
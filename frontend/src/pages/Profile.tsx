@@ -15,6 +15,7 @@ import api from '@/services/api';
 import { cn } from '@/lib/utils';
 import { useDocumentUpload } from '@/hooks/useDocumentUpload';
 import type { DocumentData } from '@/types/documents';
+import type { RefundPreference } from '@/types';
 import axios from 'axios';
 
 export const Profile: React.FC = () => {
@@ -37,6 +38,11 @@ export const Profile: React.FC = () => {
     email: (user?.nextOfKin as any)?.email || '',
   });
 
+  // Where a payment goes when the booking it paid for cannot be made
+  const [refundPreference, setRefundPreference] = useState<RefundPreference>(
+    user?.refundPreference ?? 'card'
+  );
+
   // Update state when user changes
   useEffect(() => {
     if (user) {
@@ -50,6 +56,7 @@ export const Profile: React.FC = () => {
         phone: (user.nextOfKin as any)?.phone || '',
         email: (user.nextOfKin as any)?.email || '',
       });
+      setRefundPreference(user.refundPreference ?? 'card');
     }
   }, [user]);
 
@@ -292,6 +299,7 @@ export const Profile: React.FC = () => {
         lastName: personalInfo.lastName,
         phone: personalInfo.phone || undefined,
         nextOfKin: nextOfKinData,
+        refundPreference,
       });
 
       if (response.data.success && response.data.data) {
@@ -587,6 +595,29 @@ export const Profile: React.FC = () => {
 
                   <Separator />
 
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-bold text-slate-900 dark:text-white">Payments</h3>
+                    <div className="space-y-2">
+                      <Label htmlFor="refundPreference">
+                        If you pay for a booking that cannot then be made
+                      </Label>
+                      <select
+                        id="refundPreference"
+                        value={refundPreference}
+                        onChange={(e) => setRefundPreference(e.target.value as RefundPreference)}
+                        className="w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm"
+                      >
+                        <option value="card">Refund it to my card</option>
+                        <option value="credit">Keep it as credit</option>
+                      </select>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        For example, when someone else books the time while you are paying.
+                      </p>
+                    </div>
+                  </div>
+
+                  <Separator />
+
                   <div className="space-y-4">
                     <h3 className="text-sm font-bold text-slate-900 dark:text-white">
                       Professional Indemnity Insurance
@@ -14,7 +14,14 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Icon } from '@/components/ui/Icon';
 import { PaymentModal } from '@/components/payment/PaymentModal';
-import { practitionerApi, type PermanentSlot } from '@/services/api';
+import { Select } from '@/components/ui/select-native';
+import {
+  practitionerApi,
+  type PermanentSlot,
+  type PlanSwitchQuote,
+  type SubscriptionChangeRequest,
+  type SubscriptionPlan,
+} from '@/services/api';
 import { formatDateUK } from '@/lib/utils';
 
 interface SubscriptionMembership {
@@ -23,6 +30,12 @@ interface SubscriptionMembership {
   subscriptionEndDate: string | null;
   suspensionDate: string | null;
   terminationRequestedAt: string | null;
+  /** Set while a monthly payment is failing. */
+  paymentFailedAt: string | null;
+  paymentUpdateUrl: string | null;
+  /** Monthly subscription pause: first paused day and first day after it. */
+  pausedFrom: string | null;
+  pausedUntil: string | null;
 }
 
 interface SubscriptionStatus {
@@ -31,6 +44,9 @@ interface SubscriptionStatus {
   membership?: SubscriptionMembership;
   monthlyPriceGbp?: number;
   permanentSlots?: PermanentSlot[];
+  /** Cancellation or pause of a monthly subscription that is pending or in effect. */
+  changeRequest?: SubscriptionChangeRequest | null;
+  maxPauseMonths?: number;
 }
 
 const MONTHLY_SUBSCRIPTION_PENCE = 10500;
@@ -49,6 +65,25 @@ function showPurchaseCardForAdHoc(membership: SubscriptionMembership | undefined
   return (membership?.type === 'ad_hoc' && !membership.subscriptionType) ?? false;
 }
 
+const PLAN_LABELS: Record<SubscriptionPlan, string> = { ad_hoc: 'ad-hoc', monthly: 'monthly' };
+
+const formatGbp = (amount: number) => `£${amount.toFixed(2)}`;
+
+function describeChangeRequest(request: SubscriptionChangeRequest): string {
+  const suspension = formatDateUK(request.effectiveDate);
+  const pause = `from ${formatDateUK(request.effectiveDate)} until ${formatDateUK(
+    request.resumeDate ?? request.effectiveDate
+  )}`;
+  if (request.status === 'pending') {
+    return request.kind === 'cancel'
+      ? `Your cancellation is waiting for approval because you have bookings on or after ${suspension}, when your account would be suspended.`
+      : `Your pause ${pause} is waiting for approval because you have bookings in that time.`;
+  }
+  return request.kind === 'cancel'
+    ? `Your subscription will be cancelled at the end of the current billing period. You can make bookings until your account is suspended on ${suspension}.`
+    : `Billing is paused ${pause}. You will not be charged, receive credit or be able to make bookings in that time.`;
+}
+
 export const Subscription: React.FC = () => {
   const [status, setStatus] = useState<SubscriptionStatus | null>(null);
   const [loading, setLoading] = useState(true);
@@ -63,6 +98,13 @@ export const Subscription: React.FC = () => {
   const [purchaseError, setPurchaseError] = useState<string | null>(null);
   const [purchasing, setPurchasing] = useState<'monthly' | 'ad_hoc' | null>(null);
   const [purchaseSuccessMessage, setPurchaseSuccessMessage] = useState<string | null>(null);
+  const [changing, setChanging] = useState<'cancel' | 'pause' | null>(null);
+  const [changeError, setChangeError] = useState<string | null>(null);
+  const [cancelConfirmOpen, setCancelConfirmOpen] = useState(false);
+  const [pauseMonths, setPauseMonths] = useState(1);
+  const [switchQuote, setSwitchQuote] = useState<PlanSwitchQuote | null>(null);
+  const [switching, setSwitching] = useState<'quote' | 'switch' | null>(null);
+  const [switchError, setSwitchError] = useState<string | null>(null);
   const statusAbortRef = useRef<AbortController | null>(null);
 
   const fetchStatus = useCallback(async (signal?: AbortSignal) => {
@@ -78,6 +120,8 @@ export const Subscription: React.FC = () => {
           membership: res.data.membership,
           monthlyPriceGbp: res.data.monthlyPriceGbp,
           permanentSlots: res.data.permanentSlots,
+          changeRequest: res.data.changeRequest,
+          maxPauseMonths: res.data.maxPauseMonths,
         });
       } else {
         setStatus(null);
@@ -138,6 +182,79 @@ export const Subscription: React.FC = () => {
     }
   };
 
+  const runMonthlyChange = async (kind: 'cancel' | 'pause') => {
+    setChangeError(null);
+    setChanging(kind);
+    try {
+      if (kind === 'cancel') await practitionerApi.cancelMonthlySubscription();
+      else await practitionerApi.pauseMonthlySubscription(pauseMonths);
+      setCancelConfirmOpen(false);
+      statusAbortRef.current?.abort();
+      const controller = new AbortController();
+      statusAbortRef.current = controller;
+      await fetchStatus(controller.signal);
+    } catch (err) {
+      setChangeError(
+        extractApiErrorMessage(
+          err,
+          kind === 'cancel' ? 'Failed to cancel subscription.' : 'Failed to pause subscription.'
+        )
+      );
+    } finally {
+      setChanging(null);
+    }
+  };
+
+  const loadSwitchQuote = async (plan: SubscriptionPlan) => {
+    setSwitchError(null);
+    setSwitching('quote');
+    try {
+      const res = await practitionerApi.getPlanSwitchQuote(plan);
+      if (res.data.success && res.data.quote) setSwitchQuote(res.data.quote);
+      else setSwitchError(res.data.error ?? 'Failed to price the switch.');
+    } catch (err) {
+      setSwitchError(extractApiErrorMessage(err, 'Failed to price the switch.'));
+    } finally {
+      setSwitching(null);
+    }
+  };
+
+  const runSwitch = async (plan: SubscriptionPlan) => {
+    setSwitchError(null);
+    setPurchaseSuccessMessage(null);
+    setSwitching('switch');
+    try {
+      const res = await practitionerApi.switchPlan(plan);
+      const data = res.data;
+      if (!data.success) {
+        setSwitchError(data.error ?? 'Failed to switch plan.');
+        return;
+      }
+      if (data.status === 'checkout' && data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+      if (data.status === 'payment' && data.clientSecret) {
+        setPaymentClientSecret(data.clientSecret);
+        setPaymentAmountPence(Math.round((data.quote?.amountDue ?? 0) * 100));
+        setPaymentTitle(`Switch to ${PLAN_LABELS[plan]}`);
+        setPaymentModalOpen(true);
+        setSwitchQuote(null);
+        return;
+      }
+      setSwitchQuote(null);
+      setPurchaseSuccessMessage(`You are now on the ${PLAN_LABELS[plan]} plan.`);
+      statusAbortRef.current?.abort();
+      const controller = new AbortController();
+      statusAbortRef.current = controller;
+      await fetchStatus(controller.signal);
+    } catch (err) {
+      setSwitchError(extractApiErrorMessage(err, 'Failed to switch plan.'));
+    } finally {
+      setSwitching(null);
+    }
+  };
+
   const startMonthlySubscription = async () => {
     setPurchaseError(null);
     setPurchaseSuccessMessage(null);
@@ -226,6 +343,24 @@ export const Subscription: React.FC = () => {
   const membership = status?.membership;
   const isAdHoc = membership?.subscriptionType === 'ad_hoc' || membership?.type === 'ad_hoc';
   const canTerminate = isAdHoc && !membership?.terminationRequestedAt;
+  const changeRequest = status?.changeRequest ?? null;
+  const isMonthly = membership?.subscriptionType === 'monthly';
+  const canChangeMonthly = isMonthly && !membership?.terminationRequestedAt && !changeRequest;
+  const currentPlan =
+    membership?.type !== 'permanent' &&
+    (membership?.subscriptionType === 'monthly' || membership?.subscriptionType === 'ad_hoc')
+      ? membership.subscriptionType
+      : null;
+  const canSwitchPlan =
+    currentPlan != null &&
+    !changeRequest &&
+    !membership?.paymentFailedAt &&
+    !(isMonthly && membership?.terminationRequestedAt);
+  const switchTarget: SubscriptionPlan | null = canSwitchPlan
+    ? currentPlan === 'monthly'
+      ? 'ad_hoc'
+      : 'monthly'
+    : null;
 
   return (
     <MainLayout>
@@ -253,6 +388,30 @@ export const Subscription: React.FC = () => {
           </Card>
         ) : (
           <>
+            {membership?.paymentFailedAt && (
+              <Card className="border-amber-300 dark:border-amber-700">
+                <CardContent className="pt-6 space-y-3" role="alert">
+                  <p className="text-sm font-medium text-amber-700 dark:text-amber-400">
+                    Your subscription payment failed on {formatDateUK(membership.paymentFailedAt)}.
+                  </p>
+                  <p className="text-sm text-slate-600 dark:text-slate-400">
+                    Update your payment details to keep booking. Everything is restored as soon as
+                    the payment goes through.
+                  </p>
+                  {membership.paymentUpdateUrl && (
+                    <Button asChild size="sm">
+                      <a
+                        href={membership.paymentUpdateUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        Update payment details
+                      </a>
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle className="text-base flex items-center gap-2">
@@ -325,6 +484,15 @@ export const Subscription: React.FC = () => {
                         </dd>
                       </div>
                     )}
+                    {membership.pausedFrom && membership.pausedUntil && (
+                      <div>
+                        <dt className="text-slate-500 dark:text-slate-400">Billing paused</dt>
+                        <dd className="font-medium">
+                          {formatDateUK(membership.pausedFrom)} to{' '}
+                          {formatDateUK(membership.pausedUntil)}
+                        </dd>
+                      </div>
+                    )}
                     {status?.monthlyPriceGbp != null && (
                       <div>
                         <dt className="text-slate-500 dark:text-slate-400">Monthly price</dt>
@@ -460,6 +628,204 @@ export const Subscription: React.FC = () => {
                 </CardContent>
               </Card>
             )}
+
+            {switchTarget && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">
+                    Switch to the {PLAN_LABELS[switchTarget]} plan
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-slate-600 dark:text-slate-400">
+                    {switchTarget === 'monthly'
+                      ? 'Pay monthly from now on. Your unused ad-hoc credit goes towards the rest of this month.'
+                      : 'Replace your monthly subscription with a one-off ad-hoc subscription. Your monthly subscription stops straight away and unused monthly credit goes towards the ad-hoc price.'}
+                  </p>
+                  {switchError && (
+                    <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+                      {switchError}
+                    </p>
+                  )}
+                  {switchQuote?.toPlan === switchTarget ? (
+                    <>
+                      <dl className="grid gap-2 text-sm">
+                        {switchQuote.currentMonthAmount != null &&
+                        switchQuote.nextMonthAmount != null ? (
+                          <>
+                            <div>
+                              <dt className="text-slate-500 dark:text-slate-400">
+                                Rest of this month
+                              </dt>
+                              <dd className="font-medium">
+                                {formatGbp(switchQuote.currentMonthAmount)}
+                              </dd>
+                            </div>
+                            <div>
+                              <dt className="text-slate-500 dark:text-slate-400">Next month</dt>
+                              <dd className="font-medium">
+                                {formatGbp(switchQuote.nextMonthAmount)}
+                              </dd>
+                            </div>
+                          </>
+                        ) : (
+                          <div>
+                            <dt className="text-slate-500 dark:text-slate-400">
+                              Ad-hoc subscription
+                            </dt>
+                            <dd className="font-medium">{formatGbp(switchQuote.newPlanAmount)}</dd>
+                          </div>
+                        )}
+                        <div>
+                          <dt className="text-slate-500 dark:text-slate-400">
+                            Unused credit carried over
+                          </dt>
+                          <dd className="font-medium">−{formatGbp(switchQuote.carriedCredit)}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-slate-500 dark:text-slate-400">To pay now</dt>
+                          <dd className="font-medium">{formatGbp(switchQuote.amountDue)}</dd>
+                        </div>
+                        {switchQuote.keptCredit > 0 && (
+                          <div>
+                            <dt className="text-slate-500 dark:text-slate-400">
+                              Credit you keep until it expires
+                            </dt>
+                            <dd className="font-medium">{formatGbp(switchQuote.keptCredit)}</dd>
+                          </div>
+                        )}
+                      </dl>
+                      <div className="flex flex-wrap gap-3">
+                        <Button
+                          onClick={() => runSwitch(switchTarget)}
+                          disabled={switching !== null}
+                        >
+                          {switching === 'switch'
+                            ? 'Switching…'
+                            : switchQuote.amountDue > 0
+                              ? `Switch and pay ${formatGbp(switchQuote.amountDue)}`
+                              : 'Switch now'}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => setSwitchQuote(null)}
+                          disabled={switching !== null}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      onClick={() => loadSwitchQuote(switchTarget)}
+                      disabled={switching !== null}
+                    >
+                      {switching === 'quote' ? 'Working out the cost…' : 'See what it costs'}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {isMonthly && (changeRequest || canChangeMonthly) && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Cancel or pause monthly subscription</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {changeRequest ? (
+                    <>
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        {describeChangeRequest(changeRequest)}
+                      </p>
+                      {changeRequest.status === 'pending' &&
+                        changeRequest.flaggedBookings.length > 0 && (
+                          <ul className="list-disc list-inside text-sm text-slate-700 dark:text-slate-300 space-y-1">
+                            {changeRequest.flaggedBookings.map((b) => (
+                              <li key={b.id}>
+                                {formatDateUK(b.bookingDate)} {b.startTime}–{b.endTime},{' '}
+                                {b.roomName}, {b.locationName}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        Cancel at the end of your current billing period, or pause billing for up
+                        to {status?.maxPauseMonths ?? 1} month
+                        {(status?.maxPauseMonths ?? 1) === 1 ? '' : 's'} from then. If you have
+                        bookings after that date, the office reviews the request first.
+                      </p>
+                      {changeError && (
+                        <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+                          {changeError}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-3">
+                        <Select
+                          value={pauseMonths}
+                          onChange={(e) => setPauseMonths(Number(e.target.value))}
+                          className="w-auto"
+                          aria-label="Pause length"
+                          disabled={changing !== null}
+                        >
+                          {Array.from({ length: status?.maxPauseMonths ?? 1 }, (_, i) => (
+                            <option key={i + 1} value={i + 1}>
+                              {i + 1} month{i === 0 ? '' : 's'}
+                            </option>
+                          ))}
+                        </Select>
+                        <Button
+                          variant="outline"
+                          onClick={() => runMonthlyChange('pause')}
+                          disabled={changing !== null}
+                        >
+                          {changing === 'pause' ? 'Pausing…' : 'Pause billing'}
+                        </Button>
+                      </div>
+                      <AlertDialog open={cancelConfirmOpen} onOpenChange={setCancelConfirmOpen}>
+                        <Button
+                          variant="outline"
+                          className="text-red-600 border-red-300 hover:bg-red-50 dark:border-red-700 dark:hover:bg-red-900/20"
+                          onClick={() => setCancelConfirmOpen(true)}
+                          disabled={changing !== null}
+                        >
+                          {changing === 'cancel' ? 'Cancelling…' : 'Cancel subscription'}
+                        </Button>
+                        <AlertDialogContent aria-describedby="cancel-monthly-description">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Cancel monthly subscription?</AlertDialogTitle>
+                            <AlertDialogDescription id="cancel-monthly-description">
+                              Your subscription ends with the current billing period and you are
+                              not charged again. You can use the system until the end of the
+                              following month. Are you sure you want to cancel?
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Keep subscription</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={(e) => {
+                                e.preventDefault();
+                                runMonthlyChange('cancel');
+                              }}
+                              disabled={changing !== null}
+                              aria-busy={changing === 'cancel'}
+                              aria-disabled={changing !== null}
+                              className="bg-red-600 hover:bg-red-700 text-white disabled:opacity-70 disabled:pointer-events-none disabled:cursor-not-allowed"
+                            >
+                              Cancel subscription
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </>
         )}
 
@@ -1,7 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
-import { practitionerApi, adminApi, type RoomItem } from '@/services/api';
-
-export type LocationName = 'Pimlico' | 'Kensington';
+import {
+  practitionerApi,
+  adminApi,
+  type RoomItem,
+  type BookingHistoryEvent,
+} from '@/services/api';
+import { cancellationConfirmMessage, chooseRefundMethod } from '@/lib/booking-utils';
 
 export type CalendarBooking = {
   id?: string;
@@ -21,13 +25,14 @@ export type ModifyBookingState = {
   endTime: string;
 } | null;
 
-export function useRooms(location: LocationName) {
+export function useRooms(location: string) {
   const [rooms, setRooms] = useState<RoomItem[]>([]);
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
   const [loadingRooms, setLoadingRooms] = useState(false);
 
   const fetchRooms = useCallback(
     async (signal?: AbortSignal) => {
+      if (!location) return;
       setLoadingRooms(true);
       try {
         const res = await practitionerApi.getRooms(location, signal);
@@ -57,13 +62,14 @@ export function useRooms(location: LocationName) {
   return { rooms, selectedRoomId, setSelectedRoomId, loadingRooms, fetchRooms };
 }
 
-export function useCalendar(location: LocationName, date: string) {
+export function useCalendar(location: string, date: string) {
   const [calendarRooms, setCalendarRooms] = useState<Array<{ id: string; name: string }>>([]);
   const [calendarBookings, setCalendarBookings] = useState<CalendarBooking[]>([]);
   const [loadingCalendar, setLoadingCalendar] = useState(false);
 
   const fetchCalendar = useCallback(
     async (signal?: AbortSignal) => {
+      if (!location) return;
       setLoadingCalendar(true);
       try {
         const res = await practitionerApi.getCalendar(location, date, signal);
@@ -132,6 +138,28 @@ export function usePractitioners(shouldFetch: boolean) {
   return { practitioners, loadingPractitioners, fetchPractitioners };
 }
 
+/** Change history of the booking being modified (null while loading or with no booking). */
+export function useBookingHistory(bookingId: string | null) {
+  const [history, setHistory] = useState<BookingHistoryEvent[] | null>(null);
+
+  useEffect(() => {
+    setHistory(null);
+    if (!bookingId) return;
+    const c = new AbortController();
+    practitionerApi
+      .getBookingById(bookingId, c.signal)
+      .then((res) => {
+        if (!c.signal.aborted) setHistory(res.data.history ?? []);
+      })
+      .catch(() => {
+        if (!c.signal.aborted) setHistory([]);
+      });
+    return () => c.abort();
+  }, [bookingId]);
+
+  return history;
+}
+
 export type UseBookingHandlersParams = {
   selectedRoomId: string | null;
   date: string;
@@ -232,7 +260,17 @@ export function useBookingHandlers(params: UseBookingHandlersParams) {
       setCancelError(null);
       setCancellingId(id);
       try {
-        await practitionerApi.cancelBooking(id);
+        const { quote } = (await practitionerApi.getCancellationQuote(id)).data;
+        if (!window.confirm(cancellationConfirmMessage(quote))) return;
+        // Admins may waive the cancellation fee for a full refund
+        const waiveFee =
+          quote.refundPercent < 100 &&
+          (quote.refundableAmount > 0 || quote.refundableVoucherHours > 0) &&
+          window.confirm('Waive the cancellation fee and refund the booking in full?');
+        await practitionerApi.cancelBooking(id, {
+          waiveFee,
+          refundMethod: chooseRefundMethod(quote),
+        });
         await fetchCalendar();
       } catch (err: unknown) {
         const msg =
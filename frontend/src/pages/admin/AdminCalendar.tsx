@@ -13,17 +13,20 @@ import {
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { formatDateUK } from '@/lib/utils';
+import { useLocations } from '@/hooks/useLocations';
+import { useCalendarChanges } from '@/hooks/useCalendarChanges';
+import { BookingHistory } from '@/components/BookingHistory';
+import { CalendarRangeView } from '@/components/CalendarRangeView';
+import type { CalendarView } from '@/services/api';
 import {
   useRooms,
   useCalendar,
   usePractitioners,
   useBookingHandlers,
-  type LocationName,
+  useBookingHistory,
   type CalendarBooking,
 } from './AdminCalendar.hooks';
 
-const LOCATIONS: LocationName[] = ['Pimlico', 'Kensington'];
-
 const TIME_OPTIONS_30MIN = (() => {
   const options: { value: string; label: string }[] = [];
   for (let h = 8; h <= 21; h++) {
@@ -92,6 +95,12 @@ function maxBookingDateString(): string {
   return target.toLocaleDateString('en-CA');
 }
 
+const CALENDAR_VIEWS = [
+  { value: 'day' as const, label: 'Day' },
+  { value: 'week' as const, label: 'Week' },
+  { value: 'month' as const, label: 'Month' },
+];
+
 const ALL_BOOKING_TYPES = [
   { value: 'ad_hoc' as const, label: 'Ad hoc' },
   { value: 'permanent_recurring' as const, label: 'Recurring' },
@@ -101,8 +110,10 @@ const ALL_BOOKING_TYPES = [
 
 export const AdminCalendar: React.FC = () => {
   const { user } = useAuth();
-  const [location, setLocation] = useState<LocationName>('Pimlico');
+  const { locations, location, setLocation } = useLocations();
   const [date, setDate] = useState(todayDateString());
+  const [calendarView, setCalendarView] = useState<'day' | CalendarView>('day');
+  const [allLocations, setAllLocations] = useState(false);
   const [startTime, setStartTime] = useState('09:00');
   const [endTime, setEndTime] = useState('10:00');
   const [bookingType, setBookingType] = useState<
@@ -142,6 +153,11 @@ export const AdminCalendar: React.FC = () => {
     targetUserId,
     fetchCalendar,
   });
+  const modifyHistory = useBookingHistory(modifyBooking?.id ?? null);
+  useCalendarChanges(
+    calendarView === 'day' && location ? { location, from: date, to: date } : null,
+    () => fetchCalendar()
+  );
 
   if (user?.role !== 'admin') return <AccessDenied />;
 
@@ -163,16 +179,40 @@ export const AdminCalendar: React.FC = () => {
           <CardContent className="space-y-4">
             <div className="flex flex-wrap gap-4 items-center">
               <div className="flex gap-2">
-                {LOCATIONS.map((loc) => (
+                {locations.map((loc) => (
                   <Button
                     key={loc}
-                    variant={location === loc ? 'default' : 'outline'}
+                    variant={location === loc && !allLocations ? 'default' : 'outline'}
                     size="sm"
-                    onClick={() => setLocation(loc)}
+                    onClick={() => {
+                      setLocation(loc);
+                      setAllLocations(false);
+                    }}
                   >
                     {loc}
                   </Button>
                 ))}
+                {calendarView !== 'day' && (
+                  <Button
+                    variant={allLocations ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setAllLocations(true)}
+                  >
+                    All locations
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {CALENDAR_VIEWS.map((v) => (
+                  <Button
+                    key={v.value}
+                    variant={calendarView === v.value ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setCalendarView(v.value)}
+                  >
+                    {v.label}
+                  </Button>
+                ))}
               </div>
               <label className="flex items-center gap-2 text-sm">
                 <span className="text-slate-600 dark:text-slate-400">Date</span>
@@ -186,7 +226,18 @@ export const AdminCalendar: React.FC = () => {
                 />
               </label>
             </div>
-            {loadingCalendar ? (
+            {calendarView !== 'day' ? (
+              <CalendarRangeView
+                view={calendarView}
+                date={date}
+                location={allLocations ? undefined : location}
+                onSelectDay={(day) => {
+                  setDate(day < todayDateString() ? todayDateString() : day);
+                  setAllLocations(false);
+                  setCalendarView('day');
+                }}
+              />
+            ) : loadingCalendar ? (
               <p className="text-sm text-slate-500">Loading calendar…</p>
             ) : (
               <div className="overflow-x-auto">
@@ -484,6 +535,10 @@ export const AdminCalendar: React.FC = () => {
                   {modifyError}
                 </p>
               )}
+              <div className="grid gap-2">
+                <Label>History</Label>
+                <BookingHistory history={modifyHistory} />
+              </div>
             </div>
           )}
           <DialogFooter>
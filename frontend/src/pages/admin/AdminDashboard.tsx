@@ -14,6 +14,10 @@ import {
 } from '@/components/ui/table';
 import { Icon } from '@/components/ui/Icon';
 import { adminApi } from '@/services/api';
+import { PaymentIncidentsCard } from '@/components/PaymentIncidentsCard';
+import { SelfOverlapsCard } from '@/components/SelfOverlapsCard';
+import { SubscriptionRequestsCard } from '@/components/SubscriptionRequestsCard';
+import { WebhookEventsCard } from '@/components/WebhookEventsCard';
 import { useNavigate } from 'react-router-dom';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Input } from '@/components/ui/input';
@@ -305,6 +309,14 @@ export const AdminDashboard: React.FC = () => {
           </Card>
         </div>
 
+        <SubscriptionRequestsCard />
+
+        <PaymentIncidentsCard />
+
+        <SelfOverlapsCard />
+
+        <WebhookEventsCard />
+
         {/* Missing Information Section */}
         <Card>
           <CardHeader>
@@ -0,0 +1,441 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AxiosError } from 'axios';
+import { useAuth } from '@/context/AuthContext';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { AccessDenied } from '@/components/AccessDenied';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select-native';
+import { Icon } from '@/components/ui/Icon';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  adminApi,
+  type AttendanceReport,
+  type KioskBookingSummary,
+  type KioskDeviceItem,
+  type LocationItem,
+  type PresentPerson,
+} from '@/services/api';
+
+/** "Who's in" refresh interval while the page is open. */
+const PRESENT_REFRESH_MS = 60_000;
+
+function todayDateString(): string {
+  return new Date().toLocaleDateString('en-CA');
+}
+
+function formatTime(value: string | null): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatBooking(b: KioskBookingSummary): string {
+  return `${b.roomName} ${b.startTime.slice(0, 5)}–${b.endTime.slice(0, 5)}`;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  const msg = err instanceof AxiosError ? err.response?.data?.error : null;
+  return typeof msg === 'string' && msg ? msg : fallback;
+}
+
+export const Building: React.FC = () => {
+  const { user } = useAuth();
+  const [locations, setLocations] = useState<LocationItem[]>([]);
+
+  const [presentLocationId, setPresentLocationId] = useState('');
+  const [present, setPresent] = useState<PresentPerson[]>([]);
+  const [loadingPresent, setLoadingPresent] = useState(true);
+  const [presentError, setPresentError] = useState<string | null>(null);
+
+  const [reportLocationId, setReportLocationId] = useState('');
+  const [reportDate, setReportDate] = useState(todayDateString());
+  const [report, setReport] = useState<AttendanceReport | null>(null);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  const [devices, setDevices] = useState<KioskDeviceItem[]>([]);
+  const [deviceName, setDeviceName] = useState('');
+  const [deviceLocationId, setDeviceLocationId] = useState('');
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const [newDeviceToken, setNewDeviceToken] = useState<string | null>(null);
+  const [registering, setRegistering] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user?.role !== 'admin') return;
+    const controller = new AbortController();
+    adminApi
+      .getLocations(controller.signal)
+      .then((res) => {
+        const list = res.data.data ?? [];
+        setLocations(list);
+        const first = list.find((l) => l.active);
+        if (first) {
+          setReportLocationId((prev) => prev || first.id);
+          setDeviceLocationId((prev) => prev || first.id);
+        }
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setLocations([]);
+      });
+    return () => controller.abort();
+  }, [user?.role]);
+
+  const fetchPresent = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        const res = await adminApi.getPeopleInBuilding(presentLocationId || undefined, signal);
+        if (signal?.aborted) return;
+        setPresent(res.data.data ?? []);
+        setPresentError(null);
+      } catch (err: unknown) {
+        if (!signal?.aborted) setPresentError(errorMessage(err, 'Failed to load who is in'));
+      } finally {
+        if (!signal?.aborted) setLoadingPresent(false);
+      }
+    },
+    [presentLocationId]
+  );
+
+  useEffect(() => {
+    if (user?.role !== 'admin') return;
+    const controller = new AbortController();
+    setLoadingPresent(true);
+    fetchPresent(controller.signal);
+    const timer = setInterval(() => fetchPresent(controller.signal), PRESENT_REFRESH_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [user?.role, fetchPresent]);
+
+  const fetchDevices = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await adminApi.getKioskDevices(signal);
+      if (!signal?.aborted) setDevices(res.data.data ?? []);
+    } catch (err: unknown) {
+      if (!signal?.aborted) setDeviceError(errorMessage(err, 'Failed to load kiosk devices'));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.role !== 'admin') return;
+    const controller = new AbortController();
+    fetchDevices(controller.signal);
+    return () => controller.abort();
+  }, [user?.role, fetchDevices]);
+
+  const handleLoadReport = async () => {
+    if (!reportLocationId || !reportDate) return;
+    setLoadingReport(true);
+    setReportError(null);
+    try {
+      const res = await adminApi.getAttendanceReport(reportLocationId, reportDate);
+      setReport(res.data.data ?? null);
+    } catch (err: unknown) {
+      setReport(null);
+      setReportError(errorMessage(err, 'Failed to load attendance report'));
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const handleRegisterDevice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deviceLocationId || !deviceName.trim()) return;
+    setRegistering(true);
+    setDeviceError(null);
+    setNewDeviceToken(null);
+    try {
+      const res = await adminApi.registerKioskDevice({
+        locationId: deviceLocationId,
+        name: deviceName.trim(),
+      });
+      setNewDeviceToken(res.data.data?.token ?? null);
+      setDeviceName('');
+      await fetchDevices();
+    } catch (err: unknown) {
+      setDeviceError(errorMessage(err, 'Failed to register device'));
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  const handleRevokeDevice = async (device: KioskDeviceItem) => {
+    if (!window.confirm(`Revoke "${device.name}"? It will stop working immediately.`)) return;
+    setRevokingId(device.id);
+    setDeviceError(null);
+    try {
+      await adminApi.revokeKioskDevice(device.id);
+      await fetchDevices();
+    } catch (err: unknown) {
+      setDeviceError(errorMessage(err, 'Failed to revoke device'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (user?.role !== 'admin') return <AccessDenied />;
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Building</h1>
+          <p className="text-slate-600 dark:text-slate-400 mt-1">
+            See who is signed in at each location, print the fire-safety attendance list, and
+            manage front-desk kiosks.
+          </p>
+        </div>
+
+        <Card className="print:hidden">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Icon name="groups" className="text-primary" />
+              In the building now ({present.length})
+            </CardTitle>
+            <Select
+              className="w-48"
+              value={presentLocationId}
+              onChange={(e) => setPresentLocationId(e.target.value)}
+              aria-label="Location"
+            >
+              <option value="">All locations</option>
+              {locations.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name}
+                </option>
+              ))}
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {presentError && <p className="text-sm text-red-600 mb-2">{presentError}</p>}
+            {loadingPresent ? (
+              <p className="text-sm text-slate-500">Loading…</p>
+            ) : present.length === 0 ? (
+              <p className="text-sm text-slate-500">Nobody is signed in.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Signed in</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {present.map((p) => (
+                    <TableRow key={`${p.userId}-${p.locationId}`}>
+                      <TableCell className="font-medium">{p.name}</TableCell>
+                      <TableCell>{p.phone ?? '—'}</TableCell>
+                      <TableCell>{p.locationName}</TableCell>
+                      <TableCell>{formatTime(p.signedInAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Icon name="local_fire_department" className="text-primary" />
+              Attendance report
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-4 items-end print:hidden">
+              <div className="space-y-1">
+                <Label htmlFor="report-location">Location</Label>
+                <Select
+                  id="report-location"
+                  className="w-48"
+                  value={reportLocationId}
+                  onChange={(e) => setReportLocationId(e.target.value)}
+                >
+                  {locations.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="report-date">Date</Label>
+                <input
+                  id="report-date"
+                  type="date"
+                  value={reportDate}
+                  max={todayDateString()}
+                  onChange={(e) => setReportDate(e.target.value)}
+                  className="rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm"
+                />
+              </div>
+              <Button size="sm" onClick={handleLoadReport} disabled={loadingReport}>
+                {loadingReport ? 'Loading…' : 'Show report'}
+              </Button>
+              {report && (
+                <Button size="sm" variant="outline" onClick={() => window.print()}>
+                  <Icon name="print" size={18} className="mr-2" />
+                  Print
+                </Button>
+              )}
+            </div>
+            {reportError && <p className="text-sm text-red-600">{reportError}</p>}
+            {report && (
+              <div className="space-y-2">
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {report.locationName} · {report.date} · generated{' '}
+                  {new Date(report.generatedAt).toLocaleString('en-GB')} ·{' '}
+                  {report.people.filter((p) => p.stillSignedIn).length} still signed in
+                </p>
+                {report.people.length === 0 ? (
+                  <p className="text-sm text-slate-500">No kiosk activity on this date.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Phone</TableHead>
+                        <TableHead>First in</TableHead>
+                        <TableHead>Last out</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Bookings</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.people.map((p) => (
+                        <TableRow key={p.userId}>
+                          <TableCell className="font-medium">{p.name}</TableCell>
+                          <TableCell>{p.phone ?? '—'}</TableCell>
+                          <TableCell>{formatTime(p.firstSignIn)}</TableCell>
+                          <TableCell>{formatTime(p.lastSignOut)}</TableCell>
+                          <TableCell>
+                            {p.stillSignedIn ? (
+                              <span className="font-bold text-red-600">In building</span>
+                            ) : (
+                              'Left'
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {p.bookings.length === 0
+                              ? '—'
+                              : p.bookings.map(formatBooking).join(', ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="print:hidden">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Icon name="tablet" className="text-primary" />
+              Kiosk devices
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleRegisterDevice} className="flex flex-wrap gap-4 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="device-location">Location</Label>
+                <Select
+                  id="device-location"
+                  className="w-48"
+                  value={deviceLocationId}
+                  onChange={(e) => setDeviceLocationId(e.target.value)}
+                >
+                  {locations.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="device-name">Name</Label>
+                <Input
+                  id="device-name"
+                  className="w-56 h-10"
+                  placeholder="e.g. Reception tablet"
+                  value={deviceName}
+                  onChange={(e) => setDeviceName(e.target.value)}
+                  maxLength={100}
+                />
+              </div>
+              <Button size="sm" type="submit" disabled={registering || !deviceName.trim()}>
+                {registering ? 'Registering…' : 'Register device'}
+              </Button>
+            </form>
+            {newDeviceToken && (
+              <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-800 text-sm space-y-1">
+                <p className="font-medium text-amber-800 dark:text-amber-300">
+                  Enter this token on the tablet at /kiosk. It will not be shown again.
+                </p>
+                <code className="block break-all font-mono text-slate-900 dark:text-white">
+                  {newDeviceToken}
+                </code>
+              </div>
+            )}
+            {deviceError && <p className="text-sm text-red-600">{deviceError}</p>}
+            {devices.length === 0 ? (
+              <p className="text-sm text-slate-500">No kiosk devices registered.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Last seen</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {devices.map((d) => (
+                    <TableRow key={d.id}>
+                      <TableCell className="font-medium">{d.name}</TableCell>
+                      <TableCell>{d.locationName}</TableCell>
+                      <TableCell>
+                        {d.lastSeenAt ? new Date(d.lastSeenAt).toLocaleString('en-GB') : 'Never'}
+                      </TableCell>
+                      <TableCell>{d.active ? 'Active' : 'Revoked'}</TableCell>
+                      <TableCell className="text-right">
+                        {d.active && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={revokingId === d.id}
+                            onClick={() => handleRevokeDevice(d)}
+                          >
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  );
+};
@@ -16,7 +16,12 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { adminApi, type CreditSummary, type VoucherSummary } from '@/services/api';
+import {
+  adminApi,
+  type CreditSummary,
+  type MembershipHistoryItem,
+  type VoucherSummary,
+} from '@/services/api';
 import { cn } from '@/lib/utils';
 import { ProfileTab } from './components/ProfileTab';
 import { MembershipTab } from './components/MembershipTab';
@@ -59,6 +64,7 @@ interface FullPractitioner {
   nextOfKin: NextOfKin | null;
   documents: PractitionerDocument[];
   clinicalExecutor: ClinicalExecutor | null;
+  noShowCount: number;
 }
 
 export const PractitionerManagement: React.FC = () => {
@@ -78,6 +84,7 @@ export const PractitionerManagement: React.FC = () => {
     voucher: VoucherSummary;
   } | null>(null);
   const [creditsLoading, setCreditsLoading] = useState(false);
+  const [membershipHistory, setMembershipHistory] = useState<MembershipHistoryItem[] | null>(null);
   const [allocatingVoucher, setAllocatingVoucher] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const messageTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -214,12 +221,23 @@ export const PractitionerManagement: React.FC = () => {
     }
   }, []);
 
+  const fetchMembershipHistory = useCallback(async (practitionerId: string) => {
+    setMembershipHistory(null);
+    try {
+      const res = await adminApi.getMembershipHistory(practitionerId);
+      setMembershipHistory(res.data.success && res.data.data ? res.data.data : []);
+    } catch {
+      setMembershipHistory([]);
+    }
+  }, []);
+
   const handleSelectPractitioner = async (practitionerId: string) => {
     try {
       setDetailLoading(true);
       const [response] = await Promise.all([
         adminApi.getFullPractitioner(practitionerId),
         fetchCreditsForPractitioner(practitionerId),
+        fetchMembershipHistory(practitionerId),
       ]);
       if (response.data.success && response.data.data) {
         setSelectedPractitioner(response.data.data);
@@ -298,6 +316,7 @@ export const PractitionerManagement: React.FC = () => {
       const [updatedPractitioner] = await Promise.all([
         adminApi.getFullPractitioner(selectedPractitioner.id),
         fetchPractitioners(),
+        fetchMembershipHistory(selectedPractitioner.id),
       ]);
 
       if (updatedPractitioner.data.success && updatedPractitioner.data.data) {
@@ -582,6 +601,16 @@ export const PractitionerManagement: React.FC = () => {
                     {selectedPractitioner.firstName} {selectedPractitioner.lastName}
                   </CardTitle>
                   <CardDescription>{selectedPractitioner.email}</CardDescription>
+                  {selectedPractitioner.noShowCount > 0 && (
+                    <Badge
+                      variant="destructive"
+                      className="mt-2"
+                      title="Bookings completed without a kiosk sign-in"
+                    >
+                      {selectedPractitioner.noShowCount} no-show
+                      {selectedPractitioner.noShowCount === 1 ? '' : 's'}
+                    </Badge>
+                  )}
                 </div>
                 <Button variant="ghost" size="sm" onClick={() => setSelectedPractitioner(null)}>
                   <Icon name="x" size={18} />
@@ -624,6 +653,7 @@ export const PractitionerManagement: React.FC = () => {
                         onTypeChange={setMembershipType}
                         onAddonChange={setMarketingAddon}
                         onSave={handleSaveMembership}
+                        history={membershipHistory}
                       />
                     </TabsContent>
 
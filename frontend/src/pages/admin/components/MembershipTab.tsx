@@ -3,8 +3,32 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Select } from '@/components/ui/select-native';
 import { Checkbox } from '@/components/ui/checkbox-native';
+import type { MembershipHistoryItem } from '@/services/api';
 import { MembershipTabProps } from './types';
 
+const SOURCE_LABELS: Record<MembershipHistoryItem['source'], string> = {
+  plan_switch: 'Plan switch',
+  admin_edit: 'Admin edit',
+};
+
+const TYPE_LABELS: Record<'permanent' | 'ad_hoc', string> = {
+  permanent: 'Permanent',
+  ad_hoc: 'Ad Hoc',
+};
+
+const PLAN_LABELS: Record<'monthly' | 'ad_hoc', string> = {
+  monthly: 'monthly plan',
+  ad_hoc: 'ad-hoc plan',
+};
+
+function describeMembership(
+  type: MembershipHistoryItem['fromType'],
+  plan: MembershipHistoryItem['fromSubscriptionType']
+): string {
+  if (type == null) return 'No membership';
+  return plan ? `${TYPE_LABELS[type]} (${PLAN_LABELS[plan]})` : TYPE_LABELS[type];
+}
+
 export const MembershipTab: React.FC<MembershipTabProps> = ({
   membershipType,
   marketingAddon,
@@ -12,6 +36,7 @@ export const MembershipTab: React.FC<MembershipTabProps> = ({
   onTypeChange,
   onAddonChange,
   onSave,
+  history,
 }) => {
   return (
     <div className="space-y-4 pt-4">
@@ -42,6 +67,45 @@ export const MembershipTab: React.FC<MembershipTabProps> = ({
       <Button onClick={onSave} disabled={saving}>
         {saving ? 'Saving...' : 'Save Membership'}
       </Button>
+
+      <div className="space-y-2 border-t border-slate-200 dark:border-slate-700 pt-4">
+        <h4 className="text-sm font-medium text-slate-900 dark:text-white">Membership History</h4>
+        {history === null ? (
+          <p className="text-sm text-slate-500">Loading history…</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-slate-500">No recorded membership changes.</p>
+        ) : (
+          <ol className="space-y-2 text-sm">
+            {history.map((item) => {
+              const amounts = [
+                item.amountCharged > 0 && `charged £${item.amountCharged.toFixed(2)}`,
+                item.creditCarried > 0 && `credit carried £${item.creditCarried.toFixed(2)}`,
+              ].filter(Boolean);
+              return (
+                <li
+                  key={item.id}
+                  className="border-l-2 border-slate-200 dark:border-slate-700 pl-3"
+                >
+                  <p className="font-medium text-slate-900 dark:text-white">
+                    {SOURCE_LABELS[item.source]} by {item.changedByName ?? 'System'}
+                  </p>
+                  <p className="text-xs text-slate-600 dark:text-slate-400">
+                    {describeMembership(item.fromType, item.fromSubscriptionType)} →{' '}
+                    {describeMembership(item.toType, item.toSubscriptionType)}
+                  </p>
+                  {item.note && (
+                    <p className="text-xs text-amber-700 dark:text-amber-400">{item.note}</p>
+                  )}
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {new Date(item.createdAt).toLocaleString('en-GB')}
+                    {amounts.length > 0 && ` · ${amounts.join(' · ')}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
     </div>
   );
 };
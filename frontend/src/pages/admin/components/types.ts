@@ -1,4 +1,5 @@
 import { UserStatus, PractitionerDocument } from '@/types';
+import type { MembershipHistoryItem } from '@/services/api';
 
 // Defining shared interfaces for the sub-components
 export interface ProfileTabProps {
@@ -20,6 +21,8 @@ export interface MembershipTabProps {
     onTypeChange: (type: 'permanent' | 'ad_hoc' | '') => void;
     onAddonChange: (addon: boolean) => void;
     onSave: () => void;
+    /** Plan switches and admin edits, most recent first; null while loading. */
+    history: MembershipHistoryItem[] | null;
 }
 
 export interface NextOfKinTabProps {
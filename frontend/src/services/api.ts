@@ -155,8 +155,74 @@ export interface BookingItem {
   totalPrice: number;
   status: string;
   bookingType: string;
+  noShow: boolean;
 }
 
+/** A booking as recorded in one audit event (times HH:MM, amounts as decimal strings). */
+export interface BookingSnapshot {
+  roomId: string;
+  roomName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  status: string;
+  totalPrice: string;
+  creditUsed: string;
+  voucherHoursUsed: string;
+}
+
+/** One entry in a booking's change history: who created, changed or cancelled it. */
+export interface BookingHistoryEvent {
+  id: string;
+  eventType: 'created' | 'updated' | 'cancelled';
+  actorUserId: string | null;
+  actorName: string | null;
+  actorRole: string | null;
+  before: BookingSnapshot | null;
+  after: BookingSnapshot | null;
+  priceDelta: number;
+  creditDelta: number;
+  createdAt: string;
+}
+
+export type CalendarView = 'week' | 'month';
+
+/** Week or month calendar: rooms, bookings and each day's occupancy. */
+export interface RangeCalendar {
+  fromDate: string;
+  toDate: string;
+  rooms: Array<{ id: string; name: string; locationName: string }>;
+  bookings: Array<{
+    id?: string;
+    roomId: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    bookerName?: string;
+    userId?: string;
+  }>;
+  occupancy: Array<{
+    date: string;
+    bookedHours: number;
+    capacityHours: number;
+    occupancyPercent: number;
+  }>;
+}
+
+/** Refund the cancellation policy gives if a booking is cancelled now. */
+export interface CancellationQuote {
+  noticeHours: number;
+  refundPercent: number;
+  refundableAmount: number;
+  refundAmount: number;
+  refundableVoucherHours: number;
+  voucherHoursRefund: number;
+  /** Part of the refund that can go back to the card the booking was paid with. */
+  cardRefundableAmount: number;
+}
+
+export type RefundMethod = 'credit' | 'card';
+
 export interface BookingSlot {
   startTime: string;
   endTime: string;
@@ -167,10 +233,46 @@ export interface RoomItem {
   id: string;
   name: string;
   roomNumber: number;
+  capacity: number | null;
+  amenities: string[];
   active: boolean;
   locationName: string;
 }
 
+/** Constraints for the cross-room slot search; optional filters are ignored when omitted. */
+export interface SlotSearchParams {
+  locations?: string[];
+  fromDate: string;
+  toDate: string;
+  /** 0 = Sunday. */
+  weekdays?: number[];
+  earliestStart?: string;
+  latestEnd?: string;
+  durationMinutes: number;
+  maxPrice?: number;
+  sort?: 'soonest' | 'cheapest';
+  limit?: number;
+}
+
+export interface SlotSearchResult {
+  roomId: string;
+  roomName: string;
+  locationName: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  price: number;
+}
+
+export interface LocationItem {
+  id: string;
+  name: string;
+  address: string | null;
+  openingHours: Array<{ weekday: number; openTime: string; closeTime: string }> | null;
+  roomCount: number;
+  active: boolean;
+}
+
 export interface CreditSummary {
   currentMonth: {
     monthYear: string;
@@ -219,11 +321,235 @@ export interface InvoiceItem {
   invoice_pdf: string | null;
 }
 
+export interface WaitlistEntryItem {
+  id: string;
+  roomId: string;
+  roomName: string;
+  locationName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+  offerToken?: string;
+  offerExpiresAt?: string;
+  bookingId?: string;
+  createdAt: string;
+}
+
+export interface KioskStatus {
+  hasPin: boolean;
+  hasQrCode: boolean;
+  signedIn: { locationName: string; deviceName: string | null; signedInAt: string } | null;
+}
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt: string | null;
+  lastAccessedAt: string | null;
+}
+
+/** Subscription URL for a calendar feed token (the token is only returned when issued). */
+export function calendarFeedUrl(token: string): string {
+  return new URL(
+    `${API_URL}/practitioner/calendar-feed/${token}.ics`,
+    window.location.origin
+  ).toString();
+}
+
+export interface KioskDeviceItem {
+  id: string;
+  locationId: string;
+  locationName: string;
+  name: string;
+  active: boolean;
+  lastSeenAt: string | null;
+  createdAt: string;
+}
+
+export interface KioskBookingSummary {
+  id: string;
+  roomName: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface KioskActionResult {
+  action: 'sign_in' | 'sign_out';
+  actionTime: string;
+  firstName: string;
+  lastName: string;
+  booking: KioskBookingSummary | null;
+}
+
+export interface PresentPerson {
+  userId: string;
+  name: string;
+  phone: string | null;
+  locationId: string;
+  locationName: string;
+  signedInAt: string;
+}
+
+export interface AttendanceReport {
+  date: string;
+  locationId: string;
+  locationName: string;
+  generatedAt: string;
+  people: Array<{
+    userId: string;
+    name: string;
+    phone: string | null;
+    events: Array<{ action: 'sign_in' | 'sign_out'; time: string; method: string | null }>;
+    firstSignIn: string | null;
+    lastSignOut: string | null;
+    stillSignedIn: boolean;
+    bookings: KioskBookingSummary[];
+  }>;
+}
+
+/** A pay-the-difference payment returned because its booking could not be made. */
+export interface PaymentIncidentItem {
+  id: string;
+  userId: string;
+  practitionerName: string;
+  practitionerEmail: string;
+  stripePaymentIntentId: string;
+  paymentType: string;
+  amount: string;
+  reason: string;
+  slots: Array<{
+    roomId: string;
+    roomName: string;
+    locationName: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+  }>;
+  resolution: 'pending' | 'refunded' | 'credited' | 'refund_failed';
+  stripeRefundId: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed' | 'unhandled';
+
+/** A stored Stripe webhook event (admin). */
+export interface WebhookEventItem {
+  id: string;
+  type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  processedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SubscriptionChangeStatus = 'pending' | 'applied' | 'rejected' | 'reverted';
+
+/** A confirmed booking after a requested cancellation date or within a requested pause. */
+export interface FlaggedBooking {
+  id: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  roomName: string;
+  locationName: string;
+  status: string;
+}
+
+/** A monthly subscriber's request to cancel at period end or pause billing. */
+export interface SubscriptionChangeRequest {
+  id: string;
+  userId: string;
+  kind: 'cancel' | 'pause';
+  status: SubscriptionChangeStatus;
+  /** cancel: day the account is suspended; pause: first paused day. */
+  effectiveDate: string;
+  /** pause: first day after the pause. */
+  resumeDate: string | null;
+  flaggedBookings: FlaggedBooking[];
+  reviewedAt: string | null;
+  reviewerName: string | null;
+  adminNote: string | null;
+  createdAt: string;
+}
+
+export interface AdminSubscriptionChangeRequest extends SubscriptionChangeRequest {
+  practitionerName: string;
+  practitionerEmail: string;
+}
+
+export type SubscriptionPlan = 'ad_hoc' | 'monthly';
+
+/** What switching between the ad-hoc and monthly plans costs today (GBP). */
+export interface PlanSwitchQuote {
+  fromPlan: SubscriptionPlan;
+  toPlan: SubscriptionPlan;
+  switchDate: string;
+  /** The new plan's first payment before carried credit. */
+  newPlanAmount: number;
+  /** Monthly: the prorated rest of this month and the first full month. */
+  currentMonthAmount: number | null;
+  nextMonthAmount: number | null;
+  /** Unused credit of the old plan put towards the first payment. */
+  carriedCredit: number;
+  amountDue: number;
+  /** Unused credit of the old plan that stays until it expires. */
+  keptCredit: number;
+}
+
+/** A membership type or plan change (admin). */
+export interface MembershipHistoryItem {
+  id: string;
+  source: 'plan_switch' | 'admin_edit';
+  fromType: 'permanent' | 'ad_hoc' | null;
+  toType: 'permanent' | 'ad_hoc' | null;
+  fromSubscriptionType: SubscriptionPlan | null;
+  toSubscriptionType: SubscriptionPlan | null;
+  amountCharged: number;
+  creditCarried: number;
+  changedByName: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface SelfOverlapBooking {
+  id: string;
+  roomName: string;
+  locationName: string;
+  startTime: string;
+  endTime: string;
+  bookingType: string;
+}
+
+/** Two confirmed bookings of one practitioner in different rooms at the same time (admin). */
+export interface SelfOverlapItem {
+  userId: string;
+  practitionerName: string;
+  bookingDate: string;
+  first: SelfOverlapBooking;
+  second: SelfOverlapBooking;
+}
+
 /** Response type for successful createBooking calls (2xx status codes). */
 export type CreateBookingResponse =
   | { success: true; booking: { id: string } }
   | { success: false; error?: string };
 
+/** One room/date/time in a batch booking request. */
+export type BatchBookingItem = {
+  roomId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+};
+
+/** Response type for successful createBookingBatch calls; 402 is as for createBooking. */
+export type CreateBookingBatchResponse =
+  | { success: true; bookings: Array<{ id: string }> }
+  | { success: false; error?: string };
+
 /** Error response payload for 402 Payment Required (appears in AxiosError.response.data). */
 export type CreateBookingPaymentRequiredError = {
       success: false;
@@ -249,7 +575,13 @@ export const practitionerApi = {
   },
 
   // Bookings (PR 12) — backend returns { success, bookings } / { success, rooms } / etc.
-  getRooms: (location?: 'Pimlico' | 'Kensington', signal?: AbortSignal) => {
+  getLocations: (signal?: AbortSignal) => {
+    return api.get<{ success: boolean; locations: LocationItem[] }>('/practitioner/locations', {
+      signal,
+    });
+  },
+
+  getRooms: (location?: string, signal?: AbortSignal) => {
     const params = location ? { location } : {};
     return api.get<{ success: boolean; rooms: RoomItem[] }>('/practitioner/rooms', {
       params,
@@ -268,9 +600,10 @@ export const practitionerApi = {
   },
 
   getBookingById: (id: string, signal?: AbortSignal) => {
-    return api.get<{ success: boolean; booking: BookingItem }>(`/practitioner/bookings/${id}`, {
-      signal,
-    });
+    return api.get<{ success: boolean; booking: BookingItem; history: BookingHistoryEvent[] }>(
+      `/practitioner/bookings/${id}`,
+      { signal }
+    );
   },
 
   getBookingAvailability: (roomId: string, date: string, signal?: AbortSignal) => {
@@ -283,7 +616,7 @@ export const practitionerApi = {
     );
   },
 
-  getCalendar: (location: 'Pimlico' | 'Kensington', date: string, signal?: AbortSignal) => {
+  getCalendar: (location: string, date: string, signal?: AbortSignal) => {
     return api.get<{
       success: boolean;
       rooms: Array<{ id: string; name: string }>;
@@ -294,6 +627,13 @@ export const practitionerApi = {
         endTime: string;
         bookerName?: string;
       }>;
+      holds?: Array<{
+        roomId: string;
+        startTime: string;
+        endTime: string;
+        userId: string;
+        expiresAt: string;
+      }>;
     }>('/practitioner/bookings/calendar', {
       params: { location, date },
       signal,
@@ -329,6 +669,23 @@ export const practitionerApi = {
     return api.post<CreateBookingResponse>('/practitioner/bookings', data);
   },
 
+  /** Free slots across all rooms matching the constraints, ranked. */
+  searchSlots: (params: SlotSearchParams, signal?: AbortSignal) => {
+    return api.post<{ success: boolean; slots: SlotSearchResult[]; error?: string }>(
+      '/practitioner/bookings/search',
+      params,
+      { signal }
+    );
+  },
+
+  /** Book several slots at once, all or none, with at most one combined payment (402). */
+  createBookingBatch: (data: {
+    items: BatchBookingItem[];
+    bookingType?: 'permanent_recurring' | 'ad_hoc';
+  }) => {
+    return api.post<CreateBookingBatchResponse>('/practitioner/bookings/batch', data);
+  },
+
   updateBooking: (
     id: string,
     data: { roomId?: string; bookingDate?: string; startTime?: string; endTime?: string }
@@ -345,8 +702,41 @@ export const practitionerApi = {
     >(`/practitioner/bookings/${id}`, data);
   },
 
-  cancelBooking: (id: string) => {
-    return api.delete<ApiResponse<{ message?: string }>>(`/practitioner/bookings/${id}`);
+  getCancellationQuote: (id: string, signal?: AbortSignal) => {
+    return api.get<{ success: boolean; quote: CancellationQuote; error?: string }>(
+      `/practitioner/bookings/${id}/cancellation-quote`,
+      { signal }
+    );
+  },
+
+  /** waiveFee is honoured for admins only (full refund regardless of notice). */
+  cancelBooking: (id: string, options?: { waiveFee?: boolean; refundMethod?: RefundMethod }) => {
+    return api.delete<ApiResponse<{ message?: string }>>(`/practitioner/bookings/${id}`, {
+      data: options,
+    });
+  },
+
+  getWaitlist: (signal?: AbortSignal) => {
+    return api.get<{ success: boolean; waitlist: WaitlistEntryItem[] }>(
+      '/practitioner/bookings/waitlist',
+      { signal }
+    );
+  },
+
+  joinWaitlist: (data: { roomId: string; date: string; startTime: string; endTime: string }) => {
+    return api.post<{ success: boolean; entry?: WaitlistEntryItem; error?: string }>(
+      '/practitioner/bookings/waitlist',
+      data
+    );
+  },
+
+  leaveWaitlist: (id: string) => {
+    return api.delete<ApiResponse<{ message?: string }>>(`/practitioner/bookings/waitlist/${id}`);
+  },
+
+  /** Claim a waitlist offer; responds like createBooking (402 when payment is required). */
+  claimWaitlistOffer: (token: string) => {
+    return api.post<CreateBookingResponse>('/practitioner/bookings/waitlist/claim', { token });
   },
 
   getCredits: (signal?: AbortSignal) => {
@@ -367,9 +757,15 @@ export const practitionerApi = {
         subscriptionEndDate: string | null;
         suspensionDate: string | null;
         terminationRequestedAt: string | null;
+        paymentFailedAt: string | null;
+        paymentUpdateUrl: string | null;
+        pausedFrom: string | null;
+        pausedUntil: string | null;
       };
       monthlyPriceGbp?: number;
       permanentSlots?: PermanentSlot[];
+      changeRequest?: SubscriptionChangeRequest | null;
+      maxPauseMonths?: number;
     }>('/practitioner/subscriptions/status', { signal });
   },
 
@@ -401,6 +797,82 @@ export const practitionerApi = {
     }>('/practitioner/subscriptions/terminate', terminationDate ? { terminationDate } : {});
   },
 
+  /** Cancel the monthly subscription at the end of the current billing period. */
+  cancelMonthlySubscription: () => {
+    return api.post<{
+      success: boolean;
+      error?: string;
+      changeRequest?: SubscriptionChangeRequest;
+    }>('/practitioner/subscriptions/monthly/cancel');
+  },
+
+  /** Pause monthly billing from the end of the current billing period. */
+  pauseMonthlySubscription: (months: number) => {
+    return api.post<{
+      success: boolean;
+      error?: string;
+      changeRequest?: SubscriptionChangeRequest;
+    }>('/practitioner/subscriptions/monthly/pause', { months });
+  },
+
+  getPlanSwitchQuote: (plan: SubscriptionPlan, signal?: AbortSignal) => {
+    return api.get<{ success: boolean; error?: string; quote?: PlanSwitchQuote }>(
+      '/practitioner/subscriptions/switch-quote',
+      { params: { plan }, signal }
+    );
+  },
+
+  /** Monthly returns a Checkout URL; ad-hoc a payment to confirm, unless credit covers it. */
+  switchPlan: (plan: SubscriptionPlan) => {
+    return api.post<{
+      success: boolean;
+      error?: string;
+      status?: 'checkout' | 'payment' | 'completed';
+      quote?: PlanSwitchQuote;
+      checkoutUrl?: string;
+      clientSecret?: string;
+      paymentIntentId?: string;
+    }>('/practitioner/subscriptions/switch', { plan });
+  },
+
+  // Kiosk sign-in: status and credentials (new PIN / QR code values are only returned once)
+  getKioskStatus: (signal?: AbortSignal) => {
+    return api.get<ApiResponse<KioskStatus>>('/practitioner/kiosk', { signal });
+  },
+
+  regenerateKioskPin: () => {
+    return api.post<ApiResponse<{ pin: string }>>('/practitioner/kiosk/pin');
+  },
+
+  regenerateKioskQrCode: () => {
+    return api.post<ApiResponse<{ qrCode: string }>>('/practitioner/kiosk/qr-code');
+  },
+
+  // Personal iCalendar feed
+  getRangeCalendar: (
+    view: CalendarView,
+    date: string,
+    location?: string,
+    signal?: AbortSignal
+  ) => {
+    return api.get<{ success: boolean } & RangeCalendar>('/practitioner/bookings/calendar/range', {
+      params: { view, date, location },
+      signal,
+    });
+  },
+
+  getCalendarFeedStatus: (signal?: AbortSignal) => {
+    return api.get<ApiResponse<CalendarFeedStatus>>('/practitioner/calendar-feed', { signal });
+  },
+
+  regenerateCalendarFeed: () => {
+    return api.post<ApiResponse<{ token: string }>>('/practitioner/calendar-feed');
+  },
+
+  revokeCalendarFeed: () => {
+    return api.delete<ApiResponse<void>>('/practitioner/calendar-feed');
+  },
+
   getInvoices: (signal?: AbortSignal) => {
     return api.get<{
       success: boolean;
@@ -416,7 +888,12 @@ export const practitionerApi = {
         date: string;
         description: string;
         amount: number;
-        type: 'credit_grant' | 'booking' | 'voucher_allocation' | 'stripe_payment';
+        type:
+          | 'credit_grant'
+          | 'booking'
+          | 'voucher_allocation'
+          | 'stripe_payment'
+          | 'stripe_refund';
       }>;
     }>('/practitioner/transaction-history', { params, signal });
   },
@@ -436,6 +913,13 @@ export const adminApi = {
           totalSlotHours: number;
           bookedHours: number;
           occupancyPercent: number;
+          byLocation: Array<{
+            locationId: string;
+            locationName: string;
+            totalSlotHours: number;
+            bookedHours: number;
+            occupancyPercent: number;
+          }>;
         };
         revenueCurrentMonthGbp: number;
       }>
@@ -527,6 +1011,19 @@ export const adminApi = {
     >(`/admin/practitioners/${userId}/membership`, data);
   },
 
+  getMembershipHistory: (userId: string, signal?: AbortSignal) => {
+    try {
+      validateUserId(userId);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    return api.get<ApiResponse<MembershipHistoryItem[]>>(
+      `/admin/practitioners/${userId}/membership-history`,
+      { signal }
+    );
+  },
+
   // Get full practitioner details (documents, next of kin, clinical executor)
   getFullPractitioner: (userId: string) => {
     try {
@@ -558,6 +1055,7 @@ export const adminApi = {
           createdAt: string;
         }>;
         clinicalExecutor: ClinicalExecutor | null;
+        noShowCount: number;
       }>
     >(`/admin/practitioners/${userId}/full`);
   },
@@ -760,6 +1258,193 @@ export const adminApi = {
       data
     );
   },
+
+  getLocations: (signal?: AbortSignal) => {
+    return api.get<ApiResponse<LocationItem[]>>('/admin/locations', { signal });
+  },
+
+  // Kiosk devices and building attendance
+  getKioskDevices: (signal?: AbortSignal) => {
+    return api.get<ApiResponse<KioskDeviceItem[]>>('/admin/kiosk/devices', { signal });
+  },
+
+  registerKioskDevice: (data: { locationId: string; name: string }) => {
+    return api.post<ApiResponse<{ id: string; token: string }>>('/admin/kiosk/devices', data);
+  },
+
+  revokeKioskDevice: (deviceId: string) => {
+    return api.delete<ApiResponse<void>>(`/admin/kiosk/devices/${deviceId}`);
+  },
+
+  getPeopleInBuilding: (locationId?: string, signal?: AbortSignal) => {
+    return api.get<ApiResponse<PresentPerson[]>>('/admin/kiosk/present', {
+      params: locationId ? { locationId } : {},
+      signal,
+    });
+  },
+
+  getAttendanceReport: (locationId: string, date: string, signal?: AbortSignal) => {
+    return api.get<ApiResponse<AttendanceReport>>('/admin/kiosk/attendance', {
+      params: { locationId, date },
+      signal,
+    });
+  },
+
+  getPaymentIncidents: (signal?: AbortSignal) => {
+    return api.get<ApiResponse<PaymentIncidentItem[]>>('/admin/payment-incidents', { signal });
+  },
+
+  retryPaymentIncidentRefund: (incidentId: string) => {
+    return api.post<ApiResponse<PaymentIncidentItem>>(
+      `/admin/payment-incidents/${incidentId}/retry-refund`
+    );
+  },
+
+  getSelfOverlaps: (signal?: AbortSignal) => {
+    return api.get<ApiResponse<SelfOverlapItem[]>>('/admin/bookings/self-overlaps', { signal });
+  },
+
+  /** Omit status for the events needing attention (failed, unhandled, stuck processing). */
+  getWebhookEvents: (status?: WebhookEventStatus, signal?: AbortSignal) => {
+    return api.get<ApiResponse<WebhookEventItem[]>>('/admin/webhook-events', {
+      params: { status },
+      signal,
+    });
+  },
+
+  replayWebhookEvent: (eventId: string) => {
+    return api.post<ApiResponse<{ id: string; status: WebhookEventStatus }>>(
+      `/admin/webhook-events/${encodeURIComponent(eventId)}/replay`
+    );
+  },
+
+  getSubscriptionRequests: (signal?: AbortSignal) => {
+    return api.get<ApiResponse<AdminSubscriptionChangeRequest[]>>('/admin/subscription-requests', {
+      signal,
+    });
+  },
+
+  approveSubscriptionRequest: (requestId: string, note?: string) => {
+    return api.post<ApiResponse<void>>(`/admin/subscription-requests/${requestId}/approve`, {
+      note,
+    });
+  },
+
+  /** Rejects a pending request, or reverts an applied one. */
+  rejectSubscriptionRequest: (requestId: string, note?: string) => {
+    return api.post<ApiResponse<void>>(`/admin/subscription-requests/${requestId}/reject`, {
+      note,
+    });
+  },
+};
+
+/** A booking change pushed to open calendars. */
+export interface BookingChangeEvent {
+  type: 'created' | 'updated' | 'cancelled';
+  bookingId: string;
+  roomId: string;
+  locationName: string;
+  date: string;
+}
+
+/** Changes to follow: one location (all when omitted) between from and to (YYYY-MM-DD). */
+export interface CalendarStreamFilter {
+  location?: string;
+  from?: string;
+  to?: string;
+}
+
+const CALENDAR_STREAM_RETRY_MS = 5000;
+
+/**
+ * Follow booking changes over the calendar's server-sent events stream. Uses fetch rather than
+ * EventSource so the access token can go in the Authorization header, and reconnects with the
+ * current token whenever the stream drops.
+ * @returns Function that closes the stream.
+ */
+export function subscribeToCalendarChanges(
+  filter: CalendarStreamFilter,
+  onChange: (event: BookingChangeEvent) => void
+): () => void {
+  const controller = new AbortController();
+  const params = new URLSearchParams();
+  if (filter.location) params.set('location', filter.location);
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+
+  const follow = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const token = localStorage.getItem('accessToken');
+        const res = await fetch(`${API_URL}/practitioner/bookings/calendar/stream?${params}`, {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+          signal: controller.signal,
+        });
+        if (res.ok && res.body) {
+          const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = '';
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += value;
+            const messages = buffer.split('\n\n');
+            buffer = messages.pop() ?? '';
+            for (const message of messages) {
+              const data = message
+                .split('\n')
+                .filter((line) => line.startsWith('data: '))
+                .map((line) => line.slice(6))
+                .join('\n');
+              if (data) onChange(JSON.parse(data) as BookingChangeEvent);
+            }
+          }
+        }
+      } catch {
+        // Stream dropped or was closed; reconnect below unless closed
+      }
+      if (controller.signal.aborted) return;
+      await new Promise((resolve) => setTimeout(resolve, CALENDAR_STREAM_RETRY_MS));
+    }
+  };
+  follow();
+  return () => controller.abort();
+}
+
+/**
+ * Front-desk kiosk client. Authenticates with the device token issued by an admin (stored on the
+ * tablet) instead of a user session, so it does not share the auth interceptors above.
+ */
+export const KIOSK_TOKEN_STORAGE_KEY = 'kioskDeviceToken';
+
+const kioskClient = axios.create({
+  baseURL: API_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+kioskClient.interceptors.request.use((config) => {
+  const token = localStorage.getItem(KIOSK_TOKEN_STORAGE_KEY);
+  if (token) {
+    config.headers['X-Kiosk-Token'] = token;
+  }
+  return config;
+});
+
+export const kioskApi = {
+  getDevice: (signal?: AbortSignal) => {
+    return kioskClient.get<
+      ApiResponse<{ id: string; locationId: string; locationName: string; name: string }>
+    >('/kiosk/device', { signal });
+  },
+
+  signIn: (credential: { pin: string } | { qrCode: string }) => {
+    return kioskClient.post<ApiResponse<KioskActionResult>>('/kiosk/sign-in', credential);
+  },
+
+  signOut: (credential: { pin: string } | { qrCode: string }) => {
+    return kioskClient.post<ApiResponse<KioskActionResult>>('/kiosk/sign-out', credential);
+  },
 };
 
 export default api;
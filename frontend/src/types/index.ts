@@ -1,6 +1,7 @@
 // User types
 export type UserRole = 'practitioner' | 'admin';
 export type UserStatus = 'pending' | 'active' | 'suspended' | 'rejected';
+export type RefundPreference = 'card' | 'credit';
 
 export interface NextOfKin {
   name: string;
@@ -41,6 +42,7 @@ export interface User {
   role: UserRole;
   status: UserStatus;
   nextOfKin?: NextOfKin; // Note: This might need to match backend response exactly, usually it's null or object
+  refundPreference?: RefundPreference;
   emailVerifiedAt?: Date;
   createdAt: Date;
   updatedAt: Date;